@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import {
   StyleSheet,
   View,
@@ -12,6 +12,8 @@ import {
   ImageSourcePropType,
   Modal,
   Platform,
+  NativeSyntheticEvent,
+  NativeScrollEvent,
 } from "react-native";
 import { useTheme } from "@react-navigation/native";
 import { useRouter } from "expo-router";
@@ -20,7 +22,17 @@ import { IconSymbol } from "@/components/IconSymbol";
 import { colors } from "@/styles/commonStyles";
 import { useAuth } from "@/contexts/AuthContext";
 import { useLanguage, Language } from "@/contexts/LanguageContext";
-import { authenticatedGet } from "@/utils/api";
+import { authenticatedGet, authenticatedPost } from "@/utils/api";
+import { Map, MapBounds, MapMarker } from "@/components/Map";
+import { AmenityPicker } from "@/components/AmenityPicker";
+import { useAmenities } from "@/utils/amenities";
+import { FavoriteButton } from "@/components/FavoriteButton";
+import { useFavoriteIds } from "@/utils/favorites";
+import { useUnseenMatchCount } from "@/utils/savedSearches";
+import { recordSearch } from "@/utils/recommendations";
+import { ForYouSection } from "@/components/ForYouSection";
+import { ListingType, LISTING_TYPES, LISTING_TYPE_LABEL_KEYS } from "@/utils/listingTerms";
+import { Facing, FACINGS, FACING_LABEL_KEYS, FloorLevel, FLOOR_LEVELS, FLOOR_LEVEL_LABEL_KEYS } from "@/utils/unitDetails";
 
 // Helper to resolve image sources
 function resolveImageSource(source: string | number | ImageSourcePropType | undefined): ImageSourcePropType {
@@ -37,12 +49,51 @@ interface Property {
   size: number;
   district: string;
   equipment: string;
+  amenities: string[];
   photos: string[];
   virtualTourUrl?: string;
+  address?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
   ownerId: string;
   createdAt: string;
+  priceReducedFrom?: string | null;
 }
 
+interface PropertyPage {
+  items: Property[];
+  nextCursor: string | null;
+}
+
+const PAGE_SIZE = 20;
+// Map mode shows a single page of everything in view, so ask for the server maximum
+const MAP_RESULT_LIMIT = 50;
+const SEARCH_DEBOUNCE_MS = 300;
+// Filters are remembered for recommendations once the user settles on them
+const SEARCH_SIGNAL_DELAY_MS = 3000;
+
+// Sort options supported by GET /api/properties, with their translation keys
+const SORT_OPTIONS = [
+  { value: "relevance", labelKey: "sortRelevance" },
+  { value: "newest", labelKey: "sortNewest" },
+  { value: "price_asc", labelKey: "sortPriceLowHigh" },
+  { value: "price_desc", labelKey: "sortPriceHighLow" },
+  { value: "size_desc", labelKey: "sortSizeLargeSmall" },
+  { value: "size_asc", labelKey: "sortSizeSmallLarge" },
+  { value: "price_per_sqft_asc", labelKey: "sortPricePerSqftLowHigh" },
+  { value: "price_per_sqft_desc", labelKey: "sortPricePerSqftHighLow" },
+  { value: "saleable_area_desc", labelKey: "sortSaleableAreaLargeSmall" },
+  { value: "saleable_area_asc", labelKey: "sortSaleableAreaSmallLarge" },
+  { value: "bedrooms_desc", labelKey: "sortBedroomsMostFewest" },
+  { value: "bedrooms_asc", labelKey: "sortBedroomsFewestMost" },
+  { value: "building_newest", labelKey: "sortBuildingNewest" },
+  { value: "building_oldest", labelKey: "sortBuildingOldest" },
+];
+
+// "At least" choices for the bedroom and bathroom filters
+const MIN_BEDROOM_OPTIONS = [1, 2, 3, 4];
+const MIN_BATHROOM_OPTIONS = [1, 2, 3];
+
 // District keys for translation
 const DISTRICT_KEYS = [
   "allDistricts",
@@ -98,50 +149,210 @@ export default function HomeScreen() {
   const [properties, setProperties] = useState<Property[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedSearchQuery, setDebouncedSearchQuery] = useState("");
   const [selectedDistrictKey, setSelectedDistrictKey] = useState("allDistricts");
   const [showFilters, setShowFilters] = useState(false);
   const [showLanguageMenu, setShowLanguageMenu] = useState(false);
+  const [savedSearchName, setSavedSearchName] = useState("");
+  const [savingSearch, setSavingSearch] = useState(false);
+  const [saveSearchMessage, setSaveSearchMessage] = useState<string | null>(null);
   const [minPrice, setMinPrice] = useState("");
   const [maxPrice, setMaxPrice] = useState("");
   const [minSize, setMinSize] = useState("");
   const [maxSize, setMaxSize] = useState("");
+  const [sortOption, setSortOption] = useState("relevance");
+  const [selectedAmenityIds, setSelectedAmenityIds] = useState<string[]>([]);
+  const [priceReducedOnly, setPriceReducedOnly] = useState(false);
+  const [minSaleableArea, setMinSaleableArea] = useState("");
+  const [maxSaleableArea, setMaxSaleableArea] = useState("");
+  const [minBedrooms, setMinBedrooms] = useState<number | null>(null);
+  const [minBathrooms, setMinBathrooms] = useState<number | null>(null);
+  const [floorLevel, setFloorLevel] = useState<FloorLevel | null>(null);
+  const [facing, setFacing] = useState<Facing | null>(null);
+  const [maxBuildingAge, setMaxBuildingAge] = useState("");
+  const [listingType, setListingType] = useState<ListingType | null>(null);
+  const [maxLeaseMonths, setMaxLeaseMonths] = useState("");
+  const [maxDepositMonths, setMaxDepositMonths] = useState("");
+  const [availableBy, setAvailableBy] = useState("");
+  const [feesIncludedOnly, setFeesIncludedOnly] = useState(false);
+  const [noCommissionOnly, setNoCommissionOnly] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  // Responses to superseded queries are dropped, and the cursor only pages the query it came from
+  const latestRequestId = useRef(0);
+  const cursorQuery = useRef<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [viewMode, setViewMode] = useState<"list" | "map">("list");
+  const [mapBounds, setMapBounds] = useState<MapBounds | null>(null);
+  const [selectedMapProperty, setSelectedMapProperty] = useState<Property | null>(null);
+  const amenities = useAmenities();
+  const { favoriteIds, toggleFavorite } = useFavoriteIds();
+  const unseenMatchCount = useUnseenMatchCount();
+
+  // Wait for the user to stop typing before querying the server
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setDebouncedSearchQuery(searchQuery.trim());
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  useEffect(() => {
+    const selectedDistrictValue = DISTRICT_API_VALUES[selectedDistrictKey];
+    const signal = {
+      listingType,
+      district: selectedDistrictValue !== "All Districts" ? selectedDistrictValue : null,
+      minPrice: minPrice && !isNaN(Number(minPrice)) ? Number(minPrice) : null,
+      maxPrice: maxPrice && !isNaN(Number(maxPrice)) ? Number(maxPrice) : null,
+    };
+    if (!signal.listingType && !signal.district && signal.minPrice === null && signal.maxPrice === null) return;
+
+    const timeout = setTimeout(() => {
+      recordSearch(signal);
+    }, SEARCH_SIGNAL_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [selectedDistrictKey, listingType, minPrice, maxPrice]);
+
+  const buildQueryParams = useCallback(() => {
+    const params = new URLSearchParams();
+    if (debouncedSearchQuery) {
+      params.append("q", debouncedSearchQuery);
+    }
+    const selectedDistrictValue = DISTRICT_API_VALUES[selectedDistrictKey];
+    if (selectedDistrictValue !== "All Districts") {
+      params.append("district", selectedDistrictValue);
+    }
+    if (minPrice) {
+      params.append("minPrice", minPrice);
+    }
+    if (maxPrice) {
+      params.append("maxPrice", maxPrice);
+    }
+    if (minSize) {
+      params.append("minSize", minSize);
+    }
+    if (maxSize) {
+      params.append("maxSize", maxSize);
+    }
+    if (selectedAmenityIds.length > 0) {
+      params.append("amenities", selectedAmenityIds.join(","));
+    }
+    if (priceReducedOnly) {
+      params.append("priceReduced", "true");
+    }
+    if (minSaleableArea) {
+      params.append("minSaleableArea", minSaleableArea);
+    }
+    if (maxSaleableArea) {
+      params.append("maxSaleableArea", maxSaleableArea);
+    }
+    if (minBedrooms !== null) {
+      params.append("minBedrooms", String(minBedrooms));
+    }
+    if (minBathrooms !== null) {
+      params.append("minBathrooms", String(minBathrooms));
+    }
+    if (floorLevel) {
+      params.append("floorLevel", floorLevel);
+    }
+    if (facing) {
+      params.append("facing", facing);
+    }
+    if (maxBuildingAge) {
+      params.append("maxBuildingAge", maxBuildingAge);
+    }
+    if (listingType) {
+      params.append("listingType", listingType);
+    }
+    // Lease length and deposit only apply to rentals
+    if (listingType !== "sale") {
+      if (maxLeaseMonths) {
+        params.append("maxLeaseMonths", maxLeaseMonths);
+      }
+      if (maxDepositMonths) {
+        params.append("maxDepositMonths", maxDepositMonths);
+      }
+    }
+    // Wait for a complete date before filtering on it
+    if (/^\d{4}-\d{2}-\d{2}$/.test(availableBy)) {
+      params.append("availableBy", availableBy);
+    }
+    if (feesIncludedOnly) {
+      params.append("feesIncluded", "true");
+    }
+    if (noCommissionOnly) {
+      params.append("commissionApplies", "false");
+    }
+    params.append("sort", sortOption);
+    if (viewMode === "map" && mapBounds) {
+      params.append(
+        "bbox",
+        [mapBounds.minLongitude, mapBounds.minLatitude, mapBounds.maxLongitude, mapBounds.maxLatitude].join(",")
+      );
+      params.append("limit", String(MAP_RESULT_LIMIT));
+    } else {
+      params.append("limit", String(PAGE_SIZE));
+    }
+    return params;
+  }, [debouncedSearchQuery, selectedDistrictKey, minPrice, maxPrice, minSize, maxSize, selectedAmenityIds, priceReducedOnly, minSaleableArea, maxSaleableArea, minBedrooms, minBathrooms, floorLevel, facing, maxBuildingAge, listingType, maxLeaseMonths, maxDepositMonths, availableBy, feesIncludedOnly, noCommissionOnly, sortOption, viewMode, mapBounds]);
 
   const loadProperties = useCallback(async () => {
+    // The map reports its visible bounds once it has rendered
+    if (viewMode === "map" && !mapBounds) return;
     console.log("Loading properties...");
+    const requestId = ++latestRequestId.current;
     try {
       setLoading(true);
-      
-      const params = new URLSearchParams();
-      const selectedDistrictValue = DISTRICT_API_VALUES[selectedDistrictKey];
-      if (selectedDistrictValue !== "All Districts") {
-        params.append("district", selectedDistrictValue);
-      }
-      if (minPrice) {
-        params.append("minPrice", minPrice);
-      }
-      if (maxPrice) {
-        params.append("maxPrice", maxPrice);
-      }
-      if (minSize) {
-        params.append("minSize", minSize);
-      }
-      if (maxSize) {
-        params.append("maxSize", maxSize);
-      }
 
-      const queryString = params.toString();
-      const url = queryString ? `/api/properties?${queryString}` : "/api/properties";
+      const query = buildQueryParams().toString();
+      const url = `/api/properties?${query}`;
       
       console.log("Fetching properties from:", url);
-      const data = await authenticatedGet<Property[]>(url);
-      console.log("Properties loaded:", data.length);
-      setProperties(data);
+      const data = await authenticatedGet<PropertyPage>(url);
+      if (requestId !== latestRequestId.current) return;
+      console.log("Properties loaded:", data.items.length);
+      setProperties(data.items);
+      setNextCursor(data.nextCursor);
+      cursorQuery.current = query;
     } catch (error) {
       console.error("Error loading properties:", error);
     } finally {
-      setLoading(false);
+      if (requestId === latestRequestId.current) {
+        setLoading(false);
+      }
     }
-  }, [selectedDistrictKey, minPrice, maxPrice, minSize, maxSize]);
+  }, [buildQueryParams, viewMode, mapBounds]);
+
+  const loadMoreProperties = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+    const params = buildQueryParams();
+    // The filters changed and the first page of the new query is still on its way
+    if (params.toString() !== cursorQuery.current) return;
+    console.log("Loading more properties after cursor:", nextCursor);
+    const requestId = latestRequestId.current;
+    try {
+      setLoadingMore(true);
+
+      params.append("cursor", nextCursor);
+      const data = await authenticatedGet<PropertyPage>(`/api/properties?${params.toString()}`);
+      if (requestId !== latestRequestId.current) return;
+      console.log("More properties loaded:", data.items.length);
+
+      setProperties((current) => [...current, ...data.items]);
+      setNextCursor(data.nextCursor);
+    } catch (error) {
+      console.error("Error loading more properties:", error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [buildQueryParams, nextCursor, loadingMore]);
+
+  const handleListScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const { layoutMeasurement, contentOffset, contentSize } = event.nativeEvent;
+    const distanceFromBottom = contentSize.height - (layoutMeasurement.height + contentOffset.y);
+    if (distanceFromBottom < 400) {
+      loadMoreProperties();
+    }
+  };
 
   useEffect(() => {
     console.log("HomeScreen mounted, checking auth status");
@@ -162,23 +373,61 @@ export default function HomeScreen() {
     }
   }, [user, loadProperties]);
 
-  const filteredProperties = properties.filter((property) => {
-    const matchesSearch = property.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         property.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         property.district.toLowerCase().includes(searchQuery.toLowerCase());
-    return matchesSearch;
-  });
-
   const handlePropertyPress = (propertyId: string) => {
     console.log("Navigating to property:", propertyId);
     router.push(`/property/${propertyId}`);
   };
 
+  const mapMarkers = useMemo<MapMarker[]>(
+    () =>
+      properties
+        .filter((property) => property.latitude != null && property.longitude != null)
+        .map((property) => ({
+          id: property.id,
+          latitude: property.latitude!,
+          longitude: property.longitude!,
+          title: property.title,
+        })),
+    [properties]
+  );
+
+  const handleToggleViewMode = () => {
+    const nextMode = viewMode === "list" ? "map" : "list";
+    console.log("Switching home view mode to:", nextMode);
+    setViewMode(nextMode);
+    setMapBounds(null);
+    setSelectedMapProperty(null);
+  };
+
+  const handleMapBoundsChange = useCallback((bounds: MapBounds) => {
+    console.log("Map bounds changed:", bounds);
+    setMapBounds(bounds);
+  }, []);
+
+  const handleMarkerPress = (marker: MapMarker) => {
+    console.log("User tapped map marker:", marker.id);
+    const property = properties.find((p) => p.id === marker.id);
+    if (property) {
+      setSelectedMapProperty(property);
+    }
+  };
+
   const handleListProperty = () => {
     console.log("User tapped List Property button");
     router.push("/list-property");
   };
 
+  // Single-choice chip for the unit detail filters
+  const renderFilterChip = (key: string, label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.districtChip, isSelected && styles.districtChipSelected]}
+      onPress={onPress}
+    >
+      <Text style={[styles.districtChipText, isSelected && styles.districtChipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
   const clearFilters = () => {
     console.log("Clearing filters");
     setSelectedDistrictKey("allDistricts");
@@ -186,6 +435,46 @@ export default function HomeScreen() {
     setMaxPrice("");
     setMinSize("");
     setMaxSize("");
+    setSelectedAmenityIds([]);
+    setPriceReducedOnly(false);
+    setMinSaleableArea("");
+    setMaxSaleableArea("");
+    setMinBedrooms(null);
+    setMinBathrooms(null);
+    setFloorLevel(null);
+    setFacing(null);
+    setMaxBuildingAge("");
+    setListingType(null);
+    setMaxLeaseMonths("");
+    setMaxDepositMonths("");
+    setAvailableBy("");
+    setFeesIncludedOnly(false);
+    setNoCommissionOnly(false);
+    setSortOption("relevance");
+  };
+
+  // The backend keeps only the filter values, so the saved search matches
+  // exactly what this screen is showing
+  const handleSaveSearch = async () => {
+    if (!savedSearchName.trim() || savingSearch) return;
+
+    console.log("User saving search:", savedSearchName);
+    try {
+      setSavingSearch(true);
+      setSaveSearchMessage(null);
+      await authenticatedPost("/api/saved-searches", {
+        name: savedSearchName.trim(),
+        filters: Object.fromEntries(buildQueryParams()),
+      });
+      setSavedSearchName("");
+      setSaveSearchMessage(t("searchSaved"));
+    } catch (error) {
+      console.error("Error saving search:", error);
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setSaveSearchMessage(`${t("errorSavingSearch")} ${errorMsg}`);
+    } finally {
+      setSavingSearch(false);
+    }
   };
 
   const handleLanguageChange = (lang: Language) => {
@@ -221,6 +510,25 @@ export default function HomeScreen() {
     <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top']}>
       {/* Language Selector */}
       <View style={styles.languageBar}>
+        <TouchableOpacity
+          style={styles.alertsButton}
+          onPress={() => router.push("/saved-searches")}
+          activeOpacity={0.7}
+        >
+          <IconSymbol
+            ios_icon_name="bell"
+            android_material_icon_name="notifications"
+            size={22}
+            color={colors.primary}
+          />
+          {unseenMatchCount > 0 && (
+            <View style={styles.alertsBadge}>
+              <Text style={styles.alertsBadgeText}>
+                {unseenMatchCount > 99 ? "99+" : unseenMatchCount}
+              </Text>
+            </View>
+          )}
+        </TouchableOpacity>
         <TouchableOpacity
           style={styles.languageButton}
           onPress={() => setShowLanguageMenu(true)}
@@ -278,6 +586,14 @@ export default function HomeScreen() {
           value={searchQuery}
           onChangeText={setSearchQuery}
         />
+        <TouchableOpacity onPress={handleToggleViewMode} style={styles.filterButton}>
+          <IconSymbol 
+            ios_icon_name={viewMode === "list" ? "map" : "list.bullet"} 
+            android_material_icon_name={viewMode === "list" ? "map" : "list"} 
+            size={20} 
+            color={colors.primary} 
+          />
+        </TouchableOpacity>
         <TouchableOpacity onPress={() => setShowFilters(true)} style={styles.filterButton}>
           <IconSymbol 
             ios_icon_name="slider.horizontal.3" 
@@ -320,8 +636,60 @@ export default function HomeScreen() {
         })}
       </ScrollView>
 
-      {/* Properties List */}
-      {loading ? (
+      {/* Properties Map / List */}
+      {viewMode === "map" ? (
+        <View style={styles.mapView}>
+          <Map
+            markers={mapMarkers}
+            onMarkerPress={handleMarkerPress}
+            onBoundsChange={handleMapBoundsChange}
+          />
+          {loading ? (
+            <View style={styles.mapStatusBadge}>
+              <ActivityIndicator size="small" color={colors.primary} />
+            </View>
+          ) : properties.length === 0 ? (
+            <View style={styles.mapStatusBadge}>
+              <Text style={styles.mapStatusText}>{t("noPropertiesInArea")}</Text>
+            </View>
+          ) : null}
+          {selectedMapProperty && (
+            <TouchableOpacity
+              style={styles.mapPreviewCard}
+              onPress={() => handlePropertyPress(selectedMapProperty.id)}
+              activeOpacity={0.8}
+            >
+              <Image
+                source={resolveImageSource(selectedMapProperty.photos?.[0] || 'https://images.unsplash.com/photo-1560448204-e02f11c3d0e2')}
+                style={styles.mapPreviewImage}
+                resizeMode="cover"
+              />
+              <View style={styles.mapPreviewInfo}>
+                <Text style={styles.propertyTitle} numberOfLines={1}>
+                  {selectedMapProperty.title}
+                </Text>
+                <Text style={styles.propertyDistrict} numberOfLines={1}>
+                  {selectedMapProperty.district}
+                </Text>
+                <Text style={styles.propertyDetailText}>
+                  {`HK$${selectedMapProperty.price} · ${selectedMapProperty.size} sq ft`}
+                </Text>
+              </View>
+              <TouchableOpacity
+                style={styles.mapPreviewClose}
+                onPress={() => setSelectedMapProperty(null)}
+              >
+                <IconSymbol 
+                  ios_icon_name="xmark" 
+                  android_material_icon_name="close" 
+                  size={16} 
+                  color={colors.textSecondary} 
+                />
+              </TouchableOpacity>
+            </TouchableOpacity>
+          )}
+        </View>
+      ) : loading ? (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color={colors.primary} />
           <Text style={styles.loadingText}>{t("loadingProperties")}</Text>
@@ -331,8 +699,12 @@ export default function HomeScreen() {
           style={styles.propertiesList}
           contentContainerStyle={styles.propertiesListContent}
           showsVerticalScrollIndicator={false}
+          onScroll={handleListScroll}
+          scrollEventThrottle={200}
         >
-          {filteredProperties.length === 0 ? (
+          <ForYouSection />
+
+          {properties.length === 0 ? (
             <View style={styles.emptyContainer}>
               <IconSymbol 
                 ios_icon_name="house" 
@@ -350,7 +722,7 @@ export default function HomeScreen() {
               </TouchableOpacity>
             </View>
           ) : (
-            filteredProperties.map((property) => {
+            properties.map((property) => {
               const firstPhoto = property.photos && property.photos.length > 0 ? property.photos[0] : '';
               const priceText = `HK$${property.price}`;
               const sizeText = `${property.size} sq ft`;
@@ -367,6 +739,11 @@ export default function HomeScreen() {
                     style={styles.propertyImage}
                     resizeMode="cover"
                   />
+                  <FavoriteButton
+                    style={styles.favoriteButton}
+                    isFavorite={favoriteIds.has(property.id)}
+                    onPress={() => toggleFavorite(property.id)}
+                  />
                   <View style={styles.propertyInfo}>
                     <Text style={styles.propertyTitle} numberOfLines={1}>
                       {property.title}
@@ -394,11 +771,22 @@ export default function HomeScreen() {
                         <Text style={styles.propertyDetailText}>{sizeText}</Text>
                       </View>
                     </View>
+                    {!!property.priceReducedFrom && (
+                      <View style={styles.priceReducedBadge}>
+                        <Text style={styles.priceReducedBadgeText}>{t("priceReduced")}</Text>
+                      </View>
+                    )}
                   </View>
                 </TouchableOpacity>
               );
             })
           )}
+          {loadingMore && (
+            <View style={styles.loadingMoreContainer}>
+              <ActivityIndicator size="small" color={colors.primary} />
+              <Text style={styles.loadingMoreText}>{t("loadingMore")}</Text>
+            </View>
+          )}
           <View style={styles.bottomPadding} />
         </ScrollView>
       )}
@@ -497,6 +885,58 @@ export default function HomeScreen() {
             </View>
 
             <ScrollView style={styles.modalScroll}>
+              <Text style={styles.filterLabel}>{t("sortBy")}</Text>
+              <View style={styles.sortOptions}>
+                {SORT_OPTIONS.map((option) => {
+                  const isSelected = sortOption === option.value;
+                  return (
+                    <TouchableOpacity
+                      key={option.value}
+                      style={[
+                        styles.districtChip,
+                        isSelected && styles.districtChipSelected,
+                      ]}
+                      onPress={() => setSortOption(option.value)}
+                    >
+                      <Text
+                        style={[
+                          styles.districtChipText,
+                          isSelected && styles.districtChipTextSelected,
+                        ]}
+                      >
+                        {t(option.labelKey)}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+
+              <Text style={styles.filterLabel}>{t("listingType")}</Text>
+              <View style={styles.sortOptions}>
+                {[null, ...LISTING_TYPES].map((type) => {
+                  const isSelected = listingType === type;
+                  return (
+                    <TouchableOpacity
+                      key={type ?? "all"}
+                      style={[
+                        styles.districtChip,
+                        isSelected && styles.districtChipSelected,
+                      ]}
+                      onPress={() => setListingType(type)}
+                    >
+                      <Text
+                        style={[
+                          styles.districtChipText,
+                          isSelected && styles.districtChipTextSelected,
+                        ]}
+                      >
+                        {type ? t(LISTING_TYPE_LABEL_KEYS[type]) : t("allListingTypes")}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+
               <Text style={styles.filterLabel}>{t("priceRange")}</Text>
               <View style={styles.filterRow}>
                 <TextInput
@@ -517,6 +957,24 @@ export default function HomeScreen() {
                   keyboardType="numeric"
                 />
               </View>
+              <View style={styles.sortOptions}>
+                <TouchableOpacity
+                  style={[
+                    styles.districtChip,
+                    priceReducedOnly && styles.districtChipSelected,
+                  ]}
+                  onPress={() => setPriceReducedOnly(!priceReducedOnly)}
+                >
+                  <Text
+                    style={[
+                      styles.districtChipText,
+                      priceReducedOnly && styles.districtChipTextSelected,
+                    ]}
+                  >
+                    {t("priceReducedOnly")}
+                  </Text>
+                </TouchableOpacity>
+              </View>
 
               <Text style={styles.filterLabel}>{t("sizeRange")}</Text>
               <View style={styles.filterRow}>
@@ -539,6 +997,144 @@ export default function HomeScreen() {
                 />
               </View>
 
+              <Text style={styles.filterLabel}>{t("saleableAreaRange")}</Text>
+              <View style={styles.filterRow}>
+                <TextInput
+                  style={styles.filterInput}
+                  placeholder={t("min")}
+                  placeholderTextColor={colors.textSecondary}
+                  value={minSaleableArea}
+                  onChangeText={setMinSaleableArea}
+                  keyboardType="numeric"
+                />
+                <Text style={styles.filterSeparator}>-</Text>
+                <TextInput
+                  style={styles.filterInput}
+                  placeholder={t("max")}
+                  placeholderTextColor={colors.textSecondary}
+                  value={maxSaleableArea}
+                  onChangeText={setMaxSaleableArea}
+                  keyboardType="numeric"
+                />
+              </View>
+
+              <Text style={styles.filterLabel}>{t("bedrooms")}</Text>
+              <View style={styles.sortOptions}>
+                {renderFilterChip("any", t("any"), minBedrooms === null, () => setMinBedrooms(null))}
+                {MIN_BEDROOM_OPTIONS.map((count) =>
+                  renderFilterChip(String(count), `${count}+`, minBedrooms === count, () => setMinBedrooms(count))
+                )}
+              </View>
+
+              <Text style={styles.filterLabel}>{t("bathrooms")}</Text>
+              <View style={styles.sortOptions}>
+                {renderFilterChip("any", t("any"), minBathrooms === null, () => setMinBathrooms(null))}
+                {MIN_BATHROOM_OPTIONS.map((count) =>
+                  renderFilterChip(String(count), `${count}+`, minBathrooms === count, () => setMinBathrooms(count))
+                )}
+              </View>
+
+              <Text style={styles.filterLabel}>{t("floorLevel")}</Text>
+              <View style={styles.sortOptions}>
+                {renderFilterChip("any", t("any"), floorLevel === null, () => setFloorLevel(null))}
+                {FLOOR_LEVELS.map((level) =>
+                  renderFilterChip(level, t(FLOOR_LEVEL_LABEL_KEYS[level]), floorLevel === level, () => setFloorLevel(level))
+                )}
+              </View>
+
+              <Text style={styles.filterLabel}>{t("facing")}</Text>
+              <View style={styles.sortOptions}>
+                {renderFilterChip("any", t("any"), facing === null, () => setFacing(null))}
+                {FACINGS.map((direction) =>
+                  renderFilterChip(direction, t(FACING_LABEL_KEYS[direction]), facing === direction, () => setFacing(direction))
+                )}
+              </View>
+
+              <Text style={styles.filterLabel}>{t("maxBuildingAge")}</Text>
+              <View style={styles.filterRow}>
+                <TextInput
+                  style={styles.filterInput}
+                  placeholder={t("any")}
+                  placeholderTextColor={colors.textSecondary}
+                  value={maxBuildingAge}
+                  onChangeText={setMaxBuildingAge}
+                  keyboardType="numeric"
+                />
+              </View>
+
+              <Text style={styles.filterLabel}>{t("rentalTerms")}</Text>
+              {listingType !== "sale" && (
+                <View style={styles.filterRow}>
+                  <TextInput
+                    style={styles.filterInput}
+                    placeholder={t("maxLeaseMonthsFilter")}
+                    placeholderTextColor={colors.textSecondary}
+                    value={maxLeaseMonths}
+                    onChangeText={setMaxLeaseMonths}
+                    keyboardType="numeric"
+                  />
+                  <TextInput
+                    style={styles.filterInput}
+                    placeholder={t("maxDepositMonthsFilter")}
+                    placeholderTextColor={colors.textSecondary}
+                    value={maxDepositMonths}
+                    onChangeText={setMaxDepositMonths}
+                    keyboardType="numeric"
+                  />
+                </View>
+              )}
+              <View style={styles.filterRow}>
+                <TextInput
+                  style={styles.filterInput}
+                  placeholder={t("availableByFilter")}
+                  placeholderTextColor={colors.textSecondary}
+                  value={availableBy}
+                  onChangeText={setAvailableBy}
+                  autoCapitalize="none"
+                />
+              </View>
+              <View style={styles.sortOptions}>
+                <TouchableOpacity
+                  style={[
+                    styles.districtChip,
+                    feesIncludedOnly && styles.districtChipSelected,
+                  ]}
+                  onPress={() => setFeesIncludedOnly(!feesIncludedOnly)}
+                >
+                  <Text
+                    style={[
+                      styles.districtChipText,
+                      feesIncludedOnly && styles.districtChipTextSelected,
+                    ]}
+                  >
+                    {t("feesIncludedOnly")}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[
+                    styles.districtChip,
+                    noCommissionOnly && styles.districtChipSelected,
+                  ]}
+                  onPress={() => setNoCommissionOnly(!noCommissionOnly)}
+                >
+                  <Text
+                    style={[
+                      styles.districtChipText,
+                      noCommissionOnly && styles.districtChipTextSelected,
+                    ]}
+                  >
+                    {t("noCommissionOnly")}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+
+              <Text style={styles.filterLabel}>{t("amenities")}</Text>
+              <AmenityPicker
+                amenities={amenities}
+                selectedIds={selectedAmenityIds}
+                onChange={setSelectedAmenityIds}
+              />
+
               <View style={styles.modalActions}>
                 <TouchableOpacity
                   style={styles.clearButton}
@@ -553,6 +1149,35 @@ export default function HomeScreen() {
                   <Text style={styles.applyButtonText}>{t("applyFilters")}</Text>
                 </TouchableOpacity>
               </View>
+
+              <Text style={styles.filterLabel}>{t("saveThisSearch")}</Text>
+              <View style={styles.saveSearchSection}>
+                <View style={styles.saveSearchRow}>
+                  <TextInput
+                    style={styles.saveSearchInput}
+                    placeholder={t("savedSearchNamePlaceholder")}
+                    placeholderTextColor={colors.textSecondary}
+                    value={savedSearchName}
+                    onChangeText={setSavedSearchName}
+                    maxLength={100}
+                  />
+                  <TouchableOpacity
+                    style={[
+                      styles.saveSearchButton,
+                      (!savedSearchName.trim() || savingSearch) && styles.saveSearchButtonDisabled,
+                    ]}
+                    onPress={handleSaveSearch}
+                    disabled={!savedSearchName.trim() || savingSearch}
+                  >
+                    {savingSearch ? (
+                      <ActivityIndicator size="small" color="#FFFFFF" />
+                    ) : (
+                      <Text style={styles.applyButtonText}>{t("save")}</Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
+                {saveSearchMessage && <Text style={styles.saveSearchMessage}>{saveSearchMessage}</Text>}
+              </View>
             </ScrollView>
           </View>
         </View>
@@ -570,7 +1195,28 @@ const styles = StyleSheet.create({
     paddingTop: Platform.OS === 'android' ? 12 : 8,
     paddingBottom: 8,
     flexDirection: 'row',
-    justifyContent: 'flex-end',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  alertsButton: {
+    padding: 6,
+  },
+  alertsBadge: {
+    position: 'absolute',
+    top: 0,
+    right: -2,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    paddingHorizontal: 4,
+    backgroundColor: colors.error,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  alertsBadgeText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#FFFFFF',
   },
   languageButton: {
     flexDirection: 'row',
@@ -686,6 +1332,51 @@ const styles = StyleSheet.create({
   filterButton: {
     padding: 4,
   },
+  mapView: {
+    flex: 1,
+    marginHorizontal: 20,
+    marginBottom: 100,
+  },
+  mapStatusBadge: {
+    position: 'absolute',
+    top: 12,
+    alignSelf: 'center',
+    backgroundColor: colors.card,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)',
+    elevation: 2,
+  },
+  mapStatusText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  mapPreviewCard: {
+    position: 'absolute',
+    left: 12,
+    right: 12,
+    bottom: 12,
+    flexDirection: 'row',
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    overflow: 'hidden',
+    boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)',
+    elevation: 3,
+  },
+  mapPreviewImage: {
+    width: 100,
+    height: 100,
+    backgroundColor: colors.backgroundAlt,
+  },
+  mapPreviewInfo: {
+    flex: 1,
+    padding: 12,
+    justifyContent: 'center',
+  },
+  mapPreviewClose: {
+    padding: 8,
+  },
   districtScroll: {
     maxHeight: 50,
     marginBottom: 16,
@@ -778,6 +1469,11 @@ const styles = StyleSheet.create({
     height: 200,
     backgroundColor: colors.backgroundAlt,
   },
+  favoriteButton: {
+    position: 'absolute',
+    top: 12,
+    right: 12,
+  },
   propertyInfo: {
     padding: 16,
   },
@@ -806,6 +1502,30 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: colors.text,
   },
+  priceReducedBadge: {
+    alignSelf: 'flex-start',
+    backgroundColor: colors.success,
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginTop: 8,
+  },
+  priceReducedBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  loadingMoreContainer: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 16,
+    gap: 8,
+  },
+  loadingMoreText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
   bottomPadding: {
     height: 100,
   },
@@ -844,6 +1564,11 @@ const styles = StyleSheet.create({
     marginBottom: 12,
     marginTop: 16,
   },
+  sortOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    rowGap: 8,
+  },
   filterRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -895,4 +1620,37 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#FFFFFF',
   },
+  saveSearchSection: {
+    marginBottom: 32,
+  },
+  saveSearchRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  saveSearchInput: {
+    flex: 1,
+    backgroundColor: colors.backgroundAlt,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: colors.text,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  saveSearchButton: {
+    paddingHorizontal: 20,
+    borderRadius: 12,
+    backgroundColor: colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  saveSearchButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveSearchMessage: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginTop: 8,
+  },
 });
@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import {
   StyleSheet,
   View,
@@ -12,12 +12,17 @@ import {
   ImageSourcePropType,
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
-import { useRouter } from "expo-router";
+import { useRouter, useFocusEffect } from "expo-router";
 import { IconSymbol } from "@/components/IconSymbol";
 import { colors } from "@/styles/commonStyles";
 import { useAuth } from "@/contexts/AuthContext";
-import { authenticatedGet } from "@/utils/api";
+import { authenticatedGet, authenticatedPost, authenticatedDelete } from "@/utils/api";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { ListingStatus, LISTING_STATUSES, STATUS_LABEL_KEYS } from "@/utils/listingStatus";
+import { SavedListing, isHiddenSavedProperty } from "@/utils/favorites";
+import { ListingStatsPanel } from "@/components/ListingStatsPanel";
+import { getDateLocale } from "@/utils/appointments";
+import { useUnseenRentReminderCount } from "@/utils/rentLedger";
 
 interface Property {
   id: string;
@@ -29,10 +34,22 @@ interface Property {
   equipment: string;
   photos: string[];
   virtualTourUrl?: string;
+  status: ListingStatus;
   ownerId: string;
   createdAt: string;
 }
 
+// GET /api/my-listings groups the owner's listings by status
+type MyListings = Record<ListingStatus, Property[]>;
+
+const EMPTY_LISTINGS: MyListings = { draft: [], published: [], rented: [], archived: [] };
+
+// GET /api/my-listings/deleted returns listings that can still be restored
+interface DeletedProperty extends Property {
+  deletedAt: string;
+  restoreUntil: string;
+}
+
 function resolveImageSource(source: string | number | ImageSourcePropType | undefined): ImageSourcePropType {
   if (!source) return { uri: '' };
   if (typeof source === 'string') return { uri: source };
@@ -41,12 +58,17 @@ function resolveImageSource(source: string | number | ImageSourcePropType | unde
 
 export default function ProfileScreen() {
   const router = useRouter();
+  const unseenRentReminderCount = useUnseenRentReminderCount();
   const { user, signOut } = useAuth();
-  const { t } = useLanguage();
+  const { language, t } = useLanguage();
   
-  const [myListings, setMyListings] = useState<Property[]>([]);
+  const [myListings, setMyListings] = useState<MyListings>(EMPTY_LISTINGS);
+  const [deletedListings, setDeletedListings] = useState<DeletedProperty[]>([]);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [showSignOutModal, setShowSignOutModal] = useState(false);
+  const [savedListings, setSavedListings] = useState<SavedListing[]>([]);
+  const [statsPropertyId, setStatsPropertyId] = useState<string | null>(null);
 
   useEffect(() => {
     console.log("ProfileScreen mounted - loading user data");
@@ -59,17 +81,22 @@ export default function ProfileScreen() {
     try {
       setLoading(true);
       console.log("Fetching user listings from:", "/api/my-listings");
-      const data = await authenticatedGet<Property[]>("/api/my-listings");
-      console.log("User listings loaded:", data.length);
+      const [data, deleted] = await Promise.all([
+        authenticatedGet<MyListings>("/api/my-listings"),
+        authenticatedGet<DeletedProperty[]>("/api/my-listings/deleted"),
+      ]);
+      const allListings = LISTING_STATUSES.flatMap((status) => data[status] || []);
+      console.log("User listings loaded:", allListings.length);
       
       // Log sample listing to verify signed URLs
-      if (data.length > 0) {
-        const sampleListing = data[0];
+      if (allListings.length > 0) {
+        const sampleListing = allListings[0];
         console.log("Sample listing photos:", sampleListing.photos?.slice(0, 1));
         console.log("Sample listing virtualTourUrl:", sampleListing.virtualTourUrl);
       }
       
       setMyListings(data);
+      setDeletedListings(deleted);
     } catch (error) {
       console.error("Error loading user listings:", error);
     } finally {
@@ -77,6 +104,68 @@ export default function ProfileScreen() {
     }
   };
 
+  // Saved listings change from other screens, so refresh on every visit
+  useFocusEffect(
+    useCallback(() => {
+      if (user) {
+        loadSavedListings();
+      }
+    }, [user])
+  );
+
+  const loadSavedListings = async () => {
+    try {
+      console.log("Fetching saved listings from:", "/api/favorites");
+      const data = await authenticatedGet<SavedListing[]>("/api/favorites");
+      console.log("Saved listings loaded:", data.length);
+      setSavedListings(data);
+    } catch (error) {
+      console.error("Error loading saved listings:", error);
+    }
+  };
+
+  // Opening a saved listing marks its price and status changes as seen
+  const handleSavedListingPress = async (saved: SavedListing) => {
+    console.log("Opening saved listing:", saved.propertyId);
+    if (saved.priceChanged || saved.statusChanged) {
+      setSavedListings((current) =>
+        current.map((item) =>
+          item.propertyId === saved.propertyId ? { ...item, priceChanged: false, statusChanged: false } : item
+        )
+      );
+      authenticatedPost(`/api/favorites/${saved.propertyId}/acknowledge`, {}).catch((error) => {
+        console.error("Error acknowledging saved listing changes:", error);
+      });
+    }
+    // Drafts can't be opened by anyone but their owner
+    if (!isHiddenSavedProperty(saved.property)) {
+      router.push(`/property/${saved.propertyId}`);
+    }
+  };
+
+  const handleRemoveSaved = async (propertyId: string) => {
+    console.log("Removing saved listing:", propertyId);
+    try {
+      await authenticatedDelete(`/api/favorites/${propertyId}`);
+      setSavedListings((current) => current.filter((item) => item.propertyId !== propertyId));
+    } catch (error) {
+      console.error("Error removing saved listing:", error);
+    }
+  };
+
+  const handleRestoreDeleted = async (propertyId: string) => {
+    console.log("Restoring deleted listing:", propertyId);
+    try {
+      setRestoringId(propertyId);
+      await authenticatedPost(`/api/properties/${propertyId}/restore`, {});
+      await loadMyListings();
+    } catch (error) {
+      console.error("Error restoring deleted listing:", error);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
   const handleSignOut = async () => {
     console.log("User signing out");
     setShowSignOutModal(false);
@@ -103,6 +192,8 @@ export default function ProfileScreen() {
     );
   }
 
+  const totalListings = LISTING_STATUSES.reduce((count, status) => count + myListings[status].length, 0);
+
   const userName = user.name || user.email || 'User';
   const userEmail = user.email || '';
 
@@ -141,6 +232,113 @@ export default function ProfileScreen() {
         style={styles.content}
         showsVerticalScrollIndicator={false}
       >
+        {/* Viewing Appointments Link */}
+        <TouchableOpacity
+          style={styles.linkRow}
+          onPress={() => router.push("/appointments")}
+        >
+          <IconSymbol 
+            ios_icon_name="calendar" 
+            android_material_icon_name="event" 
+            size={22} 
+            color={colors.primary} 
+          />
+          <Text style={styles.linkRowText}>{t('myViewings')}</Text>
+          <IconSymbol 
+            ios_icon_name="chevron.right" 
+            android_material_icon_name="chevron-right" 
+            size={20} 
+            color={colors.textSecondary} 
+          />
+        </TouchableOpacity>
+
+        {/* Rental Applications Link */}
+        <TouchableOpacity
+          style={styles.linkRow}
+          onPress={() => router.push("/applications")}
+        >
+          <IconSymbol 
+            ios_icon_name="doc.text" 
+            android_material_icon_name="description" 
+            size={22} 
+            color={colors.primary} 
+          />
+          <Text style={styles.linkRowText}>{t('myApplications')}</Text>
+          <IconSymbol 
+            ios_icon_name="chevron.right" 
+            android_material_icon_name="chevron-right" 
+            size={20} 
+            color={colors.textSecondary} 
+          />
+        </TouchableOpacity>
+
+        {/* Rent Ledger Link */}
+        <TouchableOpacity
+          style={styles.linkRow}
+          onPress={() => router.push("/tenancies")}
+        >
+          <IconSymbol 
+            ios_icon_name="banknote" 
+            android_material_icon_name="payments" 
+            size={22} 
+            color={colors.primary} 
+          />
+          <Text style={styles.linkRowText}>{t('rentLedger')}</Text>
+          {unseenRentReminderCount > 0 && (
+            <View style={styles.linkRowBadge}>
+              <Text style={styles.linkRowBadgeText}>
+                {unseenRentReminderCount > 99 ? "99+" : unseenRentReminderCount}
+              </Text>
+            </View>
+          )}
+          <IconSymbol 
+            ios_icon_name="chevron.right" 
+            android_material_icon_name="chevron-right" 
+            size={20} 
+            color={colors.textSecondary} 
+          />
+        </TouchableOpacity>
+
+        {/* Maintenance Requests Link */}
+        <TouchableOpacity
+          style={styles.linkRow}
+          onPress={() => router.push("/maintenance")}
+        >
+          <IconSymbol 
+            ios_icon_name="wrench.and.screwdriver" 
+            android_material_icon_name="build" 
+            size={22} 
+            color={colors.primary} 
+          />
+          <Text style={styles.linkRowText}>{t('maintenanceRequests')}</Text>
+          <IconSymbol 
+            ios_icon_name="chevron.right" 
+            android_material_icon_name="chevron-right" 
+            size={20} 
+            color={colors.textSecondary} 
+          />
+        </TouchableOpacity>
+
+        {/* Market Insights Link */}
+        <TouchableOpacity
+          style={styles.linkRow}
+          onPress={() => router.push("/insights")}
+        >
+          <IconSymbol 
+            ios_icon_name="chart.bar" 
+            android_material_icon_name="bar-chart" 
+            size={22} 
+            color={colors.primary} 
+          />
+          <Text style={styles.linkRowText}>{t('marketInsights')}</Text>
+          <IconSymbol 
+            ios_icon_name="chevron.right" 
+            android_material_icon_name="chevron-right" 
+            size={20} 
+            color={colors.textSecondary} 
+          />
+        </TouchableOpacity>
+
         {/* Listed Properties Section */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>{t('myListings')}</Text>
@@ -149,7 +347,7 @@ export default function ProfileScreen() {
             <View style={styles.loadingContainer}>
               <ActivityIndicator size="large" color={colors.primary} />
             </View>
-          ) : myListings.length === 0 ? (
+          ) : totalListings === 0 ? (
             <View style={styles.emptyContainer}>
               <IconSymbol 
                 ios_icon_name="house" 
@@ -173,51 +371,217 @@ export default function ProfileScreen() {
               </TouchableOpacity>
             </View>
           ) : (
-            <View style={styles.propertiesGrid}>
-              {myListings.map((property) => {
-                const firstPhoto = property.photos && property.photos.length > 0 ? property.photos[0] : '';
-                const priceText = `HK$${property.price}`;
-                const sizeText = `${property.size} sq ft`;
+            LISTING_STATUSES.filter((status) => myListings[status].length > 0).map((status) => (
+              <View key={status} style={styles.statusGroup}>
+                <Text style={styles.statusGroupTitle}>
+                  {`${t(STATUS_LABEL_KEYS[status])} (${myListings[status].length})`}
+                </Text>
+                <View style={styles.propertiesGrid}>
+                  {myListings[status].map((property) => {
+                    const firstPhoto = property.photos && property.photos.length > 0 ? property.photos[0] : '';
+                    const priceText = `HK$${property.price}`;
+                    const sizeText = `${property.size} sq ft`;
+                    const showStats = statsPropertyId === property.id;
                 
-                return (
-                  <TouchableOpacity
-                    key={property.id}
-                    style={styles.propertyCard}
-                    onPress={() => handlePropertyPress(property.id)}
-                    activeOpacity={0.7}
-                  >
-                    {firstPhoto ? (
-                      <Image
-                        source={resolveImageSource(firstPhoto)}
-                        style={styles.propertyImage}
-                        resizeMode="cover"
+                    return (
+                      <TouchableOpacity
+                        key={property.id}
+                        style={styles.propertyCard}
+                        onPress={() => handlePropertyPress(property.id)}
+                        activeOpacity={0.7}
+                      >
+                        {firstPhoto ? (
+                          <Image
+                            source={resolveImageSource(firstPhoto)}
+                            style={styles.propertyImage}
+                            resizeMode="cover"
+                          />
+                        ) : (
+                          <View style={styles.propertyImagePlaceholder}>
+                            <IconSymbol 
+                              ios_icon_name="house.fill" 
+                              android_material_icon_name="home" 
+                              size={40} 
+                              color={colors.textSecondary} 
+                            />
+                          </View>
+                        )}
+                        <View style={styles.propertyInfo}>
+                          <Text style={styles.propertyTitle} numberOfLines={1}>
+                            {property.title}
+                          </Text>
+                          <Text style={styles.propertyDistrict} numberOfLines={1}>
+                            {property.district}
+                          </Text>
+                          <View style={styles.propertyDetails}>
+                            <Text style={styles.propertyPrice}>{priceText}</Text>
+                            <Text style={styles.propertySize}>{sizeText}</Text>
+                          </View>
+                          {status !== "draft" && (
+                            <TouchableOpacity
+                              style={styles.statsToggle}
+                              onPress={() => setStatsPropertyId(showStats ? null : property.id)}
+                            >
+                              <IconSymbol 
+                                ios_icon_name="chart.bar" 
+                                android_material_icon_name="bar-chart" 
+                                size={18} 
+                                color={colors.primary} 
+                              />
+                              <Text style={styles.statsToggleText}>
+                                {showStats ? t('hideStats') : t('showStats')}
+                              </Text>
+                            </TouchableOpacity>
+                          )}
+                          {showStats && <ListingStatsPanel propertyId={property.id} />}
+                        </View>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+            ))
+          )}
+        </View>
+
+        {/* Recently Deleted Section */}
+        {!loading && deletedListings.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t('recentlyDeleted')}</Text>
+            <Text style={styles.sectionHint}>{t('recentlyDeletedHint')}</Text>
+            {deletedListings.map((property) => {
+              const firstPhoto = property.photos && property.photos.length > 0 ? property.photos[0] : '';
+              const restoreUntilText = new Date(property.restoreUntil).toLocaleDateString(getDateLocale(language), {
+                day: "numeric",
+                month: "short",
+                year: "numeric",
+              });
+
+              return (
+                <View key={property.id} style={styles.savedRow}>
+                  {firstPhoto ? (
+                    <Image
+                      source={resolveImageSource(firstPhoto)}
+                      style={styles.savedImage}
+                      resizeMode="cover"
+                    />
+                  ) : (
+                    <View style={[styles.savedImage, styles.savedImagePlaceholder]}>
+                      <IconSymbol 
+                        ios_icon_name="house.fill" 
+                        android_material_icon_name="home" 
+                        size={24} 
+                        color={colors.textSecondary} 
                       />
-                    ) : (
-                      <View style={styles.propertyImagePlaceholder}>
-                        <IconSymbol 
-                          ios_icon_name="house.fill" 
-                          android_material_icon_name="home" 
-                          size={40} 
-                          color={colors.textSecondary} 
-                        />
-                      </View>
+                    </View>
+                  )}
+                  <View style={styles.savedInfo}>
+                    <Text style={styles.propertyTitle} numberOfLines={1}>
+                      {property.title}
+                    </Text>
+                    <Text style={styles.savedMeta} numberOfLines={1}>
+                      {`${t('restorableUntil')} ${restoreUntilText}`}
+                    </Text>
+                  </View>
+                  {restoringId === property.id ? (
+                    <ActivityIndicator size="small" color={colors.primary} />
+                  ) : (
+                    <TouchableOpacity
+                      style={styles.restoreButton}
+                      onPress={() => handleRestoreDeleted(property.id)}
+                      disabled={!!restoringId}
+                    >
+                      <Text style={styles.restoreButtonText}>{t('restore')}</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              );
+            })}
+          </View>
+        )}
+
+        {/* Saved Listings Section */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('savedListings')}</Text>
+          {savedListings.length === 0 ? (
+            <View style={styles.emptyContainer}>
+              <IconSymbol 
+                ios_icon_name="heart" 
+                android_material_icon_name="favorite-border" 
+                size={64} 
+                color={colors.textSecondary} 
+              />
+              <Text style={styles.emptyText}>{t('noSavedListings')}</Text>
+              <Text style={styles.emptySubtext}>{t('savedListingsHint')}</Text>
+            </View>
+          ) : (
+            savedListings.map((saved) => {
+              const { property } = saved;
+              const details = isHiddenSavedProperty(property) ? null : property;
+              const firstPhoto = details?.photos && details.photos.length > 0 ? details.photos[0] : '';
+              const priceText = `HK$${details?.price}`;
+              const isAvailable = property.status === "published";
+
+              return (
+                <TouchableOpacity
+                  key={saved.propertyId}
+                  style={styles.savedRow}
+                  onPress={() => handleSavedListingPress(saved)}
+                  activeOpacity={0.7}
+                >
+                  {firstPhoto ? (
+                    <Image
+                      source={resolveImageSource(firstPhoto)}
+                      style={styles.savedImage}
+                      resizeMode="cover"
+                    />
+                  ) : (
+                    <View style={[styles.savedImage, styles.savedImagePlaceholder]}>
+                      <IconSymbol 
+                        ios_icon_name="house.fill" 
+                        android_material_icon_name="home" 
+                        size={24} 
+                        color={colors.textSecondary} 
+                      />
+                    </View>
+                  )}
+                  <View style={styles.savedInfo}>
+                    <Text style={styles.propertyTitle} numberOfLines={1}>
+                      {details ? details.title : t('listingNoLongerPublic')}
+                    </Text>
+                    {details && (
+                      <Text style={styles.savedMeta} numberOfLines={1}>
+                        {`${details.district} · ${priceText}`}
+                      </Text>
                     )}
-                    <View style={styles.propertyInfo}>
-                      <Text style={styles.propertyTitle} numberOfLines={1}>
-                        {property.title}
+                    {saved.priceChanged && (
+                      <Text style={styles.savedChange}>
+                        {`${t('priceChanged')}: HK$${saved.seenPrice} → ${priceText}`}
                       </Text>
-                      <Text style={styles.propertyDistrict} numberOfLines={1}>
-                        {property.district}
+                    )}
+                    {saved.statusChanged && (
+                      <Text style={styles.savedChange}>
+                        {isAvailable ? t('listingAvailableAgain') : `${t('listingStatus')}: ${t(STATUS_LABEL_KEYS[property.status])}`}
                       </Text>
-                      <View style={styles.propertyDetails}>
-                        <Text style={styles.propertyPrice}>{priceText}</Text>
-                        <Text style={styles.propertySize}>{sizeText}</Text>
-                      </View>
-                    </View>
+                    )}
+                    {!saved.statusChanged && !isAvailable && (
+                      <Text style={styles.savedMeta}>{t(STATUS_LABEL_KEYS[property.status])}</Text>
+                    )}
+                  </View>
+                  <TouchableOpacity
+                    onPress={() => handleRemoveSaved(saved.propertyId)}
+                    hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                  >
+                    <IconSymbol 
+                      ios_icon_name="heart.fill" 
+                      android_material_icon_name="favorite" 
+                      size={22} 
+                      color={colors.error} 
+                    />
                   </TouchableOpacity>
-                );
-              })}
-            </View>
+                </TouchableOpacity>
+              );
+            })
           )}
         </View>
 
@@ -318,6 +682,38 @@ const styles = StyleSheet.create({
   content: {
     flex: 1,
   },
+  linkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.backgroundAlt,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    marginBottom: 24,
+    gap: 12,
+  },
+  linkRowText: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  linkRowBadge: {
+    minWidth: 20,
+    height: 20,
+    borderRadius: 10,
+    paddingHorizontal: 6,
+    backgroundColor: colors.error,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  linkRowBadgeText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
   section: {
     paddingTop: 20,
     paddingHorizontal: 20,
@@ -366,6 +762,15 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#FFFFFF',
   },
+  statusGroup: {
+    marginBottom: 24,
+  },
+  statusGroupTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 12,
+  },
   propertiesGrid: {
     gap: 16,
   },
@@ -416,6 +821,66 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: colors.textSecondary,
   },
+  statsToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    marginTop: 12,
+  },
+  statsToggleText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  savedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+    gap: 12,
+  },
+  savedImage: {
+    width: 72,
+    height: 72,
+    borderRadius: 8,
+    backgroundColor: colors.highlight,
+  },
+  savedImagePlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  savedInfo: {
+    flex: 1,
+  },
+  savedMeta: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  sectionHint: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginBottom: 12,
+  },
+  restoreButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  restoreButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  savedChange: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.primary,
+    marginTop: 4,
+  },
   bottomPadding: {
     height: 100,
   },
@@ -0,0 +1,439 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  StyleSheet,
+  View,
+  Text,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Modal,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Stack } from "expo-router";
+import { colors } from "@/styles/commonStyles";
+import { authenticatedGet, authenticatedPost, authenticatedPut, authenticatedDelete } from "@/utils/api";
+import { useLanguage } from "@/contexts/LanguageContext";
+import {
+  AGREEMENT_LANGUAGES,
+  AGREEMENT_LANGUAGE_LABEL_KEYS,
+  AGREEMENT_PLACEHOLDERS,
+  AgreementLanguage,
+  AgreementTemplate,
+} from "@/utils/agreements";
+
+interface TemplateDraft {
+  id: string | null; // null while creating a new template
+  name: string;
+  language: AgreementLanguage;
+  body: string;
+}
+
+const PLACEHOLDER_HINT = AGREEMENT_PLACEHOLDERS.map((name) => `{{${name}}}`).join("  ");
+
+export default function AgreementTemplatesScreen() {
+  const { t } = useLanguage();
+
+  const [templates, setTemplates] = useState<AgreementTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      setLoading(true);
+      console.log("Fetching agreement templates");
+      const data = await authenticatedGet<AgreementTemplate[]>("/api/agreement-templates");
+      setTemplates(data);
+    } catch (error) {
+      console.error("Error loading agreement templates:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  // Built-in templates are read-only, so editing one starts a copy of it
+  const handleEdit = (template: AgreementTemplate) => {
+    console.log("User tapped edit agreement template:", template.id);
+    setDraft({
+      id: template.ownerId ? template.id : null,
+      name: template.ownerId ? template.name : `${template.name} (${t('copy')})`,
+      language: template.language,
+      body: template.body,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!draft.name.trim() || !draft.body.trim()) {
+      setErrorMessage(t('templateFieldsRequired'));
+      return;
+    }
+
+    console.log("Saving agreement template:", draft.id ?? "new");
+    const body = { name: draft.name, language: draft.language, body: draft.body };
+    try {
+      setSaving(true);
+      if (draft.id) {
+        await authenticatedPut(`/api/agreement-templates/${draft.id}`, body);
+      } else {
+        await authenticatedPost("/api/agreement-templates", body);
+      }
+      setDraft(null);
+      await loadTemplates();
+    } catch (error) {
+      console.error("Error saving agreement template:", error);
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setErrorMessage(`${t('errorSavingTemplate')} ${errorMsg}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: AgreementTemplate) => {
+    console.log("Deleting agreement template:", template.id);
+    try {
+      setDeletingId(template.id);
+      await authenticatedDelete(`/api/agreement-templates/${template.id}`);
+      setTemplates((current) => current.filter((item) => item.id !== template.id));
+    } catch (error) {
+      console.error("Error deleting agreement template:", error);
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setErrorMessage(`${t('errorSavingTemplate')} ${errorMsg}`);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const builtIn = templates.filter((template) => !template.ownerId);
+  const mine = templates.filter((template) => !!template.ownerId);
+
+  const renderTemplate = (template: AgreementTemplate) => (
+    <View key={template.id} style={styles.templateCard}>
+      <View style={styles.templateInfo}>
+        <Text style={styles.templateName} numberOfLines={1}>{template.name}</Text>
+        <Text style={styles.templateMeta}>{t(AGREEMENT_LANGUAGE_LABEL_KEYS[template.language])}</Text>
+      </View>
+      <TouchableOpacity style={styles.actionButton} onPress={() => handleEdit(template)}>
+        <Text style={styles.actionButtonText}>{template.ownerId ? t('edit') : t('copy')}</Text>
+      </TouchableOpacity>
+      {!!template.ownerId &&
+        (deletingId === template.id ? (
+          <ActivityIndicator size="small" color={colors.primary} />
+        ) : (
+          <TouchableOpacity style={styles.actionButton} onPress={() => handleDelete(template)}>
+            <Text style={styles.actionButtonDangerText}>{t('delete')}</Text>
+          </TouchableOpacity>
+        ))}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          title: t('agreementTemplates'),
+          headerShown: true,
+          headerBackTitle: "Back",
+        }}
+      />
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
+          <Text style={styles.intro}>{t('agreementTemplatesIntro')}</Text>
+          <Text style={styles.sectionTitle}>{t('builtInTemplates')}</Text>
+          {builtIn.map(renderTemplate)}
+          <Text style={styles.sectionTitle}>{t('myTemplates')}</Text>
+          {mine.length === 0 ? (
+            <Text style={styles.emptyText}>{t('noTemplates')}</Text>
+          ) : (
+            mine.map(renderTemplate)
+          )}
+        </ScrollView>
+      )}
+
+      <Modal
+        visible={!!draft}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setDraft(null)}
+      >
+        {draft && (
+          <SafeAreaView style={styles.container}>
+            <View style={styles.editorHeader}>
+              <TouchableOpacity onPress={() => setDraft(null)}>
+                <Text style={styles.editorCancel}>{t('cancel')}</Text>
+              </TouchableOpacity>
+              <Text style={styles.editorTitle}>{t('editTemplate')}</Text>
+              {saving ? (
+                <ActivityIndicator size="small" color={colors.primary} />
+              ) : (
+                <TouchableOpacity onPress={handleSave}>
+                  <Text style={styles.editorSave}>{t('save')}</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            <ScrollView contentContainerStyle={styles.editorContent} keyboardShouldPersistTaps="handled">
+              <Text style={styles.label}>{t('templateName')}</Text>
+              <TextInput
+                style={styles.input}
+                value={draft.name}
+                onChangeText={(name) => setDraft({ ...draft, name })}
+                maxLength={100}
+              />
+              <Text style={styles.label}>{t('agreementLanguage')}</Text>
+              <View style={styles.chips}>
+                {AGREEMENT_LANGUAGES.map((language) => (
+                  <TouchableOpacity
+                    key={language}
+                    style={[styles.chip, draft.language === language && styles.chipActive]}
+                    onPress={() => setDraft({ ...draft, language })}
+                  >
+                    <Text style={[styles.chipText, draft.language === language && styles.chipTextActive]}>
+                      {t(AGREEMENT_LANGUAGE_LABEL_KEYS[language])}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <Text style={styles.label}>{t('templateBody')}</Text>
+              <Text style={styles.hintText}>{t('templateBodyHint')}</Text>
+              <Text style={styles.placeholderHint} selectable>{PLACEHOLDER_HINT}</Text>
+              <TextInput
+                style={[styles.input, styles.bodyInput]}
+                value={draft.body}
+                onChangeText={(body) => setDraft({ ...draft, body })}
+                multiline
+                textAlignVertical="top"
+                autoCapitalize="none"
+              />
+            </ScrollView>
+          </SafeAreaView>
+        )}
+      </Modal>
+
+      <Modal
+        visible={!!errorMessage}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setErrorMessage(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>{t('error')}</Text>
+            <Text style={styles.modalMessage}>{errorMessage}</Text>
+            <TouchableOpacity
+              style={styles.errorModalButton}
+              onPress={() => setErrorMessage(null)}
+            >
+              <Text style={styles.errorModalButtonText}>OK</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  intro: {
+    fontSize: 15,
+    color: colors.textSecondary,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    textTransform: 'uppercase',
+    marginBottom: 12,
+    marginTop: 16,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: colors.textSecondary,
+  },
+  templateCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  templateInfo: {
+    flex: 1,
+  },
+  templateName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  templateMeta: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  actionButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: colors.backgroundAlt,
+  },
+  actionButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  actionButtonDangerText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.error,
+  },
+  editorHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  editorTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  editorCancel: {
+    fontSize: 16,
+    color: colors.textSecondary,
+  },
+  editorSave: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  editorContent: {
+    padding: 20,
+    paddingBottom: 40,
+    gap: 8,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    marginTop: 8,
+  },
+  hintText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  placeholderHint: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    lineHeight: 18,
+  },
+  input: {
+    backgroundColor: colors.backgroundAlt,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: colors.text,
+  },
+  bodyInput: {
+    minHeight: 320,
+    fontSize: 14,
+  },
+  chips: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: colors.backgroundAlt,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  modalContent: {
+    backgroundColor: colors.background,
+    borderRadius: 16,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: 12,
+  },
+  modalMessage: {
+    fontSize: 16,
+    color: colors.textSecondary,
+    marginBottom: 24,
+    lineHeight: 22,
+  },
+  errorModalButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  errorModalButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,335 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  StyleSheet,
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Modal,
+  Linking,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useLocalSearchParams, useRouter, Stack } from "expo-router";
+import { IconSymbol } from "@/components/IconSymbol";
+import { colors } from "@/styles/commonStyles";
+import { useAuth } from "@/contexts/AuthContext";
+import { authenticatedGet, authenticatedPost } from "@/utils/api";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { getDateLocale } from "@/utils/appointments";
+import { AGREEMENT_LANGUAGE_LABEL_KEYS, TenancyAgreement, needsAcknowledgement } from "@/utils/agreements";
+
+export default function AgreementScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { user } = useAuth();
+  const { language, t } = useLanguage();
+
+  const [agreement, setAgreement] = useState<TenancyAgreement | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [acknowledging, setAcknowledging] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const loadAgreement = useCallback(async () => {
+    try {
+      setLoading(true);
+      console.log("Fetching tenancy agreement:", id);
+      const data = await authenticatedGet<TenancyAgreement>(`/api/agreements/${id}`);
+      setAgreement(data);
+    } catch (error) {
+      console.error("Error loading tenancy agreement:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadAgreement();
+  }, [loadAgreement]);
+
+  const handleOpenPdf = () => {
+    console.log("User tapped View PDF for agreement:", id);
+    if (!agreement?.url) {
+      setErrorMessage(t('documentUnavailable'));
+      return;
+    }
+    Linking.openURL(agreement.url);
+  };
+
+  const handleAcknowledge = async () => {
+    console.log("User acknowledging agreement:", id);
+    try {
+      setAcknowledging(true);
+      const updated = await authenticatedPost<TenancyAgreement>(`/api/agreements/${id}/acknowledge`, {
+        version: agreement?.version,
+      });
+      setAgreement(updated);
+    } catch (error) {
+      console.error("Error acknowledging agreement:", error);
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setErrorMessage(`${t('errorAcknowledgingAgreement')} ${errorMsg}`);
+      // The agreement may have been regenerated meanwhile; show the current version
+      loadAgreement();
+    } finally {
+      setAcknowledging(false);
+    }
+  };
+
+  const formatAcknowledgement = (acknowledgedAt: string | null) =>
+    acknowledgedAt
+      ? `${t('acknowledgedOn')} ${new Date(acknowledgedAt).toLocaleDateString(getDateLocale(language), {
+          day: "numeric",
+          month: "short",
+          year: "numeric",
+        })}`
+      : t('awaitingAcknowledgement');
+
+  const renderContent = () => {
+    if (!agreement) {
+      return (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>{t('agreementNotFound')}</Text>
+        </View>
+      );
+    }
+
+    const parties = [
+      { label: t('landlord'), name: agreement.owner?.name, acknowledgedAt: agreement.ownerAcknowledgedAt },
+      { label: t('tenant'), name: agreement.tenant?.name, acknowledgedAt: agreement.tenantAcknowledgedAt },
+    ];
+    const canAcknowledge = needsAcknowledgement(agreement, user?.id);
+
+    return (
+      <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
+        <TouchableOpacity onPress={() => router.push(`/property/${agreement.propertyId}`)}>
+          <Text style={styles.propertyTitle} numberOfLines={2}>{agreement.property.title}</Text>
+        </TouchableOpacity>
+        <Text style={styles.metaText}>{t(AGREEMENT_LANGUAGE_LABEL_KEYS[agreement.language])}</Text>
+
+        <TouchableOpacity style={styles.pdfButton} onPress={handleOpenPdf}>
+          <IconSymbol
+            ios_icon_name="doc.richtext"
+            android_material_icon_name="picture-as-pdf"
+            size={22}
+            color={colors.primary}
+          />
+          <Text style={styles.pdfButtonText}>{t('viewAgreementPdf')}</Text>
+          <IconSymbol
+            ios_icon_name="chevron.right"
+            android_material_icon_name="chevron-right"
+            size={20}
+            color={colors.textSecondary}
+          />
+        </TouchableOpacity>
+
+        <View style={styles.card}>
+          {parties.map((party) => (
+            <View key={party.label} style={styles.partyRow}>
+              <IconSymbol
+                ios_icon_name={party.acknowledgedAt ? "checkmark.circle.fill" : "clock"}
+                android_material_icon_name={party.acknowledgedAt ? "check-circle" : "schedule"}
+                size={22}
+                color={party.acknowledgedAt ? colors.primary : colors.textSecondary}
+              />
+              <View style={styles.partyInfo}>
+                <Text style={styles.partyName}>{`${party.label}: ${party.name ?? ''}`}</Text>
+                <Text style={styles.metaText}>{formatAcknowledgement(party.acknowledgedAt)}</Text>
+              </View>
+            </View>
+          ))}
+        </View>
+
+        {canAcknowledge && (
+          <>
+            <Text style={styles.hintText}>{t('acknowledgeAgreementHint')}</Text>
+            <TouchableOpacity
+              style={[styles.acknowledgeButton, acknowledging && styles.acknowledgeButtonDisabled]}
+              onPress={handleAcknowledge}
+              disabled={acknowledging}
+            >
+              {acknowledging ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={styles.acknowledgeButtonText}>{t('acknowledgeAgreement')}</Text>
+              )}
+            </TouchableOpacity>
+          </>
+        )}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          title: t('tenancyAgreement'),
+          headerShown: true,
+          headerBackTitle: "Back",
+        }}
+      />
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        renderContent()
+      )}
+
+      <Modal
+        visible={!!errorMessage}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setErrorMessage(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>{t('error')}</Text>
+            <Text style={styles.modalMessage}>{errorMessage}</Text>
+            <TouchableOpacity
+              style={styles.errorModalButton}
+              onPress={() => setErrorMessage(null)}
+            >
+              <Text style={styles.errorModalButtonText}>OK</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  emptyText: {
+    fontSize: 18,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    padding: 20,
+    paddingBottom: 40,
+    gap: 12,
+  },
+  propertyTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  metaText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  pdfButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    marginTop: 8,
+  },
+  pdfButtonText: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  card: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    gap: 16,
+  },
+  partyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  partyInfo: {
+    flex: 1,
+  },
+  partyName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  hintText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginTop: 8,
+  },
+  acknowledgeButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  acknowledgeButtonDisabled: {
+    opacity: 0.6,
+  },
+  acknowledgeButtonText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  modalContent: {
+    backgroundColor: colors.background,
+    borderRadius: 16,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: 12,
+  },
+  modalMessage: {
+    fontSize: 16,
+    color: colors.textSecondary,
+    marginBottom: 24,
+    lineHeight: 22,
+  },
+  errorModalButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  errorModalButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,912 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  StyleSheet,
+  View,
+  Text,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Modal,
+  Switch,
+  Linking,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useLocalSearchParams, useRouter, Stack } from "expo-router";
+import { IconSymbol } from "@/components/IconSymbol";
+import { colors } from "@/styles/commonStyles";
+import { useAuth } from "@/contexts/AuthContext";
+import { authenticatedGet, authenticatedPost, authenticatedPut } from "@/utils/api";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { getDateLocale } from "@/utils/appointments";
+import { formatHKD } from "@/utils/marketStats";
+import { ApplicationDocumentsField } from "@/components/ApplicationDocumentsField";
+import { AGREEMENT_LANGUAGE_LABEL_KEYS, AgreementTemplate, TenancyAgreement, needsAcknowledgement } from "@/utils/agreements";
+import { RentLedger } from "@/utils/rentLedger";
+import {
+  APPLICATION_STATUS_LABEL_KEYS,
+  DOCUMENT_TYPE_LABEL_KEYS,
+  RentalApplication,
+  UploadedDocument,
+  isOpenApplication,
+} from "@/utils/applications";
+
+type Decision = "accept" | "reject" | "request_info";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Blank fields fall back to the move-in date and the listing's terms
+const EMPTY_TENANCY_FORM = { startDate: "", endDate: "", monthlyRent: "", depositAmount: "" };
+
+export default function ApplicationScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { user } = useAuth();
+  const { language, t } = useLanguage();
+
+  const [application, setApplication] = useState<RentalApplication | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const [note, setNote] = useState("");
+  const [markRented, setMarkRented] = useState(true);
+  const [newDocuments, setNewDocuments] = useState<UploadedDocument[]>([]);
+  const [confirmingWithdraw, setConfirmingWithdraw] = useState(false);
+  const [templates, setTemplates] = useState<AgreementTemplate[]>([]);
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const [tenancyForm, setTenancyForm] = useState(EMPTY_TENANCY_FORM);
+  const [startingTenancy, setStartingTenancy] = useState(false);
+  const [errorModalVisible, setErrorModalVisible] = useState(false);
+  const [errorMessage, setErrorMessage] = useState("");
+
+  const loadApplication = useCallback(async () => {
+    try {
+      setLoading(true);
+      console.log("Fetching application:", id);
+      const data = await authenticatedGet<RentalApplication>(`/api/applications/${id}`);
+      setApplication(data);
+    } catch (error) {
+      console.error("Error loading application:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadApplication();
+  }, [loadApplication]);
+
+  // Templates are only needed once the owner has accepted the applicant
+  const canGenerateAgreement =
+    !!application &&
+    application.status === "accepted" &&
+    application.property?.ownerId === user?.id &&
+    !(application.agreement?.ownerAcknowledgedAt && application.agreement?.tenantAcknowledgedAt);
+
+  useEffect(() => {
+    if (!canGenerateAgreement) return;
+
+    let cancelled = false;
+    const loadTemplates = async () => {
+      try {
+        console.log("Fetching agreement templates");
+        const data = await authenticatedGet<AgreementTemplate[]>("/api/agreement-templates");
+        if (!cancelled) {
+          setTemplates(data);
+          setTemplateId((current) => current ?? data[0]?.id ?? null);
+        }
+      } catch (error) {
+        console.error("Error loading agreement templates:", error);
+      }
+    };
+    loadTemplates();
+    return () => {
+      cancelled = true;
+    };
+  }, [canGenerateAgreement]);
+
+  const showError = (text: string) => {
+    setErrorMessage(text);
+    setErrorModalVisible(true);
+  };
+
+  const handleDecision = async (decision: Decision) => {
+    console.log("Owner decided on application:", id, decision);
+    if (decision === "request_info" && !note.trim()) {
+      showError(t('infoRequestNoteRequired'));
+      return;
+    }
+
+    try {
+      setUpdating(true);
+      const updated = await authenticatedPost<RentalApplication>(`/api/applications/${id}/decision`, {
+        decision,
+        note: note.trim() || undefined,
+        markRented: decision === "accept" && markRented,
+      });
+      setApplication(updated);
+      setNote("");
+    } catch (error) {
+      console.error("Error deciding on application:", error);
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      showError(`${t('errorUpdatingApplication')} ${errorMsg}`);
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleResubmit = async () => {
+    console.log("Applicant resubmitting application:", id, "new documents:", newDocuments.length);
+    try {
+      setUpdating(true);
+      const updated = await authenticatedPut<RentalApplication>(`/api/applications/${id}`, {
+        documents: newDocuments,
+      });
+      setApplication(updated);
+      setNewDocuments([]);
+    } catch (error) {
+      console.error("Error resubmitting application:", error);
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      showError(`${t('errorUpdatingApplication')} ${errorMsg}`);
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleWithdrawConfirm = async () => {
+    console.log("Withdrawing application:", id);
+    setConfirmingWithdraw(false);
+    try {
+      setUpdating(true);
+      await authenticatedPost(`/api/applications/${id}/withdraw`, {});
+      await loadApplication();
+    } catch (error) {
+      console.error("Error withdrawing application:", error);
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      showError(`${t('errorUpdatingApplication')} ${errorMsg}`);
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleGenerateAgreement = async () => {
+    if (!templateId) return;
+
+    console.log("Generating tenancy agreement for application:", id, "template:", templateId);
+    try {
+      setGenerating(true);
+      const agreement = await authenticatedPost<TenancyAgreement>(`/api/applications/${id}/agreement`, { templateId });
+      router.push(`/agreement/${agreement.id}`);
+      await loadApplication();
+    } catch (error) {
+      console.error("Error generating tenancy agreement:", error);
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      showError(`${t('errorGeneratingAgreement')} ${errorMsg}`);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleStartTenancy = async () => {
+    const startDate = tenancyForm.startDate.trim();
+    const endDate = tenancyForm.endDate.trim();
+    const monthlyRent = tenancyForm.monthlyRent.trim();
+    const depositAmount = tenancyForm.depositAmount.trim();
+    if (
+      (startDate && !DATE_PATTERN.test(startDate)) ||
+      (endDate && !DATE_PATTERN.test(endDate)) ||
+      (monthlyRent && !(Number(monthlyRent) > 0)) ||
+      (depositAmount && !(Number(depositAmount) >= 0))
+    ) {
+      showError(t('tenancyFieldsInvalid'));
+      return;
+    }
+
+    console.log("Starting tenancy for application:", id);
+    try {
+      setStartingTenancy(true);
+      const ledger = await authenticatedPost<RentLedger>(`/api/applications/${id}/tenancy`, {
+        startDate: startDate || undefined,
+        endDate: endDate || undefined,
+        monthlyRent: monthlyRent ? Number(monthlyRent) : undefined,
+        depositAmount: depositAmount ? Number(depositAmount) : undefined,
+      });
+      setTenancyForm(EMPTY_TENANCY_FORM);
+      router.push(`/tenancy/${ledger.id}`);
+      await loadApplication();
+    } catch (error) {
+      console.error("Error starting tenancy:", error);
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      showError(`${t('errorStartingTenancy')} ${errorMsg}`);
+    } finally {
+      setStartingTenancy(false);
+    }
+  };
+
+  const handleOpenDocument = (url: string | null | undefined) => {
+    if (!url) {
+      showError(t('documentUnavailable'));
+      return;
+    }
+    Linking.openURL(url);
+  };
+
+  const formatDate = (value: string) =>
+    new Date(value.length === 10 ? `${value}T00:00:00` : value).toLocaleDateString(getDateLocale(language), {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    });
+
+  const renderContent = () => {
+    if (!application) {
+      return (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>{t('applicationNotFound')}</Text>
+        </View>
+      );
+    }
+
+    const isOwner = application.property?.ownerId === user?.id;
+    const isOpen = isOpenApplication(application.status);
+    const canMarkRented = application.property?.status === "published";
+    const details = [
+      { label: t('moveInDate'), value: formatDate(application.moveInDate) },
+      { label: t('occupants'), value: String(application.occupants) },
+      { label: t('monthlyIncome'), value: formatHKD(Number(application.monthlyIncome)) },
+      { label: t('submittedOn'), value: formatDate(application.createdAt) },
+    ];
+
+    return (
+      <ScrollView style={styles.list} contentContainerStyle={styles.listContent} keyboardShouldPersistTaps="handled">
+        {application.property && (
+          <TouchableOpacity onPress={() => router.push(`/property/${application.propertyId}`)}>
+            <Text style={styles.propertyTitle} numberOfLines={2}>{application.property.title}</Text>
+            <Text style={styles.metaText}>{application.property.district}</Text>
+          </TouchableOpacity>
+        )}
+
+        <View style={styles.statusRow}>
+          <View
+            style={[
+              styles.statusBadge,
+              application.status === "accepted" && styles.statusBadgeAccepted,
+              application.status === "rejected" && styles.statusBadgeRejected,
+            ]}
+          >
+            <Text style={styles.statusBadgeText}>{t(APPLICATION_STATUS_LABEL_KEYS[application.status])}</Text>
+          </View>
+          {isOwner && application.applicant && (
+            <Text style={styles.metaText} numberOfLines={1}>
+              {application.applicant.name}
+              {application.applicant.email ? ` · ${application.applicant.email}` : ""}
+            </Text>
+          )}
+        </View>
+
+        {!!application.ownerNote && (
+          <View style={styles.noteCard}>
+            <Text style={styles.noteLabel}>{t('ownerNote')}</Text>
+            <Text style={styles.noteText}>{application.ownerNote}</Text>
+          </View>
+        )}
+
+        <View style={styles.card}>
+          {details.map((detail) => (
+            <View key={detail.label} style={styles.detailRow}>
+              <Text style={styles.detailLabel}>{detail.label}</Text>
+              <Text style={styles.detailValue}>{detail.value}</Text>
+            </View>
+          ))}
+          {!!application.message && <Text style={styles.messageText}>{application.message}</Text>}
+        </View>
+
+        <Text style={styles.sectionTitle}>{t('applicationDocuments')}</Text>
+        {application.documents.map((document) => (
+          <TouchableOpacity
+            key={document.id}
+            style={styles.documentRow}
+            onPress={() => handleOpenDocument(document.url)}
+          >
+            <IconSymbol
+              ios_icon_name="doc.text"
+              android_material_icon_name="description"
+              size={20}
+              color={colors.primary}
+            />
+            <View style={styles.documentInfo}>
+              <Text style={styles.documentName} numberOfLines={1}>{document.filename}</Text>
+              <Text style={styles.metaText}>{t(DOCUMENT_TYPE_LABEL_KEYS[document.type])}</Text>
+            </View>
+            <IconSymbol
+              ios_icon_name="chevron.right"
+              android_material_icon_name="chevron-right"
+              size={18}
+              color={colors.textSecondary}
+            />
+          </TouchableOpacity>
+        ))}
+
+        {application.agreement && (
+          <TouchableOpacity
+            style={styles.agreementRow}
+            onPress={() => router.push(`/agreement/${application.agreement!.id}`)}
+          >
+            <IconSymbol
+              ios_icon_name="doc.richtext"
+              android_material_icon_name="picture-as-pdf"
+              size={22}
+              color={colors.primary}
+            />
+            <View style={styles.documentInfo}>
+              <Text style={styles.agreementRowTitle}>{t('tenancyAgreement')}</Text>
+              <Text style={styles.metaText}>
+                {needsAcknowledgement(
+                  { ownerId: application.property?.ownerId ?? "", ...application.agreement },
+                  user?.id
+                )
+                  ? t('awaitingYourAcknowledgement')
+                  : application.agreement.ownerAcknowledgedAt && application.agreement.tenantAcknowledgedAt
+                    ? t('agreementAcknowledged')
+                    : t('awaitingOtherParty')}
+              </Text>
+            </View>
+            <IconSymbol
+              ios_icon_name="chevron.right"
+              android_material_icon_name="chevron-right"
+              size={18}
+              color={colors.textSecondary}
+            />
+          </TouchableOpacity>
+        )}
+
+        {canGenerateAgreement && (
+          <View style={styles.actionsCard}>
+            <Text style={styles.sectionTitle}>
+              {application.agreement ? t('regenerateAgreement') : t('prepareAgreement')}
+            </Text>
+            <Text style={styles.metaText}>{t('chooseAgreementTemplate')}</Text>
+            {templates.map((template) => (
+              <TouchableOpacity
+                key={template.id}
+                style={[styles.templateOption, templateId === template.id && styles.templateOptionActive]}
+                onPress={() => setTemplateId(template.id)}
+              >
+                <Text style={styles.documentName} numberOfLines={1}>{template.name}</Text>
+                <Text style={styles.metaText}>{t(AGREEMENT_LANGUAGE_LABEL_KEYS[template.language])}</Text>
+              </TouchableOpacity>
+            ))}
+            <View style={styles.actions}>
+              {generating ? (
+                <ActivityIndicator size="small" color={colors.primary} />
+              ) : (
+                <TouchableOpacity
+                  style={[styles.actionButton, styles.actionButtonPrimary]}
+                  onPress={handleGenerateAgreement}
+                  disabled={!templateId}
+                >
+                  <Text style={styles.actionButtonPrimaryText}>{t('generateAgreement')}</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity style={styles.actionButton} onPress={() => router.push("/agreement-templates")}>
+                <Text style={styles.actionButtonText}>{t('agreementTemplates')}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        {application.tenancy && (
+          <TouchableOpacity
+            style={styles.agreementRow}
+            onPress={() => router.push(`/tenancy/${application.tenancy!.id}`)}
+          >
+            <IconSymbol
+              ios_icon_name="banknote"
+              android_material_icon_name="payments"
+              size={22}
+              color={colors.primary}
+            />
+            <Text style={[styles.agreementRowTitle, styles.documentInfo]}>{t('rentLedger')}</Text>
+            <IconSymbol
+              ios_icon_name="chevron.right"
+              android_material_icon_name="chevron-right"
+              size={18}
+              color={colors.textSecondary}
+            />
+          </TouchableOpacity>
+        )}
+
+        {isOwner && application.status === "accepted" && !application.tenancy && (
+          <View style={styles.actionsCard}>
+            <Text style={styles.sectionTitle}>{t('startRentLedger')}</Text>
+            <Text style={styles.metaText}>{t('tenancyDefaultsHint')}</Text>
+            <View style={styles.tenancyFormRow}>
+              <TextInput
+                style={[styles.input, styles.tenancyFormInput]}
+                placeholder={`${t('tenancyStartDate')} (${application.moveInDate})`}
+                placeholderTextColor={colors.textSecondary}
+                value={tenancyForm.startDate}
+                onChangeText={(startDate) => setTenancyForm({ ...tenancyForm, startDate })}
+                autoCapitalize="none"
+              />
+              <TextInput
+                style={[styles.input, styles.tenancyFormInput]}
+                placeholder={`${t('tenancyEndDate')} (YYYY-MM-DD)`}
+                placeholderTextColor={colors.textSecondary}
+                value={tenancyForm.endDate}
+                onChangeText={(endDate) => setTenancyForm({ ...tenancyForm, endDate })}
+                autoCapitalize="none"
+              />
+            </View>
+            <View style={styles.tenancyFormRow}>
+              <TextInput
+                style={[styles.input, styles.tenancyFormInput]}
+                placeholder={`${t('monthlyRent')} (${application.property?.price ?? ''})`}
+                placeholderTextColor={colors.textSecondary}
+                value={tenancyForm.monthlyRent}
+                onChangeText={(monthlyRent) => setTenancyForm({ ...tenancyForm, monthlyRent })}
+                keyboardType="decimal-pad"
+              />
+              <TextInput
+                style={[styles.input, styles.tenancyFormInput]}
+                placeholder={t('deposit')}
+                placeholderTextColor={colors.textSecondary}
+                value={tenancyForm.depositAmount}
+                onChangeText={(depositAmount) => setTenancyForm({ ...tenancyForm, depositAmount })}
+                keyboardType="decimal-pad"
+              />
+            </View>
+            {startingTenancy ? (
+              <ActivityIndicator size="small" color={colors.primary} />
+            ) : (
+              <TouchableOpacity
+                style={[styles.actionButton, styles.actionButtonPrimary, styles.fullWidthButton]}
+                onPress={handleStartTenancy}
+              >
+                <Text style={styles.actionButtonPrimaryText}>{t('startRentLedger')}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
+        {updating && <ActivityIndicator size="small" color={colors.primary} style={styles.updating} />}
+
+        {isOwner && isOpen && !updating && (
+          <View style={styles.actionsCard}>
+            <Text style={styles.sectionTitle}>{t('reviewApplication')}</Text>
+            <TextInput
+              style={[styles.input, styles.textArea]}
+              placeholder={t('ownerNotePlaceholder')}
+              placeholderTextColor={colors.textSecondary}
+              value={note}
+              onChangeText={setNote}
+              multiline
+              maxLength={1000}
+              textAlignVertical="top"
+            />
+            {canMarkRented && (
+              <View style={styles.switchRow}>
+                <Text style={styles.switchLabel}>{t('markListingRented')}</Text>
+                <Switch value={markRented} onValueChange={setMarkRented} />
+              </View>
+            )}
+            <View style={styles.actions}>
+              <TouchableOpacity
+                style={[styles.actionButton, styles.actionButtonPrimary]}
+                onPress={() => handleDecision("accept")}
+              >
+                <Text style={styles.actionButtonPrimaryText}>{t('acceptApplication')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.actionButton} onPress={() => handleDecision("request_info")}>
+                <Text style={styles.actionButtonText}>{t('requestMoreInfo')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.actionButton} onPress={() => handleDecision("reject")}>
+                <Text style={styles.actionButtonDangerText}>{t('rejectApplication')}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        {!isOwner && isOpen && !updating && (
+          <View style={styles.actionsCard}>
+            {application.status === "info_requested" && (
+              <>
+                <Text style={styles.sectionTitle}>{t('addMoreDocuments')}</Text>
+                <ApplicationDocumentsField
+                  value={newDocuments}
+                  onChange={setNewDocuments}
+                  onError={showError}
+                  existingTypes={application.documents.map((document) => document.type)}
+                />
+                <TouchableOpacity
+                  style={[styles.actionButton, styles.actionButtonPrimary, styles.fullWidthButton]}
+                  onPress={handleResubmit}
+                >
+                  <Text style={styles.actionButtonPrimaryText}>{t('resubmitApplication')}</Text>
+                </TouchableOpacity>
+              </>
+            )}
+            <View style={styles.actions}>
+              {application.chatId && (
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => router.push(`/chat/${application.chatId}`)}
+                >
+                  <IconSymbol
+                    ios_icon_name="message"
+                    android_material_icon_name="message"
+                    size={16}
+                    color={colors.text}
+                  />
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity style={styles.actionButton} onPress={() => setConfirmingWithdraw(true)}>
+                <Text style={styles.actionButtonDangerText}>{t('withdrawApplication')}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          title: t('rentalApplication'),
+          headerShown: true,
+          headerBackTitle: "Back",
+        }}
+      />
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        renderContent()
+      )}
+
+      <Modal
+        visible={confirmingWithdraw}
+        animationType="fade"
+        transparent={true}
+        onRequestClose={() => setConfirmingWithdraw(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>{t('withdrawApplication')}</Text>
+            <Text style={styles.modalMessage}>{t('confirmWithdrawApplication')}</Text>
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={styles.modalCancelButton}
+                onPress={() => setConfirmingWithdraw(false)}
+              >
+                <Text style={styles.modalCancelText}>{t('cancel')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.modalConfirmButton}
+                onPress={handleWithdrawConfirm}
+              >
+                <Text style={styles.modalConfirmText}>{t('withdrawApplication')}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal
+        visible={errorModalVisible}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setErrorModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>{t('error')}</Text>
+            <Text style={styles.modalMessage}>{errorMessage}</Text>
+            <TouchableOpacity
+              style={styles.errorModalButton}
+              onPress={() => setErrorModalVisible(false)}
+            >
+              <Text style={styles.errorModalButtonText}>OK</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  emptyText: {
+    fontSize: 18,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    padding: 20,
+    paddingBottom: 40,
+    gap: 12,
+  },
+  propertyTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  metaText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+    flexShrink: 1,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: colors.textSecondary,
+  },
+  statusBadgeAccepted: {
+    backgroundColor: colors.primary,
+  },
+  statusBadgeRejected: {
+    backgroundColor: colors.error,
+  },
+  statusBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  noteCard: {
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: colors.backgroundAlt,
+    borderLeftWidth: 3,
+    borderLeftColor: colors.primary,
+  },
+  noteLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    marginBottom: 4,
+  },
+  noteText: {
+    fontSize: 15,
+    color: colors.text,
+  },
+  card: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    gap: 8,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  detailLabel: {
+    fontSize: 15,
+    color: colors.textSecondary,
+  },
+  detailValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  messageText: {
+    fontSize: 15,
+    color: colors.text,
+    marginTop: 4,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+    marginTop: 8,
+  },
+  documentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  documentInfo: {
+    flex: 1,
+  },
+  documentName: {
+    fontSize: 15,
+    color: colors.text,
+  },
+  agreementRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    marginTop: 8,
+  },
+  agreementRowTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  tenancyFormRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  tenancyFormInput: {
+    flex: 1,
+  },
+  templateOption: {
+    padding: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  templateOptionActive: {
+    borderColor: colors.primary,
+    backgroundColor: colors.backgroundAlt,
+  },
+  updating: {
+    marginTop: 16,
+  },
+  actionsCard: {
+    gap: 12,
+    marginTop: 8,
+  },
+  input: {
+    backgroundColor: colors.backgroundAlt,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: colors.text,
+  },
+  textArea: {
+    minHeight: 80,
+    paddingTop: 14,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  switchLabel: {
+    fontSize: 15,
+    color: colors.text,
+    flex: 1,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: colors.backgroundAlt,
+  },
+  actionButtonPrimary: {
+    backgroundColor: colors.primary,
+  },
+  fullWidthButton: {
+    paddingVertical: 12,
+  },
+  actionButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  actionButtonPrimaryText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  actionButtonDangerText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.error,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  modalContent: {
+    backgroundColor: colors.background,
+    borderRadius: 16,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: 12,
+  },
+  modalMessage: {
+    fontSize: 16,
+    color: colors.textSecondary,
+    marginBottom: 24,
+    lineHeight: 22,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  modalCancelButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: colors.backgroundAlt,
+    alignItems: 'center',
+  },
+  modalCancelText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  modalConfirmButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: colors.error,
+    alignItems: 'center',
+  },
+  modalConfirmText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  errorModalButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  errorModalButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
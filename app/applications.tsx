@@ -0,0 +1,204 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { StyleSheet, View, Text, ScrollView, TouchableOpacity, ActivityIndicator } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useLocalSearchParams, useRouter, Stack } from "expo-router";
+import { IconSymbol } from "@/components/IconSymbol";
+import { colors } from "@/styles/commonStyles";
+import { authenticatedGet } from "@/utils/api";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { getDateLocale } from "@/utils/appointments";
+import { formatHKD } from "@/utils/marketStats";
+import { APPLICATION_STATUS_LABEL_KEYS, RentalApplication, isOpenApplication } from "@/utils/applications";
+
+/**
+ * With a `propertyId` param this is the owner's review queue for one listing;
+ * without it, the signed-in user's own applications.
+ */
+export default function ApplicationsScreen() {
+  const { propertyId } = useLocalSearchParams<{ propertyId?: string }>();
+  const router = useRouter();
+  const { language, t } = useLanguage();
+
+  const [applications, setApplications] = useState<RentalApplication[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadApplications = useCallback(async () => {
+    const endpoint = propertyId ? `/api/properties/${propertyId}/applications` : "/api/applications";
+    try {
+      setLoading(true);
+      console.log("Fetching applications from:", endpoint);
+      const data = await authenticatedGet<RentalApplication[]>(endpoint);
+      console.log("Applications loaded:", data.length);
+      setApplications(data);
+    } catch (error) {
+      console.error("Error loading applications:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [propertyId]);
+
+  useEffect(() => {
+    loadApplications();
+  }, [loadApplications]);
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString(getDateLocale(language), { day: "numeric", month: "short", year: "numeric" });
+
+  const open = applications.filter((application) => isOpenApplication(application.status));
+  const closed = applications.filter((application) => !isOpenApplication(application.status));
+
+  const renderApplication = (application: RentalApplication) => {
+    const title = propertyId ? application.applicant?.name : application.property?.title;
+    const meta = propertyId
+      ? `${formatHKD(Number(application.monthlyIncome))} · ${application.occupants} ${t('occupants')}`
+      : application.property?.district;
+
+    return (
+      <TouchableOpacity
+        key={application.id}
+        style={styles.applicationCard}
+        onPress={() => router.push(`/application/${application.id}`)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.applicationInfo}>
+          <Text style={styles.applicationTitle} numberOfLines={1}>{title}</Text>
+          <Text style={styles.applicationMeta} numberOfLines={1}>{meta}</Text>
+          <Text style={styles.applicationMeta}>{`${t('submittedOn')} ${formatDate(application.createdAt)}`}</Text>
+        </View>
+        <View
+          style={[
+            styles.statusBadge,
+            application.status === "accepted" && styles.statusBadgeAccepted,
+            application.status === "rejected" && styles.statusBadgeRejected,
+          ]}
+        >
+          <Text style={styles.statusBadgeText}>{t(APPLICATION_STATUS_LABEL_KEYS[application.status])}</Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          title: propertyId ? t('rentalApplications') : t('myApplications'),
+          headerShown: true,
+          headerBackTitle: "Back",
+        }}
+      />
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : applications.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <IconSymbol
+            ios_icon_name="doc.text"
+            android_material_icon_name="description"
+            size={64}
+            color={colors.textSecondary}
+          />
+          <Text style={styles.emptyText}>{t('noApplications')}</Text>
+        </View>
+      ) : (
+        <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
+          {open.length > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>{t('openApplications')}</Text>
+              {open.map(renderApplication)}
+            </>
+          )}
+          {closed.length > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>{t('closedApplications')}</Text>
+              {closed.map(renderApplication)}
+            </>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  emptyText: {
+    fontSize: 18,
+    color: colors.textSecondary,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    textTransform: 'uppercase',
+    marginBottom: 12,
+    marginTop: 8,
+  },
+  applicationCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  applicationInfo: {
+    flex: 1,
+  },
+  applicationTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 4,
+  },
+  applicationMeta: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: colors.textSecondary,
+  },
+  statusBadgeAccepted: {
+    backgroundColor: colors.primary,
+  },
+  statusBadgeRejected: {
+    backgroundColor: colors.error,
+  },
+  statusBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
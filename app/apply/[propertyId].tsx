@@ -0,0 +1,318 @@
+import React, { useState } from "react";
+import {
+  StyleSheet,
+  View,
+  Text,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Modal,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useLocalSearchParams, useRouter, Stack } from "expo-router";
+import { IconSymbol } from "@/components/IconSymbol";
+import { colors } from "@/styles/commonStyles";
+import { authenticatedPost } from "@/utils/api";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { ApplicationDocumentsField } from "@/components/ApplicationDocumentsField";
+import {
+  APPLICATION_DOCUMENT_TYPES,
+  DOCUMENT_TYPE_LABEL_KEYS,
+  RentalApplication,
+  UploadedDocument,
+} from "@/utils/applications";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export default function ApplyScreen() {
+  const { propertyId, chatId } = useLocalSearchParams<{ propertyId: string; chatId?: string }>();
+  const router = useRouter();
+  const { t } = useLanguage();
+
+  const [moveInDate, setMoveInDate] = useState("");
+  const [occupants, setOccupants] = useState("1");
+  const [monthlyIncome, setMonthlyIncome] = useState("");
+  const [message, setMessage] = useState("");
+  const [documents, setDocuments] = useState<UploadedDocument[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [errorModalVisible, setErrorModalVisible] = useState(false);
+  const [errorMessage, setErrorMessage] = useState("");
+
+  const showError = (text: string) => {
+    setErrorMessage(text);
+    setErrorModalVisible(true);
+  };
+
+  const handleSubmit = async () => {
+    console.log("User tapped Submit Application for property:", propertyId);
+
+    const occupantCount = parseInt(occupants, 10);
+    const income = parseFloat(monthlyIncome);
+    if (!DATE_PATTERN.test(moveInDate) || isNaN(occupantCount) || occupantCount < 1 || isNaN(income) || income <= 0) {
+      showError(t('applicationFieldsRequired'));
+      return;
+    }
+
+    const missingTypes = APPLICATION_DOCUMENT_TYPES.filter(
+      (type) => !documents.some((document) => document.type === type)
+    );
+    if (missingTypes.length > 0) {
+      showError(`${t('missingDocuments')} ${missingTypes.map((type) => t(DOCUMENT_TYPE_LABEL_KEYS[type])).join(", ")}`);
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const application = await authenticatedPost<RentalApplication>(`/api/properties/${propertyId}/applications`, {
+        moveInDate,
+        occupants: occupantCount,
+        monthlyIncome: income,
+        message: message.trim() || null,
+        documents,
+      });
+      console.log("Application submitted:", application.id);
+
+      // Let the owner know in the conversation the application came from
+      if (chatId) {
+        try {
+          await authenticatedPost(`/api/chats/${chatId}/messages`, { content: t('applicationSentMessage') });
+        } catch (error) {
+          console.error("Error posting application message to chat:", error);
+        }
+      }
+
+      router.replace(`/application/${application.id}`);
+    } catch (error) {
+      console.error("Error submitting application:", error);
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      showError(`${t('errorSubmittingApplication')} ${errorMsg}`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          title: t('rentalApplication'),
+          headerShown: true,
+          headerBackTitle: "Back",
+        }}
+      />
+
+      <ScrollView style={styles.list} contentContainerStyle={styles.listContent} keyboardShouldPersistTaps="handled">
+        <Text style={styles.intro}>{t('rentalApplicationIntro')}</Text>
+
+        <View style={styles.formGroup}>
+          <Text style={styles.label}>{t('moveInDate')}</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="YYYY-MM-DD"
+            placeholderTextColor={colors.textSecondary}
+            value={moveInDate}
+            onChangeText={setMoveInDate}
+            autoCapitalize="none"
+          />
+        </View>
+
+        <View style={styles.formRow}>
+          <View style={[styles.formGroup, styles.formGroupHalf]}>
+            <Text style={styles.label}>{t('occupants')}</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="e.g., 2"
+              placeholderTextColor={colors.textSecondary}
+              value={occupants}
+              onChangeText={setOccupants}
+              keyboardType="numeric"
+            />
+          </View>
+          <View style={[styles.formGroup, styles.formGroupHalf]}>
+            <Text style={styles.label}>{t('monthlyIncome')}</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="e.g., 45000"
+              placeholderTextColor={colors.textSecondary}
+              value={monthlyIncome}
+              onChangeText={setMonthlyIncome}
+              keyboardType="numeric"
+            />
+          </View>
+        </View>
+
+        <View style={styles.formGroup}>
+          <Text style={styles.label}>{t('messageToOwner')}</Text>
+          <TextInput
+            style={[styles.input, styles.textArea]}
+            placeholder={t('messageToOwnerPlaceholder')}
+            placeholderTextColor={colors.textSecondary}
+            value={message}
+            onChangeText={setMessage}
+            multiline
+            maxLength={2000}
+            textAlignVertical="top"
+          />
+        </View>
+
+        <View style={styles.formGroup}>
+          <Text style={styles.sectionTitle}>{t('applicationDocuments')}</Text>
+          <Text style={styles.helperText}>{t('applicationDocumentsHint')}</Text>
+          <ApplicationDocumentsField value={documents} onChange={setDocuments} onError={showError} />
+        </View>
+
+        <TouchableOpacity
+          style={[styles.submitButton, submitting && styles.submitButtonDisabled]}
+          onPress={handleSubmit}
+          disabled={submitting}
+          activeOpacity={0.8}
+        >
+          {submitting ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <>
+              <IconSymbol
+                ios_icon_name="checkmark.circle"
+                android_material_icon_name="check-circle"
+                size={20}
+                color="#FFFFFF"
+              />
+              <Text style={styles.submitButtonText}>{t('submitApplication')}</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+
+      <Modal
+        visible={errorModalVisible}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setErrorModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>{t('error')}</Text>
+            <Text style={styles.modalMessage}>{errorMessage}</Text>
+            <TouchableOpacity
+              style={styles.modalButton}
+              onPress={() => setErrorModalVisible(false)}
+            >
+              <Text style={styles.modalButtonText}>OK</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    padding: 20,
+    paddingBottom: 40,
+    gap: 20,
+  },
+  intro: {
+    fontSize: 15,
+    color: colors.textSecondary,
+  },
+  formGroup: {
+    gap: 8,
+  },
+  formRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  formGroupHalf: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  input: {
+    backgroundColor: colors.backgroundAlt,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: colors.text,
+  },
+  textArea: {
+    minHeight: 100,
+    paddingTop: 14,
+  },
+  helperText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  submitButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 12,
+    paddingVertical: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    backgroundColor: colors.background,
+    borderRadius: 16,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: 12,
+  },
+  modalMessage: {
+    fontSize: 16,
+    color: colors.textSecondary,
+    marginBottom: 24,
+  },
+  modalButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  modalButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,500 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  StyleSheet,
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Modal,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useRouter, Stack } from "expo-router";
+import { IconSymbol } from "@/components/IconSymbol";
+import { colors } from "@/styles/commonStyles";
+import { useAuth } from "@/contexts/AuthContext";
+import { authenticatedGet, authenticatedPost } from "@/utils/api";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { ViewingSlotPicker } from "@/components/ViewingSlotPicker";
+import {
+  Appointment,
+  ViewingSlot,
+  APPOINTMENT_STATUS_LABEL_KEYS,
+  formatSlotTime,
+} from "@/utils/appointments";
+
+export default function AppointmentsScreen() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const { language, t } = useLanguage();
+
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [rescheduling, setRescheduling] = useState<Appointment | null>(null);
+  const [rescheduleError, setRescheduleError] = useState<string | null>(null);
+  const [cancelling, setCancelling] = useState<Appointment | null>(null);
+  const [errorModalVisible, setErrorModalVisible] = useState(false);
+  const [errorMessage, setErrorMessage] = useState("");
+
+  const loadAppointments = useCallback(async () => {
+    try {
+      setLoading(true);
+      console.log("Fetching appointments from:", "/api/appointments");
+      const data = await authenticatedGet<Appointment[]>("/api/appointments");
+      console.log("Appointments loaded:", data.length);
+      setAppointments(data);
+    } catch (error) {
+      console.error("Error loading appointments:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAppointments();
+  }, [loadAppointments]);
+
+  const showError = (message: string) => {
+    setErrorMessage(message);
+    setErrorModalVisible(true);
+  };
+
+  const replaceAppointment = (updated: Appointment) => {
+    setAppointments((current) =>
+      current.map((appointment) => (appointment.id === updated.id ? updated : appointment))
+    );
+  };
+
+  const handleConfirm = async (appointment: Appointment) => {
+    console.log("User tapped Confirm for appointment:", appointment.id);
+    try {
+      setUpdatingId(appointment.id);
+      const updated = await authenticatedPost<Appointment>(`/api/appointments/${appointment.id}/confirm`, {});
+      replaceAppointment(updated);
+    } catch (error) {
+      console.error("Error confirming appointment:", error);
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      showError(`${t('errorUpdatingAppointment')} ${errorMsg}`);
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleRescheduleClick = (appointment: Appointment) => {
+    console.log("User tapped Reschedule for appointment:", appointment.id);
+    setRescheduleError(null);
+    setRescheduling(appointment);
+  };
+
+  const handleRescheduleSelect = async (slot: ViewingSlot) => {
+    if (!rescheduling) return;
+
+    console.log("Rescheduling appointment:", rescheduling.id, "to slot:", slot.id);
+    try {
+      setUpdatingId(rescheduling.id);
+      const updated = await authenticatedPost<Appointment>(`/api/appointments/${rescheduling.id}/reschedule`, {
+        slotId: slot.id,
+      });
+      replaceAppointment(updated);
+      setRescheduling(null);
+    } catch (error) {
+      console.error("Error rescheduling appointment:", error);
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setRescheduleError(`${t('errorUpdatingAppointment')} ${errorMsg}`);
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleCancelConfirm = async () => {
+    if (!cancelling) return;
+
+    const appointment = cancelling;
+    console.log("Cancelling appointment:", appointment.id);
+    setCancelling(null);
+    try {
+      setUpdatingId(appointment.id);
+      const updated = await authenticatedPost<Appointment>(`/api/appointments/${appointment.id}/cancel`, {});
+      replaceAppointment(updated);
+    } catch (error) {
+      console.error("Error cancelling appointment:", error);
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      showError(`${t('errorUpdatingAppointment')} ${errorMsg}`);
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const now = Date.now();
+  const upcoming = appointments.filter(
+    (appointment) => appointment.status !== "cancelled" && new Date(appointment.slot.endsAt).getTime() > now
+  );
+  const past = appointments.filter((appointment) => !upcoming.includes(appointment));
+
+  const renderAppointment = (appointment: Appointment) => {
+    const isActive = upcoming.includes(appointment);
+    const isOwner = appointment.ownerId === user?.id;
+    // Whoever proposed the current time can't confirm it themselves
+    const canConfirm = isActive && appointment.status === "pending" && appointment.requestedBy !== user?.id;
+    const isUpdating = updatingId === appointment.id;
+    const roleText = isOwner ? t('viewingAsOwner') : t('viewingAsTenant');
+
+    return (
+      <View key={appointment.id} style={styles.appointmentCard}>
+        <TouchableOpacity onPress={() => router.push(`/property/${appointment.property.id}`)}>
+          <Text style={styles.appointmentTitle} numberOfLines={1}>
+            {appointment.property.title}
+          </Text>
+        </TouchableOpacity>
+        <Text style={styles.appointmentTime}>
+          {formatSlotTime(appointment.slot.startsAt, appointment.slot.endsAt, language)}
+        </Text>
+        <View style={styles.appointmentMeta}>
+          <View
+            style={[
+              styles.statusBadge,
+              appointment.status === "confirmed" && styles.statusBadgeConfirmed,
+              appointment.status === "cancelled" && styles.statusBadgeCancelled,
+            ]}
+          >
+            <Text style={styles.statusBadgeText}>
+              {t(APPOINTMENT_STATUS_LABEL_KEYS[appointment.status])}
+            </Text>
+          </View>
+          <Text style={styles.roleText}>
+            {appointment.property.district} · {roleText}
+          </Text>
+        </View>
+
+        {isActive && (
+          <View style={styles.actions}>
+            {isUpdating ? (
+              <ActivityIndicator size="small" color={colors.primary} />
+            ) : (
+              <>
+                {canConfirm && (
+                  <TouchableOpacity
+                    style={[styles.actionButton, styles.actionButtonPrimary]}
+                    onPress={() => handleConfirm(appointment)}
+                  >
+                    <Text style={styles.actionButtonPrimaryText}>{t('confirmViewing')}</Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => handleRescheduleClick(appointment)}
+                >
+                  <Text style={styles.actionButtonText}>{t('rescheduleViewing')}</Text>
+                </TouchableOpacity>
+                {appointment.chatId && (
+                  <TouchableOpacity
+                    style={styles.actionButton}
+                    onPress={() => router.push(`/chat/${appointment.chatId}`)}
+                  >
+                    <IconSymbol
+                      ios_icon_name="message"
+                      android_material_icon_name="message"
+                      size={16}
+                      color={colors.text}
+                    />
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => setCancelling(appointment)}
+                >
+                  <Text style={styles.actionButtonDangerText}>{t('cancelViewing')}</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          title: t('myViewings'),
+          headerShown: true,
+          headerBackTitle: "Back",
+        }}
+      />
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : appointments.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <IconSymbol
+            ios_icon_name="calendar"
+            android_material_icon_name="event"
+            size={64}
+            color={colors.textSecondary}
+          />
+          <Text style={styles.emptyText}>{t('noViewings')}</Text>
+        </View>
+      ) : (
+        <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
+          {upcoming.length > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>{t('upcomingViewings')}</Text>
+              {upcoming.map(renderAppointment)}
+            </>
+          )}
+          {past.length > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>{t('pastViewings')}</Text>
+              {past.map(renderAppointment)}
+            </>
+          )}
+        </ScrollView>
+      )}
+
+      <ViewingSlotPicker
+        visible={!!rescheduling}
+        propertyId={rescheduling?.propertyId ?? ""}
+        title={t('rescheduleViewing')}
+        submitting={!!rescheduling && updatingId === rescheduling.id}
+        error={rescheduleError}
+        onSelect={handleRescheduleSelect}
+        onClose={() => setRescheduling(null)}
+      />
+
+      <Modal
+        visible={!!cancelling}
+        animationType="fade"
+        transparent={true}
+        onRequestClose={() => setCancelling(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>{t('cancelViewing')}</Text>
+            <Text style={styles.modalMessage}>{t('confirmCancelViewing')}</Text>
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={styles.modalCancelButton}
+                onPress={() => setCancelling(null)}
+              >
+                <Text style={styles.modalCancelText}>{t('cancel')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.modalConfirmButton}
+                onPress={handleCancelConfirm}
+              >
+                <Text style={styles.modalConfirmText}>{t('cancelViewing')}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal
+        visible={errorModalVisible}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setErrorModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>{t('error')}</Text>
+            <Text style={styles.modalMessage}>{errorMessage}</Text>
+            <TouchableOpacity
+              style={styles.errorModalButton}
+              onPress={() => setErrorModalVisible(false)}
+            >
+              <Text style={styles.errorModalButtonText}>OK</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  emptyText: {
+    fontSize: 18,
+    color: colors.textSecondary,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    textTransform: 'uppercase',
+    marginBottom: 12,
+    marginTop: 8,
+  },
+  appointmentCard: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  appointmentTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 4,
+  },
+  appointmentTime: {
+    fontSize: 15,
+    color: colors.text,
+    marginBottom: 8,
+  },
+  appointmentMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: colors.textSecondary,
+  },
+  statusBadgeConfirmed: {
+    backgroundColor: colors.primary,
+  },
+  statusBadgeCancelled: {
+    backgroundColor: colors.error,
+  },
+  statusBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  roleText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    flex: 1,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: colors.backgroundAlt,
+  },
+  actionButtonPrimary: {
+    backgroundColor: colors.primary,
+  },
+  actionButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  actionButtonPrimaryText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  actionButtonDangerText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.error,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  modalContent: {
+    backgroundColor: colors.background,
+    borderRadius: 16,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: 12,
+  },
+  modalMessage: {
+    fontSize: 16,
+    color: colors.textSecondary,
+    marginBottom: 24,
+    lineHeight: 22,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  modalCancelButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: colors.backgroundAlt,
+    alignItems: 'center',
+  },
+  modalCancelText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  modalConfirmButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: colors.error,
+    alignItems: 'center',
+  },
+  modalConfirmText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  errorModalButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  errorModalButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,319 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  StyleSheet,
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Image,
+  ImageSourcePropType,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useLocalSearchParams, useRouter, Stack } from "expo-router";
+import { IconSymbol } from "@/components/IconSymbol";
+import { colors } from "@/styles/commonStyles";
+import { authenticatedGet } from "@/utils/api";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useAmenities, getAmenityLabel } from "@/utils/amenities";
+import { Building, getBuildingName } from "@/utils/buildings";
+import { ListingType, LISTING_TYPE_LABEL_KEYS } from "@/utils/listingTerms";
+import { getBuildingAge } from "@/utils/unitDetails";
+
+interface Unit {
+  id: string;
+  title: string;
+  price: string;
+  size: number;
+  bedrooms: number | null;
+  listingType: ListingType;
+  photos: string[];
+}
+
+interface UnitPage {
+  items: Unit[];
+  nextCursor: string | null;
+}
+
+const PAGE_SIZE = 20;
+
+function resolveImageSource(source: string | number | ImageSourcePropType | undefined): ImageSourcePropType {
+  if (!source) return { uri: '' };
+  if (typeof source === 'string') return { uri: source };
+  return source as ImageSourcePropType;
+}
+
+export default function BuildingScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { language, t } = useLanguage();
+  const amenities = useAmenities();
+
+  const [building, setBuilding] = useState<Building | null>(null);
+  const [units, setUnits] = useState<Unit[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  const unitsEndpoint = `/api/properties?buildingId=${id}&sort=newest&limit=${PAGE_SIZE}`;
+
+  const loadBuilding = useCallback(async () => {
+    try {
+      setLoading(true);
+      console.log("Fetching building:", id);
+      const [buildingData, unitData] = await Promise.all([
+        authenticatedGet<Building>(`/api/buildings/${id}`),
+        authenticatedGet<UnitPage>(unitsEndpoint),
+      ]);
+      console.log("Building loaded with units:", unitData.items.length);
+      setBuilding(buildingData);
+      setUnits(unitData.items);
+      setNextCursor(unitData.nextCursor);
+    } catch (error) {
+      console.error("Error loading building:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [id, unitsEndpoint]);
+
+  useEffect(() => {
+    loadBuilding();
+  }, [loadBuilding]);
+
+  const handleLoadMore = async () => {
+    if (!nextCursor || loadingMore) return;
+
+    try {
+      setLoadingMore(true);
+      const unitData = await authenticatedGet<UnitPage>(`${unitsEndpoint}&cursor=${encodeURIComponent(nextCursor)}`);
+      setUnits((current) => [...current, ...unitData.items]);
+      setNextCursor(unitData.nextCursor);
+    } catch (error) {
+      console.error("Error loading more units:", error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // The other language's name is shown underneath when the building has both
+  const secondaryName =
+    building?.nameZh ? (language === "en" ? building.nameZh : building.nameEn) : null;
+
+  const facilityLabels = building
+    ? building.facilities.map((facilityId) => {
+        const amenity = amenities.find((item) => item.id === facilityId);
+        return amenity ? getAmenityLabel(amenity, language) : facilityId;
+      })
+    : [];
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          title: building ? getBuildingName(building, language) : t('building'),
+          headerShown: true,
+          headerBackTitle: "Back",
+        }}
+      />
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : !building ? (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.emptyText}>{t('buildingNotFound')}</Text>
+        </View>
+      ) : (
+        <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
+          <Text style={styles.name}>{getBuildingName(building, language)}</Text>
+          {!!secondaryName && <Text style={styles.secondaryName}>{secondaryName}</Text>}
+          <Text style={styles.meta}>
+            {building.address ? `${building.district} · ${building.address}` : building.district}
+          </Text>
+          {building.yearBuilt != null && (
+            <Text style={styles.meta}>
+              {`${t('yearBuilt')}: ${building.yearBuilt} (${getBuildingAge(building.yearBuilt)} ${t('years')})`}
+            </Text>
+          )}
+
+          {facilityLabels.length > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>{t('facilities')}</Text>
+              <View style={styles.facilities}>
+                {facilityLabels.map((label) => (
+                  <View key={label} style={styles.facilityChip}>
+                    <Text style={styles.facilityText}>{label}</Text>
+                  </View>
+                ))}
+              </View>
+            </>
+          )}
+
+          <Text style={styles.sectionTitle}>{`${t('unitsAvailable')} (${building.listingCount})`}</Text>
+          {units.length === 0 ? (
+            <Text style={styles.emptyText}>{t('noUnitsAvailable')}</Text>
+          ) : (
+            units.map((unit) => {
+              const firstPhoto = unit.photos && unit.photos.length > 0 ? unit.photos[0] : '';
+              const details = [
+                `HK$${unit.price}`,
+                `${unit.size} sq ft`,
+                unit.bedrooms != null ? (unit.bedrooms === 0 ? t('studio') : `${unit.bedrooms} ${t('bedrooms')}`) : null,
+              ].filter(Boolean);
+
+              return (
+                <TouchableOpacity
+                  key={unit.id}
+                  style={styles.unitRow}
+                  onPress={() => router.push(`/property/${unit.id}`)}
+                  activeOpacity={0.7}
+                >
+                  {firstPhoto ? (
+                    <Image source={resolveImageSource(firstPhoto)} style={styles.unitImage} resizeMode="cover" />
+                  ) : (
+                    <View style={[styles.unitImage, styles.unitImagePlaceholder]}>
+                      <IconSymbol
+                        ios_icon_name="house.fill"
+                        android_material_icon_name="home"
+                        size={24}
+                        color={colors.textSecondary}
+                      />
+                    </View>
+                  )}
+                  <View style={styles.unitInfo}>
+                    <Text style={styles.unitTitle} numberOfLines={1}>{unit.title}</Text>
+                    <Text style={styles.unitMeta} numberOfLines={1}>{details.join(' · ')}</Text>
+                    <Text style={styles.unitType}>{t(LISTING_TYPE_LABEL_KEYS[unit.listingType])}</Text>
+                  </View>
+                </TouchableOpacity>
+              );
+            })
+          )}
+
+          {nextCursor && (
+            <TouchableOpacity style={styles.loadMoreButton} onPress={handleLoadMore} disabled={loadingMore}>
+              {loadingMore ? (
+                <ActivityIndicator size="small" color={colors.primary} />
+              ) : (
+                <Text style={styles.loadMoreText}>{t('loadMore')}</Text>
+              )}
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  name: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  secondaryName: {
+    fontSize: 16,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  meta: {
+    fontSize: 15,
+    color: colors.textSecondary,
+    marginTop: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: colors.textSecondary,
+  },
+  facilities: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  facilityChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: colors.backgroundAlt,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  facilityText: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  unitRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+    gap: 12,
+  },
+  unitImage: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    backgroundColor: colors.backgroundAlt,
+  },
+  unitImagePlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  unitInfo: {
+    flex: 1,
+  },
+  unitTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 2,
+  },
+  unitMeta: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  unitType: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.primary,
+    marginTop: 2,
+  },
+  loadMoreButton: {
+    marginTop: 16,
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    alignItems: 'center',
+  },
+  loadMoreText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+});
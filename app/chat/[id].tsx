@@ -11,12 +11,15 @@ import {
   KeyboardAvoidingView,
   Platform,
 } from "react-native";
-import { useLocalSearchParams, Stack } from "expo-router";
+import { useLocalSearchParams, useRouter, useFocusEffect, Stack } from "expo-router";
 import { IconSymbol } from "@/components/IconSymbol";
 import { colors } from "@/styles/commonStyles";
 import { useAuth } from "@/contexts/AuthContext";
 import { authenticatedGet, authenticatedPost } from "@/utils/api";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { ViewingSlotPicker } from "@/components/ViewingSlotPicker";
+import { ViewingSlot, formatSlotTime } from "@/utils/appointments";
+import { TenancyAgreement, needsAcknowledgement } from "@/utils/agreements";
 
 interface Message {
   id: string;
@@ -37,8 +40,9 @@ interface Chat {
 
 export default function ChatScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
   const { user } = useAuth();
-  const { t } = useLanguage();
+  const { language, t } = useLanguage();
   const scrollViewRef = useRef<ScrollView>(null);
   
   const [messages, setMessages] = useState<Message[]>([]);
@@ -46,6 +50,10 @@ export default function ChatScreen() {
   const [loading, setLoading] = useState(true);
   const [sending, setSending] = useState(false);
   const [messageText, setMessageText] = useState("");
+  const [showSlotPicker, setShowSlotPicker] = useState(false);
+  const [booking, setBooking] = useState(false);
+  const [bookingError, setBookingError] = useState<string | null>(null);
+  const [agreement, setAgreement] = useState<TenancyAgreement | null>(null);
 
   const loadChat = useCallback(async () => {
     try {
@@ -78,6 +86,22 @@ export default function ChatScreen() {
     }
   }, [id]);
 
+  // Reloaded on focus so acknowledging on the agreement screen updates the banner
+  useFocusEffect(
+    useCallback(() => {
+      const loadAgreement = async () => {
+        try {
+          console.log("Fetching tenancy agreements for chat:", id);
+          const data = await authenticatedGet<TenancyAgreement[]>(`/api/agreements?chatId=${id}`);
+          setAgreement(data[0] ?? null);
+        } catch (error) {
+          console.error("Error loading tenancy agreements:", error);
+        }
+      };
+      loadAgreement();
+    }, [id])
+  );
+
   useEffect(() => {
     console.log("Loading chat:", id);
     loadChat();
@@ -112,6 +136,43 @@ export default function ChatScreen() {
     }
   };
 
+  const handleBookViewingClick = () => {
+    console.log("User tapped Book Viewing button in chat");
+    setBookingError(null);
+    setShowSlotPicker(true);
+  };
+
+  const handleApplyClick = () => {
+    if (!chat) return;
+    console.log("User tapped Apply button in chat");
+    router.push(`/apply/${chat.propertyId}?chatId=${id}`);
+  };
+
+  // Books with this chat attached and posts the requested time so the owner sees it here
+  const handleBookSlot = async (slot: ViewingSlot) => {
+    console.log("Booking viewing slot from chat:", slot.id);
+    try {
+      setBooking(true);
+      await authenticatedPost(`/api/viewing-slots/${slot.id}/book`, { chatId: id });
+      setShowSlotPicker(false);
+
+      const newMessage = await authenticatedPost<Message>(`/api/chats/${id}/messages`, {
+        content: `${t('viewingRequestedMessage')} ${formatSlotTime(slot.startsAt, slot.endsAt, language)}`,
+      });
+      setMessages((current) => [...current, newMessage]);
+
+      setTimeout(() => {
+        scrollViewRef.current?.scrollToEnd({ animated: true });
+      }, 100);
+    } catch (error) {
+      console.error("Error booking viewing:", error);
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setBookingError(`${t('errorBookingViewing')} ${errorMsg}`);
+    } finally {
+      setBooking(false);
+    }
+  };
+
   const formatTime = (dateString: string) => {
     const date = new Date(dateString);
     const hours = date.getHours();
@@ -123,6 +184,7 @@ export default function ChatScreen() {
   };
 
   const chatTitle = chat?.property?.title || 'Chat';
+  const isTenant = !!chat && chat.renteeId === user?.id;
 
   return (
     <>
@@ -138,6 +200,32 @@ export default function ChatScreen() {
           </View>
         ) : (
           <>
+            {agreement && (
+              <TouchableOpacity
+                style={styles.agreementBanner}
+                onPress={() => router.push(`/agreement/${agreement.id}`)}
+              >
+                <IconSymbol
+                  ios_icon_name="doc.richtext"
+                  android_material_icon_name="picture-as-pdf"
+                  size={20}
+                  color={colors.primary}
+                />
+                <Text style={styles.agreementBannerText} numberOfLines={1}>
+                  {needsAcknowledgement(agreement, user?.id)
+                    ? t('awaitingYourAcknowledgement')
+                    : agreement.ownerAcknowledgedAt && agreement.tenantAcknowledgedAt
+                      ? t('agreementAcknowledged')
+                      : t('awaitingOtherParty')}
+                </Text>
+                <IconSymbol
+                  ios_icon_name="chevron.right"
+                  android_material_icon_name="chevron-right"
+                  size={18}
+                  color={colors.textSecondary}
+                />
+              </TouchableOpacity>
+            )}
             <ScrollView
               ref={scrollViewRef}
               style={styles.messagesContainer}
@@ -191,6 +279,32 @@ export default function ChatScreen() {
             </ScrollView>
 
             <View style={styles.inputContainer}>
+              {isTenant && (
+                <TouchableOpacity
+                  style={styles.viewingButton}
+                  onPress={handleBookViewingClick}
+                >
+                  <IconSymbol 
+                    ios_icon_name="calendar" 
+                    android_material_icon_name="event" 
+                    size={22} 
+                    color={colors.primary} 
+                  />
+                </TouchableOpacity>
+              )}
+              {isTenant && (
+                <TouchableOpacity
+                  style={styles.viewingButton}
+                  onPress={handleApplyClick}
+                >
+                  <IconSymbol 
+                    ios_icon_name="doc.text" 
+                    android_material_icon_name="description" 
+                    size={22} 
+                    color={colors.primary} 
+                  />
+                </TouchableOpacity>
+              )}
               <TextInput
                 style={styles.input}
                 placeholder={t('typeMessage')}
@@ -223,6 +337,18 @@ export default function ChatScreen() {
           </>
         )}
       </KeyboardAvoidingView>
+
+      {chat && (
+        <ViewingSlotPicker
+          visible={showSlotPicker}
+          propertyId={chat.propertyId}
+          title={t('bookViewing')}
+          submitting={booking}
+          error={bookingError}
+          onSelect={handleBookSlot}
+          onClose={() => setShowSlotPicker(false)}
+        />
+      )}
     </>
   );
 }
@@ -237,6 +363,22 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  agreementBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: colors.backgroundAlt,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  agreementBannerText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
   messagesContainer: {
     flex: 1,
   },
@@ -319,6 +461,14 @@ const styles = StyleSheet.create({
     color: colors.text,
     maxHeight: 100,
   },
+  viewingButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: colors.backgroundAlt,
+  },
   sendButton: {
     width: 44,
     height: 44,
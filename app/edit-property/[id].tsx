@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import {
   StyleSheet,
   View,
@@ -18,10 +18,34 @@ import { SafeAreaView } from "react-native-safe-area-context";
 import { IconSymbol } from "@/components/IconSymbol";
 import { colors } from "@/styles/commonStyles";
 import { useAuth } from "@/contexts/AuthContext";
-import { authenticatedGet, authenticatedPut, authenticatedDelete, BACKEND_URL, getBearerToken } from "@/utils/api";
+import { authenticatedGet, authenticatedPut, authenticatedPatch, authenticatedDelete, BACKEND_URL, getBearerToken } from "@/utils/api";
 import * as ImagePicker from "expo-image-picker";
 import * as ImageManipulator from "expo-image-manipulator";
 import AdModal from "@/components/AdModal";
+import { Map, MapCoordinate, DEFAULT_MAP_REGION } from "@/components/Map";
+import { AmenityPicker } from "@/components/AmenityPicker";
+import { RentalTermsFields } from "@/components/RentalTermsFields";
+import { UnitDetailsFields } from "@/components/UnitDetailsFields";
+import { BuildingPicker } from "@/components/BuildingPicker";
+import { Building, BuildingSummary } from "@/utils/buildings";
+import {
+  EMPTY_RENTAL_TERMS_FORM,
+  RentalTerms,
+  RentalTermsForm,
+  rentalTermsFromForm,
+  rentalTermsToForm,
+  validateRentalTermsForm,
+} from "@/utils/listingTerms";
+import {
+  EMPTY_UNIT_DETAILS_FORM,
+  UnitDetails,
+  UnitDetailsForm,
+  unitDetailsFromForm,
+  unitDetailsToForm,
+  validateUnitDetailsForm,
+} from "@/utils/unitDetails";
+import { useAmenities } from "@/utils/amenities";
+import { ListingStatus, STATUS_LABEL_KEYS, STATUS_TRANSITIONS, getStatusActionKey } from "@/utils/listingStatus";
 import { useLanguage } from "@/contexts/LanguageContext";
 
 const HK_DISTRICTS = [
@@ -52,16 +76,22 @@ function resolveImageSource(source: string | number | ImageSourcePropType | unde
   return source as ImageSourcePropType;
 }
 
-interface Property {
+interface Property extends RentalTerms, UnitDetails {
   id: string;
+  building: BuildingSummary | null;
   title: string;
   description: string;
   price: string;
   size: number;
   district: string;
   equipment: string;
+  amenities: string[];
   photos: string[];
   virtualTourUrl?: string;
+  status: ListingStatus;
+  address?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
   ownerId: string;
   createdAt: string;
 }
@@ -80,12 +110,21 @@ export default function EditPropertyScreen() {
   const [size, setSize] = useState("");
   const [district, setDistrict] = useState("");
   const [equipment, setEquipment] = useState("");
+  const [amenityIds, setAmenityIds] = useState<string[]>([]);
+  const [rentalTerms, setRentalTerms] = useState<RentalTermsForm>(EMPTY_RENTAL_TERMS_FORM);
+  const [unitDetails, setUnitDetails] = useState<UnitDetailsForm>(EMPTY_UNIT_DETAILS_FORM);
+  const [building, setBuilding] = useState<BuildingSummary | null>(null);
+  const amenities = useAmenities();
+  const [address, setAddress] = useState("");
+  const [location, setLocation] = useState<MapCoordinate | null>(null);
   const [photos, setPhotos] = useState<string[]>([]); // Signed URLs for display (from backend)
   const [photoKeys, setPhotoKeys] = useState<string[]>([]); // S3 keys to send to backend
   const [virtualTourVideoUrl, setVirtualTourVideoUrl] = useState(""); // Signed URL for display (from backend)
   const [virtualTourVideoKey, setVirtualTourVideoKey] = useState(""); // S3 key to send to backend
   const [updating, setUpdating] = useState(false);
   const [deleting, setDeleting] = useState(false);
+  const [status, setStatus] = useState<ListingStatus>("published");
+  const [changingStatus, setChangingStatus] = useState(false);
   const [uploadingPhotos, setUploadingPhotos] = useState(false);
   const [uploadingVideo, setUploadingVideo] = useState(false);
   const [showDistrictPicker, setShowDistrictPicker] = useState(false);
@@ -122,6 +161,15 @@ export default function EditPropertyScreen() {
       setSize(data.size.toString());
       setDistrict(data.district);
       setEquipment(data.equipment || "");
+      setAmenityIds(data.amenities || []);
+      setRentalTerms(rentalTermsToForm(data));
+      setUnitDetails(unitDetailsToForm(data));
+      setBuilding(data.building);
+      setStatus(data.status);
+      setAddress(data.address || "");
+      if (data.latitude != null && data.longitude != null) {
+        setLocation({ latitude: data.latitude, longitude: data.longitude });
+      }
       
       // Backend returns signed URLs for display, but we need to extract S3 keys for updates
       // S3 keys are embedded in the signed URLs (e.g., https://bucket.s3.region.amazonaws.com/key?signature...)
@@ -384,6 +432,42 @@ export default function EditPropertyScreen() {
     setVirtualTourVideoKey("");
   };
 
+  // Picking a building fills in what the directory already knows, without overwriting what the owner typed
+  const handleBuildingChange = (selected: Building | null) => {
+    setBuilding(selected);
+    if (!selected) return;
+    setDistrict(selected.district);
+    if (!address.trim() && selected.address) {
+      setAddress(selected.address);
+    }
+    if (!location && selected.latitude != null && selected.longitude != null) {
+      setLocation({ latitude: selected.latitude, longitude: selected.longitude });
+    }
+    if (!unitDetails.yearBuilt.trim() && selected.yearBuilt != null) {
+      setUnitDetails({ ...unitDetails, yearBuilt: String(selected.yearBuilt) });
+    }
+  };
+
+  const handleLocationPress = (coordinate: MapCoordinate) => {
+    console.log("Selected property location:", coordinate);
+    setLocation(coordinate);
+  };
+
+  const handleClearLocation = () => {
+    console.log("Clearing property location");
+    setLocation(null);
+  };
+
+  const locationMarkers = useMemo(
+    () => (location ? [{ id: "selected-location", ...location }] : []),
+    [location]
+  );
+
+  const locationRegion = useMemo(
+    () => (location ? { ...DEFAULT_MAP_REGION, ...location } : DEFAULT_MAP_REGION),
+    [location]
+  );
+
   const handleSubmitClick = () => {
     console.log("User tapped Update Property button - showing ad first");
     setShowAdModal(true);
@@ -429,6 +513,18 @@ export default function EditPropertyScreen() {
       return;
     }
 
+    const rentalTermsError = validateRentalTermsForm(rentalTerms);
+    if (rentalTermsError) {
+      showError(t(rentalTermsError));
+      return;
+    }
+
+    const unitDetailsError = validateUnitDetailsForm(unitDetails, sizeTrimmed);
+    if (unitDetailsError) {
+      showError(t(unitDetailsError));
+      return;
+    }
+
     try {
       setUpdating(true);
       console.log("Updating property:", {
@@ -446,8 +542,15 @@ export default function EditPropertyScreen() {
         description: descriptionTrimmed,
         price: priceTrimmed,
         size: parseInt(sizeTrimmed, 10),
+        ...unitDetailsFromForm(unitDetails),
         district: districtTrimmed,
+        buildingId: building?.id ?? null,
+        ...rentalTermsFromForm(rentalTerms),
         equipment: equipment.trim(),
+        amenities: amenityIds,
+        address: address.trim(),
+        latitude: location ? location.latitude : null,
+        longitude: location ? location.longitude : null,
         virtualTourUrl: virtualTourVideoKey.trim() || undefined,
         photos: photoKeys, // Send S3 keys instead of URLs
       };
@@ -476,6 +579,22 @@ export default function EditPropertyScreen() {
     }
   };
 
+  const handleStatusChange = async (nextStatus: ListingStatus) => {
+    console.log("User changing listing status:", status, "->", nextStatus);
+    try {
+      setChangingStatus(true);
+      const updated = await authenticatedPatch<Property>(`/api/properties/${id}/status`, { status: nextStatus });
+      console.log("✅ Listing status updated:", updated.status);
+      setStatus(updated.status);
+    } catch (error: any) {
+      console.error("Error updating listing status:", error);
+      const errorMsg = error.message || "";
+      showError(`${t('errorUpdatingStatus')} ${errorMsg}`);
+    } finally {
+      setChangingStatus(false);
+    }
+  };
+
   const handleDeleteClick = () => {
     console.log("User tapped Delete Property button");
     setShowDeleteModal(true);
@@ -575,9 +694,11 @@ export default function EditPropertyScreen() {
             />
           </View>
 
+          <RentalTermsFields value={rentalTerms} onChange={setRentalTerms} />
+
           <View style={styles.formRow}>
             <View style={[styles.formGroup, styles.formGroupHalf]}>
-              <Text style={styles.label}>{t('monthlyRentHKD')}</Text>
+              <Text style={styles.label}>{t(rentalTerms.listingType === "sale" ? 'salePriceHKD' : 'monthlyRentHKD')}</Text>
               <Text style={styles.required}>{t('required')}</Text>
               <TextInput
                 style={styles.input}
@@ -590,7 +711,7 @@ export default function EditPropertyScreen() {
             </View>
 
             <View style={[styles.formGroup, styles.formGroupHalf]}>
-              <Text style={styles.label}>{t('sizeSqFt')}</Text>
+              <Text style={styles.label}>{t('grossAreaSqFt')}</Text>
               <Text style={styles.required}>{t('required')}</Text>
               <TextInput
                 style={styles.input}
@@ -603,6 +724,14 @@ export default function EditPropertyScreen() {
             </View>
           </View>
 
+          <UnitDetailsFields value={unitDetails} onChange={setUnitDetails} />
+
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>{t('building')}</Text>
+            <BuildingPicker value={building} district={district} onChange={handleBuildingChange} />
+            <Text style={styles.helperText}>{t('buildingHint')}</Text>
+          </View>
+
           <View style={styles.formGroup}>
             <Text style={styles.label}>{t('district')}</Text>
             <Text style={styles.required}>{t('required')}</Text>
@@ -628,10 +757,48 @@ export default function EditPropertyScreen() {
           </View>
 
           <View style={styles.formGroup}>
-            <Text style={styles.label}>{t('equipment')}</Text>
+            <Text style={styles.label}>{t('location')}</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="e.g., Flat 12A, Block 3, 1 Taikoo Shing Road"
+              placeholderTextColor={colors.textSecondary}
+              value={address}
+              onChangeText={setAddress}
+            />
+            <Text style={styles.helperText}>{t('tapMapToSetLocation')}</Text>
+            <View style={styles.locationMapContainer}>
+              <Map
+                markers={locationMarkers}
+                initialRegion={locationRegion}
+                onPress={handleLocationPress}
+              />
+            </View>
+            {location && (
+              <View style={styles.locationSummary}>
+                <Text style={styles.locationSummaryText}>
+                  {`${location.latitude.toFixed(5)}, ${location.longitude.toFixed(5)}`}
+                </Text>
+                <TouchableOpacity onPress={handleClearLocation}>
+                  <Text style={styles.clearLocationText}>{t('clearLocation')}</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>{t('amenities')}</Text>
+            <AmenityPicker
+              amenities={amenities}
+              selectedIds={amenityIds}
+              onChange={setAmenityIds}
+            />
+          </View>
+
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>{t('otherEquipment')}</Text>
             <TextInput
               style={styles.input}
-              placeholder="e.g., Air conditioning, Washing machine, WiFi"
+              placeholder="e.g., Dishwasher, Piano, Smart lock"
               placeholderTextColor={colors.textSecondary}
               value={equipment}
               onChangeText={setEquipment}
@@ -742,6 +909,48 @@ export default function EditPropertyScreen() {
             )}
           </View>
 
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>{t('listingStatus')}</Text>
+            <View style={styles.statusRow}>
+              <View style={styles.statusBadge}>
+                <Text style={styles.statusBadgeText}>{t(STATUS_LABEL_KEYS[status])}</Text>
+              </View>
+              {changingStatus && <ActivityIndicator size="small" color={colors.primary} />}
+            </View>
+            <View style={styles.statusActions}>
+              {STATUS_TRANSITIONS[status].map((nextStatus) => (
+                <TouchableOpacity
+                  key={nextStatus}
+                  style={[styles.statusActionButton, changingStatus && styles.submitButtonDisabled]}
+                  onPress={() => handleStatusChange(nextStatus)}
+                  disabled={changingStatus}
+                >
+                  <Text style={styles.statusActionText}>{t(getStatusActionKey(status, nextStatus))}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>{t('viewings')}</Text>
+            <TouchableOpacity
+              style={[styles.statusActionButton, styles.viewingSlotsButton]}
+              onPress={() => router.push(`/viewing-slots/${id}`)}
+            >
+              <Text style={styles.statusActionText}>{t('manageViewingSlots')}</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>{t('editHistory')}</Text>
+            <TouchableOpacity
+              style={[styles.statusActionButton, styles.viewingSlotsButton]}
+              onPress={() => router.push(`/revisions/${id}`)}
+            >
+              <Text style={styles.statusActionText}>{t('viewEditHistory')}</Text>
+            </TouchableOpacity>
+          </View>
+
           <TouchableOpacity
             style={[styles.submitButton, updating && styles.submitButtonDisabled]}
             onPress={handleSubmitClick}
@@ -991,6 +1200,29 @@ const styles = StyleSheet.create({
     minHeight: 120,
     paddingTop: 14,
   },
+  helperText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  locationMapContainer: {
+    height: 200,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  locationSummary: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  locationSummaryText: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  clearLocationText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FF3B30',
+  },
   pickerButton: {
     backgroundColor: colors.backgroundAlt,
     borderWidth: 1,
@@ -1029,6 +1261,43 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#FFFFFF',
   },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  statusBadge: {
+    alignSelf: 'flex-start',
+    backgroundColor: colors.backgroundAlt,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  statusBadgeText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  statusActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  statusActionButton: {
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  statusActionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  viewingSlotsButton: {
+    alignSelf: 'flex-start',
+  },
   deleteButton: {
     backgroundColor: colors.error,
     borderRadius: 12,
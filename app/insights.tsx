@@ -0,0 +1,303 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { StyleSheet, View, Text, ScrollView, TouchableOpacity, ActivityIndicator } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useLocalSearchParams, Stack } from "expo-router";
+import { colors } from "@/styles/commonStyles";
+import { authenticatedGet } from "@/utils/api";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { getDateLocale } from "@/utils/appointments";
+import { ListingType, LISTING_TYPES, LISTING_TYPE_LABEL_KEYS } from "@/utils/listingTerms";
+import { DistrictStats, DistrictStatsDetail, formatHKD } from "@/utils/marketStats";
+import { MarketTrendChart } from "@/components/MarketTrendChart";
+
+const MEDIAN_PRICE_LABEL_KEYS: Record<ListingType, string> = {
+  rent: "medianRent",
+  sale: "medianSalePrice",
+};
+
+export default function MarketInsightsScreen() {
+  const params = useLocalSearchParams<{ district?: string; listingType?: ListingType }>();
+  const { language, t } = useLanguage();
+
+  const [listingType, setListingType] = useState<ListingType>(params.listingType === "sale" ? "sale" : "rent");
+  const [selectedDistrict, setSelectedDistrict] = useState<string | null>(params.district ?? null);
+  const [districts, setDistricts] = useState<DistrictStats[]>([]);
+  const [detail, setDetail] = useState<DistrictStatsDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingDetail, setLoadingDetail] = useState(false);
+
+  const loadDistricts = useCallback(async () => {
+    try {
+      setLoading(true);
+      console.log("Fetching district stats:", listingType);
+      const data = await authenticatedGet<DistrictStats[]>(`/api/districts/stats?listingType=${listingType}`);
+      // Busiest markets first
+      setDistricts([...data].sort((a, b) => b.listingCount - a.listingCount));
+    } catch (error) {
+      console.error("Error loading district stats:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [listingType]);
+
+  useEffect(() => {
+    loadDistricts();
+  }, [loadDistricts]);
+
+  useEffect(() => {
+    if (!selectedDistrict) {
+      setDetail(null);
+      return;
+    }
+
+    let cancelled = false;
+    const loadDetail = async () => {
+      try {
+        setLoadingDetail(true);
+        console.log("Fetching district stats detail:", selectedDistrict, listingType);
+        const data = await authenticatedGet<DistrictStatsDetail>(
+          `/api/districts/${encodeURIComponent(selectedDistrict)}/stats?listingType=${listingType}`
+        );
+        if (!cancelled) {
+          setDetail(data);
+        }
+      } catch (error) {
+        console.error("Error loading district stats detail:", error);
+      } finally {
+        if (!cancelled) {
+          setLoadingDetail(false);
+        }
+      }
+    };
+    loadDetail();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedDistrict, listingType]);
+
+  const formatPerSqFt = (value: number | null) => (value !== null ? `HK$${value}/sq ft` : '—');
+  const hasTrend = !!detail && detail.trend.some((point) => point.medianPricePerSqFt !== null);
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          title: t('marketInsights'),
+          headerShown: true,
+          headerBackTitle: "Back",
+        }}
+      />
+
+      <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
+        <Text style={styles.intro}>{t('marketInsightsIntro')}</Text>
+
+        <View style={styles.chips}>
+          {LISTING_TYPES.map((type) => (
+            <TouchableOpacity
+              key={type}
+              style={[styles.chip, listingType === type && styles.chipActive]}
+              onPress={() => setListingType(type)}
+            >
+              <Text style={[styles.chipText, listingType === type && styles.chipTextActive]}>
+                {t(LISTING_TYPE_LABEL_KEYS[type])}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {selectedDistrict && (
+          <View style={styles.detailCard}>
+            <Text style={styles.detailTitle}>{selectedDistrict}</Text>
+            {loadingDetail || !detail ? (
+              <ActivityIndicator size="small" color={colors.primary} />
+            ) : (
+              <>
+                <View style={styles.statsGrid}>
+                  <View style={styles.statItem}>
+                    <Text style={styles.statValue}>
+                      {detail.medianPrice !== null ? formatHKD(detail.medianPrice) : '—'}
+                    </Text>
+                    <Text style={styles.statLabel}>{t(MEDIAN_PRICE_LABEL_KEYS[listingType])}</Text>
+                  </View>
+                  <View style={styles.statItem}>
+                    <Text style={styles.statValue}>{formatPerSqFt(detail.medianPricePerSqFt)}</Text>
+                    <Text style={styles.statLabel}>{t('medianPricePerSqFt')}</Text>
+                  </View>
+                  <View style={styles.statItem}>
+                    <Text style={styles.statValue}>{detail.listingCount}</Text>
+                    <Text style={styles.statLabel}>{t('activeListings')}</Text>
+                  </View>
+                  <View style={styles.statItem}>
+                    <Text style={styles.statValue}>
+                      {detail.averageDaysOnMarket !== null ? detail.averageDaysOnMarket : '—'}
+                    </Text>
+                    <Text style={styles.statLabel}>{t('averageDaysOnMarket')}</Text>
+                  </View>
+                </View>
+
+                <Text style={styles.trendTitle}>{t('pricePerSqFtTrend')}</Text>
+                {hasTrend ? (
+                  <MarketTrendChart trend={detail.trend} locale={getDateLocale(language)} />
+                ) : (
+                  <Text style={styles.emptyText}>{t('noMarketTrend')}</Text>
+                )}
+              </>
+            )}
+          </View>
+        )}
+
+        <Text style={styles.sectionTitle}>{t('allDistricts')}</Text>
+        {loading ? (
+          <ActivityIndicator size="large" color={colors.primary} />
+        ) : (
+          districts.map((stats) => (
+            <TouchableOpacity
+              key={stats.district}
+              style={[styles.districtRow, selectedDistrict === stats.district && styles.districtRowActive]}
+              onPress={() => setSelectedDistrict(stats.district)}
+              activeOpacity={0.7}
+            >
+              <View style={styles.districtInfo}>
+                <Text style={styles.districtName}>{stats.district}</Text>
+                <Text style={styles.districtMeta}>{`${t('activeListings')}: ${stats.listingCount}`}</Text>
+              </View>
+              <View style={styles.districtFigures}>
+                <Text style={styles.districtPrice}>
+                  {stats.medianPrice !== null ? formatHKD(stats.medianPrice) : '—'}
+                </Text>
+                <Text style={styles.districtMeta}>{formatPerSqFt(stats.medianPricePerSqFt)}</Text>
+              </View>
+            </TouchableOpacity>
+          ))
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  intro: {
+    fontSize: 15,
+    color: colors.textSecondary,
+    marginBottom: 16,
+  },
+  chips: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: colors.backgroundAlt,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  detailCard: {
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.backgroundAlt,
+    marginBottom: 8,
+  },
+  detailTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: 12,
+  },
+  statsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    rowGap: 16,
+  },
+  statItem: {
+    width: '50%',
+  },
+  statValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.primary,
+  },
+  statLabel: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  trendTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    marginTop: 20,
+    marginBottom: 4,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: colors.textSecondary,
+  },
+  districtRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+    gap: 12,
+  },
+  districtRowActive: {
+    backgroundColor: colors.backgroundAlt,
+  },
+  districtInfo: {
+    flex: 1,
+  },
+  districtName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  districtMeta: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  districtFigures: {
+    alignItems: 'flex-end',
+  },
+  districtPrice: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+});
@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import {
   StyleSheet,
   View,
@@ -22,6 +22,25 @@ import { authenticatedPost, BACKEND_URL, getBearerToken } from "@/utils/api";
 import * as ImagePicker from "expo-image-picker";
 import * as ImageManipulator from "expo-image-manipulator";
 import AdModal from "@/components/AdModal";
+import { Map, MapCoordinate, DEFAULT_MAP_REGION } from "@/components/Map";
+import { AmenityPicker } from "@/components/AmenityPicker";
+import { RentalTermsFields } from "@/components/RentalTermsFields";
+import { UnitDetailsFields } from "@/components/UnitDetailsFields";
+import { BuildingPicker } from "@/components/BuildingPicker";
+import { Building, BuildingSummary } from "@/utils/buildings";
+import {
+  EMPTY_RENTAL_TERMS_FORM,
+  RentalTermsForm,
+  rentalTermsFromForm,
+  validateRentalTermsForm,
+} from "@/utils/listingTerms";
+import {
+  EMPTY_UNIT_DETAILS_FORM,
+  UnitDetailsForm,
+  unitDetailsFromForm,
+  validateUnitDetailsForm,
+} from "@/utils/unitDetails";
+import { useAmenities } from "@/utils/amenities";
 import { useLanguage } from "@/contexts/LanguageContext";
 
 const HK_DISTRICTS = [
@@ -63,6 +82,13 @@ export default function ListPropertyScreen() {
   const [size, setSize] = useState("");
   const [district, setDistrict] = useState("");
   const [equipment, setEquipment] = useState("");
+  const [amenityIds, setAmenityIds] = useState<string[]>([]);
+  const [rentalTerms, setRentalTerms] = useState<RentalTermsForm>(EMPTY_RENTAL_TERMS_FORM);
+  const [unitDetails, setUnitDetails] = useState<UnitDetailsForm>(EMPTY_UNIT_DETAILS_FORM);
+  const [building, setBuilding] = useState<BuildingSummary | null>(null);
+  const amenities = useAmenities();
+  const [address, setAddress] = useState("");
+  const [location, setLocation] = useState<MapCoordinate | null>(null);
   const [photos, setPhotos] = useState<string[]>([]); // Local URIs for preview
   const [photoKeys, setPhotoKeys] = useState<string[]>([]); // S3 keys to send to backend
   const [virtualTourVideoUrl, setVirtualTourVideoUrl] = useState(""); // Local URI for preview
@@ -295,6 +321,42 @@ export default function ListPropertyScreen() {
     setVirtualTourVideoKey("");
   };
 
+  // Picking a building fills in what the directory already knows, without overwriting what the owner typed
+  const handleBuildingChange = (selected: Building | null) => {
+    setBuilding(selected);
+    if (!selected) return;
+    setDistrict(selected.district);
+    if (!address.trim() && selected.address) {
+      setAddress(selected.address);
+    }
+    if (!location && selected.latitude != null && selected.longitude != null) {
+      setLocation({ latitude: selected.latitude, longitude: selected.longitude });
+    }
+    if (!unitDetails.yearBuilt.trim() && selected.yearBuilt != null) {
+      setUnitDetails({ ...unitDetails, yearBuilt: String(selected.yearBuilt) });
+    }
+  };
+
+  const handleLocationPress = (coordinate: MapCoordinate) => {
+    console.log("Selected property location:", coordinate);
+    setLocation(coordinate);
+  };
+
+  const handleClearLocation = () => {
+    console.log("Clearing property location");
+    setLocation(null);
+  };
+
+  const locationMarkers = useMemo(
+    () => (location ? [{ id: "selected-location", ...location }] : []),
+    [location]
+  );
+
+  const locationRegion = useMemo(
+    () => (location ? { ...DEFAULT_MAP_REGION, ...location } : DEFAULT_MAP_REGION),
+    [location]
+  );
+
   const handleSubmitClick = () => {
     console.log("User tapped Submit Property button - showing ad first");
     setShowAdModal(true);
@@ -303,11 +365,16 @@ export default function ListPropertyScreen() {
   const handleAdComplete = () => {
     console.log("Ad completed - proceeding with property submission");
     setShowAdModal(false);
-    handleSubmit();
+    handleSubmit("published");
   };
 
-  const handleSubmit = async () => {
-    console.log("Submitting property listing");
+  const handleSaveDraftClick = () => {
+    console.log("User tapped Save as Draft button");
+    handleSubmit("draft");
+  };
+
+  const handleSubmit = async (status: "draft" | "published") => {
+    console.log("Submitting property listing as:", status);
 
     const titleTrimmed = title.trim();
     const descriptionTrimmed = description.trim();
@@ -340,6 +407,18 @@ export default function ListPropertyScreen() {
       return;
     }
 
+    const rentalTermsError = validateRentalTermsForm(rentalTerms);
+    if (rentalTermsError) {
+      showError(t(rentalTermsError));
+      return;
+    }
+
+    const unitDetailsError = validateUnitDetailsForm(unitDetails, sizeTrimmed);
+    if (unitDetailsError) {
+      showError(t(unitDetailsError));
+      return;
+    }
+
     try {
       setLoading(true);
       console.log("Submitting property listing:", {
@@ -356,10 +435,18 @@ export default function ListPropertyScreen() {
         description: descriptionTrimmed,
         price: priceTrimmed,
         size: parseInt(sizeTrimmed, 10),
+        ...unitDetailsFromForm(unitDetails),
         district: districtTrimmed,
+        buildingId: building?.id ?? null,
+        ...rentalTermsFromForm(rentalTerms),
         equipment: equipment.trim(),
+        amenities: amenityIds,
+        address: address.trim() || undefined,
+        latitude: location?.latitude,
+        longitude: location?.longitude,
         virtualTourUrl: virtualTourVideoKey.trim() || undefined,
         photos: photoKeys, // Send S3 keys instead of URLs
+        status,
       };
 
       console.log("Submitting property data:", {
@@ -441,9 +528,11 @@ export default function ListPropertyScreen() {
             />
           </View>
 
+          <RentalTermsFields value={rentalTerms} onChange={setRentalTerms} />
+
           <View style={styles.formRow}>
             <View style={[styles.formGroup, styles.formGroupHalf]}>
-              <Text style={styles.label}>{t('monthlyRentHKD')}</Text>
+              <Text style={styles.label}>{t(rentalTerms.listingType === "sale" ? 'salePriceHKD' : 'monthlyRentHKD')}</Text>
               <Text style={styles.required}>{t('required')}</Text>
               <TextInput
                 style={styles.input}
@@ -456,7 +545,7 @@ export default function ListPropertyScreen() {
             </View>
 
             <View style={[styles.formGroup, styles.formGroupHalf]}>
-              <Text style={styles.label}>{t('sizeSqFt')}</Text>
+              <Text style={styles.label}>{t('grossAreaSqFt')}</Text>
               <Text style={styles.required}>{t('required')}</Text>
               <TextInput
                 style={styles.input}
@@ -469,6 +558,14 @@ export default function ListPropertyScreen() {
             </View>
           </View>
 
+          <UnitDetailsFields value={unitDetails} onChange={setUnitDetails} />
+
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>{t('building')}</Text>
+            <BuildingPicker value={building} district={district} onChange={handleBuildingChange} />
+            <Text style={styles.helperText}>{t('buildingHint')}</Text>
+          </View>
+
           <View style={styles.formGroup}>
             <Text style={styles.label}>{t('district')}</Text>
             <Text style={styles.required}>{t('required')}</Text>
@@ -494,10 +591,48 @@ export default function ListPropertyScreen() {
           </View>
 
           <View style={styles.formGroup}>
-            <Text style={styles.label}>{t('equipment')}</Text>
+            <Text style={styles.label}>{t('location')}</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="e.g., Flat 12A, Block 3, 1 Taikoo Shing Road"
+              placeholderTextColor={colors.textSecondary}
+              value={address}
+              onChangeText={setAddress}
+            />
+            <Text style={styles.helperText}>{t('tapMapToSetLocation')}</Text>
+            <View style={styles.locationMapContainer}>
+              <Map
+                markers={locationMarkers}
+                initialRegion={locationRegion}
+                onPress={handleLocationPress}
+              />
+            </View>
+            {location && (
+              <View style={styles.locationSummary}>
+                <Text style={styles.locationSummaryText}>
+                  {`${location.latitude.toFixed(5)}, ${location.longitude.toFixed(5)}`}
+                </Text>
+                <TouchableOpacity onPress={handleClearLocation}>
+                  <Text style={styles.clearLocationText}>{t('clearLocation')}</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>{t('amenities')}</Text>
+            <AmenityPicker
+              amenities={amenities}
+              selectedIds={amenityIds}
+              onChange={setAmenityIds}
+            />
+          </View>
+
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>{t('otherEquipment')}</Text>
             <TextInput
               style={styles.input}
-              placeholder="e.g., Air conditioning, Washing machine, WiFi"
+              placeholder="e.g., Dishwasher, Piano, Smart lock"
               placeholderTextColor={colors.textSecondary}
               value={equipment}
               onChangeText={setEquipment}
@@ -628,6 +763,15 @@ export default function ListPropertyScreen() {
               </React.Fragment>
             )}
           </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.draftButton, loading && styles.submitButtonDisabled]}
+            onPress={handleSaveDraftClick}
+            disabled={loading}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.draftButtonText}>{t('saveAsDraft')}</Text>
+          </TouchableOpacity>
         </View>
       </ScrollView>
 
@@ -803,6 +947,29 @@ const styles = StyleSheet.create({
     minHeight: 120,
     paddingTop: 14,
   },
+  helperText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  locationMapContainer: {
+    height: 200,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  locationSummary: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  locationSummaryText: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  clearLocationText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FF3B30',
+  },
   pickerButton: {
     backgroundColor: colors.backgroundAlt,
     borderWidth: 1,
@@ -841,6 +1008,19 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#FFFFFF',
   },
+  draftButton: {
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  draftButtonText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.primary,
+  },
   modalOverlay: {
     flex: 1,
     backgroundColor: 'rgba(0, 0, 0, 0.5)',
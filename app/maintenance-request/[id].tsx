@@ -0,0 +1,618 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  StyleSheet,
+  View,
+  Text,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Modal,
+  Image,
+  Linking,
+  KeyboardAvoidingView,
+  Platform,
+} from "react-native";
+import { useLocalSearchParams, useRouter, Stack } from "expo-router";
+import { IconSymbol } from "@/components/IconSymbol";
+import { colors } from "@/styles/commonStyles";
+import { useAuth } from "@/contexts/AuthContext";
+import { authenticatedGet, authenticatedPost, authenticatedPut } from "@/utils/api";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { getDateLocale } from "@/utils/appointments";
+import {
+  CATEGORY_LABEL_KEYS,
+  MAINTENANCE_STATUSES,
+  MAINTENANCE_URGENCIES,
+  MaintenanceComment,
+  MaintenanceStatus,
+  MaintenanceTicket,
+  MaintenanceUrgency,
+  TICKET_STATUS_LABEL_KEYS,
+  URGENCY_LABEL_KEYS,
+} from "@/utils/maintenance";
+
+export default function MaintenanceRequestScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { user } = useAuth();
+  const { language, t } = useLanguage();
+
+  const [ticket, setTicket] = useState<MaintenanceTicket | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const [contractorName, setContractorName] = useState("");
+  const [commentText, setCommentText] = useState("");
+  const [sending, setSending] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const loadTicket = useCallback(async () => {
+    try {
+      setLoading(true);
+      console.log("Fetching maintenance ticket:", id);
+      const data = await authenticatedGet<MaintenanceTicket>(`/api/maintenance-tickets/${id}`);
+      setTicket(data);
+      setContractorName(data.contractorName ?? "");
+    } catch (error) {
+      console.error("Error loading maintenance ticket:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadTicket();
+  }, [loadTicket]);
+
+  const isOwner = !!ticket && ticket.ownerId === user?.id;
+
+  // Every triage change returns the updated ticket, thread included
+  const handleUpdate = async (fields: {
+    status?: MaintenanceStatus;
+    urgency?: MaintenanceUrgency;
+    contractorName?: string | null;
+  }) => {
+    console.log("Updating maintenance ticket:", id, fields);
+    try {
+      setUpdating(true);
+      const updated = await authenticatedPut<MaintenanceTicket>(`/api/maintenance-tickets/${id}`, fields);
+      setTicket(updated);
+      setContractorName(updated.contractorName ?? "");
+    } catch (error) {
+      console.error("Error updating maintenance ticket:", error);
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setErrorMessage(`${t('errorUpdatingMaintenanceRequest')} ${errorMsg}`);
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleSendComment = async () => {
+    if (!ticket || !commentText.trim()) return;
+
+    console.log("Commenting on maintenance ticket:", id);
+    try {
+      setSending(true);
+      const comment = await authenticatedPost<MaintenanceComment>(`/api/maintenance-tickets/${id}/comments`, {
+        body: commentText.trim(),
+      });
+      setTicket({ ...ticket, comments: [...ticket.comments, comment] });
+      setCommentText("");
+    } catch (error) {
+      console.error("Error sending maintenance comment:", error);
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setErrorMessage(`${t('errorUpdatingMaintenanceRequest')} ${errorMsg}`);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const formatDateTime = (value: string) =>
+    new Date(value).toLocaleString(getDateLocale(language), {
+      day: "numeric",
+      month: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+
+  // Status changes and assignments show as one-line events in the thread
+  const describeEvent = (comment: MaintenanceComment) => {
+    if (comment.kind === "status_change") {
+      return `${comment.author.name} · ${t('ticketStatusChanged')} ${t(TICKET_STATUS_LABEL_KEYS[comment.body as MaintenanceStatus])}`;
+    }
+    return comment.body
+      ? `${comment.author.name} · ${t('contractorAssigned')} ${comment.body}`
+      : `${comment.author.name} · ${t('contractorUnassigned')}`;
+  };
+
+  const renderComment = (comment: MaintenanceComment) => {
+    if (comment.kind !== "comment") {
+      return (
+        <View key={comment.id} style={styles.eventRow}>
+          <Text style={styles.eventText}>{describeEvent(comment)}</Text>
+          <Text style={styles.eventTime}>{formatDateTime(comment.createdAt)}</Text>
+        </View>
+      );
+    }
+
+    const isMine = comment.authorId === user?.id;
+    return (
+      <View key={comment.id} style={[styles.commentBubble, isMine && styles.commentBubbleMine]}>
+        <Text style={styles.commentAuthor}>{comment.author.name}</Text>
+        <Text style={styles.commentBody}>{comment.body}</Text>
+        <Text style={styles.eventTime}>{formatDateTime(comment.createdAt)}</Text>
+      </View>
+    );
+  };
+
+  const renderTriage = (current: MaintenanceTicket) => {
+    const contractorChanged = contractorName.trim() !== (current.contractorName ?? "");
+
+    return (
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>{t('triage')}</Text>
+        <Text style={styles.label}>{t('ticketStatus')}</Text>
+        <View style={styles.chips}>
+          {MAINTENANCE_STATUSES.map((status) => (
+            <TouchableOpacity
+              key={status}
+              style={[styles.chip, current.status === status && styles.chipActive]}
+              onPress={() => handleUpdate({ status })}
+              disabled={updating || current.status === status}
+            >
+              <Text style={[styles.chipText, current.status === status && styles.chipTextActive]}>
+                {t(TICKET_STATUS_LABEL_KEYS[status])}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <Text style={styles.label}>{t('urgency')}</Text>
+        <View style={styles.chips}>
+          {MAINTENANCE_URGENCIES.map((urgency) => (
+            <TouchableOpacity
+              key={urgency}
+              style={[styles.chip, current.urgency === urgency && styles.chipActive]}
+              onPress={() => handleUpdate({ urgency })}
+              disabled={updating || current.urgency === urgency}
+            >
+              <Text style={[styles.chipText, current.urgency === urgency && styles.chipTextActive]}>
+                {t(URGENCY_LABEL_KEYS[urgency])}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <Text style={styles.label}>{t('contractor')}</Text>
+        <View style={styles.contractorRow}>
+          <TextInput
+            style={[styles.input, styles.contractorInput]}
+            placeholder={t('contractorName')}
+            placeholderTextColor={colors.textSecondary}
+            value={contractorName}
+            onChangeText={setContractorName}
+            maxLength={120}
+          />
+          <TouchableOpacity
+            style={[styles.actionButton, styles.actionButtonPrimary, !contractorChanged && styles.actionButtonDisabled]}
+            onPress={() => handleUpdate({ contractorName: contractorName.trim() || null })}
+            disabled={updating || !contractorChanged}
+          >
+            <Text style={styles.actionButtonPrimaryText}>{t('save')}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderContent = () => {
+    if (!ticket) {
+      return (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>{t('maintenanceRequestNotFound')}</Text>
+        </View>
+      );
+    }
+
+    return (
+      <>
+        <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
+          <TouchableOpacity onPress={() => router.push(`/maintenance?propertyId=${ticket.propertyId}`)}>
+            <Text style={styles.propertyLink} numberOfLines={1}>{ticket.property.title}</Text>
+          </TouchableOpacity>
+          <View style={styles.headerRow}>
+            <Text style={styles.ticketTitle}>{ticket.title}</Text>
+            <View
+              style={[
+                styles.statusBadge,
+                ticket.status === "open" && ticket.urgency === "urgent" && styles.statusBadgeUrgent,
+                ticket.status === "in_progress" && styles.statusBadgeActive,
+              ]}
+            >
+              <Text style={styles.statusBadgeText}>{t(TICKET_STATUS_LABEL_KEYS[ticket.status])}</Text>
+            </View>
+          </View>
+          <Text style={styles.metaText}>
+            {`${t(CATEGORY_LABEL_KEYS[ticket.category])} · ${t(URGENCY_LABEL_KEYS[ticket.urgency])}`}
+          </Text>
+          <Text style={styles.metaText}>
+            {`${t('reportedBy')} ${ticket.tenant.name} · ${formatDateTime(ticket.createdAt)}`}
+          </Text>
+          {ticket.contractorName && (
+            <Text style={styles.metaText}>{`${t('contractor')}: ${ticket.contractorName}`}</Text>
+          )}
+
+          <View style={styles.card}>
+            <Text style={styles.description}>{ticket.description}</Text>
+            {ticket.photos.length > 0 && (
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.photos}>
+                {ticket.photos.map((url) => (
+                  <TouchableOpacity key={url} onPress={() => Linking.openURL(url)}>
+                    <Image source={{ uri: url }} style={styles.photo} />
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            )}
+          </View>
+
+          {isOwner && renderTriage(ticket)}
+          {updating && <ActivityIndicator size="small" color={colors.primary} />}
+
+          <Text style={styles.sectionTitle}>{t('maintenanceHistory')}</Text>
+          {ticket.comments.length === 0 ? (
+            <Text style={styles.metaText}>{t('noMaintenanceComments')}</Text>
+          ) : (
+            ticket.comments.map(renderComment)
+          )}
+        </ScrollView>
+
+        {ticket.status === "closed" ? (
+          <View style={styles.inputContainer}>
+            <Text style={styles.metaText}>{t('ticketClosedHint')}</Text>
+          </View>
+        ) : (
+          <View style={styles.inputContainer}>
+            <TextInput
+              style={styles.commentInput}
+              placeholder={t('addComment')}
+              placeholderTextColor={colors.textSecondary}
+              value={commentText}
+              onChangeText={setCommentText}
+              multiline
+              maxLength={2000}
+            />
+            <TouchableOpacity
+              style={[styles.sendButton, (!commentText.trim() || sending) && styles.sendButtonDisabled]}
+              onPress={handleSendComment}
+              disabled={!commentText.trim() || sending}
+            >
+              {sending ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <IconSymbol ios_icon_name="arrow.up" android_material_icon_name="send" size={20} color="#FFFFFF" />
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: t('maintenanceRequest'),
+          headerShown: true,
+          headerBackTitle: "Back",
+        }}
+      />
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        keyboardVerticalOffset={Platform.OS === 'ios' ? 90 : 0}
+      >
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={colors.primary} />
+          </View>
+        ) : (
+          renderContent()
+        )}
+      </KeyboardAvoidingView>
+
+      <Modal
+        visible={!!errorMessage}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setErrorMessage(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>{t('error')}</Text>
+            <Text style={styles.modalMessage}>{errorMessage}</Text>
+            <TouchableOpacity
+              style={styles.errorModalButton}
+              onPress={() => setErrorMessage(null)}
+            >
+              <Text style={styles.errorModalButtonText}>OK</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  emptyText: {
+    fontSize: 18,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    padding: 20,
+    paddingBottom: 40,
+    gap: 8,
+  },
+  propertyLink: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+  },
+  ticketTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  metaText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  card: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    gap: 8,
+    marginTop: 8,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  description: {
+    fontSize: 15,
+    color: colors.text,
+    lineHeight: 22,
+  },
+  photos: {
+    gap: 8,
+  },
+  photo: {
+    width: 96,
+    height: 96,
+    borderRadius: 8,
+    backgroundColor: colors.backgroundAlt,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: colors.backgroundAlt,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  contractorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  contractorInput: {
+    flex: 1,
+  },
+  input: {
+    backgroundColor: colors.backgroundAlt,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: colors.text,
+  },
+  actionButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: colors.backgroundAlt,
+  },
+  actionButtonPrimary: {
+    backgroundColor: colors.primary,
+  },
+  actionButtonDisabled: {
+    opacity: 0.5,
+  },
+  actionButtonPrimaryText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: colors.textSecondary,
+  },
+  statusBadgeUrgent: {
+    backgroundColor: colors.error,
+  },
+  statusBadgeActive: {
+    backgroundColor: colors.primary,
+  },
+  statusBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+    marginTop: 16,
+  },
+  eventRow: {
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  eventText: {
+    fontSize: 13,
+    fontStyle: 'italic',
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  eventTime: {
+    fontSize: 11,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  commentBubble: {
+    alignSelf: 'flex-start',
+    maxWidth: '85%',
+    backgroundColor: colors.backgroundAlt,
+    borderRadius: 12,
+    padding: 12,
+  },
+  commentBubbleMine: {
+    alignSelf: 'flex-end',
+    backgroundColor: colors.highlight,
+  },
+  commentAuthor: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 2,
+  },
+  commentBody: {
+    fontSize: 15,
+    color: colors.text,
+    lineHeight: 21,
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    padding: 16,
+    paddingBottom: Platform.OS === 'ios' ? 24 : 16,
+    backgroundColor: colors.background,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    gap: 12,
+  },
+  commentInput: {
+    flex: 1,
+    backgroundColor: colors.backgroundAlt,
+    borderRadius: 24,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: colors.text,
+    maxHeight: 100,
+  },
+  sendButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  sendButtonDisabled: {
+    opacity: 0.5,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  modalContent: {
+    backgroundColor: colors.background,
+    borderRadius: 16,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: 12,
+  },
+  modalMessage: {
+    fontSize: 16,
+    color: colors.textSecondary,
+    marginBottom: 24,
+    lineHeight: 22,
+  },
+  errorModalButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  errorModalButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
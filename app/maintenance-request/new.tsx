@@ -0,0 +1,434 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  StyleSheet,
+  View,
+  Text,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Modal,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useLocalSearchParams, useRouter, Stack } from "expo-router";
+import { IconSymbol } from "@/components/IconSymbol";
+import { colors } from "@/styles/commonStyles";
+import { useAuth } from "@/contexts/AuthContext";
+import { authenticatedGet, authenticatedPost } from "@/utils/api";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { UploadedFile } from "@/utils/uploads";
+import { TenancySummary } from "@/utils/rentLedger";
+import {
+  CATEGORY_LABEL_KEYS,
+  MAINTENANCE_CATEGORIES,
+  MAINTENANCE_URGENCIES,
+  MAX_TICKET_PHOTOS,
+  MaintenanceCategory,
+  MaintenanceTicket,
+  MaintenanceUrgency,
+  URGENCY_LABEL_KEYS,
+  pickAndUploadMaintenancePhoto,
+} from "@/utils/maintenance";
+
+export default function NewMaintenanceRequestScreen() {
+  const { propertyId } = useLocalSearchParams<{ propertyId?: string }>();
+  const router = useRouter();
+  const { user } = useAuth();
+  const { t } = useLanguage();
+
+  const [tenancies, setTenancies] = useState<TenancySummary[]>([]);
+  const [tenancyId, setTenancyId] = useState<string | null>(null);
+  const [category, setCategory] = useState<MaintenanceCategory | null>(null);
+  const [urgency, setUrgency] = useState<MaintenanceUrgency>("normal");
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [photos, setPhotos] = useState<UploadedFile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [uploadingPhoto, setUploadingPhoto] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // Requests are filed under one of the user's active tenancies
+  const loadTenancies = useCallback(async () => {
+    try {
+      console.log("Fetching tenancies for maintenance request");
+      const data = await authenticatedGet<TenancySummary[]>("/api/tenancies");
+      const eligible = data.filter(
+        (tenancy) =>
+          tenancy.tenantId === user?.id &&
+          tenancy.status === "active" &&
+          (!propertyId || tenancy.propertyId === propertyId)
+      );
+      setTenancies(eligible);
+      if (eligible.length === 1) {
+        setTenancyId(eligible[0].id);
+      }
+    } catch (error) {
+      console.error("Error loading tenancies:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id, propertyId]);
+
+  useEffect(() => {
+    loadTenancies();
+  }, [loadTenancies]);
+
+  const handleAddPhoto = async () => {
+    try {
+      setUploadingPhoto(true);
+      const photo = await pickAndUploadMaintenancePhoto();
+      if (photo) {
+        setPhotos([...photos, photo]);
+      }
+    } catch (error) {
+      console.error("Error uploading maintenance photo:", error);
+      setErrorMessage(error instanceof Error ? error.message : t('errorFilingMaintenanceRequest'));
+    } finally {
+      setUploadingPhoto(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!tenancyId || !category || !title.trim() || !description.trim()) {
+      setErrorMessage(t('maintenanceFieldsRequired'));
+      return;
+    }
+
+    console.log("Filing maintenance request for tenancy:", tenancyId);
+    try {
+      setSubmitting(true);
+      const ticket = await authenticatedPost<MaintenanceTicket>("/api/maintenance-tickets", {
+        tenancyId,
+        category,
+        urgency,
+        title: title.trim(),
+        description: description.trim(),
+        photoKeys: photos.map((photo) => photo.key),
+      });
+      router.replace(`/maintenance-request/${ticket.id}`);
+    } catch (error) {
+      console.error("Error filing maintenance request:", error);
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setErrorMessage(`${t('errorFilingMaintenanceRequest')} ${errorMsg}`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderForm = () => {
+    if (tenancies.length === 0) {
+      return (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>{t('noActiveTenancy')}</Text>
+        </View>
+      );
+    }
+
+    return (
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        {tenancies.length > 1 && (
+          <>
+            <Text style={styles.label}>{t('property')}</Text>
+            <View style={styles.chips}>
+              {tenancies.map((tenancy) => (
+                <TouchableOpacity
+                  key={tenancy.id}
+                  style={[styles.chip, tenancyId === tenancy.id && styles.chipActive]}
+                  onPress={() => setTenancyId(tenancy.id)}
+                >
+                  <Text style={[styles.chipText, tenancyId === tenancy.id && styles.chipTextActive]} numberOfLines={1}>
+                    {tenancy.property.title}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </>
+        )}
+        {tenancies.length === 1 && <Text style={styles.propertyTitle}>{tenancies[0].property.title}</Text>}
+
+        <Text style={styles.label}>{t('maintenanceCategory')}</Text>
+        <View style={styles.chips}>
+          {MAINTENANCE_CATEGORIES.map((item) => (
+            <TouchableOpacity
+              key={item}
+              style={[styles.chip, category === item && styles.chipActive]}
+              onPress={() => setCategory(item)}
+            >
+              <Text style={[styles.chipText, category === item && styles.chipTextActive]}>
+                {t(CATEGORY_LABEL_KEYS[item])}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.label}>{t('urgency')}</Text>
+        <View style={styles.chips}>
+          {MAINTENANCE_URGENCIES.map((item) => (
+            <TouchableOpacity
+              key={item}
+              style={[styles.chip, urgency === item && styles.chipActive]}
+              onPress={() => setUrgency(item)}
+            >
+              <Text style={[styles.chipText, urgency === item && styles.chipTextActive]}>
+                {t(URGENCY_LABEL_KEYS[item])}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.label}>{t('maintenanceTitle')}</Text>
+        <TextInput
+          style={styles.input}
+          value={title}
+          onChangeText={setTitle}
+          maxLength={120}
+        />
+
+        <Text style={styles.label}>{t('maintenanceDescription')}</Text>
+        <TextInput
+          style={[styles.input, styles.multilineInput]}
+          value={description}
+          onChangeText={setDescription}
+          maxLength={5000}
+          multiline
+          textAlignVertical="top"
+        />
+
+        <Text style={styles.label}>{t('photos')}</Text>
+        {photos.map((photo) => (
+          <View key={photo.key} style={styles.photoRow}>
+            <IconSymbol ios_icon_name="photo" android_material_icon_name="image" size={20} color={colors.primary} />
+            <Text style={styles.photoName} numberOfLines={1}>{photo.filename}</Text>
+            <TouchableOpacity onPress={() => setPhotos(photos.filter((item) => item.key !== photo.key))}>
+              <IconSymbol ios_icon_name="xmark" android_material_icon_name="close" size={18} color={colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+        ))}
+        {photos.length < MAX_TICKET_PHOTOS && (
+          <TouchableOpacity style={styles.addPhotoButton} onPress={handleAddPhoto} disabled={uploadingPhoto}>
+            {uploadingPhoto ? (
+              <ActivityIndicator size="small" color={colors.primary} />
+            ) : (
+              <IconSymbol
+                ios_icon_name="camera"
+                android_material_icon_name="photo-camera"
+                size={20}
+                color={colors.primary}
+              />
+            )}
+            <Text style={styles.addPhotoText}>{t('addPhoto')}</Text>
+          </TouchableOpacity>
+        )}
+
+        <TouchableOpacity
+          style={[styles.submitButton, (submitting || uploadingPhoto) && styles.submitButtonDisabled]}
+          onPress={handleSubmit}
+          disabled={submitting || uploadingPhoto}
+        >
+          {submitting ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <Text style={styles.submitButtonText}>{t('submitMaintenanceRequest')}</Text>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          title: t('newMaintenanceRequest'),
+          headerShown: true,
+          headerBackTitle: "Back",
+        }}
+      />
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        renderForm()
+      )}
+
+      <Modal
+        visible={!!errorMessage}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setErrorMessage(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>{t('error')}</Text>
+            <Text style={styles.modalMessage}>{errorMessage}</Text>
+            <TouchableOpacity
+              style={styles.errorModalButton}
+              onPress={() => setErrorMessage(null)}
+            >
+              <Text style={styles.errorModalButtonText}>OK</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  emptyText: {
+    fontSize: 18,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+    gap: 8,
+  },
+  propertyTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    marginTop: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: colors.backgroundAlt,
+    borderWidth: 1,
+    borderColor: colors.border,
+    maxWidth: '100%',
+  },
+  chipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  input: {
+    backgroundColor: colors.backgroundAlt,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: colors.text,
+  },
+  multilineInput: {
+    minHeight: 120,
+  },
+  photoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 8,
+  },
+  photoName: {
+    flex: 1,
+    fontSize: 15,
+    color: colors.text,
+  },
+  addPhotoButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  addPhotoText: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  submitButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  modalContent: {
+    backgroundColor: colors.background,
+    borderRadius: 16,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: 12,
+  },
+  modalMessage: {
+    fontSize: 16,
+    color: colors.textSecondary,
+    marginBottom: 24,
+    lineHeight: 22,
+  },
+  errorModalButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  errorModalButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
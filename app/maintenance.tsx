@@ -0,0 +1,311 @@
+import React, { useState, useCallback } from "react";
+import { StyleSheet, View, Text, ScrollView, TouchableOpacity, ActivityIndicator } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useRouter, useLocalSearchParams, useFocusEffect, Stack } from "expo-router";
+import { IconSymbol } from "@/components/IconSymbol";
+import { colors } from "@/styles/commonStyles";
+import { useAuth } from "@/contexts/AuthContext";
+import { authenticatedGet } from "@/utils/api";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { getDateLocale } from "@/utils/appointments";
+import { TenancySummary } from "@/utils/rentLedger";
+import {
+  CATEGORY_LABEL_KEYS,
+  MAINTENANCE_STATUSES,
+  MaintenanceStatus,
+  MaintenanceTicketSummary,
+  TICKET_STATUS_LABEL_KEYS,
+  URGENCY_LABEL_KEYS,
+} from "@/utils/maintenance";
+
+type StatusFilter = MaintenanceStatus | "all";
+
+const STATUS_FILTERS: StatusFilter[] = ["all", ...MAINTENANCE_STATUSES];
+
+export default function MaintenanceScreen() {
+  const { propertyId } = useLocalSearchParams<{ propertyId?: string }>();
+  const router = useRouter();
+  const { user } = useAuth();
+  const { language, t } = useLanguage();
+
+  const [tickets, setTickets] = useState<MaintenanceTicketSummary[]>([]);
+  const [tenancies, setTenancies] = useState<TenancySummary[]>([]);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
+  const [loading, setLoading] = useState(true);
+
+  // Reloaded on focus so new tickets and status changes show up on return
+  const loadData = useCallback(async () => {
+    try {
+      console.log("Fetching maintenance tickets", propertyId ? `for property ${propertyId}` : "");
+      const query = propertyId ? `?propertyId=${propertyId}` : "";
+      const [ticketData, tenancyData] = await Promise.all([
+        authenticatedGet<MaintenanceTicketSummary[]>(`/api/maintenance-tickets${query}`),
+        authenticatedGet<TenancySummary[]>("/api/tenancies"),
+      ]);
+      console.log("Maintenance tickets loaded:", ticketData.length);
+      setTickets(ticketData);
+      setTenancies(tenancyData);
+    } catch (error) {
+      console.error("Error loading maintenance tickets:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [propertyId]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  // Only tenants of an active tenancy can file requests
+  const canFile = tenancies.some(
+    (tenancy) =>
+      tenancy.tenantId === user?.id &&
+      tenancy.status === "active" &&
+      (!propertyId || tenancy.propertyId === propertyId)
+  );
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString(getDateLocale(language), {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    });
+
+  // Tickets grouped by property, keeping the most recently active first
+  const filtered = tickets.filter((ticket) => statusFilter === "all" || ticket.status === statusFilter);
+  const groups: { property: MaintenanceTicketSummary["property"]; tickets: MaintenanceTicketSummary[] }[] = [];
+  for (const ticket of filtered) {
+    const group = groups.find((item) => item.property.id === ticket.propertyId);
+    if (group) {
+      group.tickets.push(ticket);
+    } else {
+      groups.push({ property: ticket.property, tickets: [ticket] });
+    }
+  }
+
+  const renderTicket = (ticket: MaintenanceTicketSummary) => {
+    const otherParty =
+      ticket.ownerId === user?.id ? `${t('tenant')}: ${ticket.tenant.name}` : `${t('landlord')}: ${ticket.owner.name}`;
+
+    return (
+      <TouchableOpacity
+        key={ticket.id}
+        style={styles.ticketCard}
+        onPress={() => router.push(`/maintenance-request/${ticket.id}`)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.ticketInfo}>
+          <Text style={styles.ticketTitle} numberOfLines={1}>{ticket.title}</Text>
+          <Text style={styles.ticketMeta} numberOfLines={1}>
+            {`${t(CATEGORY_LABEL_KEYS[ticket.category])} · ${t(URGENCY_LABEL_KEYS[ticket.urgency])}`}
+          </Text>
+          <Text style={styles.ticketMeta} numberOfLines={1}>
+            {`${otherParty} · ${formatDate(ticket.updatedAt)}`}
+          </Text>
+          {ticket.contractorName && (
+            <Text style={styles.ticketMeta} numberOfLines={1}>
+              {`${t('contractor')}: ${ticket.contractorName}`}
+            </Text>
+          )}
+        </View>
+        <View
+          style={[
+            styles.statusBadge,
+            ticket.status === "open" && ticket.urgency === "urgent" && styles.statusBadgeUrgent,
+            ticket.status === "in_progress" && styles.statusBadgeActive,
+          ]}
+        >
+          <Text style={styles.statusBadgeText}>{t(TICKET_STATUS_LABEL_KEYS[ticket.status])}</Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          title: t('maintenanceRequests'),
+          headerShown: true,
+          headerBackTitle: "Back",
+        }}
+      />
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
+          {canFile && (
+            <TouchableOpacity
+              style={styles.newButton}
+              onPress={() =>
+                router.push(propertyId ? `/maintenance-request/new?propertyId=${propertyId}` : "/maintenance-request/new")
+              }
+            >
+              <IconSymbol ios_icon_name="plus" android_material_icon_name="add" size={20} color="#FFFFFF" />
+              <Text style={styles.newButtonText}>{t('newMaintenanceRequest')}</Text>
+            </TouchableOpacity>
+          )}
+
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+            {STATUS_FILTERS.map((status) => (
+              <TouchableOpacity
+                key={status}
+                style={[styles.chip, statusFilter === status && styles.chipActive]}
+                onPress={() => setStatusFilter(status)}
+              >
+                <Text style={[styles.chipText, statusFilter === status && styles.chipTextActive]}>
+                  {status === "all" ? t('all') : t(TICKET_STATUS_LABEL_KEYS[status])}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+
+          {groups.length === 0 ? (
+            <View style={styles.emptyContainer}>
+              <IconSymbol
+                ios_icon_name="wrench.and.screwdriver"
+                android_material_icon_name="build"
+                size={64}
+                color={colors.textSecondary}
+              />
+              <Text style={styles.emptyText}>{t('noMaintenanceRequests')}</Text>
+            </View>
+          ) : (
+            groups.map((group) => (
+              <View key={group.property.id}>
+                <TouchableOpacity onPress={() => router.push(`/property/${group.property.id}`)}>
+                  <Text style={styles.sectionTitle} numberOfLines={1}>{group.property.title}</Text>
+                </TouchableOpacity>
+                {group.tickets.map(renderTicket)}
+              </View>
+            ))
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 60,
+  },
+  emptyText: {
+    fontSize: 18,
+    color: colors.textSecondary,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  newButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: colors.primary,
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginBottom: 16,
+  },
+  newButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  chips: {
+    gap: 8,
+    paddingBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: colors.backgroundAlt,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    textTransform: 'uppercase',
+    marginBottom: 12,
+    marginTop: 16,
+  },
+  ticketCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  ticketInfo: {
+    flex: 1,
+  },
+  ticketTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 4,
+  },
+  ticketMeta: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: colors.textSecondary,
+  },
+  statusBadgeUrgent: {
+    backgroundColor: colors.error,
+  },
+  statusBadgeActive: {
+    backgroundColor: colors.primary,
+  },
+  statusBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
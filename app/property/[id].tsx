@@ -17,9 +17,23 @@ import { VideoView, useVideoPlayer } from "expo-video";
 import { IconSymbol } from "@/components/IconSymbol";
 import { colors } from "@/styles/commonStyles";
 import { useAuth } from "@/contexts/AuthContext";
-import { authenticatedGet } from "@/utils/api";
+import { authenticatedGet, authenticatedPost } from "@/utils/api";
 import AdModal from "@/components/AdModal";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { Map, DEFAULT_MAP_REGION } from "@/components/Map";
+import { useAmenities, getAmenityLabel } from "@/utils/amenities";
+import { ListingStatus, STATUS_LABEL_KEYS } from "@/utils/listingStatus";
+import { ViewingSlotPicker } from "@/components/ViewingSlotPicker";
+import { ViewingSlot, getDateLocale } from "@/utils/appointments";
+import { FavoriteButton } from "@/components/FavoriteButton";
+import { useFavoriteIds } from "@/utils/favorites";
+import { PriceHistoryChart, PricePoint } from "@/components/PriceHistoryChart";
+import { RentalTerms, LISTING_TYPE_LABEL_KEYS, PRICE_LABEL_KEYS } from "@/utils/listingTerms";
+import { UnitDetails, FACING_LABEL_KEYS, FLOOR_LEVEL_LABEL_KEYS, getBuildingAge } from "@/utils/unitDetails";
+import { BuildingSummary, getBuildingName } from "@/utils/buildings";
+import { SimilarListings } from "@/components/SimilarListings";
+import { DistrictStats, MedianComparison, compareWithMedian } from "@/utils/marketStats";
+import { recordListingView } from "@/utils/recommendations";
 
 const { width } = Dimensions.get('window');
 
@@ -30,7 +44,8 @@ function resolveImageSource(source: string | number | ImageSourcePropType | unde
   return source as ImageSourcePropType;
 }
 
-interface Property {
+interface Property extends RentalTerms, UnitDetails {
+  building: BuildingSummary | null;
   id: string;
   title: string;
   description: string;
@@ -38,22 +53,36 @@ interface Property {
   size: number;
   district: string;
   equipment: string;
+  amenities: string[];
   photos: string[];
   virtualTourUrl?: string;
+  status: ListingStatus;
+  address?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
   ownerId: string;
   createdAt: string;
+  publishedAt?: string | null;
+  priceReducedFrom?: string | null;
 }
 
 export default function PropertyDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const router = useRouter();
   const { user } = useAuth();
-  const { t } = useLanguage();
+  const { language, t } = useLanguage();
+  const amenities = useAmenities();
+  const { favoriteIds, toggleFavorite } = useFavoriteIds();
   
   const [property, setProperty] = useState<Property | null>(null);
+  const [priceHistory, setPriceHistory] = useState<PricePoint[]>([]);
+  const [districtStats, setDistrictStats] = useState<DistrictStats | null>(null);
   const [loading, setLoading] = useState(true);
   const [currentPhotoIndex, setCurrentPhotoIndex] = useState(0);
   const [showAdModal, setShowAdModal] = useState(false);
+  const [showSlotPicker, setShowSlotPicker] = useState(false);
+  const [booking, setBooking] = useState(false);
+  const [bookingError, setBookingError] = useState<string | null>(null);
   
   // Always call useVideoPlayer unconditionally, but with a fallback URL
   const videoPlayer = useVideoPlayer(property?.virtualTourUrl || '', (player) => {
@@ -70,11 +99,21 @@ export default function PropertyDetailScreen() {
       console.log("Property photos (signed URLs):", data.photos?.slice(0, 1));
       console.log("Property virtualTourUrl (signed URL):", data.virtualTourUrl);
       setProperty(data);
+      recordListingView(data.id);
     } catch (error) {
       console.error("Error loading property:", error);
     } finally {
       setLoading(false);
     }
+
+    // The chart is optional, so a failure here leaves the rest of the page intact
+    try {
+      const history = await authenticatedGet<PricePoint[]>(`/api/properties/${id}/price-history`);
+      console.log("Price history loaded:", history.length, "entries");
+      setPriceHistory(history);
+    } catch (error) {
+      console.error("Error loading price history:", error);
+    }
   }, [id]);
 
   useEffect(() => {
@@ -82,6 +121,27 @@ export default function PropertyDetailScreen() {
     loadProperty();
   }, [id, loadProperty]);
 
+  const district = property?.district;
+  const listingType = property?.listingType;
+
+  // The district median badge is optional as well, so failures are only logged
+  useEffect(() => {
+    if (!district || !listingType) return;
+
+    const loadDistrictStats = async () => {
+      try {
+        const stats = await authenticatedGet<DistrictStats>(
+          `/api/districts/${encodeURIComponent(district)}/stats?listingType=${listingType}&months=1`
+        );
+        console.log("District median price per sq ft:", stats.medianPricePerSqFt);
+        setDistrictStats(stats);
+      } catch (error) {
+        console.error("Error loading district stats:", error);
+      }
+    };
+    loadDistrictStats();
+  }, [district, listingType]);
+
   const handleStartChatClick = () => {
     console.log("User tapped Contact Owner button - showing ad first");
     setShowAdModal(true);
@@ -106,6 +166,30 @@ export default function PropertyDetailScreen() {
     }
   };
 
+  const handleBookViewingClick = () => {
+    console.log("User tapped Book a Viewing button");
+    setBookingError(null);
+    setShowSlotPicker(true);
+  };
+
+  const handleBookSlot = async (slot: ViewingSlot) => {
+    if (!property) return;
+
+    console.log("Booking viewing slot:", slot.id, "for property:", property.id);
+    try {
+      setBooking(true);
+      await authenticatedPost(`/api/viewing-slots/${slot.id}/book`, {});
+      setShowSlotPicker(false);
+      router.push("/appointments");
+    } catch (error) {
+      console.error("Error booking viewing:", error);
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setBookingError(`${t('errorBookingViewing')} ${errorMsg}`);
+    } finally {
+      setBooking(false);
+    }
+  };
+
   const handlePlayVideo = () => {
     if (videoPlayer) {
       if (videoPlayer.playing) {
@@ -150,17 +234,96 @@ export default function PropertyDetailScreen() {
     ? property.photos 
     : ['https://images.unsplash.com/photo-1560448204-e02f11c3d0e2'];
   
-  const equipmentList = property.equipment ? property.equipment.split(',').map(e => e.trim()) : [];
+  // Catalogue amenities first (translated), then any free-text extras
+  const amenityLabels = amenities
+    .filter((amenity) => property.amenities?.includes(amenity.id))
+    .map((amenity) => getAmenityLabel(amenity, language));
+  const otherEquipment = property.equipment
+    ? property.equipment.split(',').map(e => e.trim()).filter(Boolean)
+    : [];
+  const equipmentList = [...amenityLabels, ...otherEquipment];
   const priceText = `HK$${property.price}`;
+  const daysOnMarket = property.publishedAt
+    ? Math.max(0, Math.floor((Date.now() - new Date(property.publishedAt).getTime()) / (24 * 60 * 60 * 1000)))
+    : null;
   const sizeText = `${property.size} sq ft`;
+  const medianComparison = districtStats
+    ? compareWithMedian(Number(property.price), property.size, districtStats.medianPricePerSqFt)
+    : null;
+  const medianBadgeStyles: Record<MedianComparison, object> = {
+    below: styles.medianBadgeBelow,
+    above: styles.medianBadgeAbove,
+    inLine: styles.medianBadgeInLine,
+  };
   const isOwner = user?.id === property.ownerId;
+  const isPublished = property.status === "published";
+  const isFavorite = favoriteIds.has(property.id);
   const hasVirtualTour = !!property.virtualTourUrl;
+  const hasLocation = property.latitude != null && property.longitude != null;
+  const locationMarkers = hasLocation
+    ? [{ id: property.id, latitude: property.latitude!, longitude: property.longitude!, title: property.title }]
+    : [];
+  const locationRegion = hasLocation
+    ? { ...DEFAULT_MAP_REGION, latitude: property.latitude!, longitude: property.longitude!, latitudeDelta: 0.01, longitudeDelta: 0.01 }
+    : DEFAULT_MAP_REGION;
   
-  const monthlyRentLabel = t('monthlyRent');
-  const sizeLabel = t('size');
+  const priceLabel = t(PRICE_LABEL_KEYS[property.listingType]);
+  const isRental = property.listingType !== "sale";
+
+  // Terms the owner left blank are not shown; a blank availability date means available now
+  const availableFromDate = property.availableFrom ? new Date(`${property.availableFrom}T00:00:00`) : null;
+  const termRows: { label: string; value: string }[] = [
+    { label: t('listingType'), value: t(LISTING_TYPE_LABEL_KEYS[property.listingType]) },
+    {
+      label: t('availableFrom'),
+      value:
+        availableFromDate && availableFromDate.getTime() > Date.now()
+          ? availableFromDate.toLocaleDateString(getDateLocale(language), { day: "numeric", month: "short", year: "numeric" })
+          : t('availableNow'),
+    },
+  ];
+  if (isRental && property.minLeaseMonths != null) {
+    termRows.push({ label: t('minLeaseMonths'), value: String(property.minLeaseMonths) });
+  }
+  if (isRental && property.depositMonths != null) {
+    termRows.push({ label: t('depositMonths'), value: String(property.depositMonths) });
+  }
+  if (property.feesIncluded != null) {
+    termRows.push({ label: t('feesIncluded'), value: t(property.feesIncluded ? 'yes' : 'no') });
+  }
+  if (property.commissionApplies != null) {
+    termRows.push({ label: t('commissionApplies'), value: t(property.commissionApplies ? 'yes' : 'no') });
+  }
+
+  // Only the unit details the owner filled in are shown
+  const unitRows: { label: string; value: string }[] = [];
+  if (property.saleableArea != null) {
+    unitRows.push({ label: t('saleableArea'), value: `${property.saleableArea} sq ft` });
+  }
+  if (property.bedrooms != null) {
+    unitRows.push({ label: t('bedrooms'), value: property.bedrooms === 0 ? t('studio') : String(property.bedrooms) });
+  }
+  if (property.bathrooms != null) {
+    unitRows.push({ label: t('bathrooms'), value: String(property.bathrooms) });
+  }
+  if (property.floorLevel) {
+    unitRows.push({ label: t('floorLevel'), value: t(FLOOR_LEVEL_LABEL_KEYS[property.floorLevel]) });
+  }
+  if (property.facing) {
+    unitRows.push({ label: t('facing'), value: t(FACING_LABEL_KEYS[property.facing]) });
+  }
+  if (property.yearBuilt != null) {
+    unitRows.push({
+      label: t('buildingAge'),
+      value: `${getBuildingAge(property.yearBuilt)} ${t('years')} (${property.yearBuilt})`,
+    });
+  }
+
+  const sizeLabel = t('grossArea');
   const descriptionLabel = t('description');
   const equipmentLabel = t('equipmentAmenities');
   const virtualTourLabel = t('virtualTour');
+  const locationLabel = t('location');
   const contactOwnerText = t('contactOwner');
 
   return (
@@ -198,11 +361,25 @@ export default function PropertyDetailScreen() {
                 {photos.length}
               </Text>
             </View>
+            {/* Saved listings can still be removed once they're no longer published */}
+            {!isOwner && (isPublished || isFavorite) && (
+              <FavoriteButton
+                style={styles.favoriteButton}
+                isFavorite={isFavorite}
+                onPress={() => toggleFavorite(property.id)}
+              />
+            )}
           </View>
 
           {/* Property Info */}
           <View style={styles.content}>
             <Text style={styles.title}>{property.title}</Text>
+
+            {!isPublished && (
+              <View style={styles.statusBadge}>
+                <Text style={styles.statusBadgeText}>{t(STATUS_LABEL_KEYS[property.status])}</Text>
+              </View>
+            )}
             
             <View style={styles.locationRow}>
               <IconSymbol 
@@ -212,12 +389,37 @@ export default function PropertyDetailScreen() {
                 color={colors.textSecondary} 
               />
               <Text style={styles.district}>{property.district}</Text>
+              {property.building && (
+                <TouchableOpacity onPress={() => router.push(`/building/${property.building!.id}`)}>
+                  <Text style={styles.buildingLink}>{`· ${getBuildingName(property.building, language)}`}</Text>
+                </TouchableOpacity>
+              )}
             </View>
 
             <View style={styles.statsRow}>
               <View style={styles.statItem}>
                 <Text style={styles.statValue}>{priceText}</Text>
-                <Text style={styles.statLabel}>{monthlyRentLabel}</Text>
+                <Text style={styles.statLabel}>{priceLabel}</Text>
+                {!!property.priceReducedFrom && (
+                  <Text style={styles.priceReducedText}>
+                    {`${t('priceReducedFrom')} HK$${property.priceReducedFrom}`}
+                  </Text>
+                )}
+                {/* Price per sq ft against live listings of the same type in the district */}
+                {medianComparison && (
+                  <TouchableOpacity
+                    style={[styles.medianBadge, medianBadgeStyles[medianComparison.comparison]]}
+                    onPress={() =>
+                      router.push(`/insights?district=${encodeURIComponent(property.district)}&listingType=${property.listingType}`)
+                    }
+                  >
+                    <Text style={styles.medianBadgeText}>
+                      {medianComparison.comparison === 'inLine'
+                        ? `${t('vsDistrictMedian')}: ${t('inLineWithMedian')}`
+                        : `${t('vsDistrictMedian')}: ${medianComparison.percent > 0 ? '+' : ''}${medianComparison.percent}%`}
+                    </Text>
+                  </TouchableOpacity>
+                )}
               </View>
               <View style={styles.statDivider} />
               <View style={styles.statItem}>
@@ -232,6 +434,43 @@ export default function PropertyDetailScreen() {
               <Text style={styles.description}>{property.description}</Text>
             </View>
 
+            {/* Unit Details */}
+            {unitRows.length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>{t('unitDetails')}</Text>
+                {unitRows.map((row) => (
+                  <View key={row.label} style={styles.termRow}>
+                    <Text style={styles.termLabel}>{row.label}</Text>
+                    <Text style={styles.termValue}>{row.value}</Text>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            {/* Terms */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{t('rentalTerms')}</Text>
+              {termRows.map((row) => (
+                <View key={row.label} style={styles.termRow}>
+                  <Text style={styles.termLabel}>{row.label}</Text>
+                  <Text style={styles.termValue}>{row.value}</Text>
+                </View>
+              ))}
+            </View>
+
+            {/* Price History - only worth charting once the price has changed */}
+            {priceHistory.length > 1 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>{t('priceHistory')}</Text>
+                <PriceHistoryChart history={priceHistory} locale={getDateLocale(language)} />
+                {daysOnMarket !== null && (
+                  <Text style={styles.daysOnMarketText}>
+                    {`${t('daysOnMarket')}: ${daysOnMarket}`}
+                  </Text>
+                )}
+              </View>
+            )}
+
             {/* Equipment */}
             {equipmentList.length > 0 && (
               <View style={styles.section}>
@@ -252,6 +491,21 @@ export default function PropertyDetailScreen() {
               </View>
             )}
 
+            {/* Location */}
+            {(hasLocation || !!property.address) && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>{locationLabel}</Text>
+                {!!property.address && (
+                  <Text style={styles.addressText}>{property.address}</Text>
+                )}
+                {hasLocation && (
+                  <View style={styles.mapContainer}>
+                    <Map markers={locationMarkers} initialRegion={locationRegion} />
+                  </View>
+                )}
+              </View>
+            )}
+
             {/* Virtual Tour Video */}
             {hasVirtualTour && (
               <View style={styles.section}>
@@ -280,12 +534,37 @@ export default function PropertyDetailScreen() {
               </View>
             )}
 
+            {/* Rental Applications - For property owners */}
+            {isOwner && isRental && (
+              <TouchableOpacity
+                style={styles.applicationsRow}
+                onPress={() => router.push(`/applications?propertyId=${property.id}`)}
+              >
+                <IconSymbol 
+                  ios_icon_name="doc.text" 
+                  android_material_icon_name="description" 
+                  size={22} 
+                  color={colors.primary} 
+                />
+                <Text style={styles.applicationsRowText}>{t('rentalApplications')}</Text>
+                <IconSymbol 
+                  ios_icon_name="chevron.right" 
+                  android_material_icon_name="chevron-right" 
+                  size={20} 
+                  color={colors.textSecondary} 
+                />
+              </TouchableOpacity>
+            )}
+
+            {/* Similar Listings */}
+            <SimilarListings propertyId={property.id} />
+
             <View style={styles.bottomPadding} />
           </View>
         </ScrollView>
 
-        {/* Contact Button - Fixed at bottom */}
-        {!isOwner && (
+        {/* Contact Button - Fixed at bottom, only while the listing is published */}
+        {!isOwner && isPublished && (
           <View style={styles.footer}>
             <TouchableOpacity
               style={styles.contactButton}
@@ -299,6 +578,18 @@ export default function PropertyDetailScreen() {
               />
               <Text style={styles.contactButtonText}>{contactOwnerText}</Text>
             </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.viewingButton}
+              onPress={handleBookViewingClick}
+            >
+              <IconSymbol 
+                ios_icon_name="calendar" 
+                android_material_icon_name="event" 
+                size={20} 
+                color={colors.primary} 
+              />
+              <Text style={styles.viewingButtonText}>{t('bookViewing')}</Text>
+            </TouchableOpacity>
           </View>
         )}
 
@@ -317,10 +608,32 @@ export default function PropertyDetailScreen() {
               />
               <Text style={styles.editButtonText}>{t('editListing')}</Text>
             </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.viewingButton}
+              onPress={() => router.push(`/viewing-slots/${property.id}`)}
+            >
+              <IconSymbol 
+                ios_icon_name="calendar" 
+                android_material_icon_name="event" 
+                size={20} 
+                color={colors.primary} 
+              />
+              <Text style={styles.viewingButtonText}>{t('manageViewingSlots')}</Text>
+            </TouchableOpacity>
           </View>
         )}
 
         <AdModal isVisible={showAdModal} onAdComplete={handleAdComplete} />
+
+        <ViewingSlotPicker
+          visible={showSlotPicker}
+          propertyId={property.id}
+          title={t('bookViewing')}
+          submitting={booking}
+          error={bookingError}
+          onSelect={handleBookSlot}
+          onClose={() => setShowSlotPicker(false)}
+        />
       </View>
     </>
   );
@@ -362,6 +675,11 @@ const styles = StyleSheet.create({
     height: 300,
     backgroundColor: colors.backgroundAlt,
   },
+  favoriteButton: {
+    position: 'absolute',
+    top: 16,
+    right: 16,
+  },
   photoIndicator: {
     position: 'absolute',
     bottom: 16,
@@ -392,6 +710,19 @@ const styles = StyleSheet.create({
     color: colors.text,
     marginBottom: 12,
   },
+  statusBadge: {
+    alignSelf: 'flex-start',
+    backgroundColor: colors.backgroundAlt,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginBottom: 12,
+  },
+  statusBadgeText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
   locationRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -402,6 +733,11 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: colors.textSecondary,
   },
+  buildingLink: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.primary,
+  },
   statsRow: {
     flexDirection: 'row',
     backgroundColor: colors.backgroundAlt,
@@ -428,6 +764,39 @@ const styles = StyleSheet.create({
     backgroundColor: colors.border,
     marginHorizontal: 20,
   },
+  priceReducedText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.success,
+    marginTop: 4,
+    textAlign: 'center',
+  },
+  medianBadge: {
+    alignSelf: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    marginTop: 8,
+  },
+  medianBadgeBelow: {
+    backgroundColor: colors.success,
+  },
+  medianBadgeAbove: {
+    backgroundColor: colors.secondary,
+  },
+  medianBadgeInLine: {
+    backgroundColor: colors.primary,
+  },
+  medianBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  daysOnMarketText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginTop: 8,
+  },
   section: {
     marginBottom: 24,
   },
@@ -437,11 +806,57 @@ const styles = StyleSheet.create({
     color: colors.text,
     marginBottom: 12,
   },
+  applicationsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    marginBottom: 24,
+  },
+  applicationsRowText: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
   description: {
     fontSize: 16,
     lineHeight: 24,
     color: colors.textSecondary,
   },
+  addressText: {
+    fontSize: 16,
+    lineHeight: 24,
+    color: colors.textSecondary,
+    marginBottom: 12,
+  },
+  termRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  termLabel: {
+    fontSize: 16,
+    color: colors.textSecondary,
+  },
+  termValue: {
+    flexShrink: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    textAlign: 'right',
+  },
+  mapContainer: {
+    height: 200,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
   equipmentList: {
     gap: 12,
   },
@@ -498,6 +913,22 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#FFFFFF',
   },
+  viewingButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: colors.primary,
+    paddingVertical: 14,
+    borderRadius: 12,
+    gap: 12,
+    marginTop: 12,
+  },
+  viewingButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.primary,
+  },
   editButton: {
     flexDirection: 'row',
     alignItems: 'center',
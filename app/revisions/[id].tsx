@@ -0,0 +1,417 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  StyleSheet,
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Modal,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useLocalSearchParams, Stack } from "expo-router";
+import { colors } from "@/styles/commonStyles";
+import { authenticatedGet, authenticatedPost } from "@/utils/api";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useAmenities, getAmenityLabel } from "@/utils/amenities";
+import { ListingStatus, STATUS_LABEL_KEYS } from "@/utils/listingStatus";
+import { getDateLocale } from "@/utils/appointments";
+import { ListingType, LISTING_TYPE_LABEL_KEYS } from "@/utils/listingTerms";
+import { Facing, FACING_LABEL_KEYS, FloorLevel, FLOOR_LEVEL_LABEL_KEYS } from "@/utils/unitDetails";
+
+type RevisionAction = "create" | "update" | "status" | "delete" | "undelete" | "restore";
+
+interface Revision {
+  id: string;
+  action: RevisionAction;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  restoredFromId: string | null;
+  createdAt: string;
+  user: { id: string; name: string } | null;
+}
+
+const ACTION_LABEL_KEYS: Record<RevisionAction, string> = {
+  create: "revisionCreated",
+  update: "revisionEdited",
+  status: "revisionStatusChanged",
+  delete: "revisionDeleted",
+  undelete: "revisionUndeleted",
+  restore: "revisionRestored",
+};
+
+const FIELD_LABEL_KEYS: Record<string, string> = {
+  title: "propertyTitle",
+  description: "description",
+  price: "monthlyRent",
+  size: "grossArea",
+  saleableArea: "saleableArea",
+  bedrooms: "bedrooms",
+  bathrooms: "bathrooms",
+  floorLevel: "floorLevel",
+  facing: "facing",
+  yearBuilt: "yearBuilt",
+  district: "district",
+  buildingId: "building",
+  equipment: "otherEquipment",
+  amenities: "amenities",
+  photos: "propertyPhotos",
+  virtualTourUrl: "virtualTour",
+  address: "location",
+  latitude: "location",
+  longitude: "location",
+  status: "listingStatus",
+  listingType: "listingType",
+  minLeaseMonths: "minLeaseMonths",
+  depositMonths: "depositMonths",
+  availableFrom: "availableFrom",
+  feesIncluded: "feesIncluded",
+  commissionApplies: "commissionApplies",
+};
+
+function isTrashAction(action: RevisionAction) {
+  return action === "delete" || action === "undelete";
+}
+
+export default function RevisionsScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { language, t } = useLanguage();
+  const amenities = useAmenities();
+
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState<Revision | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [errorModalVisible, setErrorModalVisible] = useState(false);
+  const [errorMessage, setErrorMessage] = useState("");
+
+  const loadRevisions = useCallback(async () => {
+    try {
+      setLoading(true);
+      console.log("Fetching revisions for property:", id);
+      const data = await authenticatedGet<Revision[]>(`/api/properties/${id}/revisions`);
+      console.log("Revisions loaded:", data.length);
+      setRevisions(data);
+    } catch (error) {
+      console.error("Error loading revisions:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions]);
+
+  const handleRestoreConfirm = async () => {
+    if (!restoring) return;
+
+    const revision = restoring;
+    console.log("Restoring property", id, "to revision:", revision.id);
+    setRestoring(null);
+    try {
+      setRestoringId(revision.id);
+      await authenticatedPost(`/api/properties/${id}/revisions/${revision.id}/restore`, {});
+      await loadRevisions();
+    } catch (error) {
+      console.error("Error restoring revision:", error);
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setErrorMessage(`${t('errorRestoringRevision')} ${errorMsg}`);
+      setErrorModalVisible(true);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const formatValue = (field: string, value: unknown): string => {
+    if (value === null || value === undefined || value === "") return "—";
+    if (field === "price") return `HK$${value}`;
+    if (field === "size" || field === "saleableArea") return `${value} sq ft`;
+    if (field === "floorLevel") return t(FLOOR_LEVEL_LABEL_KEYS[value as FloorLevel]);
+    if (field === "facing") return t(FACING_LABEL_KEYS[value as Facing]);
+    if (field === "status") return t(STATUS_LABEL_KEYS[value as ListingStatus]);
+    if (field === "listingType") return t(LISTING_TYPE_LABEL_KEYS[value as ListingType]);
+    if (typeof value === "boolean") return t(value ? "yes" : "no");
+    if (field === "photos" && Array.isArray(value)) return String(value.length);
+    if (field === "amenities" && Array.isArray(value)) {
+      if (value.length === 0) return "—";
+      return value
+        .map((amenityId) => {
+          const amenity = amenities.find((item) => item.id === amenityId);
+          return amenity ? getAmenityLabel(amenity, language) : String(amenityId);
+        })
+        .join(", ");
+    }
+    return String(value);
+  };
+
+  const dateLocale = getDateLocale(language);
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          title: t('editHistory'),
+          headerShown: true,
+          headerBackTitle: "Back",
+        }}
+      />
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
+          {revisions.length === 0 ? (
+            <Text style={styles.emptyText}>{t('noRevisions')}</Text>
+          ) : (
+            revisions.map((revision, index) => {
+              const isLatest = index === 0;
+              const changedAt = new Date(revision.createdAt).toLocaleString(dateLocale, {
+                day: "numeric",
+                month: "short",
+                year: "numeric",
+                hour: "2-digit",
+                minute: "2-digit",
+              });
+
+              return (
+                <View key={revision.id} style={styles.revisionCard}>
+                  <View style={styles.revisionHeader}>
+                    <View style={styles.revisionInfo}>
+                      <Text style={styles.revisionAction}>{t(ACTION_LABEL_KEYS[revision.action])}</Text>
+                      <Text style={styles.revisionMeta}>
+                        {revision.user ? `${changedAt} · ${revision.user.name}` : changedAt}
+                      </Text>
+                    </View>
+                    {isLatest ? (
+                      <Text style={styles.currentLabel}>{t('currentVersion')}</Text>
+                    ) : restoringId === revision.id ? (
+                      <ActivityIndicator size="small" color={colors.primary} />
+                    ) : (
+                      <TouchableOpacity
+                        style={styles.restoreButton}
+                        onPress={() => setRestoring(revision)}
+                        disabled={!!restoringId}
+                      >
+                        <Text style={styles.restoreButtonText}>{t('restore')}</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+
+                  {/* A creation lists every starting value; edits show before → after. Deleting and
+                      restoring from deleted leave the listing's fields alone, so they list nothing. */}
+                  {!isTrashAction(revision.action) && Object.entries(revision.changes).map(([field, change]) => (
+                    <View key={field} style={styles.changeRow}>
+                      <Text style={styles.changeField}>{t(FIELD_LABEL_KEYS[field] ?? field)}</Text>
+                      <Text style={styles.changeValue} numberOfLines={3}>
+                        {revision.action === "create"
+                          ? formatValue(field, change.to)
+                          : `${formatValue(field, change.from)} → ${formatValue(field, change.to)}`}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              );
+            })
+          )}
+        </ScrollView>
+      )}
+
+      <Modal
+        visible={!!restoring}
+        animationType="fade"
+        transparent={true}
+        onRequestClose={() => setRestoring(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>{t('restoreRevision')}</Text>
+            <Text style={styles.modalMessage}>{t('confirmRestoreRevision')}</Text>
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={styles.modalCancelButton}
+                onPress={() => setRestoring(null)}
+              >
+                <Text style={styles.modalCancelText}>{t('cancel')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.modalConfirmButton}
+                onPress={handleRestoreConfirm}
+              >
+                <Text style={styles.modalConfirmText}>{t('restore')}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal
+        visible={errorModalVisible}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setErrorModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>{t('error')}</Text>
+            <Text style={styles.modalMessage}>{errorMessage}</Text>
+            <TouchableOpacity
+              style={styles.errorModalButton}
+              onPress={() => setErrorModalVisible(false)}
+            >
+              <Text style={styles.errorModalButtonText}>OK</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: colors.textSecondary,
+  },
+  revisionCard: {
+    backgroundColor: colors.backgroundAlt,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: 16,
+    marginBottom: 12,
+  },
+  revisionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 8,
+  },
+  revisionInfo: {
+    flex: 1,
+  },
+  revisionAction: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  revisionMeta: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  currentLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.success,
+  },
+  restoreButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  restoreButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  changeRow: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingVertical: 4,
+  },
+  changeField: {
+    width: 110,
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  changeValue: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.text,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  modalContent: {
+    backgroundColor: colors.background,
+    borderRadius: 16,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: 12,
+  },
+  modalMessage: {
+    fontSize: 16,
+    color: colors.textSecondary,
+    marginBottom: 24,
+    lineHeight: 22,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  modalCancelButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: colors.backgroundAlt,
+    alignItems: 'center',
+  },
+  modalCancelText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  modalConfirmButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: colors.primary,
+    alignItems: 'center',
+  },
+  modalConfirmText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  errorModalButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  errorModalButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,311 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  StyleSheet,
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Image,
+  ImageSourcePropType,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useRouter, Stack } from "expo-router";
+import { IconSymbol } from "@/components/IconSymbol";
+import { colors } from "@/styles/commonStyles";
+import { authenticatedGet, authenticatedPost, authenticatedDelete } from "@/utils/api";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { STATUS_LABEL_KEYS } from "@/utils/listingStatus";
+import { SavedSearch, SavedSearchMatch } from "@/utils/savedSearches";
+import { LISTING_TYPE_LABEL_KEYS } from "@/utils/listingTerms";
+import { Facing, FACING_LABEL_KEYS, FloorLevel, FLOOR_LEVEL_LABEL_KEYS } from "@/utils/unitDetails";
+
+function resolveImageSource(source: string | number | ImageSourcePropType | undefined): ImageSourcePropType {
+  if (!source) return { uri: '' };
+  if (typeof source === 'string') return { uri: source };
+  return source as ImageSourcePropType;
+}
+
+export default function SavedSearchesScreen() {
+  const router = useRouter();
+  const { t } = useLanguage();
+
+  const [matches, setMatches] = useState<SavedSearchMatch[]>([]);
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  // Matches stay highlighted while this screen is open; the server marks them
+  // seen straight away so the badge clears
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true);
+      console.log("Fetching saved searches and matches");
+      const [matchData, searchData] = await Promise.all([
+        authenticatedGet<SavedSearchMatch[]>("/api/saved-search-matches"),
+        authenticatedGet<SavedSearch[]>("/api/saved-searches"),
+      ]);
+      console.log("Saved search matches loaded:", matchData.length, "searches:", searchData.length);
+      setMatches(matchData);
+      setSearches(searchData);
+      if (matchData.some((match) => !match.seenAt)) {
+        await authenticatedPost("/api/saved-search-matches/seen", {});
+      }
+    } catch (error) {
+      console.error("Error loading saved searches:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleDeleteSearch = async (search: SavedSearch) => {
+    console.log("Deleting saved search:", search.id);
+    try {
+      setDeletingId(search.id);
+      await authenticatedDelete(`/api/saved-searches/${search.id}`);
+      setSearches((current) => current.filter((item) => item.id !== search.id));
+      setMatches((current) => current.filter((match) => match.savedSearchId !== search.id));
+    } catch (error) {
+      console.error("Error deleting saved search:", error);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const describeFilters = (filters: Record<string, string>) => {
+    const parts: string[] = [];
+    if (filters.q) parts.push(`"${filters.q}"`);
+    if (filters.district) parts.push(filters.district);
+    if (filters.minPrice || filters.maxPrice) {
+      parts.push(`HK$${filters.minPrice || "0"} – ${filters.maxPrice ? `HK$${filters.maxPrice}` : "∞"}`);
+    }
+    if (filters.minSize || filters.maxSize) {
+      parts.push(`${filters.minSize || "0"} – ${filters.maxSize || "∞"} sq ft`);
+    }
+    if (filters.minSaleableArea || filters.maxSaleableArea) {
+      parts.push(`${t("saleableArea")}: ${filters.minSaleableArea || "0"} – ${filters.maxSaleableArea || "∞"} sq ft`);
+    }
+    if (filters.minBedrooms) {
+      parts.push(`${t("bedrooms")}: ${filters.minBedrooms}+`);
+    }
+    if (filters.maxBedrooms) {
+      parts.push(`${t("bedrooms")} ≤ ${filters.maxBedrooms}`);
+    }
+    if (filters.minBathrooms) {
+      parts.push(`${t("bathrooms")}: ${filters.minBathrooms}+`);
+    }
+    if (filters.floorLevel && filters.floorLevel in FLOOR_LEVEL_LABEL_KEYS) {
+      parts.push(t(FLOOR_LEVEL_LABEL_KEYS[filters.floorLevel as FloorLevel]));
+    }
+    if (filters.facing && filters.facing in FACING_LABEL_KEYS) {
+      parts.push(t(FACING_LABEL_KEYS[filters.facing as Facing]));
+    }
+    if (filters.maxBuildingAge) {
+      parts.push(`${t("maxBuildingAge")}: ${filters.maxBuildingAge}`);
+    }
+    if (filters.amenities) {
+      parts.push(`${t("amenities")}: ${filters.amenities.split(",").length}`);
+    }
+    if (filters.priceReduced === "true") {
+      parts.push(t("priceReduced"));
+    }
+    if (filters.listingType === "rent" || filters.listingType === "sale") {
+      parts.push(t(LISTING_TYPE_LABEL_KEYS[filters.listingType]));
+    }
+    if (filters.maxLeaseMonths) {
+      parts.push(`${t("maxLeaseMonthsFilter")}: ${filters.maxLeaseMonths}`);
+    }
+    if (filters.maxDepositMonths) {
+      parts.push(`${t("maxDepositMonthsFilter")}: ${filters.maxDepositMonths}`);
+    }
+    if (filters.availableBy) {
+      parts.push(`${t("availableByFilter")}: ${filters.availableBy}`);
+    }
+    if (filters.feesIncluded === "true") {
+      parts.push(t("feesIncludedOnly"));
+    }
+    if (filters.commissionApplies === "false") {
+      parts.push(t("noCommissionOnly"));
+    }
+    if (filters.bbox || filters.near) {
+      parts.push(t("mapArea"));
+    }
+    return parts.length > 0 ? parts.join(" · ") : t("allListings");
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          title: t('savedSearches'),
+          headerShown: true,
+          headerBackTitle: "Back",
+        }}
+      />
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
+          <Text style={styles.sectionTitle}>{t('newMatches')}</Text>
+          {matches.length === 0 ? (
+            <Text style={styles.emptyText}>{t('noNewMatches')}</Text>
+          ) : (
+            matches.map((match) => {
+              const { property } = match;
+              const firstPhoto = property.photos && property.photos.length > 0 ? property.photos[0] : '';
+              const isAvailable = property.status === "published";
+
+              return (
+                <TouchableOpacity
+                  key={match.id}
+                  style={[styles.matchRow, !match.seenAt && styles.matchRowUnseen]}
+                  onPress={() => router.push(`/property/${property.id}`)}
+                  activeOpacity={0.7}
+                >
+                  {firstPhoto ? (
+                    <Image source={resolveImageSource(firstPhoto)} style={styles.matchImage} resizeMode="cover" />
+                  ) : (
+                    <View style={[styles.matchImage, styles.matchImagePlaceholder]}>
+                      <IconSymbol
+                        ios_icon_name="house.fill"
+                        android_material_icon_name="home"
+                        size={24}
+                        color={colors.textSecondary}
+                      />
+                    </View>
+                  )}
+                  <View style={styles.matchInfo}>
+                    <Text style={styles.matchTitle} numberOfLines={1}>{property.title}</Text>
+                    <Text style={styles.matchMeta} numberOfLines={1}>
+                      {`${property.district} · HK$${property.price}`}
+                    </Text>
+                    <Text style={styles.matchSearch} numberOfLines={1}>
+                      {isAvailable ? match.savedSearch.name : t(STATUS_LABEL_KEYS[property.status])}
+                    </Text>
+                  </View>
+                </TouchableOpacity>
+              );
+            })
+          )}
+
+          <Text style={styles.sectionTitle}>{t('savedSearches')}</Text>
+          {searches.length === 0 ? (
+            <Text style={styles.emptyText}>{t('noSavedSearches')}</Text>
+          ) : (
+            searches.map((search) => (
+              <View key={search.id} style={styles.searchRow}>
+                <View style={styles.searchInfo}>
+                  <Text style={styles.matchTitle} numberOfLines={1}>{search.name}</Text>
+                  <Text style={styles.matchMeta} numberOfLines={2}>{describeFilters(search.filters)}</Text>
+                </View>
+                {deletingId === search.id ? (
+                  <ActivityIndicator size="small" color={colors.error} />
+                ) : (
+                  <TouchableOpacity onPress={() => handleDeleteSearch(search)}>
+                    <IconSymbol
+                      ios_icon_name="trash"
+                      android_material_icon_name="delete"
+                      size={20}
+                      color={colors.error}
+                    />
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: colors.textSecondary,
+    marginBottom: 24,
+  },
+  matchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+    gap: 12,
+  },
+  matchRowUnseen: {
+    backgroundColor: colors.highlight,
+    borderRadius: 8,
+  },
+  matchImage: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    backgroundColor: colors.backgroundAlt,
+  },
+  matchImagePlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  matchInfo: {
+    flex: 1,
+  },
+  matchTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 2,
+  },
+  matchMeta: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  matchSearch: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.primary,
+    marginTop: 2,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+    gap: 12,
+  },
+  searchInfo: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,244 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { StyleSheet, View, Text, ScrollView, TouchableOpacity, ActivityIndicator } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useRouter, Stack } from "expo-router";
+import { IconSymbol } from "@/components/IconSymbol";
+import { colors } from "@/styles/commonStyles";
+import { useAuth } from "@/contexts/AuthContext";
+import { authenticatedGet, authenticatedPost } from "@/utils/api";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { getDateLocale } from "@/utils/appointments";
+import { RentReminder, TenancySummary, formatRentAmount } from "@/utils/rentLedger";
+
+export default function TenanciesScreen() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const { language, t } = useLanguage();
+
+  const [tenancies, setTenancies] = useState<TenancySummary[]>([]);
+  const [reminders, setReminders] = useState<RentReminder[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Reminders stay highlighted while this screen is open; the server marks
+  // them seen straight away so the badge clears
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true);
+      console.log("Fetching tenancies and rent reminders");
+      const [tenancyData, reminderData] = await Promise.all([
+        authenticatedGet<TenancySummary[]>("/api/tenancies"),
+        authenticatedGet<RentReminder[]>("/api/rent-reminders"),
+      ]);
+      console.log("Tenancies loaded:", tenancyData.length, "reminders:", reminderData.length);
+      setTenancies(tenancyData);
+      setReminders(reminderData);
+      if (reminderData.some((reminder) => !reminder.seenAt)) {
+        await authenticatedPost("/api/rent-reminders/seen", {});
+      }
+    } catch (error) {
+      console.error("Error loading tenancies:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const formatDate = (value: string) =>
+    new Date(`${value}T00:00:00`).toLocaleDateString(getDateLocale(language), {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    });
+
+  const renderTenancy = (tenancy: TenancySummary) => {
+    const isOwner = tenancy.ownerId === user?.id;
+    const otherParty = isOwner
+      ? `${t('tenant')}: ${tenancy.tenant.name}`
+      : `${t('landlord')}: ${tenancy.owner.name}`;
+
+    return (
+      <TouchableOpacity
+        key={tenancy.id}
+        style={styles.tenancyCard}
+        onPress={() => router.push(`/tenancy/${tenancy.id}`)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.tenancyInfo}>
+          <Text style={styles.tenancyTitle} numberOfLines={1}>{tenancy.property.title}</Text>
+          <Text style={styles.tenancyMeta} numberOfLines={1}>{otherParty}</Text>
+          <Text style={styles.tenancyMeta}>
+            {`${t('monthlyRent')} ${formatRentAmount(tenancy.monthlyRent)}`}
+            {tenancy.nextDueDate ? ` · ${t('nextDue')} ${formatDate(tenancy.nextDueDate)}` : ''}
+          </Text>
+        </View>
+        {tenancy.overdueCount > 0 ? (
+          <View style={[styles.statusBadge, styles.statusBadgeOverdue]}>
+            <Text style={styles.statusBadgeText}>{`${tenancy.overdueCount} ${t('chargeOverdue')}`}</Text>
+          </View>
+        ) : tenancy.status === "ended" ? (
+          <View style={styles.statusBadge}>
+            <Text style={styles.statusBadgeText}>{t('tenancyEnded')}</Text>
+          </View>
+        ) : null}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          title: t('rentLedger'),
+          headerShown: true,
+          headerBackTitle: "Back",
+        }}
+      />
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : tenancies.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <IconSymbol
+            ios_icon_name="banknote"
+            android_material_icon_name="payments"
+            size={64}
+            color={colors.textSecondary}
+          />
+          <Text style={styles.emptyText}>{t('noTenancies')}</Text>
+        </View>
+      ) : (
+        <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
+          {reminders.length > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>{t('rentReminders')}</Text>
+              {reminders.map((reminder) => (
+                <TouchableOpacity
+                  key={reminder.id}
+                  style={[styles.reminderRow, !reminder.seenAt && styles.reminderRowUnseen]}
+                  onPress={() => router.push(`/tenancy/${reminder.charge.tenancy.id}`)}
+                >
+                  <IconSymbol
+                    ios_icon_name={reminder.kind === "overdue" ? "exclamationmark.circle" : "bell"}
+                    android_material_icon_name={reminder.kind === "overdue" ? "error-outline" : "notifications"}
+                    size={20}
+                    color={reminder.kind === "overdue" ? colors.error : colors.primary}
+                  />
+                  <View style={styles.tenancyInfo}>
+                    <Text style={styles.reminderTitle} numberOfLines={1}>
+                      {reminder.charge.tenancy.property.title}
+                    </Text>
+                    <Text style={styles.tenancyMeta}>
+                      {`${reminder.kind === "overdue" ? t('rentOverdueSince') : t('rentDueOn')} ${formatDate(reminder.charge.dueDate)} · ${formatRentAmount(reminder.charge.amount)}`}
+                    </Text>
+                  </View>
+                </TouchableOpacity>
+              ))}
+            </>
+          )}
+          <Text style={styles.sectionTitle}>{t('tenancies')}</Text>
+          {tenancies.map(renderTenancy)}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  emptyText: {
+    fontSize: 18,
+    color: colors.textSecondary,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    textTransform: 'uppercase',
+    marginBottom: 12,
+    marginTop: 8,
+  },
+  reminderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 8,
+  },
+  reminderRowUnseen: {
+    backgroundColor: colors.highlight,
+    borderRadius: 8,
+  },
+  reminderTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  tenancyCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  tenancyInfo: {
+    flex: 1,
+  },
+  tenancyTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 4,
+  },
+  tenancyMeta: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: colors.textSecondary,
+  },
+  statusBadgeOverdue: {
+    backgroundColor: colors.error,
+  },
+  statusBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,807 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  StyleSheet,
+  View,
+  Text,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Modal,
+  Linking,
+  Share,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useLocalSearchParams, useRouter, Stack } from "expo-router";
+import { IconSymbol } from "@/components/IconSymbol";
+import { colors } from "@/styles/commonStyles";
+import { useAuth } from "@/contexts/AuthContext";
+import { authenticatedGet, authenticatedPost, authenticatedPut } from "@/utils/api";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { getDateLocale } from "@/utils/appointments";
+import { UploadedFile } from "@/utils/uploads";
+import {
+  CHARGE_STATUS_LABEL_KEYS,
+  DEPOSIT_STATUSES,
+  DEPOSIT_STATUS_LABEL_KEYS,
+  DEPOSIT_STATUS_TRANSITIONS,
+  DepositStatus,
+  MANUAL_PAYMENT_METHODS,
+  PAYMENT_METHOD_LABEL_KEYS,
+  PAYMENT_STATUS_LABEL_KEYS,
+  RentCharge,
+  RentLedger,
+  RentPaymentMethod,
+  fetchLedgerCsv,
+  formatRentAmount,
+  pickAndUploadReceipt,
+} from "@/utils/rentLedger";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+interface PaymentDraft {
+  charge: RentCharge;
+  amount: string;
+  method: RentPaymentMethod;
+  paidOn: string;
+  note: string;
+  receipt: UploadedFile | null;
+}
+
+// What is left to pay once payments awaiting confirmation go through
+const remainingAmount = (charge: RentCharge): number =>
+  Math.max(Number(charge.outstanding) - Number(charge.pendingAmount), 0);
+
+export default function TenancyScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { user } = useAuth();
+  const { language, t } = useLanguage();
+
+  const [ledger, setLedger] = useState<RentLedger | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const [draft, setDraft] = useState<PaymentDraft | null>(null);
+  const [uploadingReceipt, setUploadingReceipt] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const loadLedger = useCallback(async () => {
+    try {
+      setLoading(true);
+      console.log("Fetching rent ledger:", id);
+      const data = await authenticatedGet<RentLedger>(`/api/tenancies/${id}`);
+      setLedger(data);
+    } catch (error) {
+      console.error("Error loading rent ledger:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadLedger();
+  }, [loadLedger]);
+
+  const isOwner = !!ledger && ledger.ownerId === user?.id;
+
+  // Every ledger change returns the updated ledger
+  const runUpdate = async (description: string, request: () => Promise<RentLedger>) => {
+    console.log(description, id);
+    try {
+      setUpdating(true);
+      setLedger(await request());
+      return true;
+    } catch (error) {
+      console.error(`Error: ${description}`, error);
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setErrorMessage(`${t('errorUpdatingLedger')} ${errorMsg}`);
+      return false;
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleDepositStatus = (depositStatus: DepositStatus) =>
+    runUpdate("Updating deposit status for tenancy:", () =>
+      authenticatedPut<RentLedger>(`/api/tenancies/${id}`, { depositStatus })
+    );
+
+  const handlePayOnline = (charge: RentCharge) =>
+    runUpdate(`Paying charge ${charge.id} online for tenancy:`, () =>
+      authenticatedPost<RentLedger>(`/api/rent-charges/${charge.id}/pay`, {})
+    );
+
+  const handlePaymentDecision = (paymentId: string, decision: "confirm" | "reject") =>
+    runUpdate(`Reviewing payment ${paymentId} (${decision}) for tenancy:`, () =>
+      authenticatedPost<RentLedger>(`/api/rent-payments/${paymentId}/decision`, { decision })
+    );
+
+  const handleRecordClick = (charge: RentCharge) => {
+    console.log("User tapped Record Payment for charge:", charge.id);
+    setDraft({
+      charge,
+      amount: String(remainingAmount(charge) || Number(charge.amount)),
+      method: "bank_transfer",
+      paidOn: new Date().toISOString().slice(0, 10),
+      note: "",
+      receipt: null,
+    });
+  };
+
+  const handleAttachReceipt = async () => {
+    if (!draft) return;
+    try {
+      setUploadingReceipt(true);
+      const receipt = await pickAndUploadReceipt();
+      if (receipt) {
+        setDraft({ ...draft, receipt });
+      }
+    } catch (error) {
+      console.error("Error uploading receipt:", error);
+      setErrorMessage(error instanceof Error ? error.message : t('errorUpdatingLedger'));
+    } finally {
+      setUploadingReceipt(false);
+    }
+  };
+
+  const handleSavePayment = async () => {
+    if (!draft) return;
+
+    const amount = Number(draft.amount);
+    if (isNaN(amount) || amount <= 0 || !DATE_PATTERN.test(draft.paidOn)) {
+      setErrorMessage(t('paymentFieldsRequired'));
+      return;
+    }
+
+    const saved = await runUpdate("Recording payment for tenancy:", () =>
+      authenticatedPost<RentLedger>(`/api/tenancies/${id}/payments`, {
+        chargeId: draft.charge.id,
+        amount,
+        method: draft.method,
+        paidOn: draft.paidOn,
+        note: draft.note.trim() || undefined,
+        receipt: draft.receipt ?? undefined,
+      })
+    );
+    if (saved) {
+      setDraft(null);
+    }
+  };
+
+  const handleExport = async () => {
+    console.log("User tapped Export CSV for tenancy:", id);
+    try {
+      const csv = await fetchLedgerCsv(id);
+      await Share.share({ title: t('rentLedger'), message: csv });
+    } catch (error) {
+      console.error("Error exporting rent ledger:", error);
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setErrorMessage(`${t('errorUpdatingLedger')} ${errorMsg}`);
+    }
+  };
+
+  const formatDate = (value: string) =>
+    new Date(`${value}T00:00:00`).toLocaleDateString(getDateLocale(language), {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    });
+
+  const renderCharge = (charge: RentCharge) => {
+    const canPayOnline = !isOwner && !!ledger?.paymentProvider && remainingAmount(charge) > 0;
+
+    return (
+      <View key={charge.id} style={styles.chargeCard}>
+        <View style={styles.chargeHeader}>
+          <View style={styles.chargeInfo}>
+            <Text style={styles.chargeDate}>{formatDate(charge.dueDate)}</Text>
+            <Text style={styles.metaText}>
+              {charge.status === "paid"
+                ? `${formatRentAmount(charge.amount)} · ${t('paidOn')} ${formatDate(charge.paidOn!)}`
+                : `${formatRentAmount(charge.amount)} · ${t('outstanding')} ${formatRentAmount(charge.outstanding)}`}
+            </Text>
+          </View>
+          {charge.late && charge.status === "paid" && (
+            <View style={[styles.statusBadge, styles.statusBadgeLate]}>
+              <Text style={styles.statusBadgeText}>{t('paidLate')}</Text>
+            </View>
+          )}
+          <View
+            style={[
+              styles.statusBadge,
+              charge.status === "paid" && styles.statusBadgePaid,
+              charge.status === "overdue" && styles.statusBadgeOverdue,
+            ]}
+          >
+            <Text style={styles.statusBadgeText}>{t(CHARGE_STATUS_LABEL_KEYS[charge.status])}</Text>
+          </View>
+        </View>
+
+        {charge.payments.map((payment) => (
+          <View key={payment.id} style={styles.paymentRow}>
+            <View style={styles.chargeInfo}>
+              <Text style={styles.paymentText}>
+                {`${formatRentAmount(payment.amount)} · ${t(PAYMENT_METHOD_LABEL_KEYS[payment.method])}`}
+              </Text>
+              <Text style={styles.metaText}>
+                {`${formatDate(payment.paidOn)} · ${t(PAYMENT_STATUS_LABEL_KEYS[payment.status])}`}
+              </Text>
+              {payment.note && <Text style={styles.metaText}>{payment.note}</Text>}
+            </View>
+            {payment.receiptFilename && (
+              <TouchableOpacity
+                onPress={() =>
+                  payment.receiptUrl ? Linking.openURL(payment.receiptUrl) : setErrorMessage(t('documentUnavailable'))
+                }
+              >
+                <IconSymbol
+                  ios_icon_name="paperclip"
+                  android_material_icon_name="attach-file"
+                  size={20}
+                  color={colors.primary}
+                />
+              </TouchableOpacity>
+            )}
+            {isOwner && payment.status === "pending" && payment.method !== "online" && (
+              <View style={styles.actions}>
+                <TouchableOpacity
+                  style={[styles.actionButton, styles.actionButtonPrimary]}
+                  onPress={() => handlePaymentDecision(payment.id, "confirm")}
+                  disabled={updating}
+                >
+                  <Text style={styles.actionButtonPrimaryText}>{t('confirm')}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => handlePaymentDecision(payment.id, "reject")}
+                  disabled={updating}
+                >
+                  <Text style={styles.actionButtonDangerText}>{t('reject')}</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        ))}
+
+        {charge.status !== "paid" && (
+          <View style={styles.actions}>
+            {canPayOnline && (
+              <TouchableOpacity
+                style={[styles.actionButton, styles.actionButtonPrimary]}
+                onPress={() => handlePayOnline(charge)}
+                disabled={updating}
+              >
+                <Text style={styles.actionButtonPrimaryText}>
+                  {`${t('payOnline')} ${formatRentAmount(String(remainingAmount(charge)))}`}
+                </Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.actionButton} onPress={() => handleRecordClick(charge)} disabled={updating}>
+              <Text style={styles.actionButtonText}>{t('recordPayment')}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const renderContent = () => {
+    if (!ledger) {
+      return (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>{t('tenancyNotFound')}</Text>
+        </View>
+      );
+    }
+
+    const details = [
+      { label: t('landlord'), value: ledger.owner.name },
+      { label: t('tenant'), value: ledger.tenant.name },
+      { label: t('monthlyRent'), value: formatRentAmount(ledger.monthlyRent) },
+      {
+        label: t('tenancyPeriod'),
+        value: `${formatDate(ledger.startDate)} – ${ledger.endDate ? formatDate(ledger.endDate) : t('openEnded')}`,
+      },
+      {
+        label: t('deposit'),
+        value: `${formatRentAmount(ledger.depositAmount)} · ${t(DEPOSIT_STATUS_LABEL_KEYS[ledger.depositStatus])}`,
+      },
+    ];
+    const balance = [
+      { label: t('rentCharged'), value: formatRentAmount(ledger.balance.charged) },
+      { label: t('rentPaid'), value: formatRentAmount(ledger.balance.paid) },
+      { label: t('outstanding'), value: formatRentAmount(ledger.balance.outstanding) },
+    ];
+
+    return (
+      <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
+        <TouchableOpacity onPress={() => router.push(`/property/${ledger.propertyId}`)}>
+          <Text style={styles.propertyTitle} numberOfLines={2}>{ledger.property.title}</Text>
+        </TouchableOpacity>
+        {ledger.status === "ended" && <Text style={styles.metaText}>{t('tenancyEnded')}</Text>}
+
+        <View style={styles.card}>
+          {details.map((detail) => (
+            <View key={detail.label} style={styles.detailRow}>
+              <Text style={styles.detailLabel}>{detail.label}</Text>
+              <Text style={styles.detailValue}>{detail.value}</Text>
+            </View>
+          ))}
+          {isOwner && (
+            <View style={styles.chips}>
+              {DEPOSIT_STATUSES.map((status) => (
+                <TouchableOpacity
+                  key={status}
+                  style={[styles.chip, ledger.depositStatus === status && styles.chipActive]}
+                  onPress={() => handleDepositStatus(status)}
+                  disabled={updating || !DEPOSIT_STATUS_TRANSITIONS[ledger.depositStatus].includes(status)}
+                >
+                  <Text style={[styles.chipText, ledger.depositStatus === status && styles.chipTextActive]}>
+                    {t(DEPOSIT_STATUS_LABEL_KEYS[status])}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </View>
+
+        <View style={styles.card}>
+          {balance.map((item) => (
+            <View key={item.label} style={styles.detailRow}>
+              <Text style={styles.detailLabel}>{item.label}</Text>
+              <Text style={styles.detailValue}>{item.value}</Text>
+            </View>
+          ))}
+          {ledger.balance.overdueCount > 0 && (
+            <Text style={styles.overdueText}>{`${ledger.balance.overdueCount} ${t('chargeOverdue')}`}</Text>
+          )}
+        </View>
+
+        <TouchableOpacity style={styles.exportButton} onPress={handleExport}>
+          <IconSymbol
+            ios_icon_name="square.and.arrow.up"
+            android_material_icon_name="share"
+            size={20}
+            color={colors.primary}
+          />
+          <Text style={styles.exportButtonText}>{t('exportLedgerCsv')}</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.exportButton}
+          onPress={() => router.push(`/maintenance?propertyId=${ledger.propertyId}`)}
+        >
+          <IconSymbol
+            ios_icon_name="wrench.and.screwdriver"
+            android_material_icon_name="build"
+            size={20}
+            color={colors.primary}
+          />
+          <Text style={styles.exportButtonText}>{t('maintenanceRequests')}</Text>
+        </TouchableOpacity>
+
+        <Text style={styles.sectionTitle}>{t('rentCharges')}</Text>
+        {ledger.paymentProvider === "fake" && !isOwner && (
+          <Text style={styles.metaText}>{t('testPaymentsHint')}</Text>
+        )}
+        {updating && <ActivityIndicator size="small" color={colors.primary} />}
+        {ledger.charges.length === 0 ? (
+          <Text style={styles.metaText}>{t('noRentCharges')}</Text>
+        ) : (
+          ledger.charges.map(renderCharge)
+        )}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          title: t('rentLedger'),
+          headerShown: true,
+          headerBackTitle: "Back",
+        }}
+      />
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        renderContent()
+      )}
+
+      <Modal
+        visible={!!draft}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setDraft(null)}
+      >
+        {draft && (
+          <SafeAreaView style={styles.container}>
+            <View style={styles.editorHeader}>
+              <TouchableOpacity onPress={() => setDraft(null)}>
+                <Text style={styles.editorCancel}>{t('cancel')}</Text>
+              </TouchableOpacity>
+              <Text style={styles.editorTitle}>{t('recordPayment')}</Text>
+              {updating ? (
+                <ActivityIndicator size="small" color={colors.primary} />
+              ) : (
+                <TouchableOpacity onPress={handleSavePayment} disabled={uploadingReceipt}>
+                  <Text style={styles.editorSave}>{t('save')}</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            <ScrollView contentContainerStyle={styles.editorContent} keyboardShouldPersistTaps="handled">
+              <Text style={styles.hintText}>
+                {`${formatDate(draft.charge.dueDate)} · ${formatRentAmount(draft.charge.amount)}`}
+              </Text>
+              {!isOwner && <Text style={styles.hintText}>{t('tenantPaymentHint')}</Text>}
+              <Text style={styles.label}>{t('amount')}</Text>
+              <TextInput
+                style={styles.input}
+                value={draft.amount}
+                onChangeText={(amount) => setDraft({ ...draft, amount })}
+                keyboardType="decimal-pad"
+              />
+              <Text style={styles.label}>{t('paymentMethod')}</Text>
+              <View style={styles.chips}>
+                {MANUAL_PAYMENT_METHODS.map((method) => (
+                  <TouchableOpacity
+                    key={method}
+                    style={[styles.chip, draft.method === method && styles.chipActive]}
+                    onPress={() => setDraft({ ...draft, method })}
+                  >
+                    <Text style={[styles.chipText, draft.method === method && styles.chipTextActive]}>
+                      {t(PAYMENT_METHOD_LABEL_KEYS[method])}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <Text style={styles.label}>{t('paidOn')}</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="YYYY-MM-DD"
+                placeholderTextColor={colors.textSecondary}
+                value={draft.paidOn}
+                onChangeText={(paidOn) => setDraft({ ...draft, paidOn })}
+                autoCapitalize="none"
+              />
+              <Text style={styles.label}>{t('paymentNote')}</Text>
+              <TextInput
+                style={styles.input}
+                value={draft.note}
+                onChangeText={(note) => setDraft({ ...draft, note })}
+                maxLength={500}
+              />
+              <TouchableOpacity style={styles.exportButton} onPress={handleAttachReceipt} disabled={uploadingReceipt}>
+                {uploadingReceipt ? (
+                  <ActivityIndicator size="small" color={colors.primary} />
+                ) : (
+                  <IconSymbol
+                    ios_icon_name="paperclip"
+                    android_material_icon_name="attach-file"
+                    size={20}
+                    color={colors.primary}
+                  />
+                )}
+                <Text style={styles.exportButtonText} numberOfLines={1}>
+                  {draft.receipt ? draft.receipt.filename : t('attachReceipt')}
+                </Text>
+              </TouchableOpacity>
+            </ScrollView>
+          </SafeAreaView>
+        )}
+      </Modal>
+
+      <Modal
+        visible={!!errorMessage}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setErrorMessage(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>{t('error')}</Text>
+            <Text style={styles.modalMessage}>{errorMessage}</Text>
+            <TouchableOpacity
+              style={styles.errorModalButton}
+              onPress={() => setErrorMessage(null)}
+            >
+              <Text style={styles.errorModalButtonText}>OK</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  emptyText: {
+    fontSize: 18,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    padding: 20,
+    paddingBottom: 40,
+    gap: 12,
+  },
+  propertyTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  metaText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  card: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    gap: 8,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  detailLabel: {
+    fontSize: 15,
+    color: colors.textSecondary,
+  },
+  detailValue: {
+    flexShrink: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+    textAlign: 'right',
+  },
+  overdueText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.error,
+  },
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    marginTop: 8,
+  },
+  exportButtonText: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+    marginTop: 8,
+  },
+  chargeCard: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    gap: 10,
+  },
+  chargeHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  chargeInfo: {
+    flex: 1,
+  },
+  chargeDate: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  paymentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  paymentText: {
+    fontSize: 15,
+    color: colors.text,
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: colors.textSecondary,
+  },
+  statusBadgePaid: {
+    backgroundColor: colors.primary,
+  },
+  statusBadgeOverdue: {
+    backgroundColor: colors.error,
+  },
+  statusBadgeLate: {
+    backgroundColor: colors.accent,
+  },
+  statusBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: colors.backgroundAlt,
+  },
+  actionButtonPrimary: {
+    backgroundColor: colors.primary,
+  },
+  actionButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  actionButtonPrimaryText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  actionButtonDangerText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.error,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: colors.backgroundAlt,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  editorHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  editorTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  editorCancel: {
+    fontSize: 16,
+    color: colors.textSecondary,
+  },
+  editorSave: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  editorContent: {
+    padding: 20,
+    paddingBottom: 40,
+    gap: 8,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    marginTop: 8,
+  },
+  hintText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  input: {
+    backgroundColor: colors.backgroundAlt,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: colors.text,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  modalContent: {
+    backgroundColor: colors.background,
+    borderRadius: 16,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: 12,
+  },
+  modalMessage: {
+    fontSize: 16,
+    color: colors.textSecondary,
+    marginBottom: 24,
+    lineHeight: 22,
+  },
+  errorModalButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  errorModalButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
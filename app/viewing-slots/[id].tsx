@@ -0,0 +1,366 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  StyleSheet,
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useLocalSearchParams, useRouter, Stack } from "expo-router";
+import { IconSymbol } from "@/components/IconSymbol";
+import { colors } from "@/styles/commonStyles";
+import { authenticatedGet, authenticatedPost, authenticatedDelete } from "@/utils/api";
+import { useLanguage } from "@/contexts/LanguageContext";
+import {
+  ViewingSlot,
+  APPOINTMENT_STATUS_LABEL_KEYS,
+  formatSlotTime,
+  getDateLocale,
+} from "@/utils/appointments";
+
+const BOOKING_WINDOW_DAYS = 14;
+const DURATIONS = [30, 60];
+
+// 09:00 to 21:00 in half-hour steps, as minutes past midnight
+const START_TIMES = Array.from({ length: 25 }, (_, i) => 9 * 60 + i * 30);
+
+const formatMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return `${hours < 10 ? `0${hours}` : hours}:${mins < 10 ? `0${mins}` : mins}`;
+};
+
+const upcomingDays = () => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return Array.from({ length: BOOKING_WINDOW_DAYS }, (_, i) => {
+    const day = new Date(today);
+    day.setDate(today.getDate() + i);
+    return day;
+  });
+};
+
+export default function ViewingSlotsScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { language, t } = useLanguage();
+
+  const [slots, setSlots] = useState<ViewingSlot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [days] = useState(upcomingDays);
+  const [selectedDay, setSelectedDay] = useState(0);
+  const [selectedStart, setSelectedStart] = useState<number | null>(null);
+  const [duration, setDuration] = useState(DURATIONS[0]);
+  const [saving, setSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const loadSlots = useCallback(async () => {
+    try {
+      setLoading(true);
+      console.log("Fetching viewing slots for property:", id);
+      const data = await authenticatedGet<ViewingSlot[]>(`/api/properties/${id}/viewing-slots`);
+      console.log("Viewing slots loaded:", data.length);
+      setSlots(data);
+    } catch (error) {
+      console.error("Error loading viewing slots:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadSlots();
+  }, [loadSlots]);
+
+  const slotStart = (dayIndex: number, minutes: number) => {
+    const start = new Date(days[dayIndex]);
+    start.setMinutes(minutes);
+    return start;
+  };
+
+  const handleAddSlot = async () => {
+    if (selectedStart === null) return;
+
+    const startsAt = slotStart(selectedDay, selectedStart);
+    const endsAt = new Date(startsAt.getTime() + duration * 60 * 1000);
+    console.log("Adding viewing slot:", startsAt.toISOString(), "-", endsAt.toISOString());
+
+    try {
+      setSaving(true);
+      setErrorMessage(null);
+      await authenticatedPost(`/api/properties/${id}/viewing-slots`, {
+        startsAt: startsAt.toISOString(),
+        endsAt: endsAt.toISOString(),
+      });
+      setSelectedStart(null);
+      await loadSlots();
+    } catch (error) {
+      console.error("Error adding viewing slot:", error);
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setErrorMessage(`${t('errorAddingViewingSlot')} ${errorMsg}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteSlot = async (slot: ViewingSlot) => {
+    console.log("Deleting viewing slot:", slot.id);
+    try {
+      setDeletingId(slot.id);
+      setErrorMessage(null);
+      await authenticatedDelete(`/api/viewing-slots/${slot.id}`);
+      setSlots((current) => current.filter((s) => s.id !== slot.id));
+    } catch (error) {
+      console.error("Error deleting viewing slot:", error);
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setErrorMessage(`${t('errorDeletingViewingSlot')} ${errorMsg}`);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const now = Date.now();
+  const upcomingSlots = slots.filter((slot) => new Date(slot.endsAt).getTime() > now);
+  const dayLocale = getDateLocale(language);
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          title: t('manageViewingSlots'),
+          headerShown: true,
+          headerBackTitle: "Back",
+        }}
+      />
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
+        <Text style={styles.sectionTitle}>{t('addViewingSlot')}</Text>
+
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+          {days.map((day, index) => {
+            const isSelected = index === selectedDay;
+            return (
+              <TouchableOpacity
+                key={day.toISOString()}
+                style={[styles.chip, isSelected && styles.chipSelected]}
+                onPress={() => {
+                  setSelectedDay(index);
+                  setSelectedStart(null);
+                }}
+              >
+                <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                  {day.toLocaleDateString(dayLocale, { weekday: "short", day: "numeric", month: "short" })}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+
+        <View style={styles.chipGrid}>
+          {START_TIMES.map((minutes) => {
+            const isPast = slotStart(selectedDay, minutes).getTime() <= now;
+            const isSelected = minutes === selectedStart;
+            return (
+              <TouchableOpacity
+                key={minutes}
+                style={[styles.chip, isSelected && styles.chipSelected, isPast && styles.chipDisabled]}
+                onPress={() => setSelectedStart(minutes)}
+                disabled={isPast}
+              >
+                <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                  {formatMinutes(minutes)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <View style={styles.durationRow}>
+          <Text style={styles.label}>{t('viewingDuration')}</Text>
+          {DURATIONS.map((minutes) => {
+            const isSelected = minutes === duration;
+            return (
+              <TouchableOpacity
+                key={minutes}
+                style={[styles.chip, isSelected && styles.chipSelected]}
+                onPress={() => setDuration(minutes)}
+              >
+                <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                  {minutes} min
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {errorMessage && <Text style={styles.errorText}>{errorMessage}</Text>}
+
+        <TouchableOpacity
+          style={[styles.addButton, (selectedStart === null || saving) && styles.addButtonDisabled]}
+          onPress={handleAddSlot}
+          disabled={selectedStart === null || saving}
+        >
+          {saving ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <Text style={styles.addButtonText}>{t('addViewingSlot')}</Text>
+          )}
+        </TouchableOpacity>
+
+        <Text style={styles.sectionTitle}>{t('upcomingViewingSlots')}</Text>
+
+        {loading ? (
+          <ActivityIndicator size="large" color={colors.primary} />
+        ) : upcomingSlots.length === 0 ? (
+          <Text style={styles.emptyText}>{t('noViewingSlots')}</Text>
+        ) : (
+          upcomingSlots.map((slot) => (
+            <View key={slot.id} style={styles.slotRow}>
+              <View style={styles.slotInfo}>
+                <Text style={styles.slotTime}>{formatSlotTime(slot.startsAt, slot.endsAt, language)}</Text>
+                <Text style={styles.slotStatus}>
+                  {slot.appointment
+                    ? `${t('slotBooked')} · ${t(APPOINTMENT_STATUS_LABEL_KEYS[slot.appointment.status])}`
+                    : t('slotAvailable')}
+                </Text>
+              </View>
+              {slot.booked ? (
+                <TouchableOpacity onPress={() => router.push("/appointments")}>
+                  <IconSymbol
+                    ios_icon_name="chevron.right"
+                    android_material_icon_name="chevron-right"
+                    size={20}
+                    color={colors.textSecondary}
+                  />
+                </TouchableOpacity>
+              ) : deletingId === slot.id ? (
+                <ActivityIndicator size="small" color={colors.error} />
+              ) : (
+                <TouchableOpacity onPress={() => handleDeleteSlot(slot)}>
+                  <IconSymbol
+                    ios_icon_name="trash"
+                    android_material_icon_name="delete"
+                    size={20}
+                    color={colors.error}
+                  />
+                </TouchableOpacity>
+              )}
+            </View>
+          ))
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 12,
+    marginTop: 8,
+  },
+  label: {
+    fontSize: 16,
+    color: colors.text,
+    marginRight: 4,
+  },
+  chipRow: {
+    gap: 8,
+    paddingBottom: 12,
+  },
+  chipGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: colors.backgroundAlt,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipDisabled: {
+    opacity: 0.4,
+  },
+  chipText: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  durationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  errorText: {
+    fontSize: 14,
+    color: colors.error,
+    marginBottom: 12,
+  },
+  addButton: {
+    backgroundColor: colors.primary,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  addButtonDisabled: {
+    opacity: 0.5,
+  },
+  addButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: colors.textSecondary,
+  },
+  slotRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+    gap: 12,
+  },
+  slotInfo: {
+    flex: 1,
+  },
+  slotTime: {
+    fontSize: 16,
+    color: colors.text,
+  },
+  slotStatus: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+});
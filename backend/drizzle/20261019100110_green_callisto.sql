@@ -0,0 +1,2 @@
+ALTER TABLE "properties" ADD COLUMN "search_vector" "tsvector";--> statement-breakpoint
+CREATE INDEX "properties_search_vector_idx" ON "properties" USING gin ("search_vector");
\ No newline at end of file
@@ -0,0 +1,87 @@
+CREATE TABLE "amenities" (
+	"id" text PRIMARY KEY NOT NULL,
+	"label_en" text NOT NULL,
+	"label_zh_tw" text NOT NULL,
+	"label_zh_cn" text NOT NULL,
+	"sort_order" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "property_amenities" (
+	"property_id" uuid NOT NULL,
+	"amenity_id" text NOT NULL,
+	CONSTRAINT "property_amenities_property_id_amenity_id_pk" PRIMARY KEY("property_id","amenity_id")
+);
+--> statement-breakpoint
+ALTER TABLE "property_amenities" ADD CONSTRAINT "property_amenities_property_id_properties_id_fk" FOREIGN KEY ("property_id") REFERENCES "public"."properties"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "property_amenities" ADD CONSTRAINT "property_amenities_amenity_id_amenities_id_fk" FOREIGN KEY ("amenity_id") REFERENCES "public"."amenities"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "property_amenities_amenity_id_idx" ON "property_amenities" USING btree ("amenity_id");--> statement-breakpoint
+INSERT INTO "amenities" ("id", "label_en", "label_zh_tw", "label_zh_cn", "sort_order") VALUES
+	('air_conditioning', 'Air conditioning', '冷氣', '空调', 10),
+	('heating', 'Heating', '暖氣', '暖气', 20),
+	('washer', 'Washing machine', '洗衣機', '洗衣机', 30),
+	('dryer', 'Dryer', '乾衣機', '干衣机', 40),
+	('refrigerator', 'Refrigerator', '雪櫃', '冰箱', 50),
+	('water_heater', 'Water heater', '熱水爐', '热水器', 60),
+	('furnished', 'Furnished', '傢俬齊全', '家具齐全', 70),
+	('wifi', 'Wi-Fi', '無線上網', '无线网络', 80),
+	('pet_friendly', 'Pet-friendly', '可養寵物', '可养宠物', 90),
+	('lift', 'Lift', '升降機', '电梯', 100),
+	('balcony', 'Balcony', '露台', '阳台', 110),
+	('sea_view', 'Sea view', '海景', '海景', 120),
+	('clubhouse', 'Clubhouse', '會所', '会所', 130),
+	('swimming_pool', 'Swimming pool', '游泳池', '游泳池', 140),
+	('gym', 'Gym', '健身室', '健身房', 150),
+	('parking', 'Parking', '車位', '车位', 160),
+	('security', '24-hour security', '24小時保安', '24小时保安', 170);
+--> statement-breakpoint
+-- Link existing listings to the catalogue where their free-text equipment
+-- items match a label (in any language) or a common alias. Matched items are
+-- removed from the free text, and the search document is cleared so the API
+-- re-indexes the listing with its amenity labels on startup.
+WITH "aliases" ("name", "amenity_id") AS (
+	SELECT lower("label_en"), "id" FROM "amenities"
+	UNION ALL SELECT "label_zh_tw", "id" FROM "amenities"
+	UNION ALL SELECT "label_zh_cn", "id" FROM "amenities"
+	UNION ALL VALUES
+		('air con', 'air_conditioning'), ('aircon', 'air_conditioning'), ('a/c', 'air_conditioning'),
+		('ac', 'air_conditioning'), ('air-conditioning', 'air_conditioning'), ('air conditioner', 'air_conditioning'),
+		('冷氣機', 'air_conditioning'), ('空調', 'air_conditioning'),
+		('washer', 'washer'), ('washing machine', 'washer'), ('washer/dryer', 'washer'),
+		('tumble dryer', 'dryer'), ('fridge', 'refrigerator'), ('water heater', 'water_heater'),
+		('fully furnished', 'furnished'), ('furniture', 'furnished'), ('傢俬', 'furnished'), ('家具', 'furnished'),
+		('wifi', 'wifi'), ('wi fi', 'wifi'), ('internet', 'wifi'), ('broadband', 'wifi'), ('寬頻', 'wifi'),
+		('pets allowed', 'pet_friendly'), ('pet friendly', 'pet_friendly'), ('pets ok', 'pet_friendly'),
+		('elevator', 'lift'), ('電梯', 'lift'), ('pool', 'swimming_pool'), ('fitness room', 'gym'),
+		('car park', 'parking'), ('carpark', 'parking'), ('parking space', 'parking'), ('停車場', 'parking'),
+		('security', 'security'), ('security guard', 'security'), ('24hr security', 'security'), ('保安', 'security')
+),
+"items" AS (
+	SELECT "properties"."id" AS "property_id", btrim("item"."value") AS "value", "item"."position"
+	FROM "properties",
+		regexp_split_to_table("properties"."equipment", '[,，、;；\n]') WITH ORDINALITY AS "item"("value", "position")
+	WHERE "properties"."equipment" IS NOT NULL
+),
+"matched" AS (
+	SELECT DISTINCT "items"."property_id", "items"."position", "aliases"."amenity_id"
+	FROM "items"
+	JOIN "aliases" ON "aliases"."name" = lower("items"."value")
+),
+"linked" AS (
+	INSERT INTO "property_amenities" ("property_id", "amenity_id")
+	SELECT DISTINCT "property_id", "amenity_id" FROM "matched"
+	ON CONFLICT DO NOTHING
+)
+UPDATE "properties"
+SET
+	"equipment" = (
+		SELECT string_agg("items"."value", ', ' ORDER BY "items"."position")
+		FROM "items"
+		WHERE "items"."property_id" = "properties"."id"
+			AND "items"."value" <> ''
+			AND NOT EXISTS (
+				SELECT 1 FROM "matched"
+				WHERE "matched"."property_id" = "items"."property_id" AND "matched"."position" = "items"."position"
+			)
+	),
+	"search_vector" = NULL
+WHERE "properties"."id" IN (SELECT "property_id" FROM "matched");
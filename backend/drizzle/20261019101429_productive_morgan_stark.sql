@@ -0,0 +1,2 @@
+ALTER TABLE "properties" ADD COLUMN "status" text DEFAULT 'published' NOT NULL;--> statement-breakpoint
+CREATE INDEX "properties_status_idx" ON "properties" USING btree ("status");
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "favorites" (
+	"user_id" text NOT NULL,
+	"property_id" uuid NOT NULL,
+	"seen_price" numeric(10, 2) NOT NULL,
+	"seen_status" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "favorites_user_id_property_id_pk" PRIMARY KEY("user_id","property_id")
+);
+--> statement-breakpoint
+ALTER TABLE "favorites" ADD CONSTRAINT "favorites_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "favorites" ADD CONSTRAINT "favorites_property_id_properties_id_fk" FOREIGN KEY ("property_id") REFERENCES "public"."properties"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "favorites_property_id_idx" ON "favorites" USING btree ("property_id");
\ No newline at end of file
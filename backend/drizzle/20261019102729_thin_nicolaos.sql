@@ -0,0 +1,29 @@
+CREATE TABLE "saved_search_matches" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"saved_search_id" uuid NOT NULL,
+	"user_id" text NOT NULL,
+	"property_id" uuid NOT NULL,
+	"seen_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "saved_searches" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text NOT NULL,
+	"filters" jsonb NOT NULL,
+	"last_checked_at" timestamp DEFAULT now() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "properties" ADD COLUMN "published_at" timestamp;--> statement-breakpoint
+ALTER TABLE "saved_search_matches" ADD CONSTRAINT "saved_search_matches_saved_search_id_saved_searches_id_fk" FOREIGN KEY ("saved_search_id") REFERENCES "public"."saved_searches"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "saved_search_matches" ADD CONSTRAINT "saved_search_matches_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "saved_search_matches" ADD CONSTRAINT "saved_search_matches_property_id_properties_id_fk" FOREIGN KEY ("property_id") REFERENCES "public"."properties"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "saved_searches" ADD CONSTRAINT "saved_searches_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "saved_search_matches_search_property_idx" ON "saved_search_matches" USING btree ("saved_search_id","property_id");--> statement-breakpoint
+CREATE INDEX "saved_search_matches_user_id_created_at_idx" ON "saved_search_matches" USING btree ("user_id","created_at");--> statement-breakpoint
+CREATE INDEX "saved_searches_user_id_idx" ON "saved_searches" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "properties_published_at_idx" ON "properties" USING btree ("published_at");--> statement-breakpoint
+-- Listings that are already live count as published when they were created
+UPDATE "properties" SET "published_at" = "created_at" WHERE "status" = 'published';
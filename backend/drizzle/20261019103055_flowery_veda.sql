@@ -0,0 +1,12 @@
+CREATE TABLE "property_price_history" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"property_id" uuid NOT NULL,
+	"price" numeric(10, 2) NOT NULL,
+	"changed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "property_price_history" ADD CONSTRAINT "property_price_history_property_id_properties_id_fk" FOREIGN KEY ("property_id") REFERENCES "public"."properties"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "property_price_history_property_id_changed_at_idx" ON "property_price_history" USING btree ("property_id","changed_at");--> statement-breakpoint
+-- Start each existing listing's history with its current price
+INSERT INTO "property_price_history" ("property_id", "price", "changed_at")
+SELECT "id", "price", "created_at" FROM "properties";
@@ -0,0 +1,33 @@
+CREATE TABLE "property_revisions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"property_id" uuid NOT NULL,
+	"user_id" text,
+	"action" text NOT NULL,
+	"changes" jsonb NOT NULL,
+	"restored_from_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "property_revisions" ADD CONSTRAINT "property_revisions_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "property_revisions_property_id_created_at_idx" ON "property_revisions" USING btree ("property_id","created_at");--> statement-breakpoint
+-- Existing listings start their history with a creation entry holding their current values
+INSERT INTO "property_revisions" ("property_id", "user_id", "action", "changes", "created_at")
+SELECT p."id", p."owner_id", 'create', (
+  SELECT coalesce(jsonb_object_agg(f.key, jsonb_build_object('from', null, 'to', f.value)), '{}'::jsonb)
+  FROM jsonb_each(jsonb_strip_nulls(jsonb_build_object(
+    'title', p."title",
+    'description', p."description",
+    'price', p."price"::text,
+    'size', p."size",
+    'district', p."district",
+    'equipment', p."equipment",
+    'amenities', (SELECT coalesce(jsonb_agg(pa."amenity_id" ORDER BY pa."amenity_id"), '[]'::jsonb) FROM "property_amenities" pa WHERE pa."property_id" = p."id"),
+    'photos', p."photos",
+    'virtualTourUrl', p."virtual_tour_url",
+    'address', p."address",
+    'latitude', p."latitude",
+    'longitude', p."longitude",
+    'status', p."status"
+  ))) f
+), p."created_at"
+FROM "properties" p;
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "chats" DROP CONSTRAINT "chats_property_id_properties_id_fk";
+--> statement-breakpoint
+ALTER TABLE "chats" ALTER COLUMN "property_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "properties" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "chats" ADD CONSTRAINT "chats_property_id_properties_id_fk" FOREIGN KEY ("property_id") REFERENCES "public"."properties"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "properties_deleted_at_idx" ON "properties" USING btree ("deleted_at");
\ No newline at end of file
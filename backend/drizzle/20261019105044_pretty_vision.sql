@@ -0,0 +1,7 @@
+ALTER TABLE "properties" ADD COLUMN "listing_type" text DEFAULT 'rent' NOT NULL;--> statement-breakpoint
+ALTER TABLE "properties" ADD COLUMN "min_lease_months" integer;--> statement-breakpoint
+ALTER TABLE "properties" ADD COLUMN "deposit_months" integer;--> statement-breakpoint
+ALTER TABLE "properties" ADD COLUMN "available_from" date;--> statement-breakpoint
+ALTER TABLE "properties" ADD COLUMN "fees_included" boolean;--> statement-breakpoint
+ALTER TABLE "properties" ADD COLUMN "commission_applies" boolean;--> statement-breakpoint
+CREATE INDEX "properties_listing_type_idx" ON "properties" USING btree ("listing_type");
\ No newline at end of file
@@ -0,0 +1,7 @@
+ALTER TABLE "properties" ADD COLUMN "saleable_area" integer;--> statement-breakpoint
+ALTER TABLE "properties" ADD COLUMN "bedrooms" integer;--> statement-breakpoint
+ALTER TABLE "properties" ADD COLUMN "bathrooms" integer;--> statement-breakpoint
+ALTER TABLE "properties" ADD COLUMN "floor_level" text;--> statement-breakpoint
+ALTER TABLE "properties" ADD COLUMN "facing" text;--> statement-breakpoint
+ALTER TABLE "properties" ADD COLUMN "year_built" integer;--> statement-breakpoint
+CREATE INDEX "properties_bedrooms_idx" ON "properties" USING btree ("bedrooms");
\ No newline at end of file
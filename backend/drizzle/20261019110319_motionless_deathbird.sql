@@ -0,0 +1,49 @@
+CREATE TABLE "building_facilities" (
+	"building_id" uuid NOT NULL,
+	"amenity_id" text NOT NULL,
+	CONSTRAINT "building_facilities_building_id_amenity_id_pk" PRIMARY KEY("building_id","amenity_id")
+);
+--> statement-breakpoint
+CREATE TABLE "buildings" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name_en" text NOT NULL,
+	"name_zh" text,
+	"district" text NOT NULL,
+	"address" text,
+	"year_built" integer,
+	"latitude" double precision,
+	"longitude" double precision,
+	"created_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "properties" ADD COLUMN "building_id" uuid;--> statement-breakpoint
+ALTER TABLE "building_facilities" ADD CONSTRAINT "building_facilities_building_id_buildings_id_fk" FOREIGN KEY ("building_id") REFERENCES "public"."buildings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "building_facilities" ADD CONSTRAINT "building_facilities_amenity_id_amenities_id_fk" FOREIGN KEY ("amenity_id") REFERENCES "public"."amenities"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "buildings" ADD CONSTRAINT "buildings_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "buildings_name_en_district_idx" ON "buildings" USING btree (lower("name_en"),"district");--> statement-breakpoint
+ALTER TABLE "properties" ADD CONSTRAINT "properties_building_id_buildings_id_fk" FOREIGN KEY ("building_id") REFERENCES "public"."buildings"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "properties_building_id_idx" ON "properties" USING btree ("building_id");--> statement-breakpoint
+INSERT INTO "buildings" ("name_en", "name_zh", "district", "address", "year_built", "latitude", "longitude") VALUES
+	('Taikoo Shing', '太古城', 'Eastern', 'Taikoo Shing Road, Quarry Bay', 1977, 22.2866, 114.2170),
+	('Kornhill', '康怡花園', 'Eastern', 'Kornhill Road, Quarry Bay', 1985, 22.2848, 114.2167),
+	('Heng Fa Chuen', '杏花邨', 'Eastern', '100 Shing Tai Road, Chai Wan', 1986, 22.2770, 114.2400),
+	('South Horizons', '海怡半島', 'Southern', 'South Horizons Drive, Ap Lei Chau', 1991, 22.2432, 114.1485),
+	('Mei Foo Sun Chuen', '美孚新邨', 'Sham Shui Po', 'Broadway, Mei Foo', 1968, 22.3375, 114.1395),
+	('Whampoa Garden', '黃埔花園', 'Kowloon City', 'Tak On Street, Hung Hom', 1985, 22.3048, 114.1901),
+	('Laguna City', '麗港城', 'Kwun Tong', 'Cha Kwo Ling Road, Lam Tin', 1989, 22.3040, 114.2305),
+	('City One Shatin', '沙田第一城', 'Sha Tin', 'Ngan Shing Street, Sha Tin', 1981, 22.3860, 114.2040);--> statement-breakpoint
+INSERT INTO "building_facilities" ("building_id", "amenity_id")
+SELECT b."id", f."amenity_id"
+FROM "buildings" b
+JOIN (VALUES
+	('Taikoo Shing', 'clubhouse'), ('Taikoo Shing', 'swimming_pool'), ('Taikoo Shing', 'parking'), ('Taikoo Shing', 'security'), ('Taikoo Shing', 'lift'),
+	('Kornhill', 'clubhouse'), ('Kornhill', 'swimming_pool'), ('Kornhill', 'parking'), ('Kornhill', 'security'), ('Kornhill', 'lift'),
+	('Heng Fa Chuen', 'clubhouse'), ('Heng Fa Chuen', 'swimming_pool'), ('Heng Fa Chuen', 'parking'), ('Heng Fa Chuen', 'security'), ('Heng Fa Chuen', 'lift'),
+	('South Horizons', 'clubhouse'), ('South Horizons', 'swimming_pool'), ('South Horizons', 'gym'), ('South Horizons', 'parking'), ('South Horizons', 'security'), ('South Horizons', 'lift'),
+	('Mei Foo Sun Chuen', 'parking'), ('Mei Foo Sun Chuen', 'security'), ('Mei Foo Sun Chuen', 'lift'),
+	('Whampoa Garden', 'clubhouse'), ('Whampoa Garden', 'swimming_pool'), ('Whampoa Garden', 'parking'), ('Whampoa Garden', 'security'), ('Whampoa Garden', 'lift'),
+	('Laguna City', 'clubhouse'), ('Laguna City', 'swimming_pool'), ('Laguna City', 'parking'), ('Laguna City', 'security'), ('Laguna City', 'lift'),
+	('City One Shatin', 'clubhouse'), ('City One Shatin', 'swimming_pool'), ('City One Shatin', 'parking'), ('City One Shatin', 'security'), ('City One Shatin', 'lift')
+) AS f("name_en", "amenity_id") ON f."name_en" = b."name_en"
+JOIN "amenities" a ON a."id" = f."amenity_id";
@@ -0,0 +1,23 @@
+CREATE TABLE "property_views" (
+	"user_id" text NOT NULL,
+	"property_id" uuid NOT NULL,
+	"view_count" integer DEFAULT 1 NOT NULL,
+	"last_viewed_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "property_views_user_id_property_id_pk" PRIMARY KEY("user_id","property_id")
+);
+--> statement-breakpoint
+CREATE TABLE "search_history" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"listing_type" text,
+	"district" text,
+	"min_price" numeric(10, 2),
+	"max_price" numeric(10, 2),
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "property_views" ADD CONSTRAINT "property_views_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "property_views" ADD CONSTRAINT "property_views_property_id_properties_id_fk" FOREIGN KEY ("property_id") REFERENCES "public"."properties"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "search_history" ADD CONSTRAINT "search_history_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "property_views_property_id_idx" ON "property_views" USING btree ("property_id");--> statement-breakpoint
+CREATE INDEX "search_history_user_id_created_at_idx" ON "search_history" USING btree ("user_id","created_at");
\ No newline at end of file
@@ -0,0 +1,32 @@
+CREATE TABLE "application_documents" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"application_id" uuid NOT NULL,
+	"type" text NOT NULL,
+	"storage_key" text NOT NULL,
+	"filename" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "rental_applications" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"property_id" uuid NOT NULL,
+	"applicant_id" text NOT NULL,
+	"chat_id" uuid,
+	"move_in_date" date NOT NULL,
+	"occupants" integer NOT NULL,
+	"monthly_income" numeric(10, 2) NOT NULL,
+	"message" text,
+	"status" text DEFAULT 'submitted' NOT NULL,
+	"owner_note" text,
+	"decided_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "application_documents" ADD CONSTRAINT "application_documents_application_id_rental_applications_id_fk" FOREIGN KEY ("application_id") REFERENCES "public"."rental_applications"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "rental_applications" ADD CONSTRAINT "rental_applications_property_id_properties_id_fk" FOREIGN KEY ("property_id") REFERENCES "public"."properties"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "rental_applications" ADD CONSTRAINT "rental_applications_applicant_id_user_id_fk" FOREIGN KEY ("applicant_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "rental_applications" ADD CONSTRAINT "rental_applications_chat_id_chats_id_fk" FOREIGN KEY ("chat_id") REFERENCES "public"."chats"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "application_documents_application_id_idx" ON "application_documents" USING btree ("application_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "rental_applications_open_idx" ON "rental_applications" USING btree ("property_id","applicant_id") WHERE "rental_applications"."status" in ('submitted', 'info_requested');--> statement-breakpoint
+CREATE INDEX "rental_applications_applicant_id_idx" ON "rental_applications" USING btree ("applicant_id");
\ No newline at end of file
@@ -0,0 +1,123 @@
+CREATE TABLE "agreement_templates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"owner_id" text,
+	"name" text NOT NULL,
+	"language" text NOT NULL,
+	"body" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "tenancy_agreements" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"application_id" uuid NOT NULL,
+	"property_id" uuid NOT NULL,
+	"owner_id" text NOT NULL,
+	"tenant_id" text NOT NULL,
+	"chat_id" uuid,
+	"template_id" uuid,
+	"language" text NOT NULL,
+	"storage_key" text NOT NULL,
+	"owner_acknowledged_at" timestamp,
+	"tenant_acknowledged_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "agreement_templates" ADD CONSTRAINT "agreement_templates_owner_id_user_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tenancy_agreements" ADD CONSTRAINT "tenancy_agreements_application_id_rental_applications_id_fk" FOREIGN KEY ("application_id") REFERENCES "public"."rental_applications"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tenancy_agreements" ADD CONSTRAINT "tenancy_agreements_property_id_properties_id_fk" FOREIGN KEY ("property_id") REFERENCES "public"."properties"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tenancy_agreements" ADD CONSTRAINT "tenancy_agreements_owner_id_user_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tenancy_agreements" ADD CONSTRAINT "tenancy_agreements_tenant_id_user_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tenancy_agreements" ADD CONSTRAINT "tenancy_agreements_chat_id_chats_id_fk" FOREIGN KEY ("chat_id") REFERENCES "public"."chats"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tenancy_agreements" ADD CONSTRAINT "tenancy_agreements_template_id_agreement_templates_id_fk" FOREIGN KEY ("template_id") REFERENCES "public"."agreement_templates"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "agreement_templates_owner_id_idx" ON "agreement_templates" USING btree ("owner_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "tenancy_agreements_application_id_idx" ON "tenancy_agreements" USING btree ("application_id");--> statement-breakpoint
+CREATE INDEX "tenancy_agreements_owner_id_idx" ON "tenancy_agreements" USING btree ("owner_id");--> statement-breakpoint
+CREATE INDEX "tenancy_agreements_tenant_id_idx" ON "tenancy_agreements" USING btree ("tenant_id");--> statement-breakpoint
+-- Built-in templates owners start from
+INSERT INTO "agreement_templates" ("name", "language", "body") VALUES
+('Standard residential tenancy (English)', 'en', '# TENANCY AGREEMENT
+
+This agreement is made on {{agreementDate}} between:
+
+Landlord: {{ownerName}} ({{ownerEmail}})
+Tenant: {{tenantName}} ({{tenantEmail}})
+
+# 1. Premises
+
+The Landlord lets to the Tenant the premises known as {{propertyTitle}}, {{address}}, {{district}}, with a gross area of approximately {{size}} (the "Premises").
+
+# 2. Term
+
+The tenancy starts on {{moveInDate}} for a term of {{leaseMonths}}.
+
+# 3. Rent
+
+The rent is {{monthlyRent}} per calendar month, payable in advance on the first day of each month.
+
+# 4. Deposit
+
+On signing, the Tenant pays a security deposit of {{deposit}} ({{depositMonths}} of rent). The deposit is refunded without interest within 30 days after the tenancy ends and vacant possession is returned, less any sums lawfully due to the Landlord.
+
+# 5. Occupation
+
+The Premises are to be used as a private residence by no more than {{occupants}} occupants.
+
+# 6. Tenant''s obligations
+
+The Tenant keeps the interior of the Premises in good and clean condition, fair wear and tear excepted, does not sublet or assign the tenancy, and does not make structural alterations without the Landlord''s written consent.
+
+# 7. Landlord''s obligations
+
+The Landlord keeps the structure, roof and main drains of the Premises in proper repair and allows the Tenant quiet enjoyment of the Premises during the term.
+
+# 8. Stamp duty
+
+Stamp duty on this agreement is borne by the Landlord and the Tenant in equal shares.
+
+Signed by the Landlord: ______________________
+
+Signed by the Tenant: ______________________'),
+('標準住宅租約（中文）', 'zh', '# 租約
+
+本租約於{{agreementDate}}由以下雙方訂立：
+
+業主：{{ownerName}}（{{ownerEmail}}）
+租客：{{tenantName}}（{{tenantEmail}}）
+
+# 一、物業
+
+業主同意將位於{{address}}（{{district}}）的物業「{{propertyTitle}}」（建築面積約{{size}}，下稱「該物業」）租予租客。
+
+# 二、租期
+
+租期由{{moveInDate}}起計，為期{{leaseMonths}}。
+
+# 三、租金
+
+每月租金為{{monthlyRent}}，須於每月首日預先繳付。
+
+# 四、按金
+
+租客須於簽署本租約時繳付按金{{deposit}}（相等於{{depositMonths}}租金）。租約期滿並交吉後三十日內，業主須無息退還按金，惟可扣除租客依法應付的款項。
+
+# 五、用途
+
+該物業只作住宅用途，居住人數不得多於{{occupants}}人。
+
+# 六、租客責任
+
+租客須保持該物業內部清潔及狀況良好（正常損耗除外），不得分租或轉讓租約，未經業主書面同意不得改動該物業結構。
+
+# 七、業主責任
+
+業主須負責該物業結構、天台及主要渠管的維修，並確保租客於租期內可安寧享用該物業。
+
+# 八、印花稅
+
+本租約的印花稅由業主及租客各付一半。
+
+業主簽署：______________________
+
+租客簽署：______________________');
\ No newline at end of file
@@ -0,0 +1,69 @@
+CREATE TABLE "rent_charges" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenancy_id" uuid NOT NULL,
+	"due_date" date NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "rent_payments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"charge_id" uuid NOT NULL,
+	"tenancy_id" uuid NOT NULL,
+	"recorded_by_id" text NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"method" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"paid_on" date NOT NULL,
+	"provider" text,
+	"provider_reference" text,
+	"receipt_key" text,
+	"receipt_filename" text,
+	"note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "rent_reminders" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"charge_id" uuid NOT NULL,
+	"user_id" text NOT NULL,
+	"kind" text NOT NULL,
+	"seen_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "tenancies" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"application_id" uuid NOT NULL,
+	"property_id" uuid NOT NULL,
+	"owner_id" text NOT NULL,
+	"tenant_id" text NOT NULL,
+	"monthly_rent" numeric(10, 2) NOT NULL,
+	"deposit_amount" numeric(10, 2) NOT NULL,
+	"deposit_status" text DEFAULT 'unpaid' NOT NULL,
+	"start_date" date NOT NULL,
+	"end_date" date,
+	"status" text DEFAULT 'active' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "rent_charges" ADD CONSTRAINT "rent_charges_tenancy_id_tenancies_id_fk" FOREIGN KEY ("tenancy_id") REFERENCES "public"."tenancies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "rent_payments" ADD CONSTRAINT "rent_payments_charge_id_rent_charges_id_fk" FOREIGN KEY ("charge_id") REFERENCES "public"."rent_charges"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "rent_payments" ADD CONSTRAINT "rent_payments_tenancy_id_tenancies_id_fk" FOREIGN KEY ("tenancy_id") REFERENCES "public"."tenancies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "rent_payments" ADD CONSTRAINT "rent_payments_recorded_by_id_user_id_fk" FOREIGN KEY ("recorded_by_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "rent_reminders" ADD CONSTRAINT "rent_reminders_charge_id_rent_charges_id_fk" FOREIGN KEY ("charge_id") REFERENCES "public"."rent_charges"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "rent_reminders" ADD CONSTRAINT "rent_reminders_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tenancies" ADD CONSTRAINT "tenancies_application_id_rental_applications_id_fk" FOREIGN KEY ("application_id") REFERENCES "public"."rental_applications"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tenancies" ADD CONSTRAINT "tenancies_property_id_properties_id_fk" FOREIGN KEY ("property_id") REFERENCES "public"."properties"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tenancies" ADD CONSTRAINT "tenancies_owner_id_user_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tenancies" ADD CONSTRAINT "tenancies_tenant_id_user_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "rent_charges_tenancy_due_date_idx" ON "rent_charges" USING btree ("tenancy_id","due_date");--> statement-breakpoint
+CREATE INDEX "rent_payments_charge_id_idx" ON "rent_payments" USING btree ("charge_id");--> statement-breakpoint
+CREATE INDEX "rent_payments_tenancy_id_idx" ON "rent_payments" USING btree ("tenancy_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "rent_reminders_charge_user_kind_idx" ON "rent_reminders" USING btree ("charge_id","user_id","kind");--> statement-breakpoint
+CREATE INDEX "rent_reminders_user_id_created_at_idx" ON "rent_reminders" USING btree ("user_id","created_at");--> statement-breakpoint
+CREATE UNIQUE INDEX "tenancies_application_id_idx" ON "tenancies" USING btree ("application_id");--> statement-breakpoint
+CREATE INDEX "tenancies_owner_id_idx" ON "tenancies" USING btree ("owner_id");--> statement-breakpoint
+CREATE INDEX "tenancies_tenant_id_idx" ON "tenancies" USING btree ("tenant_id");
\ No newline at end of file
@@ -0,0 +1,37 @@
+CREATE TABLE "maintenance_comments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"ticket_id" uuid NOT NULL,
+	"author_id" text NOT NULL,
+	"kind" text DEFAULT 'comment' NOT NULL,
+	"body" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "maintenance_tickets" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenancy_id" uuid NOT NULL,
+	"property_id" uuid NOT NULL,
+	"owner_id" text NOT NULL,
+	"tenant_id" text NOT NULL,
+	"category" text NOT NULL,
+	"urgency" text DEFAULT 'normal' NOT NULL,
+	"title" text NOT NULL,
+	"description" text NOT NULL,
+	"photo_keys" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"status" text DEFAULT 'open' NOT NULL,
+	"contractor_name" text,
+	"closed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "maintenance_comments" ADD CONSTRAINT "maintenance_comments_ticket_id_maintenance_tickets_id_fk" FOREIGN KEY ("ticket_id") REFERENCES "public"."maintenance_tickets"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "maintenance_comments" ADD CONSTRAINT "maintenance_comments_author_id_user_id_fk" FOREIGN KEY ("author_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "maintenance_tickets" ADD CONSTRAINT "maintenance_tickets_tenancy_id_tenancies_id_fk" FOREIGN KEY ("tenancy_id") REFERENCES "public"."tenancies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "maintenance_tickets" ADD CONSTRAINT "maintenance_tickets_property_id_properties_id_fk" FOREIGN KEY ("property_id") REFERENCES "public"."properties"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "maintenance_tickets" ADD CONSTRAINT "maintenance_tickets_owner_id_user_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "maintenance_tickets" ADD CONSTRAINT "maintenance_tickets_tenant_id_user_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "maintenance_comments_ticket_id_idx" ON "maintenance_comments" USING btree ("ticket_id");--> statement-breakpoint
+CREATE INDEX "maintenance_tickets_property_id_idx" ON "maintenance_tickets" USING btree ("property_id");--> statement-breakpoint
+CREATE INDEX "maintenance_tickets_owner_id_idx" ON "maintenance_tickets" USING btree ("owner_id");--> statement-breakpoint
+CREATE INDEX "maintenance_tickets_tenant_id_idx" ON "maintenance_tickets" USING btree ("tenant_id");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "tenancies" DROP CONSTRAINT "tenancies_property_id_properties_id_fk";
+--> statement-breakpoint
+ALTER TABLE "tenancies" ADD CONSTRAINT "tenancies_property_id_properties_id_fk" FOREIGN KEY ("property_id") REFERENCES "public"."properties"("id") ON DELETE restrict ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,7 @@
+-- Built-in templates name the day rent falls due, which the ledger bills on
+UPDATE "agreement_templates"
+SET "body" = replace("body", 'payable in advance on the first day of each month.', 'payable in advance on {{rentDueDay}}.')
+WHERE "owner_id" IS NULL AND "language" = 'en';--> statement-breakpoint
+UPDATE "agreement_templates"
+SET "body" = replace("body", '須於每月首日預先繳付。', '須於{{rentDueDay}}預先繳付。')
+WHERE "owner_id" IS NULL AND "language" = 'zh';
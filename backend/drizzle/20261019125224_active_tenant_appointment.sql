@@ -0,0 +1,8 @@
+-- Earlier double bookings keep only the tenant's latest viewing per listing
+UPDATE "appointments" SET "status" = 'cancelled'
+WHERE "status" <> 'cancelled' AND "id" NOT IN (
+	SELECT DISTINCT ON ("tenant_id", "property_id") "id" FROM "appointments"
+	WHERE "status" <> 'cancelled'
+	ORDER BY "tenant_id", "property_id", "created_at" DESC
+);--> statement-breakpoint
+CREATE UNIQUE INDEX "appointments_active_tenant_property_idx" ON "appointments" USING btree ("tenant_id","property_id") WHERE "appointments"."status" <> 'cancelled';
\ No newline at end of file
@@ -5,12 +5,95 @@ import {
   timestamp,
   decimal,
   integer,
+  doublePrecision,
   jsonb,
+  boolean,
+  date,
   index,
+  uniqueIndex,
+  primaryKey,
+  customType,
 } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { relations, sql } from 'drizzle-orm';
 import { user } from './auth-schema.js';
 
+// Postgres full-text search document
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return 'tsvector';
+  },
+});
+
+// Listing lifecycle. Only published listings appear in public search.
+export const PROPERTY_STATUSES = ['draft', 'published', 'rented', 'archived'] as const;
+
+// Whether price is the monthly rent or the asking price
+export const LISTING_TYPES = ['rent', 'sale'] as const;
+
+// Which third of the building the unit is in. Owners rarely give the exact floor.
+export const FLOOR_LEVELS = ['low', 'mid', 'high'] as const;
+
+// Direction the main windows face
+export const FACINGS = ['north', 'northeast', 'east', 'southeast', 'south', 'southwest', 'west', 'northwest'] as const;
+
+// Hong Kong's 18 districts
+export const DISTRICTS = [
+  'Central and Western',
+  'Eastern',
+  'Southern',
+  'Wan Chai',
+  'Sham Shui Po',
+  'Kowloon City',
+  'Kwun Tong',
+  'Wong Tai Sin',
+  'Yau Tsim Mong',
+  'Islands',
+  'Kwai Tsing',
+  'North',
+  'Sai Kung',
+  'Sha Tin',
+  'Tai Po',
+  'Tsuen Wan',
+  'Tuen Mun',
+  'Yuen Long',
+] as const;
+
+// Buildings and estates that listings belong to, so shared details are entered once.
+// Well-known estates are seeded by migration; users add the rest from the listing forms.
+export const buildings = pgTable(
+  'buildings',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    nameEn: text('name_en').notNull(),
+    nameZh: text('name_zh'),
+    district: text('district', { enum: DISTRICTS }).notNull(),
+    address: text('address'),
+    yearBuilt: integer('year_built'),
+    latitude: doublePrecision('latitude'),
+    longitude: doublePrecision('longitude'),
+    createdBy: text('created_by').references(() => user.id, { onDelete: 'set null' }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [
+    // One entry per estate: names are compared case-insensitively within a district
+    uniqueIndex('buildings_name_en_district_idx').on(sql`lower(${table.nameEn})`, table.district),
+  ]
+);
+
+// Building <-> amenity links for shared facilities (clubhouse, pool, parking...)
+export const buildingFacilities = pgTable(
+  'building_facilities',
+  {
+    buildingId: uuid('building_id')
+      .notNull()
+      .references(() => buildings.id, { onDelete: 'cascade' }),
+    amenityId: text('amenity_id')
+      .notNull()
+      .references(() => amenities.id, { onDelete: 'cascade' }),
+  },
+  (table) => [primaryKey({ columns: [table.buildingId, table.amenityId] })]
+);
+
 // Properties table
 export const properties = pgTable(
   'properties',
@@ -18,33 +101,35 @@ export const properties = pgTable(
     id: uuid('id').primaryKey().defaultRandom(),
     title: text('title').notNull(),
     description: text('description'),
+    listingType: text('listing_type', { enum: LISTING_TYPES }).notNull().default('rent'),
     price: decimal('price', { precision: 10, scale: 2 }).notNull(),
-    size: integer('size').notNull(), // in square feet
-    district: text('district', {
-      enum: [
-        'Central and Western',
-        'Eastern',
-        'Southern',
-        'Wan Chai',
-        'Sham Shui Po',
-        'Kowloon City',
-        'Kwun Tong',
-        'Wong Tai Sin',
-        'Yau Tsim Mong',
-        'Islands',
-        'Kwai Tsing',
-        'North',
-        'Sai Kung',
-        'Sha Tin',
-        'Tai Po',
-        'Tsuen Wan',
-        'Tuen Mun',
-        'Yuen Long',
-      ],
-    }).notNull(),
-    equipment: text('equipment'), // comma-separated list
+    size: integer('size').notNull(), // gross area in square feet
+    // Unit details. Null means the owner has not said.
+    saleableArea: integer('saleable_area'), // square feet, excluding the unit's share of common areas
+    bedrooms: integer('bedrooms'), // 0 for studios
+    bathrooms: integer('bathrooms'),
+    floorLevel: text('floor_level', { enum: FLOOR_LEVELS }),
+    facing: text('facing', { enum: FACINGS }),
+    yearBuilt: integer('year_built'), // building age is derived from this so it stays current
+    district: text('district', { enum: DISTRICTS }).notNull(),
+    buildingId: uuid('building_id').references(() => buildings.id, { onDelete: 'set null' }),
+    equipment: text('equipment'), // free-text extras not covered by amenities
+    address: text('address'), // display address
+    latitude: doublePrecision('latitude'),
+    longitude: doublePrecision('longitude'),
     photos: jsonb('photos').$type<string[]>(), // array of photo URLs
     virtualTourUrl: text('virtual_tour_url'),
+    // Rental terms. Null means the owner has not said, except availableFrom where it means available now.
+    // Lease length and deposit only apply to rentals.
+    minLeaseMonths: integer('min_lease_months'),
+    depositMonths: integer('deposit_months'),
+    availableFrom: date('available_from'), // YYYY-MM-DD
+    feesIncluded: boolean('fees_included'), // management fees and government rates included in the price
+    commissionApplies: boolean('commission_applies'), // agency commission payable by the tenant or buyer
+    status: text('status', { enum: PROPERTY_STATUSES }).notNull().default('published'),
+    publishedAt: timestamp('published_at'), // last time the listing went live; saved search alerts key off this
+    searchVector: tsvector('search_vector'), // maintained by the API, see utils/search.ts
+    deletedAt: timestamp('deleted_at'), // soft delete; hidden everywhere and purged once the restore window ends
     ownerId: text('owner_id')
       .notNull()
       .references(() => user.id, { onDelete: 'cascade' }),
@@ -54,7 +139,44 @@ export const properties = pgTable(
       .$onUpdate(() => new Date())
       .notNull(),
   },
-  (table) => [index('properties_owner_id_idx').on(table.ownerId), index('properties_district_idx').on(table.district)]
+  (table) => [
+    index('properties_owner_id_idx').on(table.ownerId),
+    index('properties_district_idx').on(table.district),
+    index('properties_status_idx').on(table.status),
+    index('properties_listing_type_idx').on(table.listingType),
+    index('properties_bedrooms_idx').on(table.bedrooms),
+    index('properties_building_id_idx').on(table.buildingId),
+    index('properties_published_at_idx').on(table.publishedAt),
+    index('properties_location_idx').on(table.latitude, table.longitude),
+    index('properties_search_vector_idx').using('gin', table.searchVector),
+    index('properties_deleted_at_idx').on(table.deletedAt),
+  ]
+);
+
+// Amenities catalogue, seeded by migration. Ids are stable slugs.
+export const amenities = pgTable('amenities', {
+  id: text('id').primaryKey(),
+  labelEn: text('label_en').notNull(),
+  labelZhTw: text('label_zh_tw').notNull(),
+  labelZhCn: text('label_zh_cn').notNull(),
+  sortOrder: integer('sort_order').notNull().default(0),
+});
+
+// Property <-> amenity links
+export const propertyAmenities = pgTable(
+  'property_amenities',
+  {
+    propertyId: uuid('property_id')
+      .notNull()
+      .references(() => properties.id, { onDelete: 'cascade' }),
+    amenityId: text('amenity_id')
+      .notNull()
+      .references(() => amenities.id, { onDelete: 'cascade' }),
+  },
+  (table) => [
+    primaryKey({ columns: [table.propertyId, table.amenityId] }),
+    index('property_amenities_amenity_id_idx').on(table.amenityId),
+  ]
 );
 
 // Chats table
@@ -62,9 +184,7 @@ export const chats = pgTable(
   'chats',
   {
     id: uuid('id').primaryKey().defaultRandom(),
-    propertyId: uuid('property_id')
-      .notNull()
-      .references(() => properties.id, { onDelete: 'cascade' }),
+    propertyId: uuid('property_id').references(() => properties.id, { onDelete: 'set null' }), // null once the listing is purged
     renterId: text('renter_id')
       .notNull()
       .references(() => user.id, { onDelete: 'cascade' }),
@@ -102,6 +222,530 @@ export const messages = pgTable(
   ]
 );
 
+// Viewing slots an owner offers for a listing
+export const viewingSlots = pgTable(
+  'viewing_slots',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    propertyId: uuid('property_id')
+      .notNull()
+      .references(() => properties.id, { onDelete: 'cascade' }),
+    startsAt: timestamp('starts_at').notNull(),
+    endsAt: timestamp('ends_at').notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [index('viewing_slots_property_id_starts_at_idx').on(table.propertyId, table.startsAt)]
+);
+
+export const APPOINTMENT_STATUSES = ['pending', 'confirmed', 'cancelled'] as const;
+
+// Viewing appointments. A slot holds at most one active (pending or confirmed)
+// appointment; the partial unique index is what prevents double booking.
+export const appointments = pgTable(
+  'appointments',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    slotId: uuid('slot_id')
+      .notNull()
+      .references(() => viewingSlots.id, { onDelete: 'cascade' }),
+    propertyId: uuid('property_id')
+      .notNull()
+      .references(() => properties.id, { onDelete: 'cascade' }),
+    ownerId: text('owner_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    tenantId: text('tenant_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    chatId: uuid('chat_id').references(() => chats.id, { onDelete: 'set null' }), // chat the booking was made from
+    status: text('status', { enum: APPOINTMENT_STATUSES }).notNull().default('pending'),
+    requestedBy: text('requested_by')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }), // proposed the current slot; the other side confirms
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at')
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex('appointments_active_slot_idx')
+      .on(table.slotId)
+      .where(sql`${table.status} <> 'cancelled'`),
+    // One active viewing per tenant per listing; they reschedule it instead of booking again
+    uniqueIndex('appointments_active_tenant_property_idx')
+      .on(table.tenantId, table.propertyId)
+      .where(sql`${table.status} <> 'cancelled'`),
+    index('appointments_property_id_idx').on(table.propertyId),
+    index('appointments_owner_id_idx').on(table.ownerId),
+    index('appointments_tenant_id_idx').on(table.tenantId),
+  ]
+);
+
+// Every price a listing has had, including the one it was created with
+export const propertyPriceHistory = pgTable(
+  'property_price_history',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    propertyId: uuid('property_id')
+      .notNull()
+      .references(() => properties.id, { onDelete: 'cascade' }),
+    price: decimal('price', { precision: 10, scale: 2 }).notNull(),
+    changedAt: timestamp('changed_at').defaultNow().notNull(),
+  },
+  (table) => [index('property_price_history_property_id_changed_at_idx').on(table.propertyId, table.changedAt)]
+);
+
+export const REVISION_ACTIONS = ['create', 'update', 'status', 'delete', 'undelete', 'restore'] as const;
+
+// Field name -> value before and after the change
+export type PropertyRevisionChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Append-only log of listing edits. There is deliberately no foreign key to
+// properties so the trail outlives the listing itself.
+export const propertyRevisions = pgTable(
+  'property_revisions',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    propertyId: uuid('property_id').notNull(),
+    userId: text('user_id').references(() => user.id, { onDelete: 'set null' }),
+    action: text('action', { enum: REVISION_ACTIONS }).notNull(),
+    changes: jsonb('changes').$type<PropertyRevisionChanges>().notNull(),
+    restoredFromId: uuid('restored_from_id'), // revision a restore went back to
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [index('property_revisions_property_id_created_at_idx').on(table.propertyId, table.createdAt)]
+);
+
+export const LISTING_EVENT_TYPES = ['view', 'favorite', 'chat_start'] as const;
+
+// Engagement with a listing, aggregated per day for its owner. Views come from
+// the public detail endpoint, so they carry no viewer.
+export const listingEvents = pgTable(
+  'listing_events',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    propertyId: uuid('property_id')
+      .notNull()
+      .references(() => properties.id, { onDelete: 'cascade' }),
+    type: text('type', { enum: LISTING_EVENT_TYPES }).notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [index('listing_events_property_id_created_at_idx').on(table.propertyId, table.createdAt)]
+);
+
+// Listings a user has saved. The price and status seen when saving (or when
+// the user last acknowledged a change) are kept so changes can be flagged.
+export const favorites = pgTable(
+  'favorites',
+  {
+    userId: text('user_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    propertyId: uuid('property_id')
+      .notNull()
+      .references(() => properties.id, { onDelete: 'cascade' }),
+    seenPrice: decimal('seen_price', { precision: 10, scale: 2 }).notNull(),
+    seenStatus: text('seen_status', { enum: PROPERTY_STATUSES }).notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.userId, table.propertyId] }),
+    index('favorites_property_id_idx').on(table.propertyId),
+  ]
+);
+
+// Named sets of listing filters. `filters` holds the raw GET /api/properties
+// query values; `lastCheckedAt` is how far the alert job has evaluated.
+export const savedSearches = pgTable(
+  'saved_searches',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: text('user_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    filters: jsonb('filters').$type<Record<string, string>>().notNull(),
+    lastCheckedAt: timestamp('last_checked_at').defaultNow().notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [index('saved_searches_user_id_idx').on(table.userId)]
+);
+
+// Newly published listings that matched a saved search, shown in the user's feed
+export const savedSearchMatches = pgTable(
+  'saved_search_matches',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    savedSearchId: uuid('saved_search_id')
+      .notNull()
+      .references(() => savedSearches.id, { onDelete: 'cascade' }),
+    userId: text('user_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    propertyId: uuid('property_id')
+      .notNull()
+      .references(() => properties.id, { onDelete: 'cascade' }),
+    seenAt: timestamp('seen_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex('saved_search_matches_search_property_idx').on(table.savedSearchId, table.propertyId),
+    index('saved_search_matches_user_id_created_at_idx').on(table.userId, table.createdAt),
+  ]
+);
+
+// Filters a user browsed the home feed with, kept as a signal for their
+// "For you" feed. Only the most recent few per user are retained.
+export const searchHistory = pgTable(
+  'search_history',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: text('user_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    listingType: text('listing_type', { enum: LISTING_TYPES }),
+    district: text('district', { enum: DISTRICTS }),
+    minPrice: decimal('min_price', { precision: 10, scale: 2 }),
+    maxPrice: decimal('max_price', { precision: 10, scale: 2 }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [index('search_history_user_id_created_at_idx').on(table.userId, table.createdAt)]
+);
+
+// Listings a signed-in user has opened, one row per listing
+export const propertyViews = pgTable(
+  'property_views',
+  {
+    userId: text('user_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    propertyId: uuid('property_id')
+      .notNull()
+      .references(() => properties.id, { onDelete: 'cascade' }),
+    viewCount: integer('view_count').default(1).notNull(),
+    lastViewedAt: timestamp('last_viewed_at').defaultNow().notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.userId, table.propertyId] }),
+    index('property_views_property_id_idx').on(table.propertyId),
+  ]
+);
+
+export const APPLICATION_STATUSES = ['submitted', 'info_requested', 'accepted', 'rejected', 'withdrawn'] as const;
+export const APPLICATION_DOCUMENT_TYPES = ['id', 'employment', 'income'] as const;
+
+// Formal applications from a renter for a rental listing, reviewed by its
+// owner. An applicant has at most one open (submitted or info_requested)
+// application per listing; the partial unique index enforces it.
+export const rentalApplications = pgTable(
+  'rental_applications',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    propertyId: uuid('property_id')
+      .notNull()
+      .references(() => properties.id, { onDelete: 'cascade' }),
+    applicantId: text('applicant_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    chatId: uuid('chat_id').references(() => chats.id, { onDelete: 'set null' }), // chat the applicant applied from
+    moveInDate: date('move_in_date').notNull(), // YYYY-MM-DD
+    occupants: integer('occupants').notNull(),
+    monthlyIncome: decimal('monthly_income', { precision: 10, scale: 2 }).notNull(),
+    message: text('message'),
+    status: text('status', { enum: APPLICATION_STATUSES }).notNull().default('submitted'),
+    ownerNote: text('owner_note'), // what the owner asked for, or why they rejected
+    decidedAt: timestamp('decided_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at')
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex('rental_applications_open_idx')
+      .on(table.propertyId, table.applicantId)
+      .where(sql`${table.status} in ('submitted', 'info_requested')`),
+    index('rental_applications_applicant_id_idx').on(table.applicantId),
+  ]
+);
+
+// Files attached to an application. Keys point into storage under the
+// applicant's application-documents/ prefix and are only ever served as
+// signed URLs to the applicant and the listing owner.
+export const applicationDocuments = pgTable(
+  'application_documents',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    applicationId: uuid('application_id')
+      .notNull()
+      .references(() => rentalApplications.id, { onDelete: 'cascade' }),
+    type: text('type', { enum: APPLICATION_DOCUMENT_TYPES }).notNull(),
+    storageKey: text('storage_key').notNull(),
+    filename: text('filename').notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [index('application_documents_application_id_idx').on(table.applicationId)]
+);
+
+// Languages tenancy agreements can be written in. Chinese templates are in
+// Traditional Chinese, matching the fonts the PDFs rely on.
+export const AGREEMENT_LANGUAGES = ['en', 'zh'] as const;
+
+// Tenancy agreement templates. Built-in templates (no owner) are seeded by
+// migration and read-only; owners keep edited copies as their own templates.
+// Bodies are plain text with {{placeholder}} fields, see utils/agreements.ts.
+export const agreementTemplates = pgTable(
+  'agreement_templates',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    ownerId: text('owner_id').references(() => user.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    language: text('language', { enum: AGREEMENT_LANGUAGES }).notNull(),
+    body: text('body').notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at')
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [index('agreement_templates_owner_id_idx').on(table.ownerId)]
+);
+
+// Tenancy agreement PDF generated for an accepted application. Both parties
+// acknowledge it in the app; regenerating it before then replaces the PDF and
+// clears any acknowledgement already given.
+export const tenancyAgreements = pgTable(
+  'tenancy_agreements',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    applicationId: uuid('application_id')
+      .notNull()
+      .references(() => rentalApplications.id, { onDelete: 'cascade' }),
+    propertyId: uuid('property_id')
+      .notNull()
+      .references(() => properties.id, { onDelete: 'cascade' }),
+    ownerId: text('owner_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    tenantId: text('tenant_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    chatId: uuid('chat_id').references(() => chats.id, { onDelete: 'set null' }), // chat the PDF was shared in
+    templateId: uuid('template_id').references(() => agreementTemplates.id, { onDelete: 'set null' }),
+    language: text('language', { enum: AGREEMENT_LANGUAGES }).notNull(),
+    storageKey: text('storage_key').notNull(),
+    version: integer('version').default(1).notNull(), // bumped on regeneration; acknowledgements name the one they read
+    ownerAcknowledgedAt: timestamp('owner_acknowledged_at'),
+    tenantAcknowledgedAt: timestamp('tenant_acknowledged_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at')
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex('tenancy_agreements_application_id_idx').on(table.applicationId),
+    index('tenancy_agreements_owner_id_idx').on(table.ownerId),
+    index('tenancy_agreements_tenant_id_idx').on(table.tenantId),
+  ]
+);
+
+export const TENANCY_STATUSES = ['active', 'ended'] as const;
+export const DEPOSIT_STATUSES = ['unpaid', 'held', 'returned'] as const;
+// 'online' payments go through the configured payment provider; the rest are
+// recorded by hand, with an optional receipt
+export const RENT_PAYMENT_METHODS = ['online', 'bank_transfer', 'fps', 'cash', 'cheque'] as const;
+export const RENT_PAYMENT_STATUSES = ['pending', 'completed', 'failed', 'rejected'] as const;
+export const RENT_REMINDER_KINDS = ['due_soon', 'overdue'] as const;
+
+// Tenancy started by the owner from an accepted application. Rent falls due on
+// the same day of the month as the start date; see utils/rentLedger.ts. The
+// ledger is a financial record, so the listing cannot be removed under it.
+export const tenancies = pgTable(
+  'tenancies',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    applicationId: uuid('application_id')
+      .notNull()
+      .references(() => rentalApplications.id, { onDelete: 'cascade' }),
+    propertyId: uuid('property_id')
+      .notNull()
+      .references(() => properties.id, { onDelete: 'restrict' }),
+    ownerId: text('owner_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    tenantId: text('tenant_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    monthlyRent: decimal('monthly_rent', { precision: 10, scale: 2 }).notNull(),
+    depositAmount: decimal('deposit_amount', { precision: 10, scale: 2 }).notNull(),
+    depositStatus: text('deposit_status', { enum: DEPOSIT_STATUSES }).notNull().default('unpaid'),
+    startDate: date('start_date').notNull(), // YYYY-MM-DD, first rent due date
+    endDate: date('end_date'), // YYYY-MM-DD, exclusive; null for an open-ended tenancy
+    status: text('status', { enum: TENANCY_STATUSES }).notNull().default('active'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at')
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex('tenancies_application_id_idx').on(table.applicationId),
+    index('tenancies_owner_id_idx').on(table.ownerId),
+    index('tenancies_tenant_id_idx').on(table.tenantId),
+  ]
+);
+
+// Monthly rent owed under a tenancy. Created ahead of time by the rent ledger
+// job; whether a charge is paid or late is derived from its payments.
+export const rentCharges = pgTable(
+  'rent_charges',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenancyId: uuid('tenancy_id')
+      .notNull()
+      .references(() => tenancies.id, { onDelete: 'cascade' }),
+    dueDate: date('due_date').notNull(), // YYYY-MM-DD
+    amount: decimal('amount', { precision: 10, scale: 2 }).notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex('rent_charges_tenancy_due_date_idx').on(table.tenancyId, table.dueDate)]
+);
+
+// Payments against a charge. Payments the owner records count straight away;
+// ones the tenant records stay pending until the owner confirms them. Receipt
+// keys point into storage under the recorder's rent-receipts/ prefix.
+export const rentPayments = pgTable(
+  'rent_payments',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    chargeId: uuid('charge_id')
+      .notNull()
+      .references(() => rentCharges.id, { onDelete: 'cascade' }),
+    tenancyId: uuid('tenancy_id')
+      .notNull()
+      .references(() => tenancies.id, { onDelete: 'cascade' }),
+    recordedById: text('recorded_by_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    amount: decimal('amount', { precision: 10, scale: 2 }).notNull(),
+    method: text('method', { enum: RENT_PAYMENT_METHODS }).notNull(),
+    status: text('status', { enum: RENT_PAYMENT_STATUSES }).notNull().default('pending'),
+    paidOn: date('paid_on').notNull(), // YYYY-MM-DD
+    provider: text('provider'), // payment provider name, online payments only
+    providerReference: text('provider_reference'),
+    receiptKey: text('receipt_key'),
+    receiptFilename: text('receipt_filename'),
+    note: text('note'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at')
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    index('rent_payments_charge_id_idx').on(table.chargeId),
+    index('rent_payments_tenancy_id_idx').on(table.tenancyId),
+  ]
+);
+
+// Due-date reminders for both sides of a tenancy, recorded by the rent ledger
+// job and shown in the app. At most one of each kind per charge and user.
+export const rentReminders = pgTable(
+  'rent_reminders',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    chargeId: uuid('charge_id')
+      .notNull()
+      .references(() => rentCharges.id, { onDelete: 'cascade' }),
+    userId: text('user_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    kind: text('kind', { enum: RENT_REMINDER_KINDS }).notNull(),
+    seenAt: timestamp('seen_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex('rent_reminders_charge_user_kind_idx').on(table.chargeId, table.userId, table.kind),
+    index('rent_reminders_user_id_created_at_idx').on(table.userId, table.createdAt),
+  ]
+);
+
+export const MAINTENANCE_CATEGORIES = [
+  'plumbing',
+  'electrical',
+  'appliance',
+  'air_conditioning',
+  'structural',
+  'pest',
+  'other',
+] as const;
+export const MAINTENANCE_URGENCIES = ['low', 'normal', 'urgent'] as const;
+export const MAINTENANCE_STATUSES = ['open', 'in_progress', 'resolved', 'closed'] as const;
+// Status changes and contractor assignments are recorded in the thread
+// alongside comments, so the ticket keeps its full history
+export const MAINTENANCE_COMMENT_KINDS = ['comment', 'status_change', 'assignment'] as const;
+
+// Maintenance requests filed by the tenant of an active tenancy, kept apart
+// from chats. Photo keys point into storage under the tenant's
+// maintenance-photos/ prefix.
+export const maintenanceTickets = pgTable(
+  'maintenance_tickets',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenancyId: uuid('tenancy_id')
+      .notNull()
+      .references(() => tenancies.id, { onDelete: 'cascade' }),
+    propertyId: uuid('property_id')
+      .notNull()
+      .references(() => properties.id, { onDelete: 'cascade' }),
+    ownerId: text('owner_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    tenantId: text('tenant_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    category: text('category', { enum: MAINTENANCE_CATEGORIES }).notNull(),
+    urgency: text('urgency', { enum: MAINTENANCE_URGENCIES }).notNull().default('normal'),
+    title: text('title').notNull(),
+    description: text('description').notNull(),
+    photoKeys: jsonb('photo_keys').$type<string[]>().notNull().default([]),
+    status: text('status', { enum: MAINTENANCE_STATUSES }).notNull().default('open'),
+    contractorName: text('contractor_name'),
+    closedAt: timestamp('closed_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at')
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    index('maintenance_tickets_property_id_idx').on(table.propertyId),
+    index('maintenance_tickets_owner_id_idx').on(table.ownerId),
+    index('maintenance_tickets_tenant_id_idx').on(table.tenantId),
+  ]
+);
+
+// Comment thread on a maintenance ticket. For status changes the body is the
+// new status; for assignments it is the contractor's name, empty when cleared.
+export const maintenanceComments = pgTable(
+  'maintenance_comments',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    ticketId: uuid('ticket_id')
+      .notNull()
+      .references(() => maintenanceTickets.id, { onDelete: 'cascade' }),
+    authorId: text('author_id')
+      .notNull()
+      .references(() => user.id, { onDelete: 'cascade' }),
+    kind: text('kind', { enum: MAINTENANCE_COMMENT_KINDS }).notNull().default('comment'),
+    body: text('body').notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [index('maintenance_comments_ticket_id_idx').on(table.ticketId)]
+);
+
 // Relations
 export const propertiesRelations = relations(properties, ({ one, many }) => ({
   owner: one(user, {
@@ -109,6 +753,49 @@ export const propertiesRelations = relations(properties, ({ one, many }) => ({
     references: [user.id],
   }),
   chats: many(chats),
+  amenities: many(propertyAmenities),
+  viewingSlots: many(viewingSlots),
+  appointments: many(appointments),
+  favorites: many(favorites),
+  savedSearchMatches: many(savedSearchMatches),
+  priceHistory: many(propertyPriceHistory),
+  events: many(listingEvents),
+  building: one(buildings, {
+    fields: [properties.buildingId],
+    references: [buildings.id],
+  }),
+}));
+
+export const buildingsRelations = relations(buildings, ({ many }) => ({
+  properties: many(properties),
+  facilities: many(buildingFacilities),
+}));
+
+export const buildingFacilitiesRelations = relations(buildingFacilities, ({ one }) => ({
+  building: one(buildings, {
+    fields: [buildingFacilities.buildingId],
+    references: [buildings.id],
+  }),
+  amenity: one(amenities, {
+    fields: [buildingFacilities.amenityId],
+    references: [amenities.id],
+  }),
+}));
+
+export const amenitiesRelations = relations(amenities, ({ many }) => ({
+  properties: many(propertyAmenities),
+  buildings: many(buildingFacilities),
+}));
+
+export const propertyAmenitiesRelations = relations(propertyAmenities, ({ one }) => ({
+  property: one(properties, {
+    fields: [propertyAmenities.propertyId],
+    references: [properties.id],
+  }),
+  amenity: one(amenities, {
+    fields: [propertyAmenities.amenityId],
+    references: [amenities.id],
+  }),
 }));
 
 export const chatsRelations = relations(chats, ({ one, many }) => ({
@@ -137,3 +824,253 @@ export const messagesRelations = relations(messages, ({ one }) => ({
     references: [user.id],
   }),
 }));
+
+export const viewingSlotsRelations = relations(viewingSlots, ({ one, many }) => ({
+  property: one(properties, {
+    fields: [viewingSlots.propertyId],
+    references: [properties.id],
+  }),
+  appointments: many(appointments),
+}));
+
+export const appointmentsRelations = relations(appointments, ({ one }) => ({
+  slot: one(viewingSlots, {
+    fields: [appointments.slotId],
+    references: [viewingSlots.id],
+  }),
+  property: one(properties, {
+    fields: [appointments.propertyId],
+    references: [properties.id],
+  }),
+  owner: one(user, {
+    fields: [appointments.ownerId],
+    references: [user.id],
+  }),
+  tenant: one(user, {
+    fields: [appointments.tenantId],
+    references: [user.id],
+  }),
+  chat: one(chats, {
+    fields: [appointments.chatId],
+    references: [chats.id],
+  }),
+}));
+
+export const propertyPriceHistoryRelations = relations(propertyPriceHistory, ({ one }) => ({
+  property: one(properties, {
+    fields: [propertyPriceHistory.propertyId],
+    references: [properties.id],
+  }),
+}));
+
+export const propertyRevisionsRelations = relations(propertyRevisions, ({ one }) => ({
+  user: one(user, {
+    fields: [propertyRevisions.userId],
+    references: [user.id],
+  }),
+}));
+
+export const listingEventsRelations = relations(listingEvents, ({ one }) => ({
+  property: one(properties, {
+    fields: [listingEvents.propertyId],
+    references: [properties.id],
+  }),
+}));
+
+export const favoritesRelations = relations(favorites, ({ one }) => ({
+  user: one(user, {
+    fields: [favorites.userId],
+    references: [user.id],
+  }),
+  property: one(properties, {
+    fields: [favorites.propertyId],
+    references: [properties.id],
+  }),
+}));
+
+export const savedSearchesRelations = relations(savedSearches, ({ one, many }) => ({
+  user: one(user, {
+    fields: [savedSearches.userId],
+    references: [user.id],
+  }),
+  matches: many(savedSearchMatches),
+}));
+
+export const savedSearchMatchesRelations = relations(savedSearchMatches, ({ one }) => ({
+  savedSearch: one(savedSearches, {
+    fields: [savedSearchMatches.savedSearchId],
+    references: [savedSearches.id],
+  }),
+  user: one(user, {
+    fields: [savedSearchMatches.userId],
+    references: [user.id],
+  }),
+  property: one(properties, {
+    fields: [savedSearchMatches.propertyId],
+    references: [properties.id],
+  }),
+}));
+
+export const searchHistoryRelations = relations(searchHistory, ({ one }) => ({
+  user: one(user, {
+    fields: [searchHistory.userId],
+    references: [user.id],
+  }),
+}));
+
+export const propertyViewsRelations = relations(propertyViews, ({ one }) => ({
+  user: one(user, {
+    fields: [propertyViews.userId],
+    references: [user.id],
+  }),
+  property: one(properties, {
+    fields: [propertyViews.propertyId],
+    references: [properties.id],
+  }),
+}));
+
+export const rentalApplicationsRelations = relations(rentalApplications, ({ one, many }) => ({
+  property: one(properties, {
+    fields: [rentalApplications.propertyId],
+    references: [properties.id],
+  }),
+  applicant: one(user, {
+    fields: [rentalApplications.applicantId],
+    references: [user.id],
+  }),
+  chat: one(chats, {
+    fields: [rentalApplications.chatId],
+    references: [chats.id],
+  }),
+  documents: many(applicationDocuments),
+  agreement: one(tenancyAgreements),
+  tenancy: one(tenancies),
+}));
+
+export const applicationDocumentsRelations = relations(applicationDocuments, ({ one }) => ({
+  application: one(rentalApplications, {
+    fields: [applicationDocuments.applicationId],
+    references: [rentalApplications.id],
+  }),
+}));
+
+export const agreementTemplatesRelations = relations(agreementTemplates, ({ one }) => ({
+  owner: one(user, {
+    fields: [agreementTemplates.ownerId],
+    references: [user.id],
+  }),
+}));
+
+export const tenancyAgreementsRelations = relations(tenancyAgreements, ({ one }) => ({
+  application: one(rentalApplications, {
+    fields: [tenancyAgreements.applicationId],
+    references: [rentalApplications.id],
+  }),
+  property: one(properties, {
+    fields: [tenancyAgreements.propertyId],
+    references: [properties.id],
+  }),
+  owner: one(user, {
+    fields: [tenancyAgreements.ownerId],
+    references: [user.id],
+  }),
+  tenant: one(user, {
+    fields: [tenancyAgreements.tenantId],
+    references: [user.id],
+  }),
+  chat: one(chats, {
+    fields: [tenancyAgreements.chatId],
+    references: [chats.id],
+  }),
+  template: one(agreementTemplates, {
+    fields: [tenancyAgreements.templateId],
+    references: [agreementTemplates.id],
+  }),
+}));
+
+export const tenanciesRelations = relations(tenancies, ({ one, many }) => ({
+  application: one(rentalApplications, {
+    fields: [tenancies.applicationId],
+    references: [rentalApplications.id],
+  }),
+  property: one(properties, {
+    fields: [tenancies.propertyId],
+    references: [properties.id],
+  }),
+  owner: one(user, {
+    fields: [tenancies.ownerId],
+    references: [user.id],
+  }),
+  tenant: one(user, {
+    fields: [tenancies.tenantId],
+    references: [user.id],
+  }),
+  charges: many(rentCharges),
+  maintenanceTickets: many(maintenanceTickets),
+}));
+
+export const rentChargesRelations = relations(rentCharges, ({ one, many }) => ({
+  tenancy: one(tenancies, {
+    fields: [rentCharges.tenancyId],
+    references: [tenancies.id],
+  }),
+  payments: many(rentPayments),
+  reminders: many(rentReminders),
+}));
+
+export const rentPaymentsRelations = relations(rentPayments, ({ one }) => ({
+  charge: one(rentCharges, {
+    fields: [rentPayments.chargeId],
+    references: [rentCharges.id],
+  }),
+  tenancy: one(tenancies, {
+    fields: [rentPayments.tenancyId],
+    references: [tenancies.id],
+  }),
+  recordedBy: one(user, {
+    fields: [rentPayments.recordedById],
+    references: [user.id],
+  }),
+}));
+
+export const rentRemindersRelations = relations(rentReminders, ({ one }) => ({
+  charge: one(rentCharges, {
+    fields: [rentReminders.chargeId],
+    references: [rentCharges.id],
+  }),
+  user: one(user, {
+    fields: [rentReminders.userId],
+    references: [user.id],
+  }),
+}));
+
+export const maintenanceTicketsRelations = relations(maintenanceTickets, ({ one, many }) => ({
+  tenancy: one(tenancies, {
+    fields: [maintenanceTickets.tenancyId],
+    references: [tenancies.id],
+  }),
+  property: one(properties, {
+    fields: [maintenanceTickets.propertyId],
+    references: [properties.id],
+  }),
+  owner: one(user, {
+    fields: [maintenanceTickets.ownerId],
+    references: [user.id],
+  }),
+  tenant: one(user, {
+    fields: [maintenanceTickets.tenantId],
+    references: [user.id],
+  }),
+  comments: many(maintenanceComments),
+}));
+
+export const maintenanceCommentsRelations = relations(maintenanceComments, ({ one }) => ({
+  ticket: one(maintenanceTickets, {
+    fields: [maintenanceComments.ticketId],
+    references: [maintenanceTickets.id],
+  }),
+  author: one(user, {
+    fields: [maintenanceComments.authorId],
+    references: [user.id],
+  }),
+}));
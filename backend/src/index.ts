@@ -1,10 +1,26 @@
 import { createApplication } from "@specific-dev/framework";
 import * as appSchema from './db/schema.js';
 import * as authSchema from './db/auth-schema.js';
-import { registerPropertiesRoutes } from './routes/properties.js';
+import { registerPropertiesRoutes, backfillPropertySearchVectors, purgeDeletedProperties } from './routes/properties.js';
+import { registerAmenitiesRoutes } from './routes/amenities.js';
+import { registerBuildingsRoutes } from './routes/buildings.js';
 import { registerChatsRoutes } from './routes/chats.js';
+import { registerAppointmentsRoutes } from './routes/appointments.js';
+import { registerFavoritesRoutes } from './routes/favorites.js';
+import { registerSavedSearchesRoutes, runSavedSearchAlerts } from './routes/savedSearches.js';
+import { registerAnalyticsRoutes } from './routes/analytics.js';
+import { registerBulkListingsRoutes } from './routes/bulkListings.js';
+import { registerRevisionsRoutes } from './routes/revisions.js';
+import { registerSimilarListingsRoutes } from './routes/similarListings.js';
+import { registerMarketStatsRoutes } from './routes/marketStats.js';
+import { registerRecommendationsRoutes } from './routes/recommendations.js';
+import { registerApplicationsRoutes } from './routes/applications.js';
+import { registerAgreementsRoutes } from './routes/agreements.js';
+import { registerRentLedgerRoutes, runRentLedgerJob } from './routes/rentLedger.js';
+import { registerMaintenanceRoutes } from './routes/maintenance.js';
 import { registerUploadRoutes } from './routes/upload.js';
 import { registerAuthRoutes } from './routes/auth.js';
+import { getPaymentProvider } from './utils/payments.js';
 
 // Combine schemas for full database type support
 const schema = { ...appSchema, ...authSchema };
@@ -219,8 +235,50 @@ app.withStorage();
 // IMPORTANT: Always use registration functions to avoid circular dependency issues
 registerAuthRoutes(app);
 registerPropertiesRoutes(app);
+registerAmenitiesRoutes(app);
+registerBuildingsRoutes(app);
 registerChatsRoutes(app);
+registerAppointmentsRoutes(app);
+registerFavoritesRoutes(app);
+registerSavedSearchesRoutes(app);
+registerAnalyticsRoutes(app);
+registerBulkListingsRoutes(app);
+registerRevisionsRoutes(app);
+registerSimilarListingsRoutes(app);
+registerMarketStatsRoutes(app);
+registerRecommendationsRoutes(app);
+registerApplicationsRoutes(app);
+registerAgreementsRoutes(app);
+registerRentLedgerRoutes(app, getPaymentProvider(process.env.PAYMENT_PROVIDER, isProduction));
+registerMaintenanceRoutes(app);
 registerUploadRoutes(app);
 
 await app.run();
 app.logger.info('Application running');
+
+// Index any listings that predate full-text search
+await backfillPropertySearchVectors(app);
+
+// Check saved searches against newly published listings every few minutes
+const SAVED_SEARCH_ALERT_INTERVAL_MS = 5 * 60 * 1000;
+setInterval(() => {
+  runSavedSearchAlerts(app).catch((error) => {
+    app.logger.error({ err: error }, 'Saved search alert job failed');
+  });
+}, SAVED_SEARCH_ALERT_INTERVAL_MS);
+
+// Permanently remove listings whose restore window has ended
+const DELETED_PROPERTY_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+setInterval(() => {
+  purgeDeletedProperties(app).catch((error) => {
+    app.logger.error({ err: error }, 'Deleted property purge job failed');
+  });
+}, DELETED_PROPERTY_PURGE_INTERVAL_MS);
+
+// Create upcoming rent charges and record due-date reminders
+const RENT_LEDGER_INTERVAL_MS = 60 * 60 * 1000;
+setInterval(() => {
+  runRentLedgerJob(app).catch((error) => {
+    app.logger.error({ err: error }, 'Rent ledger job failed');
+  });
+}, RENT_LEDGER_INTERVAL_MS);
@@ -0,0 +1,582 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and, or, isNull, asc, desc, sql } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import type { App } from '../index.js';
+import { z } from 'zod';
+import { renderTextPdf } from '../utils/pdf.js';
+import { buildAgreementValues, fillTemplate, findUnknownPlaceholders } from '../utils/agreements.js';
+
+type AgreementLanguage = (typeof schema.AGREEMENT_LANGUAGES)[number];
+type TenancyAgreement = typeof schema.tenancyAgreements.$inferSelect;
+
+const TemplateSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  language: z.enum(schema.AGREEMENT_LANGUAGES),
+  body: z.string().trim().min(1).max(20000),
+});
+
+const GenerateAgreementSchema = z.object({
+  templateId: z.uuid(),
+});
+
+const AcknowledgeAgreementSchema = z.object({
+  version: z.number().int().positive(),
+});
+
+// Posted in the chat by the owner when an agreement is shared
+const AGREEMENT_SHARED_MESSAGES: Record<AgreementLanguage, (title: string) => string> = {
+  en: (title) => `Tenancy agreement for ${title} is ready. Please review and acknowledge it in the app.`,
+  zh: (title) => `「${title}」的租約已備妥，請在應用程式內查閱並確認。`,
+};
+
+// Built-in templates are visible to everyone; owners also see their own
+const visibleTemplates = (userId: string) =>
+  or(isNull(schema.agreementTemplates.ownerId), eq(schema.agreementTemplates.ownerId, userId));
+
+async function findAgreement(app: App, id: string) {
+  return app.db.query.tenancyAgreements.findFirst({
+    where: eq(schema.tenancyAgreements.id, id),
+    with: {
+      property: { columns: { id: true, title: true } },
+      owner: { columns: { id: true, name: true } },
+      tenant: { columns: { id: true, name: true } },
+    },
+  });
+}
+
+// The PDF is private, so it is served through a short-lived signed URL
+async function withAgreementUrl<T extends TenancyAgreement>(app: App, { storageKey, ...agreement }: T) {
+  try {
+    const { url } = await app.storage.getSignedUrl(storageKey);
+    return { ...agreement, url };
+  } catch (err) {
+    app.logger.warn(
+      { agreementId: agreement.id, error: err instanceof Error ? err.message : 'Unknown error' },
+      'Failed to generate signed URL for tenancy agreement'
+    );
+    return { ...agreement, url: null };
+  }
+}
+
+export function registerAgreementsRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  // GET /api/agreement-templates - Returns the built-in templates followed by the authenticated user's own
+  app.fastify.get(
+    '/api/agreement-templates',
+    {
+      schema: {
+        description: 'List tenancy agreement templates',
+        tags: ['agreements'],
+        querystring: {
+          type: 'object',
+          properties: {
+            language: { type: 'string' },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const query = request.query as Record<string, string | undefined>;
+      app.logger.info({ userId: session.user.id, language: query.language }, 'Fetching agreement templates');
+
+      try {
+        const language = z.enum(schema.AGREEMENT_LANGUAGES).optional().parse(query.language || undefined);
+
+        const templates = await app.db
+          .select()
+          .from(schema.agreementTemplates)
+          .where(
+            and(
+              visibleTemplates(session.user.id),
+              language ? eq(schema.agreementTemplates.language, language) : undefined
+            )
+          )
+          .orderBy(
+            // nulls sort last ascending, so flip to put built-ins first
+            desc(isNull(schema.agreementTemplates.ownerId)),
+            asc(schema.agreementTemplates.name)
+          );
+
+        app.logger.info({ userId: session.user.id, count: templates.length }, 'Agreement templates retrieved');
+        return templates;
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          app.logger.warn({ err: error }, 'Validation failed for agreement templates query');
+          return reply.status(400).send({ error: 'Validation failed', details: error.issues });
+        }
+        app.logger.error({ err: error, userId: session.user.id }, 'Failed to fetch agreement templates');
+        throw error;
+      }
+    }
+  );
+
+  // POST /api/agreement-templates - Saves a template owned by the authenticated user. Bodies may only use the
+  // placeholders listed in utils/agreements.ts.
+  app.fastify.post(
+    '/api/agreement-templates',
+    {
+      schema: {
+        description: 'Create a tenancy agreement template',
+        tags: ['agreements'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      app.logger.info({ userId: session.user.id }, 'Creating agreement template');
+
+      try {
+        const data = TemplateSchema.parse(request.body);
+
+        const unknownPlaceholders = findUnknownPlaceholders(data.body);
+        if (unknownPlaceholders.length > 0) {
+          return reply.status(400).send({
+            error: 'Validation failed',
+            message: `Unknown placeholders: ${unknownPlaceholders.join(', ')}`,
+            unknownPlaceholders,
+          });
+        }
+
+        const [template] = await app.db
+          .insert(schema.agreementTemplates)
+          .values({ ...data, ownerId: session.user.id })
+          .returning();
+
+        app.logger.info({ templateId: template.id, userId: session.user.id }, 'Agreement template created');
+        return template;
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          app.logger.warn({ err: error }, 'Validation failed for agreement template');
+          return reply.status(400).send({ error: 'Validation failed', details: error.issues });
+        }
+        app.logger.error({ err: error, userId: session.user.id }, 'Failed to create agreement template');
+        throw error;
+      }
+    }
+  );
+
+  // PUT /api/agreement-templates/:id - Updates a template ONLY IF the authenticated user owns it. Built-in
+  // templates are read-only; save an edited copy instead.
+  app.fastify.put(
+    '/api/agreement-templates/:id',
+    {
+      schema: {
+        description: 'Update a tenancy agreement template',
+        tags: ['agreements'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const params = request.params as Record<string, string>;
+      const { id } = params;
+      app.logger.info({ templateId: id, userId: session.user.id }, 'Updating agreement template');
+
+      try {
+        const data = TemplateSchema.partial().parse(request.body);
+
+        const template = await app.db.query.agreementTemplates.findFirst({
+          where: and(eq(schema.agreementTemplates.id, id), visibleTemplates(session.user.id)),
+          columns: { id: true, ownerId: true },
+        });
+
+        if (!template) {
+          app.logger.warn({ templateId: id }, 'Agreement template not found');
+          return reply.status(404).send({ error: 'Template not found' });
+        }
+
+        if (template.ownerId !== session.user.id) {
+          app.logger.warn({ templateId: id, userId: session.user.id }, 'Attempt to edit built-in agreement template');
+          return reply.status(403).send({ error: 'Unauthorized to edit this template' });
+        }
+
+        const unknownPlaceholders = data.body ? findUnknownPlaceholders(data.body) : [];
+        if (unknownPlaceholders.length > 0) {
+          return reply.status(400).send({
+            error: 'Validation failed',
+            message: `Unknown placeholders: ${unknownPlaceholders.join(', ')}`,
+            unknownPlaceholders,
+          });
+        }
+
+        const [updated] = await app.db
+          .update(schema.agreementTemplates)
+          .set(data)
+          .where(eq(schema.agreementTemplates.id, id))
+          .returning();
+
+        app.logger.info({ templateId: id, userId: session.user.id }, 'Agreement template updated');
+        return updated;
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          app.logger.warn({ err: error, templateId: id }, 'Validation failed for agreement template update');
+          return reply.status(400).send({ error: 'Validation failed', details: error.issues });
+        }
+        app.logger.error({ err: error, templateId: id }, 'Failed to update agreement template');
+        throw error;
+      }
+    }
+  );
+
+  // DELETE /api/agreement-templates/:id - Deletes a template ONLY IF the authenticated user owns it. Agreements
+  // already generated from it keep their PDF.
+  app.fastify.delete(
+    '/api/agreement-templates/:id',
+    {
+      schema: {
+        description: 'Delete a tenancy agreement template',
+        tags: ['agreements'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const params = request.params as Record<string, string>;
+      const { id } = params;
+      app.logger.info({ templateId: id, userId: session.user.id }, 'Deleting agreement template');
+
+      try {
+        const template = await app.db.query.agreementTemplates.findFirst({
+          where: and(eq(schema.agreementTemplates.id, id), visibleTemplates(session.user.id)),
+          columns: { id: true, ownerId: true },
+        });
+
+        if (!template) {
+          app.logger.warn({ templateId: id }, 'Agreement template not found');
+          return reply.status(404).send({ error: 'Template not found' });
+        }
+
+        if (template.ownerId !== session.user.id) {
+          app.logger.warn({ templateId: id, userId: session.user.id }, 'Attempt to delete built-in agreement template');
+          return reply.status(403).send({ error: 'Unauthorized to delete this template' });
+        }
+
+        await app.db.delete(schema.agreementTemplates).where(eq(schema.agreementTemplates.id, id));
+
+        app.logger.info({ templateId: id, userId: session.user.id }, 'Agreement template deleted');
+        return { success: true };
+      } catch (error) {
+        app.logger.error({ err: error, templateId: id }, 'Failed to delete agreement template');
+        throw error;
+      }
+    }
+  );
+
+  // POST /api/applications/:id/agreement - Generates the tenancy agreement PDF for an accepted application from
+  // a template, ONLY IF the authenticated user owns the listing. The PDF is shared in the application's chat.
+  // Generating again replaces the agreement until both parties have acknowledged it.
+  app.fastify.post(
+    '/api/applications/:id/agreement',
+    {
+      schema: {
+        description: 'Generate a tenancy agreement for an accepted application (owner only)',
+        tags: ['agreements'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const params = request.params as Record<string, string>;
+      const { id } = params;
+      const userId = session.user.id;
+      app.logger.info({ applicationId: id, userId, body: request.body }, 'Generating tenancy agreement');
+
+      try {
+        const { templateId } = GenerateAgreementSchema.parse(request.body);
+
+        const application = await app.db.query.rentalApplications.findFirst({
+          where: eq(schema.rentalApplications.id, id),
+          with: {
+            property: {
+              columns: {
+                id: true,
+                ownerId: true,
+                title: true,
+                address: true,
+                district: true,
+                size: true,
+                price: true,
+                depositMonths: true,
+                minLeaseMonths: true,
+              },
+              with: { owner: { columns: { name: true, email: true } } },
+            },
+            applicant: { columns: { name: true, email: true } },
+            agreement: { columns: { id: true, ownerAcknowledgedAt: true, tenantAcknowledgedAt: true } },
+          },
+        });
+
+        if (!application) {
+          app.logger.warn({ applicationId: id }, 'Application not found');
+          return reply.status(404).send({ error: 'Application not found' });
+        }
+
+        const { property, applicant, agreement: existing } = application;
+        if (property.ownerId !== userId) {
+          app.logger.warn({ applicationId: id, userId }, 'Unauthorized tenancy agreement attempt');
+          return reply.status(403).send({ error: 'Unauthorized to create an agreement for this application' });
+        }
+
+        if (application.status !== 'accepted') {
+          return reply.status(409).send({ error: 'Only accepted applications can have a tenancy agreement' });
+        }
+
+        if (existing?.ownerAcknowledgedAt && existing.tenantAcknowledgedAt) {
+          return reply.status(409).send({ error: 'Agreement has already been acknowledged by both parties' });
+        }
+
+        const template = await app.db.query.agreementTemplates.findFirst({
+          where: and(eq(schema.agreementTemplates.id, templateId), visibleTemplates(userId)),
+        });
+
+        if (!template) {
+          app.logger.warn({ templateId }, 'Agreement template not found');
+          return reply.status(404).send({ error: 'Template not found' });
+        }
+
+        const values = buildAgreementValues(
+          { property, application, owner: property.owner, tenant: applicant },
+          template.language,
+          new Date().toISOString().slice(0, 10)
+        );
+        const pdf = renderTextPdf(fillTemplate(template.body, values), {
+          script: template.language === 'zh' ? 'cjk' : 'latin',
+          title: `${template.name} - ${property.title}`,
+        });
+        const storageKey = await app.storage.upload(`tenancy-agreements/${id}/${Date.now()}.pdf`, pdf);
+
+        const agreementId = await app.db.transaction(async (tx) => {
+          const [agreement] = await tx
+            .insert(schema.tenancyAgreements)
+            .values({
+              applicationId: id,
+              propertyId: property.id,
+              ownerId: userId,
+              tenantId: application.applicantId,
+              chatId: application.chatId,
+              templateId: template.id,
+              language: template.language,
+              storageKey,
+            })
+            .onConflictDoUpdate({
+              target: schema.tenancyAgreements.applicationId,
+              set: {
+                templateId: template.id,
+                language: template.language,
+                storageKey,
+                version: sql`${schema.tenancyAgreements.version} + 1`,
+                ownerAcknowledgedAt: null,
+                tenantAcknowledgedAt: null,
+              },
+              // The check above may be stale; an agreement both parties acknowledged is never replaced
+              setWhere: or(
+                isNull(schema.tenancyAgreements.ownerAcknowledgedAt),
+                isNull(schema.tenancyAgreements.tenantAcknowledgedAt)
+              ),
+            })
+            .returning({ id: schema.tenancyAgreements.id });
+
+          if (!agreement) return null;
+
+          if (application.chatId) {
+            const content = AGREEMENT_SHARED_MESSAGES[template.language](property.title);
+            await tx.insert(schema.messages).values({ chatId: application.chatId, senderId: userId, content });
+            await tx
+              .update(schema.chats)
+              .set({ lastMessage: content, lastMessageAt: new Date() })
+              .where(eq(schema.chats.id, application.chatId));
+          }
+
+          return agreement.id;
+        });
+
+        if (!agreementId) {
+          app.logger.warn({ applicationId: id, userId }, 'Agreement acknowledged by both parties before regeneration');
+          return reply.status(409).send({ error: 'Agreement has already been acknowledged by both parties' });
+        }
+
+        app.logger.info(
+          { agreementId, applicationId: id, templateId: template.id, replaced: !!existing, size: pdf.length },
+          'Tenancy agreement generated'
+        );
+        const agreement = await findAgreement(app, agreementId);
+        return withAgreementUrl(app, agreement!);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          app.logger.warn({ err: error, applicationId: id }, 'Validation failed for tenancy agreement');
+          return reply.status(400).send({ error: 'Validation failed', details: error.issues });
+        }
+        app.logger.error({ err: error, applicationId: id, userId }, 'Failed to generate tenancy agreement');
+        throw error;
+      }
+    }
+  );
+
+  // GET /api/agreements - Returns the agreements the authenticated user is a party to, newest first. Pass
+  // chatId to only get the ones shared in that chat.
+  app.fastify.get(
+    '/api/agreements',
+    {
+      schema: {
+        description: 'List my tenancy agreements',
+        tags: ['agreements'],
+        querystring: {
+          type: 'object',
+          properties: {
+            chatId: { type: 'string' },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const query = request.query as Record<string, string | undefined>;
+      const userId = session.user.id;
+      app.logger.info({ userId, chatId: query.chatId }, 'Fetching tenancy agreements');
+
+      try {
+        const chatId = z.uuid().optional().parse(query.chatId || undefined);
+
+        const agreements = await app.db.query.tenancyAgreements.findMany({
+          where: and(
+            or(eq(schema.tenancyAgreements.ownerId, userId), eq(schema.tenancyAgreements.tenantId, userId)),
+            chatId ? eq(schema.tenancyAgreements.chatId, chatId) : undefined
+          ),
+          columns: { storageKey: false },
+          with: { property: { columns: { id: true, title: true } } },
+          orderBy: desc(schema.tenancyAgreements.createdAt),
+        });
+
+        app.logger.info({ userId, count: agreements.length }, 'Tenancy agreements retrieved');
+        return agreements;
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          app.logger.warn({ err: error }, 'Validation failed for agreements query');
+          return reply.status(400).send({ error: 'Validation failed', details: error.issues });
+        }
+        app.logger.error({ err: error, userId }, 'Failed to fetch tenancy agreements');
+        throw error;
+      }
+    }
+  );
+
+  // GET /api/agreements/:id - Returns an agreement with a signed PDF URL ONLY IF the authenticated user is
+  // the owner or the tenant
+  app.fastify.get(
+    '/api/agreements/:id',
+    {
+      schema: {
+        description: 'Get a tenancy agreement',
+        tags: ['agreements'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const params = request.params as Record<string, string>;
+      const { id } = params;
+      app.logger.info({ agreementId: id, userId: session.user.id }, 'Fetching tenancy agreement');
+
+      try {
+        const agreement = await findAgreement(app, id);
+
+        if (!agreement) {
+          app.logger.warn({ agreementId: id }, 'Tenancy agreement not found');
+          return reply.status(404).send({ error: 'Agreement not found' });
+        }
+
+        if (agreement.ownerId !== session.user.id && agreement.tenantId !== session.user.id) {
+          app.logger.warn({ agreementId: id, userId: session.user.id }, 'Unauthorized tenancy agreement access attempt');
+          return reply.status(403).send({ error: 'Unauthorized to view this agreement' });
+        }
+
+        return withAgreementUrl(app, agreement);
+      } catch (error) {
+        app.logger.error({ err: error, agreementId: id }, 'Failed to fetch tenancy agreement');
+        throw error;
+      }
+    }
+  );
+
+  // POST /api/agreements/:id/acknowledge - Records that the authenticated party has read and accepts the
+  // agreement. The body names the version the party read, so an acknowledgement racing a regeneration is
+  // refused rather than applied to a PDF nobody has seen. Acknowledging twice keeps the first time.
+  app.fastify.post(
+    '/api/agreements/:id/acknowledge',
+    {
+      schema: {
+        description: 'Acknowledge a tenancy agreement',
+        tags: ['agreements'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const params = request.params as Record<string, string>;
+      const { id } = params;
+      const userId = session.user.id;
+      app.logger.info({ agreementId: id, userId }, 'Acknowledging tenancy agreement');
+
+      try {
+        const { version } = AcknowledgeAgreementSchema.parse(request.body);
+
+        const agreement = await app.db.query.tenancyAgreements.findFirst({
+          where: eq(schema.tenancyAgreements.id, id),
+          columns: { id: true, ownerId: true, tenantId: true },
+        });
+
+        if (!agreement) {
+          app.logger.warn({ agreementId: id }, 'Tenancy agreement not found');
+          return reply.status(404).send({ error: 'Agreement not found' });
+        }
+
+        const isOwner = agreement.ownerId === userId;
+        if (!isOwner && agreement.tenantId !== userId) {
+          app.logger.warn({ agreementId: id, userId }, 'Unauthorized tenancy agreement acknowledgement attempt');
+          return reply.status(403).send({ error: 'Unauthorized to acknowledge this agreement' });
+        }
+
+        const { ownerAcknowledgedAt, tenantAcknowledgedAt } = schema.tenancyAgreements;
+        const [acknowledged] = await app.db
+          .update(schema.tenancyAgreements)
+          .set(
+            isOwner
+              ? { ownerAcknowledgedAt: sql`coalesce(${ownerAcknowledgedAt}, now())` }
+              : { tenantAcknowledgedAt: sql`coalesce(${tenantAcknowledgedAt}, now())` }
+          )
+          .where(and(eq(schema.tenancyAgreements.id, id), eq(schema.tenancyAgreements.version, version)))
+          .returning({ id: schema.tenancyAgreements.id });
+
+        if (!acknowledged) {
+          app.logger.warn({ agreementId: id, userId, version }, 'Tenancy agreement acknowledged for a stale version');
+          return reply
+            .status(409)
+            .send({ error: 'This agreement has been regenerated. Review the new version before acknowledging it.' });
+        }
+
+        app.logger.info({ agreementId: id, userId, role: isOwner ? 'owner' : 'tenant' }, 'Tenancy agreement acknowledged');
+        const updated = await findAgreement(app, id);
+        return withAgreementUrl(app, updated!);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          app.logger.warn({ err: error, agreementId: id }, 'Validation failed for agreement acknowledgement');
+          return reply.status(400).send({ error: 'Validation failed', details: error.issues });
+        }
+        app.logger.error({ err: error, agreementId: id, userId }, 'Failed to acknowledge tenancy agreement');
+        throw error;
+      }
+    }
+  );
+}
@@ -0,0 +1,33 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { asc } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import type { App } from '../index.js';
+
+export function registerAmenitiesRoutes(app: App) {
+  // GET /api/amenities - Returns the amenities catalogue with labels in every supported language
+  app.fastify.get(
+    '/api/amenities',
+    {
+      schema: {
+        description: 'Get the amenities catalogue',
+        tags: ['amenities'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      app.logger.info('Fetching amenities catalogue');
+
+      try {
+        const amenities = await app.db
+          .select()
+          .from(schema.amenities)
+          .orderBy(asc(schema.amenities.sortOrder), asc(schema.amenities.id));
+
+        app.logger.info({ count: amenities.length }, 'Amenities catalogue retrieved');
+        return amenities;
+      } catch (error) {
+        app.logger.error({ err: error }, 'Failed to fetch amenities catalogue');
+        throw error;
+      }
+    }
+  );
+}
@@ -0,0 +1,131 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and, gte, isNull, count, sql } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import type { App } from '../index.js';
+import { z } from 'zod';
+
+type ListingEventType = (typeof schema.LISTING_EVENT_TYPES)[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_STATS_DAYS = 30;
+const MAX_STATS_DAYS = 90;
+
+const StatsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(MAX_STATS_DAYS).default(DEFAULT_STATS_DAYS),
+});
+
+/**
+ * Records an engagement event against a listing. Analytics must never fail
+ * the request that triggered them, so errors are logged and swallowed.
+ */
+export async function recordListingEvent(app: App, propertyId: string, type: ListingEventType) {
+  try {
+    await app.db.insert(schema.listingEvents).values({ propertyId, type });
+  } catch (error) {
+    app.logger.error({ err: error, propertyId, type }, 'Failed to record listing event');
+  }
+}
+
+export function registerAnalyticsRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  // GET /api/properties/:id/stats - Returns daily view, favorite and chat start counts ONLY IF the property belongs to the authenticated user
+  app.fastify.get(
+    '/api/properties/:id/stats',
+    {
+      schema: {
+        description: 'Get daily engagement stats for a listing (owner only)',
+        tags: ['analytics'],
+        querystring: {
+          type: 'object',
+          properties: {
+            days: { type: 'string' },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const params = request.params as Record<string, string>;
+      const { id } = params;
+      app.logger.info({ propertyId: id, userId: session.user.id, query: request.query }, 'Fetching listing stats');
+
+      try {
+        const { days } = StatsQuerySchema.parse(request.query);
+
+        const property = await app.db.query.properties.findFirst({
+          where: and(eq(schema.properties.id, id), isNull(schema.properties.deletedAt)),
+          columns: { id: true, ownerId: true },
+        });
+
+        if (!property) {
+          app.logger.warn({ propertyId: id }, 'Property not found');
+          return reply.status(404).send({ error: 'Property not found' });
+        }
+
+        if (property.ownerId !== session.user.id) {
+          app.logger.warn(
+            { propertyId: id, userId: session.user.id, ownerId: property.ownerId },
+            'Unauthorized listing stats access attempt'
+          );
+          return reply.status(403).send({ error: 'Unauthorized to view stats for this property' });
+        }
+
+        // Days are UTC calendar days, oldest first, ending today
+        const today = new Date();
+        today.setUTCHours(0, 0, 0, 0);
+        const since = new Date(today.getTime() - (days - 1) * DAY_MS);
+
+        const day = sql<string>`to_char(date_trunc('day', ${schema.listingEvents.createdAt}), 'YYYY-MM-DD')`;
+        const rows = await app.db
+          .select({ day, type: schema.listingEvents.type, count: count() })
+          .from(schema.listingEvents)
+          .where(and(eq(schema.listingEvents.propertyId, id), gte(schema.listingEvents.createdAt, since)))
+          .groupBy(day, schema.listingEvents.type);
+
+        // Days without events are filled with zeros so the client can chart the range directly
+        const daily = Array.from({ length: days }, (_, i) => ({
+          date: new Date(since.getTime() + i * DAY_MS).toISOString().slice(0, 10),
+          views: 0,
+          favorites: 0,
+          chatStarts: 0,
+        }));
+        const byDate = new Map(daily.map((entry) => [entry.date, entry]));
+        for (const row of rows) {
+          const entry = byDate.get(row.day);
+          if (!entry) continue;
+          if (row.type === 'view') entry.views = row.count;
+          else if (row.type === 'favorite') entry.favorites = row.count;
+          else entry.chatStarts = row.count;
+        }
+
+        const totals = daily.reduce(
+          (sum, entry) => ({
+            views: sum.views + entry.views,
+            favorites: sum.favorites + entry.favorites,
+            chatStarts: sum.chatStarts + entry.chatStarts,
+          }),
+          { views: 0, favorites: 0, chatStarts: 0 }
+        );
+
+        app.logger.info({ propertyId: id, days, totals }, 'Listing stats retrieved');
+        return {
+          propertyId: id,
+          days,
+          totals,
+          chatConversionRate: totals.views > 0 ? totals.chatStarts / totals.views : null,
+          daily,
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          app.logger.warn({ err: error, query: request.query }, 'Invalid listing stats query');
+          return reply.status(400).send({ error: 'Validation failed', details: error.issues });
+        }
+        app.logger.error({ err: error, propertyId: id }, 'Failed to fetch listing stats');
+        throw error;
+      }
+    }
+  );
+}
@@ -0,0 +1,662 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and, ne, inArray, isNull, desc, sql } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import type { App } from '../index.js';
+import { z } from 'zod';
+import { recordPropertyRevision } from '../utils/revisions.js';
+import { STATUS_TRANSITIONS } from './properties.js';
+import { APPLICATION_DOCUMENT_PREFIX } from './upload.js';
+
+type ApplicationStatus = (typeof schema.APPLICATION_STATUSES)[number];
+type ApplicationDocument = typeof schema.applicationDocuments.$inferSelect;
+
+const MAX_OCCUPANTS = 20;
+const MAX_DOCUMENTS = 20;
+
+// Applications the owner can still act on, and the applicant can still change
+const OPEN_STATUSES: ApplicationStatus[] = ['submitted', 'info_requested'];
+
+type DbTransaction = Parameters<Parameters<App['db']['transaction']>[0]>[0];
+
+// An accepted application holds its listing until the tenancy started from it
+// ends, so the listing can be let again afterwards
+async function findAcceptedApplication(tx: DbTransaction, propertyId: string) {
+  return tx.query.rentalApplications.findFirst({
+    where: and(
+      eq(schema.rentalApplications.propertyId, propertyId),
+      eq(schema.rentalApplications.status, 'accepted'),
+      sql`not exists (
+        select 1 from tenancies t
+        where t.application_id = ${schema.rentalApplications.id} and t.status = 'ended'
+      )`
+    ),
+    columns: { id: true },
+  });
+}
+
+// Applications and decisions on the same listing take turns on its row
+async function lockProperty(tx: DbTransaction, propertyId: string) {
+  await tx
+    .select({ id: schema.properties.id })
+    .from(schema.properties)
+    .where(eq(schema.properties.id, propertyId))
+    .for('update');
+}
+
+const DocumentSchema = z.object({
+  type: z.enum(schema.APPLICATION_DOCUMENT_TYPES),
+  key: z.string().min(1),
+  filename: z.string().trim().min(1).max(255),
+});
+
+const ApplicationFieldsSchema = z.object({
+  moveInDate: z.iso.date(),
+  occupants: z.number().int().min(1).max(MAX_OCCUPANTS),
+  monthlyIncome: z.number().positive(),
+  message: z.string().trim().max(2000).nullable().optional(),
+});
+
+const CreateApplicationSchema = ApplicationFieldsSchema.extend({
+  documents: z.array(DocumentSchema).max(MAX_DOCUMENTS),
+});
+
+// Answering an info request: any field can change and more documents can be added
+const UpdateApplicationSchema = ApplicationFieldsSchema.partial().extend({
+  documents: z.array(DocumentSchema).max(MAX_DOCUMENTS).default([]),
+});
+
+const DecisionSchema = z
+  .object({
+    decision: z.enum(['accept', 'reject', 'request_info']),
+    note: z.string().trim().max(1000).optional(),
+    markRented: z.boolean().default(false),
+  })
+  .refine((body) => body.decision !== 'request_info' || !!body.note, {
+    message: 'note is required when requesting more information',
+    path: ['note'],
+  });
+
+const DECISION_STATUSES: Record<z.infer<typeof DecisionSchema>['decision'], ApplicationStatus> = {
+  accept: 'accepted',
+  reject: 'rejected',
+  request_info: 'info_requested',
+};
+
+// Postgres unique_violation, raised by rental_applications_open_idx when an
+// applicant already has an open application. Drizzle wraps driver errors in `cause`.
+function isUniqueViolation(error: unknown): boolean {
+  const err = error as { code?: string; cause?: { code?: string } } | null;
+  return err?.code === '23505' || err?.cause?.code === '23505';
+}
+
+// Document keys must come from the applicant's own uploads
+const isOwnDocumentKey = (key: string, userId: string) => key.startsWith(`${APPLICATION_DOCUMENT_PREFIX}/${userId}/`);
+
+async function findApplication(app: App, id: string) {
+  return app.db.query.rentalApplications.findFirst({
+    where: eq(schema.rentalApplications.id, id),
+    with: {
+      property: {
+        columns: { id: true, title: true, district: true, price: true, status: true, ownerId: true },
+      },
+      applicant: { columns: { id: true, name: true, email: true } },
+      documents: { orderBy: schema.applicationDocuments.createdAt },
+      agreement: { columns: { id: true, ownerAcknowledgedAt: true, tenantAcknowledgedAt: true } },
+      tenancy: { columns: { id: true } },
+    },
+  });
+}
+
+// Documents are private, so each is served through a short-lived signed URL
+async function withDocumentUrls(app: App, documents: ApplicationDocument[]) {
+  return Promise.all(
+    documents.map(async ({ storageKey, ...document }) => {
+      try {
+        const { url } = await app.storage.getSignedUrl(storageKey);
+        return { ...document, url };
+      } catch (err) {
+        app.logger.warn(
+          { documentId: document.id, error: err instanceof Error ? err.message : 'Unknown error' },
+          'Failed to generate signed URL for application document'
+        );
+        return { ...document, url: null };
+      }
+    })
+  );
+}
+
+export function registerApplicationsRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  // POST /api/properties/:id/applications - Submits a rental application for a published rental listing. The applicant
+  // must have chatted with the owner about it and attach ID, employment and income documents uploaded through
+  // POST /api/upload/application-document. Listings with an accepted application take no more.
+  app.fastify.post(
+    '/api/properties/:id/applications',
+    {
+      schema: {
+        description: 'Apply to rent a property',
+        tags: ['applications'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const params = request.params as Record<string, string>;
+      const { id } = params;
+      const userId = session.user.id;
+      app.logger.info({ propertyId: id, userId }, 'Submitting rental application');
+
+      try {
+        const { documents, ...fields } = CreateApplicationSchema.parse(request.body);
+
+        const property = await app.db.query.properties.findFirst({
+          where: and(eq(schema.properties.id, id), isNull(schema.properties.deletedAt)),
+          columns: { id: true, ownerId: true, status: true, listingType: true },
+        });
+
+        if (!property) {
+          app.logger.warn({ propertyId: id }, 'Property not found');
+          return reply.status(404).send({ error: 'Property not found' });
+        }
+
+        if (property.ownerId === userId) {
+          return reply.status(400).send({ error: 'Cannot apply for your own property' });
+        }
+
+        if (property.status !== 'published') {
+          return reply.status(400).send({ error: 'Property is not available' });
+        }
+
+        if (property.listingType !== 'rent') {
+          return reply.status(400).send({ error: 'Applications are only for rental listings' });
+        }
+
+        const chat = await app.db.query.chats.findFirst({
+          where: and(eq(schema.chats.propertyId, id), eq(schema.chats.renteeId, userId)),
+          columns: { id: true },
+        });
+
+        if (!chat) {
+          return reply.status(400).send({ error: 'Chat with the owner before applying' });
+        }
+
+        const missingTypes = schema.APPLICATION_DOCUMENT_TYPES.filter(
+          (type) => !documents.some((document) => document.type === type)
+        );
+        if (missingTypes.length > 0) {
+          return reply.status(400).send({
+            error: 'Validation failed',
+            message: `Missing documents: ${missingTypes.join(', ')}`,
+            missingTypes,
+          });
+        }
+
+        if (documents.some((document) => !isOwnDocumentKey(document.key, userId))) {
+          app.logger.warn({ propertyId: id, userId }, 'Application document not uploaded by applicant');
+          return reply
+            .status(400)
+            .send({ error: 'Validation failed', message: 'Documents must be uploaded by the applicant' });
+        }
+
+        let applicationId: string | null;
+        try {
+          applicationId = await app.db.transaction(async (tx) => {
+            await lockProperty(tx, id);
+            if (await findAcceptedApplication(tx, id)) return null;
+
+            const [application] = await tx
+              .insert(schema.rentalApplications)
+              .values({
+                propertyId: id,
+                applicantId: userId,
+                chatId: chat.id,
+                moveInDate: fields.moveInDate,
+                occupants: fields.occupants,
+                monthlyIncome: String(fields.monthlyIncome),
+                message: fields.message ?? null,
+              })
+              .returning({ id: schema.rentalApplications.id });
+
+            await tx.insert(schema.applicationDocuments).values(
+              documents.map((document) => ({
+                applicationId: application.id,
+                type: document.type,
+                storageKey: document.key,
+                filename: document.filename,
+              }))
+            );
+            return application.id;
+          });
+        } catch (error) {
+          if (isUniqueViolation(error)) {
+            const existing = await app.db.query.rentalApplications.findFirst({
+              where: and(
+                eq(schema.rentalApplications.propertyId, id),
+                eq(schema.rentalApplications.applicantId, userId),
+                inArray(schema.rentalApplications.status, OPEN_STATUSES)
+              ),
+              columns: { id: true },
+            });
+            app.logger.warn({ propertyId: id, userId }, 'Open rental application already exists');
+            return reply.status(409).send({
+              error: 'You already have an open application for this property',
+              applicationId: existing?.id,
+            });
+          }
+          throw error;
+        }
+
+        if (!applicationId) {
+          app.logger.warn({ propertyId: id, userId }, 'Property already has an accepted application');
+          return reply.status(409).send({ error: 'This property has already accepted an application' });
+        }
+
+        app.logger.info({ applicationId, propertyId: id, userId }, 'Rental application submitted');
+        const application = await findApplication(app, applicationId);
+        return { ...application, documents: await withDocumentUrls(app, application!.documents) };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          app.logger.warn({ err: error, propertyId: id }, 'Validation failed for rental application');
+          return reply.status(400).send({ error: 'Validation failed', details: error.issues });
+        }
+        app.logger.error({ err: error, propertyId: id, userId }, 'Failed to submit rental application');
+        throw error;
+      }
+    }
+  );
+
+  // GET /api/properties/:id/applications - Returns every application for the property, newest first, ONLY IF
+  // property.ownerId matches authenticated user. Documents are listed without URLs; open one application to view them.
+  app.fastify.get(
+    '/api/properties/:id/applications',
+    {
+      schema: {
+        description: 'List rental applications for a property (owner only)',
+        tags: ['applications'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const params = request.params as Record<string, string>;
+      const { id } = params;
+      app.logger.info({ propertyId: id, userId: session.user.id }, 'Fetching property applications');
+
+      try {
+        const property = await app.db.query.properties.findFirst({
+          where: and(eq(schema.properties.id, id), isNull(schema.properties.deletedAt)),
+          columns: { id: true, ownerId: true },
+        });
+
+        if (!property) {
+          app.logger.warn({ propertyId: id }, 'Property not found');
+          return reply.status(404).send({ error: 'Property not found' });
+        }
+
+        if (property.ownerId !== session.user.id) {
+          app.logger.warn(
+            { propertyId: id, userId: session.user.id, ownerId: property.ownerId },
+            'Unauthorized property applications access attempt'
+          );
+          return reply.status(403).send({ error: 'Unauthorized to view applications for this property' });
+        }
+
+        const applications = await app.db.query.rentalApplications.findMany({
+          where: eq(schema.rentalApplications.propertyId, id),
+          with: {
+            applicant: { columns: { id: true, name: true } },
+            documents: { columns: { id: true, type: true, filename: true } },
+          },
+          orderBy: desc(schema.rentalApplications.createdAt),
+        });
+
+        app.logger.info({ propertyId: id, count: applications.length }, 'Property applications retrieved');
+        return applications;
+      } catch (error) {
+        app.logger.error({ err: error, propertyId: id }, 'Failed to fetch property applications');
+        throw error;
+      }
+    }
+  );
+
+  // GET /api/applications - Returns the authenticated user's own applications, newest first
+  app.fastify.get(
+    '/api/applications',
+    {
+      schema: {
+        description: 'List my rental applications',
+        tags: ['applications'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      app.logger.info({ userId: session.user.id }, 'Fetching my applications');
+
+      try {
+        const applications = await app.db.query.rentalApplications.findMany({
+          where: eq(schema.rentalApplications.applicantId, session.user.id),
+          with: {
+            property: { columns: { id: true, title: true, district: true, price: true, status: true } },
+            documents: { columns: { id: true, type: true, filename: true } },
+          },
+          orderBy: desc(schema.rentalApplications.createdAt),
+        });
+
+        app.logger.info({ userId: session.user.id, count: applications.length }, 'Applications retrieved');
+        return applications;
+      } catch (error) {
+        app.logger.error({ err: error, userId: session.user.id }, 'Failed to fetch applications');
+        throw error;
+      }
+    }
+  );
+
+  // GET /api/applications/:id - Returns an application with signed document URLs ONLY IF the authenticated user
+  // is the applicant or the listing owner
+  app.fastify.get(
+    '/api/applications/:id',
+    {
+      schema: {
+        description: 'Get a rental application',
+        tags: ['applications'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const params = request.params as Record<string, string>;
+      const { id } = params;
+      app.logger.info({ applicationId: id, userId: session.user.id }, 'Fetching application');
+
+      try {
+        const application = await findApplication(app, id);
+
+        if (!application) {
+          app.logger.warn({ applicationId: id }, 'Application not found');
+          return reply.status(404).send({ error: 'Application not found' });
+        }
+
+        if (application.applicantId !== session.user.id && application.property.ownerId !== session.user.id) {
+          app.logger.warn({ applicationId: id, userId: session.user.id }, 'Unauthorized application access attempt');
+          return reply.status(403).send({ error: 'Unauthorized to view this application' });
+        }
+
+        return { ...application, documents: await withDocumentUrls(app, application.documents) };
+      } catch (error) {
+        app.logger.error({ err: error, applicationId: id }, 'Failed to fetch application');
+        throw error;
+      }
+    }
+  );
+
+  // PUT /api/applications/:id - Lets the applicant change an open application and attach more documents. An
+  // application waiting on requested information goes back to submitted for the owner to review.
+  app.fastify.put(
+    '/api/applications/:id',
+    {
+      schema: {
+        description: 'Update a rental application',
+        tags: ['applications'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const params = request.params as Record<string, string>;
+      const { id } = params;
+      const userId = session.user.id;
+      app.logger.info({ applicationId: id, userId }, 'Updating application');
+
+      try {
+        const { documents, ...fields } = UpdateApplicationSchema.parse(request.body);
+
+        const application = await app.db.query.rentalApplications.findFirst({
+          where: eq(schema.rentalApplications.id, id),
+          columns: { id: true, applicantId: true, status: true },
+        });
+
+        if (!application) {
+          app.logger.warn({ applicationId: id }, 'Application not found');
+          return reply.status(404).send({ error: 'Application not found' });
+        }
+
+        if (application.applicantId !== userId) {
+          app.logger.warn({ applicationId: id, userId }, 'Unauthorized application update attempt');
+          return reply.status(403).send({ error: 'Unauthorized to update this application' });
+        }
+
+        if (!OPEN_STATUSES.includes(application.status)) {
+          return reply.status(409).send({ error: `Application is already ${application.status}` });
+        }
+
+        if (documents.some((document) => !isOwnDocumentKey(document.key, userId))) {
+          app.logger.warn({ applicationId: id, userId }, 'Application document not uploaded by applicant');
+          return reply
+            .status(400)
+            .send({ error: 'Validation failed', message: 'Documents must be uploaded by the applicant' });
+        }
+
+        await app.db.transaction(async (tx) => {
+          await tx
+            .update(schema.rentalApplications)
+            .set({
+              ...(fields.moveInDate !== undefined ? { moveInDate: fields.moveInDate } : {}),
+              ...(fields.occupants !== undefined ? { occupants: fields.occupants } : {}),
+              ...(fields.monthlyIncome !== undefined ? { monthlyIncome: String(fields.monthlyIncome) } : {}),
+              ...(fields.message !== undefined ? { message: fields.message } : {}),
+              status: 'submitted',
+            })
+            .where(eq(schema.rentalApplications.id, id));
+
+          if (documents.length > 0) {
+            await tx.insert(schema.applicationDocuments).values(
+              documents.map((document) => ({
+                applicationId: id,
+                type: document.type,
+                storageKey: document.key,
+                filename: document.filename,
+              }))
+            );
+          }
+        });
+
+        app.logger.info({ applicationId: id, userId, addedDocuments: documents.length }, 'Application updated');
+        const updated = await findApplication(app, id);
+        return { ...updated, documents: await withDocumentUrls(app, updated!.documents) };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          app.logger.warn({ err: error, applicationId: id }, 'Validation failed for application update');
+          return reply.status(400).send({ error: 'Validation failed', details: error.issues });
+        }
+        app.logger.error({ err: error, applicationId: id, userId }, 'Failed to update application');
+        throw error;
+      }
+    }
+  );
+
+  // POST /api/applications/:id/decision - Accepts, rejects or asks for more information on an open application
+  // ONLY IF the authenticated user owns the listing. Accepting rejects the other open applications for the
+  // listing and is refused while another accepted application holds it; with markRented the listing also
+  // moves to rented.
+  app.fastify.post(
+    '/api/applications/:id/decision',
+    {
+      schema: {
+        description: 'Accept, reject or request more information on a rental application (owner only)',
+        tags: ['applications'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const params = request.params as Record<string, string>;
+      const { id } = params;
+      const userId = session.user.id;
+      app.logger.info({ applicationId: id, userId, body: request.body }, 'Deciding on application');
+
+      try {
+        const { decision, note, markRented } = DecisionSchema.parse(request.body);
+
+        const application = await findApplication(app, id);
+
+        if (!application) {
+          app.logger.warn({ applicationId: id }, 'Application not found');
+          return reply.status(404).send({ error: 'Application not found' });
+        }
+
+        if (application.property.ownerId !== userId) {
+          app.logger.warn({ applicationId: id, userId }, 'Unauthorized application decision attempt');
+          return reply.status(403).send({ error: 'Unauthorized to decide on this application' });
+        }
+
+        if (!OPEN_STATUSES.includes(application.status)) {
+          return reply.status(409).send({ error: `Application is already ${application.status}` });
+        }
+
+        const { property } = application;
+        const rentListing = decision === 'accept' && markRented;
+        if (rentListing && !STATUS_TRANSITIONS[property.status].includes('rented')) {
+          return reply.status(409).send({
+            error: 'Invalid status transition',
+            message: `Cannot change status from ${property.status} to rented`,
+          });
+        }
+
+        const status = DECISION_STATUSES[decision];
+        const outcome = await app.db.transaction(async (tx) => {
+          // Decisions on the same listing take turns, so two accepts cannot both go through
+          await lockProperty(tx, property.id);
+
+          if (decision === 'accept' && (await findAcceptedApplication(tx, property.id))) {
+            return 'taken' as const;
+          }
+
+          // Only open applications can be decided; the check above may be stale by now
+          const [row] = await tx
+            .update(schema.rentalApplications)
+            .set({
+              status,
+              ownerNote: note ?? null,
+              decidedAt: decision === 'request_info' ? null : new Date(),
+            })
+            .where(
+              and(eq(schema.rentalApplications.id, id), inArray(schema.rentalApplications.status, OPEN_STATUSES))
+            )
+            .returning({ id: schema.rentalApplications.id });
+
+          if (!row) return 'closed' as const;
+          if (decision !== 'accept') return 'decided' as const;
+
+          // The unit is taken, so everyone else still waiting hears back
+          await tx
+            .update(schema.rentalApplications)
+            .set({ status: 'rejected', decidedAt: new Date() })
+            .where(
+              and(
+                eq(schema.rentalApplications.propertyId, property.id),
+                ne(schema.rentalApplications.id, id),
+                inArray(schema.rentalApplications.status, OPEN_STATUSES)
+              )
+            );
+
+          if (!rentListing) return 'decided' as const;
+
+          await tx.update(schema.properties).set({ status: 'rented' }).where(eq(schema.properties.id, property.id));
+          await recordPropertyRevision(tx, {
+            propertyId: property.id,
+            userId,
+            action: 'status',
+            changes: { status: { from: property.status, to: 'rented' } },
+          });
+          return 'decided' as const;
+        });
+
+        if (outcome === 'taken') {
+          app.logger.warn(
+            { applicationId: id, propertyId: property.id, userId },
+            'Property already has an accepted application'
+          );
+          return reply.status(409).send({ error: 'Another application for this property has already been accepted' });
+        }
+
+        if (outcome === 'closed') {
+          app.logger.warn({ applicationId: id, userId }, 'Application was decided or withdrawn concurrently');
+          return reply.status(409).send({ error: 'Application is no longer open' });
+        }
+
+        app.logger.info(
+          { applicationId: id, propertyId: property.id, userId, status, markedRented: rentListing },
+          'Application decided'
+        );
+        const updated = await findApplication(app, id);
+        return { ...updated, documents: await withDocumentUrls(app, updated!.documents) };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          app.logger.warn({ err: error, applicationId: id }, 'Validation failed for application decision');
+          return reply.status(400).send({ error: 'Validation failed', details: error.issues });
+        }
+        app.logger.error({ err: error, applicationId: id, userId }, 'Failed to decide on application');
+        throw error;
+      }
+    }
+  );
+
+  // POST /api/applications/:id/withdraw - Withdraws an open application ONLY IF the authenticated user is the applicant
+  app.fastify.post(
+    '/api/applications/:id/withdraw',
+    {
+      schema: {
+        description: 'Withdraw a rental application',
+        tags: ['applications'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const params = request.params as Record<string, string>;
+      const { id } = params;
+      app.logger.info({ applicationId: id, userId: session.user.id }, 'Withdrawing application');
+
+      try {
+        const application = await app.db.query.rentalApplications.findFirst({
+          where: eq(schema.rentalApplications.id, id),
+          columns: { id: true, applicantId: true, status: true },
+        });
+
+        if (!application) {
+          app.logger.warn({ applicationId: id }, 'Application not found');
+          return reply.status(404).send({ error: 'Application not found' });
+        }
+
+        if (application.applicantId !== session.user.id) {
+          app.logger.warn({ applicationId: id, userId: session.user.id }, 'Unauthorized application withdrawal attempt');
+          return reply.status(403).send({ error: 'Unauthorized to withdraw this application' });
+        }
+
+        if (!OPEN_STATUSES.includes(application.status)) {
+          return reply.status(409).send({ error: `Application is already ${application.status}` });
+        }
+
+        await app.db
+          .update(schema.rentalApplications)
+          .set({ status: 'withdrawn' })
+          .where(eq(schema.rentalApplications.id, id));
+
+        app.logger.info({ applicationId: id, userId: session.user.id }, 'Application withdrawn');
+        return { success: true };
+      } catch (error) {
+        app.logger.error({ err: error, applicationId: id }, 'Failed to withdraw application');
+        throw error;
+      }
+    }
+  );
+}
@@ -0,0 +1,628 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { eq, or, and, ne, gt, lt, isNull, asc } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import type { App } from '../index.js';
+import { z } from 'zod';
+
+const MAX_SLOT_MINUTES = 4 * 60;
+
+const CreateSlotSchema = z
+  .object({
+    startsAt: z.coerce.date(),
+    endsAt: z.coerce.date(),
+  })
+  .refine((slot) => slot.endsAt > slot.startsAt, {
+    message: 'endsAt must be after startsAt',
+  })
+  .refine((slot) => slot.endsAt.getTime() - slot.startsAt.getTime() <= MAX_SLOT_MINUTES * 60 * 1000, {
+    message: `Slots can be at most ${MAX_SLOT_MINUTES} minutes long`,
+  });
+
+const BookSlotSchema = z.object({
+  chatId: z.uuid().optional(),
+});
+
+const RescheduleAppointmentSchema = z.object({
+  slotId: z.uuid(),
+});
+
+// Postgres unique_violation, raised by appointments_active_slot_idx when two
+// bookings race for the same slot and by appointments_active_tenant_property_idx
+// when one tenant books the same listing twice. Drizzle wraps driver errors in `cause`.
+function isUniqueViolation(error: unknown, constraint?: string): boolean {
+  type PgError = { code?: string; constraint?: string };
+  const err = error as (PgError & { cause?: PgError }) | null;
+  const pgError = err?.code === '23505' ? err : err?.cause;
+  return pgError?.code === '23505' && (!constraint || pgError.constraint === constraint);
+}
+
+// Join condition matching the appointment (if any) currently holding a slot
+const activeAppointmentForSlot = and(
+  eq(schema.appointments.slotId, schema.viewingSlots.id),
+  ne(schema.appointments.status, 'cancelled')
+);
+
+async function findAppointment(app: App, id: string) {
+  return app.db.query.appointments.findFirst({
+    where: eq(schema.appointments.id, id),
+    with: {
+      slot: {
+        columns: { id: true, startsAt: true, endsAt: true },
+      },
+      property: {
+        columns: { id: true, title: true, district: true },
+      },
+    },
+  });
+}
+
+async function isSlotTaken(app: App, slotId: string): Promise<boolean> {
+  const [active] = await app.db
+    .select({ id: schema.appointments.id })
+    .from(schema.appointments)
+    .where(and(eq(schema.appointments.slotId, slotId), ne(schema.appointments.status, 'cancelled')))
+    .limit(1);
+  return !!active;
+}
+
+export function registerAppointmentsRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  // GET /api/properties/:id/viewing-slots - Upcoming slots. Owners see every slot with its booking; others see free slots only
+  app.fastify.get(
+    '/api/properties/:id/viewing-slots',
+    {
+      schema: {
+        description: 'Get upcoming viewing slots for a property',
+        tags: ['appointments'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const params = request.params as Record<string, string>;
+      const { id } = params;
+      app.logger.info({ propertyId: id, userId: session.user.id }, 'Fetching viewing slots');
+
+      try {
+        const property = await app.db.query.properties.findFirst({
+          where: and(eq(schema.properties.id, id), isNull(schema.properties.deletedAt)),
+          columns: { id: true, ownerId: true },
+        });
+
+        if (!property) {
+          app.logger.warn({ propertyId: id }, 'Property not found');
+          return reply.status(404).send({ error: 'Property not found' });
+        }
+
+        const slots = await app.db
+          .select({
+            id: schema.viewingSlots.id,
+            startsAt: schema.viewingSlots.startsAt,
+            endsAt: schema.viewingSlots.endsAt,
+            appointmentId: schema.appointments.id,
+            appointmentStatus: schema.appointments.status,
+            tenantId: schema.appointments.tenantId,
+          })
+          .from(schema.viewingSlots)
+          .leftJoin(schema.appointments, activeAppointmentForSlot)
+          .where(and(eq(schema.viewingSlots.propertyId, id), gt(schema.viewingSlots.startsAt, new Date())))
+          .orderBy(asc(schema.viewingSlots.startsAt));
+
+        const isOwner = property.ownerId === session.user.id;
+        const result = isOwner
+          ? slots.map(({ appointmentId, appointmentStatus, tenantId, ...slot }) => ({
+              ...slot,
+              booked: !!appointmentId,
+              appointment: appointmentId ? { id: appointmentId, status: appointmentStatus, tenantId } : null,
+            }))
+          : slots
+              .filter((slot) => !slot.appointmentId)
+              .map(({ id: slotId, startsAt, endsAt }) => ({ id: slotId, startsAt, endsAt, booked: false }));
+
+        app.logger.info({ propertyId: id, count: result.length, isOwner }, 'Viewing slots retrieved');
+        return result;
+      } catch (error) {
+        app.logger.error({ err: error, propertyId: id }, 'Failed to fetch viewing slots');
+        throw error;
+      }
+    }
+  );
+
+  // POST /api/properties/:id/viewing-slots - Adds a viewing slot ONLY IF property.ownerId matches authenticated user
+  app.fastify.post(
+    '/api/properties/:id/viewing-slots',
+    {
+      schema: {
+        description: 'Add a viewing slot to a property',
+        tags: ['appointments'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const params = request.params as Record<string, string>;
+      const { id } = params;
+      app.logger.info(
+        { propertyId: id, userId: session.user.id, body: request.body },
+        'Creating viewing slot'
+      );
+
+      try {
+        const property = await app.db.query.properties.findFirst({
+          where: and(eq(schema.properties.id, id), isNull(schema.properties.deletedAt)),
+          columns: { id: true, ownerId: true },
+        });
+
+        if (!property) {
+          app.logger.warn({ propertyId: id }, 'Property not found');
+          return reply.status(404).send({ error: 'Property not found' });
+        }
+
+        if (property.ownerId !== session.user.id) {
+          app.logger.warn(
+            { propertyId: id, userId: session.user.id, ownerId: property.ownerId },
+            'Unauthorized viewing slot creation attempt'
+          );
+          return reply
+            .status(403)
+            .send({ error: 'Unauthorized to add viewing slots to this property' });
+        }
+
+        const { startsAt, endsAt } = CreateSlotSchema.parse(request.body);
+
+        if (startsAt <= new Date()) {
+          return reply
+            .status(400)
+            .send({ error: 'Validation failed', message: 'Viewing slots must start in the future' });
+        }
+
+        const [overlapping] = await app.db
+          .select({ id: schema.viewingSlots.id })
+          .from(schema.viewingSlots)
+          .where(
+            and(
+              eq(schema.viewingSlots.propertyId, id),
+              lt(schema.viewingSlots.startsAt, endsAt),
+              gt(schema.viewingSlots.endsAt, startsAt)
+            )
+          )
+          .limit(1);
+
+        if (overlapping) {
+          app.logger.warn({ propertyId: id, overlappingSlotId: overlapping.id }, 'Overlapping viewing slot');
+          return reply
+            .status(409)
+            .send({ error: 'Viewing slot overlaps an existing slot', slotId: overlapping.id });
+        }
+
+        const [slot] = await app.db
+          .insert(schema.viewingSlots)
+          .values({ propertyId: id, startsAt, endsAt })
+          .returning();
+
+        app.logger.info({ slotId: slot.id, propertyId: id }, 'Viewing slot created');
+        return { ...slot, booked: false, appointment: null };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          app.logger.warn({ err: error, propertyId: id }, 'Validation failed for viewing slot creation');
+          return reply.status(400).send({ error: 'Validation failed', details: error.issues });
+        }
+        app.logger.error(
+          { err: error, propertyId: id, userId: session.user.id },
+          'Failed to create viewing slot'
+        );
+        throw error;
+      }
+    }
+  );
+
+  // DELETE /api/viewing-slots/:slotId - Removes an unbooked slot ONLY IF the authenticated user owns the property
+  app.fastify.delete(
+    '/api/viewing-slots/:slotId',
+    {
+      schema: {
+        description: 'Delete a viewing slot that has no active booking',
+        tags: ['appointments'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const params = request.params as Record<string, string>;
+      const { slotId } = params;
+      app.logger.info({ slotId, userId: session.user.id }, 'Deleting viewing slot');
+
+      try {
+        const slot = await app.db.query.viewingSlots.findFirst({
+          where: eq(schema.viewingSlots.id, slotId),
+          with: { property: { columns: { ownerId: true } } },
+        });
+
+        if (!slot) {
+          app.logger.warn({ slotId }, 'Viewing slot not found');
+          return reply.status(404).send({ error: 'Viewing slot not found' });
+        }
+
+        if (slot.property.ownerId !== session.user.id) {
+          app.logger.warn({ slotId, userId: session.user.id }, 'Unauthorized viewing slot deletion attempt');
+          return reply
+            .status(403)
+            .send({ error: 'Unauthorized to delete this viewing slot' });
+        }
+
+        if (await isSlotTaken(app, slotId)) {
+          app.logger.warn({ slotId }, 'Cannot delete booked viewing slot');
+          return reply
+            .status(409)
+            .send({ error: 'Viewing slot is booked. Cancel or reschedule the appointment first.' });
+        }
+
+        await app.db.delete(schema.viewingSlots).where(eq(schema.viewingSlots.id, slotId));
+
+        app.logger.info({ slotId, userId: session.user.id }, 'Viewing slot deleted');
+        return { success: true };
+      } catch (error) {
+        app.logger.error({ err: error, slotId, userId: session.user.id }, 'Failed to delete viewing slot');
+        throw error;
+      }
+    }
+  );
+
+  // POST /api/viewing-slots/:slotId/book - Books a free slot for the authenticated user
+  app.fastify.post(
+    '/api/viewing-slots/:slotId/book',
+    {
+      schema: {
+        description: 'Book a viewing slot, optionally from a chat about the property',
+        tags: ['appointments'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const params = request.params as Record<string, string>;
+      const { slotId } = params;
+      app.logger.info({ slotId, userId: session.user.id, body: request.body }, 'Booking viewing slot');
+
+      try {
+        const { chatId } = BookSlotSchema.parse(request.body ?? {});
+
+        const slot = await app.db.query.viewingSlots.findFirst({
+          where: eq(schema.viewingSlots.id, slotId),
+          with: { property: { columns: { id: true, ownerId: true, status: true, deletedAt: true } } },
+        });
+
+        if (!slot) {
+          app.logger.warn({ slotId }, 'Viewing slot not found');
+          return reply.status(404).send({ error: 'Viewing slot not found' });
+        }
+
+        if (slot.property.ownerId === session.user.id) {
+          return reply
+            .status(400)
+            .send({ error: 'Cannot book a viewing of your own property' });
+        }
+
+        if (slot.property.status !== 'published' || slot.property.deletedAt) {
+          return reply.status(400).send({ error: 'Property is not available' });
+        }
+
+        if (slot.startsAt <= new Date()) {
+          return reply.status(400).send({ error: 'Viewing slot has already started' });
+        }
+
+        if (chatId) {
+          const chat = await app.db.query.chats.findFirst({
+            where: eq(schema.chats.id, chatId),
+          });
+          if (!chat || chat.propertyId !== slot.property.id || chat.renteeId !== session.user.id) {
+            app.logger.warn({ chatId, slotId, userId: session.user.id }, 'Chat does not match viewing booking');
+            return reply
+              .status(400)
+              .send({ error: 'Validation failed', message: 'chatId must be your chat about this property' });
+          }
+        }
+
+        const [existing] = await app.db
+          .select({ id: schema.appointments.id })
+          .from(schema.appointments)
+          .where(
+            and(
+              eq(schema.appointments.propertyId, slot.property.id),
+              eq(schema.appointments.tenantId, session.user.id),
+              ne(schema.appointments.status, 'cancelled')
+            )
+          )
+          .limit(1);
+
+        if (existing) {
+          return reply.status(409).send({
+            error: 'You already have a viewing booked for this property. Reschedule it instead.',
+            appointmentId: existing.id,
+          });
+        }
+
+        let appointmentId: string;
+        try {
+          const [appointment] = await app.db
+            .insert(schema.appointments)
+            .values({
+              slotId,
+              propertyId: slot.property.id,
+              ownerId: slot.property.ownerId,
+              tenantId: session.user.id,
+              chatId,
+              requestedBy: session.user.id,
+            })
+            .returning({ id: schema.appointments.id });
+          appointmentId = appointment.id;
+        } catch (error) {
+          if (isUniqueViolation(error, 'appointments_active_tenant_property_idx')) {
+            app.logger.warn({ slotId, userId: session.user.id }, 'Viewing already booked for this property');
+            return reply
+              .status(409)
+              .send({ error: 'You already have a viewing booked for this property. Reschedule it instead.' });
+          }
+          if (isUniqueViolation(error)) {
+            app.logger.warn({ slotId, userId: session.user.id }, 'Viewing slot already booked');
+            return reply.status(409).send({ error: 'Viewing slot is already booked' });
+          }
+          throw error;
+        }
+
+        app.logger.info({ appointmentId, slotId, userId: session.user.id }, 'Viewing slot booked');
+        return await findAppointment(app, appointmentId);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          app.logger.warn({ err: error, slotId }, 'Validation failed for viewing booking');
+          return reply.status(400).send({ error: 'Validation failed', details: error.issues });
+        }
+        app.logger.error({ err: error, slotId, userId: session.user.id }, 'Failed to book viewing slot');
+        throw error;
+      }
+    }
+  );
+
+  // GET /api/appointments - Returns the authenticated user's appointments as owner or tenant
+  app.fastify.get(
+    '/api/appointments',
+    {
+      schema: {
+        description: 'Get viewing appointments for authenticated user (both as owner and tenant)',
+        tags: ['appointments'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      app.logger.info({ userId: session.user.id }, 'Fetching user appointments');
+
+      try {
+        const appointments = await app.db.query.appointments.findMany({
+          where: or(
+            eq(schema.appointments.ownerId, session.user.id),
+            eq(schema.appointments.tenantId, session.user.id)
+          ),
+          with: {
+            slot: {
+              columns: { id: true, startsAt: true, endsAt: true },
+            },
+            property: {
+              columns: { id: true, title: true, district: true },
+            },
+          },
+        });
+
+        // Soonest viewing first
+        appointments.sort((a, b) => a.slot.startsAt.getTime() - b.slot.startsAt.getTime());
+
+        app.logger.info(
+          { userId: session.user.id, count: appointments.length },
+          'User appointments retrieved'
+        );
+        return appointments;
+      } catch (error) {
+        app.logger.error({ err: error, userId: session.user.id }, 'Failed to fetch appointments');
+        throw error;
+      }
+    }
+  );
+
+  // POST /api/appointments/:id/confirm - Confirms a pending appointment. Only the side that did not propose the slot can confirm.
+  app.fastify.post(
+    '/api/appointments/:id/confirm',
+    {
+      schema: {
+        description: 'Confirm a pending viewing appointment',
+        tags: ['appointments'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const params = request.params as Record<string, string>;
+      const { id } = params;
+      app.logger.info({ appointmentId: id, userId: session.user.id }, 'Confirming appointment');
+
+      try {
+        const appointment = await findAppointment(app, id);
+
+        if (!appointment) {
+          app.logger.warn({ appointmentId: id }, 'Appointment not found');
+          return reply.status(404).send({ error: 'Appointment not found' });
+        }
+
+        if (appointment.ownerId !== session.user.id && appointment.tenantId !== session.user.id) {
+          app.logger.warn({ appointmentId: id, userId: session.user.id }, 'Unauthorized appointment confirmation attempt');
+          return reply
+            .status(403)
+            .send({ error: 'Unauthorized to confirm this appointment' });
+        }
+
+        if (appointment.status !== 'pending') {
+          return reply
+            .status(409)
+            .send({ error: `Cannot confirm a ${appointment.status} appointment` });
+        }
+
+        if (appointment.requestedBy === session.user.id) {
+          return reply
+            .status(409)
+            .send({ error: 'Waiting for the other party to confirm' });
+        }
+
+        await app.db
+          .update(schema.appointments)
+          .set({ status: 'confirmed' })
+          .where(eq(schema.appointments.id, id));
+
+        app.logger.info({ appointmentId: id, userId: session.user.id }, 'Appointment confirmed');
+        return await findAppointment(app, id);
+      } catch (error) {
+        app.logger.error({ err: error, appointmentId: id, userId: session.user.id }, 'Failed to confirm appointment');
+        throw error;
+      }
+    }
+  );
+
+  // POST /api/appointments/:id/reschedule - Moves an appointment to another free slot; the other side must confirm again
+  app.fastify.post(
+    '/api/appointments/:id/reschedule',
+    {
+      schema: {
+        description: 'Move a viewing appointment to another slot of the same property',
+        tags: ['appointments'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const params = request.params as Record<string, string>;
+      const { id } = params;
+      app.logger.info(
+        { appointmentId: id, userId: session.user.id, body: request.body },
+        'Rescheduling appointment'
+      );
+
+      try {
+        const { slotId } = RescheduleAppointmentSchema.parse(request.body);
+        const appointment = await findAppointment(app, id);
+
+        if (!appointment) {
+          app.logger.warn({ appointmentId: id }, 'Appointment not found');
+          return reply.status(404).send({ error: 'Appointment not found' });
+        }
+
+        if (appointment.ownerId !== session.user.id && appointment.tenantId !== session.user.id) {
+          app.logger.warn({ appointmentId: id, userId: session.user.id }, 'Unauthorized appointment reschedule attempt');
+          return reply
+            .status(403)
+            .send({ error: 'Unauthorized to reschedule this appointment' });
+        }
+
+        if (appointment.status === 'cancelled') {
+          return reply.status(409).send({ error: 'Cannot reschedule a cancelled appointment' });
+        }
+
+        const slot = await app.db.query.viewingSlots.findFirst({
+          where: eq(schema.viewingSlots.id, slotId),
+        });
+
+        if (!slot || slot.propertyId !== appointment.propertyId) {
+          return reply.status(404).send({ error: 'Viewing slot not found' });
+        }
+
+        if (slot.startsAt <= new Date()) {
+          return reply.status(400).send({ error: 'Viewing slot has already started' });
+        }
+
+        if (slot.id !== appointment.slotId && (await isSlotTaken(app, slot.id))) {
+          return reply.status(409).send({ error: 'Viewing slot is already booked' });
+        }
+
+        try {
+          await app.db
+            .update(schema.appointments)
+            .set({ slotId: slot.id, status: 'pending', requestedBy: session.user.id })
+            .where(eq(schema.appointments.id, id));
+        } catch (error) {
+          if (isUniqueViolation(error)) {
+            return reply.status(409).send({ error: 'Viewing slot is already booked' });
+          }
+          throw error;
+        }
+
+        app.logger.info(
+          { appointmentId: id, fromSlotId: appointment.slotId, toSlotId: slot.id, userId: session.user.id },
+          'Appointment rescheduled'
+        );
+        return await findAppointment(app, id);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          app.logger.warn({ err: error, appointmentId: id }, 'Validation failed for appointment reschedule');
+          return reply.status(400).send({ error: 'Validation failed', details: error.issues });
+        }
+        app.logger.error({ err: error, appointmentId: id, userId: session.user.id }, 'Failed to reschedule appointment');
+        throw error;
+      }
+    }
+  );
+
+  // POST /api/appointments/:id/cancel - Cancels an appointment (either side), freeing its slot
+  app.fastify.post(
+    '/api/appointments/:id/cancel',
+    {
+      schema: {
+        description: 'Cancel a viewing appointment',
+        tags: ['appointments'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const params = request.params as Record<string, string>;
+      const { id } = params;
+      app.logger.info({ appointmentId: id, userId: session.user.id }, 'Cancelling appointment');
+
+      try {
+        const appointment = await findAppointment(app, id);
+
+        if (!appointment) {
+          app.logger.warn({ appointmentId: id }, 'Appointment not found');
+          return reply.status(404).send({ error: 'Appointment not found' });
+        }
+
+        if (appointment.ownerId !== session.user.id && appointment.tenantId !== session.user.id) {
+          app.logger.warn({ appointmentId: id, userId: session.user.id }, 'Unauthorized appointment cancellation attempt');
+          return reply
+            .status(403)
+            .send({ error: 'Unauthorized to cancel this appointment' });
+        }
+
+        if (appointment.status === 'cancelled') {
+          return reply.status(409).send({ error: 'Appointment is already cancelled' });
+        }
+
+        await app.db
+          .update(schema.appointments)
+          .set({ status: 'cancelled' })
+          .where(eq(schema.appointments.id, id));
+
+        app.logger.info({ appointmentId: id, userId: session.user.id }, 'Appointment cancelled');
+        return await findAppointment(app, id);
+      } catch (error) {
+        app.logger.error({ err: error, appointmentId: id, userId: session.user.id }, 'Failed to cancel appointment');
+        throw error;
+      }
+    }
+  );
+}
@@ -0,0 +1,238 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and, or, ilike, asc, desc, sql, getTableColumns } from 'drizzle-orm';
+import type { SQL } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import type { App } from '../index.js';
+import { z } from 'zod';
+import { resolveAmenities, hasIncompleteCoordinates } from './properties.js';
+
+const DEFAULT_SEARCH_LIMIT = 10;
+const MAX_SEARCH_LIMIT = 50;
+
+const BuildingSearchQuerySchema = z.object({
+  q: z.string().trim().max(100).optional(),
+  district: z.enum(schema.DISTRICTS).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_SEARCH_LIMIT).default(DEFAULT_SEARCH_LIMIT),
+});
+
+const CreateBuildingSchema = z.object({
+  nameEn: z.string().trim().min(1).max(200),
+  nameZh: z.string().trim().max(200).nullable().optional(),
+  district: z.enum(schema.DISTRICTS),
+  address: z.string().trim().max(500).nullable().optional(),
+  yearBuilt: z
+    .number()
+    .int()
+    .min(1800)
+    .refine((year) => year <= new Date().getFullYear(), { message: 'Must not be in the future' })
+    .nullable()
+    .optional(),
+  latitude: z.number().min(-90).max(90).nullable().optional(),
+  longitude: z.number().min(-180).max(180).nullable().optional(),
+  facilities: z
+    .array(z.string().min(1))
+    .transform((ids) => [...new Set(ids)])
+    .optional(),
+});
+
+// Ids of the amenities the building offers as shared facilities
+const facilityIdsColumn = sql<string[]>`coalesce((
+  select array_agg(bf.amenity_id order by bf.amenity_id)
+  from building_facilities bf
+  where bf.building_id = "buildings"."id"
+), '{}')`;
+
+// Units currently on the market in the building
+const listingCountColumn = sql<number>`(
+  select count(*)::int from properties p
+  where p.building_id = "buildings"."id" and p.status = 'published' and p.deleted_at is null
+)`;
+
+// Who added a building is kept for moderation but not exposed
+const { createdBy: _createdBy, ...buildingColumns } = getTableColumns(schema.buildings);
+
+// Escapes LIKE wildcards so user input only matches literally
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+export function registerBuildingsRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  // GET /api/buildings - Searches buildings and estates by name or address for autocomplete.
+  // Names starting with the query come first.
+  app.fastify.get(
+    '/api/buildings',
+    {
+      schema: {
+        description: 'Search buildings and estates',
+        tags: ['buildings'],
+        querystring: {
+          type: 'object',
+          properties: {
+            q: { type: 'string' },
+            district: { type: 'string' },
+            limit: { type: 'string' },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      app.logger.info({ query: request.query }, 'Searching buildings');
+
+      try {
+        const { q, district, limit } = BuildingSearchQuerySchema.parse(request.query);
+
+        const conditions: SQL[] = [];
+        const order: SQL[] = [];
+        if (q) {
+          const pattern = escapeLikePattern(q);
+          conditions.push(
+            or(
+              ilike(schema.buildings.nameEn, `%${pattern}%`),
+              ilike(schema.buildings.nameZh, `%${pattern}%`),
+              ilike(schema.buildings.address, `%${pattern}%`)
+            )!
+          );
+          order.push(
+            desc(sql`(${schema.buildings.nameEn} ilike ${`${pattern}%`} or ${schema.buildings.nameZh} ilike ${`${pattern}%`})`)
+          );
+        }
+        if (district) {
+          conditions.push(eq(schema.buildings.district, district));
+        }
+
+        const buildings = await app.db
+          .select({ ...buildingColumns, facilities: facilityIdsColumn, listingCount: listingCountColumn })
+          .from(schema.buildings)
+          .where(and(...conditions))
+          .orderBy(...order, asc(schema.buildings.nameEn))
+          .limit(limit);
+
+        app.logger.info({ count: buildings.length }, 'Buildings retrieved');
+        return buildings;
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          app.logger.warn({ err: error, query: request.query }, 'Invalid building search query');
+          return reply.status(400).send({ error: 'Validation failed', details: error.issues });
+        }
+        app.logger.error({ err: error }, 'Failed to search buildings');
+        throw error;
+      }
+    }
+  );
+
+  // GET /api/buildings/:id - Returns a building with its facilities and how many units are on the market.
+  // The units themselves come from GET /api/properties?buildingId=:id so they page and sort like any search.
+  app.fastify.get(
+    '/api/buildings/:id',
+    {
+      schema: {
+        description: 'Get building details by ID',
+        tags: ['buildings'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const params = request.params as Record<string, string>;
+      const { id } = params;
+      app.logger.info({ buildingId: id }, 'Fetching building details');
+
+      try {
+        const [building] = await app.db
+          .select({ ...buildingColumns, facilities: facilityIdsColumn, listingCount: listingCountColumn })
+          .from(schema.buildings)
+          .where(eq(schema.buildings.id, id));
+
+        if (!building) {
+          app.logger.warn({ buildingId: id }, 'Building not found');
+          return reply.status(404).send({ error: 'Building not found' });
+        }
+
+        app.logger.info({ buildingId: id }, 'Building details retrieved');
+        return building;
+      } catch (error) {
+        app.logger.error({ err: error, buildingId: id }, 'Failed to fetch building');
+        throw error;
+      }
+    }
+  );
+
+  // POST /api/buildings - Adds a building or estate that isn't in the directory yet, recording who added it.
+  // Names are unique per district (ignoring case); a duplicate returns 409 with the existing building's id.
+  app.fastify.post(
+    '/api/buildings',
+    {
+      schema: {
+        description: 'Add a building or estate',
+        tags: ['buildings'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      app.logger.info({ userId: session.user.id, body: request.body }, 'Creating building');
+
+      try {
+        const { facilities = [], ...data } = CreateBuildingSchema.parse(request.body);
+
+        if (hasIncompleteCoordinates(data)) {
+          app.logger.warn({ body: request.body }, 'Incomplete coordinates for building creation');
+          return reply
+            .status(400)
+            .send({ error: 'Validation failed', message: 'latitude and longitude must be provided together' });
+        }
+
+        const { unknownIds } = await resolveAmenities(app, facilities);
+        if (unknownIds.length > 0) {
+          app.logger.warn({ unknownIds }, 'Unknown facilities for building creation');
+          return reply
+            .status(400)
+            .send({ error: 'Validation failed', message: `Unknown facilities: ${unknownIds.join(', ')}` });
+        }
+
+        const building = await app.db.transaction(async (tx) => {
+          const [created] = await tx
+            .insert(schema.buildings)
+            .values({ ...data, createdBy: session.user.id })
+            .onConflictDoNothing()
+            .returning(buildingColumns);
+          if (!created) return null;
+
+          if (facilities.length > 0) {
+            await tx
+              .insert(schema.buildingFacilities)
+              .values(facilities.map((amenityId) => ({ buildingId: created.id, amenityId })));
+          }
+          return { ...created, facilities: [...facilities].sort(), listingCount: 0 };
+        });
+
+        if (!building) {
+          const existing = await app.db.query.buildings.findFirst({
+            where: and(
+              sql`lower(${schema.buildings.nameEn}) = lower(${data.nameEn})`,
+              eq(schema.buildings.district, data.district)
+            ),
+            columns: { id: true },
+          });
+          app.logger.warn({ existingId: existing?.id, nameEn: data.nameEn }, 'Building already exists');
+          return reply.status(409).send({
+            error: 'Building already exists',
+            message: 'A building with this name is already listed in this district',
+            buildingId: existing?.id,
+          });
+        }
+
+        app.logger.info({ buildingId: building.id, userId: session.user.id }, 'Building created');
+        return building;
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          app.logger.warn({ err: error, body: request.body }, 'Validation failed for building creation');
+          return reply.status(400).send({ error: 'Validation failed', details: error.issues });
+        }
+        app.logger.error({ err: error, userId: session.user.id }, 'Failed to create building');
+        throw error;
+      }
+    }
+  );
+}
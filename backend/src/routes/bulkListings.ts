@@ -0,0 +1,547 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { Readable } from 'node:stream';
+import { eq, and, gt, isNull, asc, inArray } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import type { App } from '../index.js';
+import { z } from 'zod';
+import { parseCsvRecords, stripFormulaEscape, toCsvLine } from '../utils/csv.js';
+import {
+  CreatePropertySchema,
+  hasIncompleteCoordinates,
+  hasSaleableAreaAboveSize,
+  SALEABLE_AREA_MESSAGE,
+  resolveAmenities,
+  insertProperty,
+  applyPropertyUpdate,
+  STATUS_TRANSITIONS,
+  type PropertyUpdate,
+} from './properties.js';
+import { recordPropertyRevision } from '../utils/revisions.js';
+
+const MAX_IMPORT_ROWS = 500;
+const EXPORT_BATCH_SIZE = 200;
+
+// Amenity ids and photo keys share one CSV column each, separated by this
+export const CSV_LIST_SEPARATOR = '|';
+
+// Listing fields read from an import CSV, in export column order
+const LISTING_CSV_FIELDS = [
+  'title',
+  'description',
+  'listingType',
+  'price',
+  'size',
+  'saleableArea',
+  'bedrooms',
+  'bathrooms',
+  'floorLevel',
+  'facing',
+  'yearBuilt',
+  'district',
+  'buildingId',
+  'equipment',
+  'amenities',
+  'photos',
+  'virtualTourUrl',
+  'address',
+  'latitude',
+  'longitude',
+  'minLeaseMonths',
+  'depositMonths',
+  'availableFrom',
+  'feesIncluded',
+  'commissionApplies',
+  'status',
+] as const;
+
+// Optional fields a row with an id clears with an empty CSV cell or a JSON null.
+// Left out of the CSV header or the JSON object, they stay as they are.
+const CLEARABLE_FIELDS = [
+  'description',
+  'saleableArea',
+  'bedrooms',
+  'bathrooms',
+  'floorLevel',
+  'facing',
+  'yearBuilt',
+  'buildingId',
+  'equipment',
+  'amenities',
+  'photos',
+  'virtualTourUrl',
+  'address',
+  'latitude',
+  'longitude',
+  'minLeaseMonths',
+  'depositMonths',
+  'availableFrom',
+  'feesIncluded',
+  'commissionApplies',
+] as const;
+
+type ClearableField = (typeof CLEARABLE_FIELDS)[number];
+
+// Exports add the id, which import uses to update the listing in place, and
+// timestamps for reconciliation, which import ignores
+const EXPORT_CSV_COLUMNS = ['id', ...LISTING_CSV_FIELDS, 'publishedAt', 'createdAt', 'updatedAt'] as const;
+
+// Imports can restore listings in any lifecycle status, so exports round-trip.
+// Rows with an id update that listing; new listings default to published and
+// updated ones keep their status unless the row names another one.
+const ImportRowSchema = CreatePropertySchema.extend({
+  id: z.uuid().optional(),
+  status: z.enum(schema.PROPERTY_STATUSES).optional(),
+});
+
+type ImportRow = z.infer<typeof ImportRowSchema>;
+
+const ExportQuerySchema = z.object({
+  format: z.enum(['csv', 'json']).default('csv'),
+});
+
+const ImportRequestSchema = z
+  .object({
+    dryRun: z.boolean().default(false),
+    csv: z.string().optional(),
+    rows: z.array(z.unknown()).optional(),
+  })
+  .refine((body) => (body.csv === undefined) !== (body.rows === undefined), {
+    message: 'Provide either csv or rows',
+  });
+
+interface RowError {
+  row: number;
+  errors: { field: string; message: string }[];
+}
+
+// CSV cells are all strings; empty cells count as missing (see clearedFields for
+// update rows) and flags are written true or false
+function csvRecordToInput(record: Record<string, string>) {
+  const text = (column: string) => {
+    const value = record[column]?.trim();
+    return value ? stripFormulaEscape(value) : undefined;
+  };
+  const number = (column: string) => {
+    const value = text(column);
+    return value === undefined ? undefined : Number(value);
+  };
+  const flag = (column: string) => {
+    const value = text(column)?.toLowerCase();
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+    return value;
+  };
+  const list = (column: string) =>
+    text(column)
+      ?.split(CSV_LIST_SEPARATOR)
+      .map((item) => item.trim())
+      .filter(Boolean);
+
+  return {
+    id: text('id'),
+    title: text('title'),
+    description: text('description'),
+    listingType: text('listingType'),
+    price: text('price'),
+    size: number('size'),
+    saleableArea: number('saleableArea'),
+    bedrooms: number('bedrooms'),
+    bathrooms: number('bathrooms'),
+    floorLevel: text('floorLevel'),
+    facing: text('facing'),
+    yearBuilt: number('yearBuilt'),
+    district: text('district'),
+    buildingId: text('buildingId'),
+    equipment: text('equipment'),
+    amenities: list('amenities'),
+    photos: list('photos'),
+    virtualTourUrl: text('virtualTourUrl'),
+    address: text('address'),
+    latitude: number('latitude'),
+    longitude: number('longitude'),
+    minLeaseMonths: number('minLeaseMonths'),
+    depositMonths: number('depositMonths'),
+    availableFrom: text('availableFrom'),
+    feesIncluded: flag('feesIncluded'),
+    commissionApplies: flag('commissionApplies'),
+    status: text('status'),
+  };
+}
+
+// Clearable fields the row leaves empty, for rows that update a listing. CSV
+// rows count columns in the header with a blank cell; JSON rows count nulls.
+function clearedFields(row: unknown, format: 'csv' | 'json'): ClearableField[] {
+  if (!row || typeof row !== 'object' || Array.isArray(row)) return [];
+  const record = row as Record<string, unknown>;
+  const isEmpty = (value: unknown) =>
+    format === 'csv' ? typeof value === 'string' && value.trim() === '' : value === null;
+  const id = format === 'csv' && typeof record.id === 'string' ? record.id.trim() : record.id;
+  if (!id) return [];
+  return CLEARABLE_FIELDS.filter((field) => field in record && isEmpty(record[field]));
+}
+
+// Amenity and photo lists are cleared to empty lists, everything else to null
+const clearedValues = (fields: ClearableField[]): PropertyUpdate =>
+  Object.fromEntries(fields.map((field) => [field, field === 'amenities' || field === 'photos' ? [] : null]));
+
+// Checks that go beyond CreatePropertySchema. Media must be keys of files the
+// importing user already uploaded, never URLs or another user's uploads.
+function checkImportRow(
+  data: ImportRow,
+  userId: string,
+  knownAmenityIds: Set<string>,
+  knownBuildingIds: Set<string>,
+  ownListings: Map<string, typeof schema.properties.$inferSelect>
+) {
+  const errors: RowError['errors'] = [];
+
+  if (data.id) {
+    const existing = ownListings.get(data.id);
+    if (!existing) {
+      errors.push({ field: 'id', message: `Not one of your listings: ${data.id}` });
+    } else if (data.status && data.status !== existing.status && !STATUS_TRANSITIONS[existing.status].includes(data.status)) {
+      errors.push({ field: 'status', message: `Cannot change status from ${existing.status} to ${data.status}` });
+    }
+  }
+
+  const price = Number(data.price);
+  if (!Number.isFinite(price) || price <= 0) {
+    errors.push({ field: 'price', message: 'Must be a positive number' });
+  }
+  if (hasIncompleteCoordinates(data)) {
+    errors.push({ field: 'latitude', message: 'latitude and longitude must be provided together' });
+  }
+  if (hasSaleableAreaAboveSize(data)) {
+    errors.push({ field: 'saleableArea', message: SALEABLE_AREA_MESSAGE });
+  }
+
+  if (data.buildingId && !knownBuildingIds.has(data.buildingId)) {
+    errors.push({ field: 'buildingId', message: `Unknown building: ${data.buildingId}` });
+  }
+
+  const unknownAmenities = (data.amenities ?? []).filter((id) => !knownAmenityIds.has(id));
+  if (unknownAmenities.length > 0) {
+    errors.push({ field: 'amenities', message: `Unknown amenities: ${unknownAmenities.join(', ')}` });
+  }
+
+  const photoPrefix = `property-images/${userId}/`;
+  for (const key of data.photos ?? []) {
+    if (!key.startsWith(photoPrefix)) {
+      errors.push({ field: 'photos', message: `Not one of your uploaded images: ${key}` });
+    }
+  }
+  if (data.virtualTourUrl && !data.virtualTourUrl.startsWith(`virtual-tour-videos/${userId}/`)) {
+    errors.push({ field: 'virtualTourUrl', message: 'Not one of your uploaded videos' });
+  }
+
+  return errors;
+}
+
+export function registerBulkListingsRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  // POST /api/properties/import - Validates and creates many listings at once for the authenticated user.
+  // Accepts { csv } (header row + one listing per line) or { rows } (objects shaped like POST /api/properties).
+  // Rows carrying the id of one of the user's listings update it instead, so re-importing an export
+  // does not duplicate anything; on those rows an empty cell or null clears an optional field. Nothing is
+  // written unless every row is valid; with dryRun only the validation report is returned.
+  app.fastify.post<{ Body: any }>(
+    '/api/properties/import',
+    {
+      schema: {
+        description: 'Bulk import listings from CSV or JSON',
+        tags: ['properties'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      try {
+        const { dryRun, csv, rows } = ImportRequestSchema.parse(request.body);
+
+        let rawRows: unknown[];
+        let cleared: ClearableField[][];
+        if (csv !== undefined) {
+          try {
+            const records = parseCsvRecords(csv);
+            cleared = records.map((record) => clearedFields(record, 'csv'));
+            rawRows = records.map(csvRecordToInput);
+          } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            app.logger.warn({ userId: session.user.id, message }, 'Could not parse import CSV');
+            return reply.status(400).send({ error: 'Validation failed', message: `Could not parse CSV: ${message}` });
+          }
+        } else {
+          // Exported JSON uses null for empty fields; they are validated as missing and
+          // only clear the field when the row updates a listing
+          cleared = (rows ?? []).map((row) => clearedFields(row, 'json'));
+          rawRows = (rows ?? []).map((row) =>
+            row && typeof row === 'object' && !Array.isArray(row)
+              ? Object.fromEntries(Object.entries(row).filter(([, value]) => value !== null))
+              : row
+          );
+        }
+
+        app.logger.info(
+          { userId: session.user.id, dryRun, format: csv !== undefined ? 'csv' : 'json', rows: rawRows.length },
+          'Importing properties'
+        );
+
+        if (rawRows.length === 0) {
+          return reply.status(400).send({ error: 'Validation failed', message: 'No rows to import' });
+        }
+        if (rawRows.length > MAX_IMPORT_ROWS) {
+          return reply
+            .status(400)
+            .send({ error: 'Validation failed', message: `At most ${MAX_IMPORT_ROWS} rows can be imported at once` });
+        }
+
+        const parsed = rawRows.map((row) => ImportRowSchema.safeParse(row));
+        const requestedAmenityIds = [
+          ...new Set(parsed.flatMap((result) => (result.success ? result.data.amenities ?? [] : []))),
+        ];
+        const { amenities } = await resolveAmenities(app, requestedAmenityIds);
+        const knownAmenityIds = new Set(amenities.map((amenity) => amenity.id));
+
+        const requestedBuildingIds = [
+          ...new Set(parsed.flatMap((result) => (result.success && result.data.buildingId ? [result.data.buildingId] : []))),
+        ];
+        const knownBuildings =
+          requestedBuildingIds.length > 0
+            ? await app.db
+                .select({ id: schema.buildings.id })
+                .from(schema.buildings)
+                .where(inArray(schema.buildings.id, requestedBuildingIds))
+            : [];
+        const knownBuildingIds = new Set(knownBuildings.map((building) => building.id));
+
+        // Ids of other users' or deleted listings are not found here and get reported as row errors
+        const requestedIds = [
+          ...new Set(parsed.flatMap((result) => (result.success && result.data.id ? [result.data.id] : []))),
+        ];
+        const ownRows =
+          requestedIds.length > 0
+            ? await app.db
+                .select()
+                .from(schema.properties)
+                .where(
+                  and(
+                    inArray(schema.properties.id, requestedIds),
+                    eq(schema.properties.ownerId, session.user.id),
+                    isNull(schema.properties.deletedAt)
+                  )
+                )
+            : [];
+        const ownListings = new Map(ownRows.map((property) => [property.id, property]));
+
+        // Row numbers are 1-based and count data rows only, not the CSV header
+        const errors: RowError[] = [];
+        const validRows: ImportRow[] = [];
+        const seenIds = new Set<string>();
+        parsed.forEach((result, index) => {
+          const rowErrors = result.success
+            ? checkImportRow(result.data, session.user.id, knownAmenityIds, knownBuildingIds, ownListings)
+            : result.error.issues.map((issue) => ({ field: issue.path.join('.'), message: issue.message }));
+          if (result.success && result.data.id) {
+            if (seenIds.has(result.data.id)) {
+              rowErrors.push({ field: 'id', message: `Listing appears more than once: ${result.data.id}` });
+            }
+            seenIds.add(result.data.id);
+          }
+          if (rowErrors.length > 0) {
+            errors.push({ row: index + 1, errors: rowErrors });
+          } else if (result.success) {
+            validRows.push(result.data);
+          }
+        });
+
+        const report = { dryRun, total: rawRows.length, valid: validRows.length, errors };
+
+        if (errors.length > 0) {
+          app.logger.warn({ userId: session.user.id, invalidRows: errors.length }, 'Property import has invalid rows');
+          return dryRun
+            ? { ...report, created: [], updated: [] }
+            : reply.status(400).send({ error: 'Validation failed', ...report });
+        }
+
+        if (dryRun) {
+          return { ...report, created: [], updated: [] };
+        }
+
+        const { created, updated } = await app.db.transaction(async (tx) => {
+          const created = [];
+          const updated = [];
+          for (const [index, row] of validRows.entries()) {
+            const { id, status, ...data } = row;
+            const rowAmenities = amenities.filter((amenity) => data.amenities?.includes(amenity.id));
+            const existing = id ? ownListings.get(id) : undefined;
+
+            if (!existing) {
+              const property = await insertProperty(
+                tx,
+                session.user.id,
+                { ...data, status: status ?? 'published' },
+                rowAmenities
+              );
+              created.push({ row: index + 1, id: property.id, title: property.title });
+              continue;
+            }
+
+            // Same path as PUT /api/properties/:id, so price history and revisions are recorded
+            const changes: PropertyUpdate = { ...data, ...clearedValues(cleared[index]) };
+            const property = await applyPropertyUpdate(
+              tx,
+              existing,
+              changes,
+              changes.amenities !== undefined ? rowAmenities : undefined,
+              { userId: session.user.id, action: 'update' }
+            );
+
+            // Lifecycle changes mirror PATCH /api/properties/:id/status
+            if (status && status !== existing.status) {
+              await tx
+                .update(schema.properties)
+                .set({ status, ...(status === 'published' ? { publishedAt: new Date() } : {}) })
+                .where(eq(schema.properties.id, existing.id));
+              await recordPropertyRevision(tx, {
+                propertyId: existing.id,
+                userId: session.user.id,
+                action: 'status',
+                changes: { status: { from: existing.status, to: status } },
+              });
+            }
+            updated.push({ row: index + 1, id: property.id, title: property.title });
+          }
+          return { created, updated };
+        });
+
+        app.logger.info(
+          { userId: session.user.id, created: created.length, updated: updated.length },
+          'Properties imported successfully'
+        );
+        return { ...report, created, updated };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          app.logger.warn({ err: error, userId: session.user.id }, 'Validation failed for property import');
+          return reply.status(400).send({ error: 'Validation failed', details: error.issues });
+        }
+        app.logger.error({ err: error, userId: session.user.id }, 'Failed to import properties');
+        throw error;
+      }
+    }
+  );
+  // GET /api/my-listings/export - Streams every listing owned by the authenticated user as CSV or JSON.
+  // Media are exported as storage keys and the output can be fed back to POST /api/properties/import.
+  app.fastify.get(
+    '/api/my-listings/export',
+    {
+      schema: {
+        description: 'Export all listings owned by the authenticated user',
+        tags: ['properties'],
+        querystring: {
+          type: 'object',
+          properties: {
+            format: { type: 'string', enum: ['csv', 'json'] },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+      app.logger.info({ userId, query: request.query }, 'Exporting user listings');
+
+      try {
+        const { format } = ExportQuerySchema.parse(request.query);
+
+        // Pages through the owner's listings by id so large portfolios are never held in memory at once
+        async function* listings() {
+          let lastId: string | undefined;
+          for (;;) {
+            const batch = await app.db.query.properties.findMany({
+              where: and(
+                eq(schema.properties.ownerId, userId),
+                isNull(schema.properties.deletedAt),
+                lastId ? gt(schema.properties.id, lastId) : undefined
+              ),
+              columns: { searchVector: false },
+              with: { amenities: { columns: { amenityId: true } } },
+              orderBy: asc(schema.properties.id),
+              limit: EXPORT_BATCH_SIZE,
+            });
+            for (const property of batch) {
+              yield { ...property, amenities: property.amenities.map((link) => link.amenityId).sort() };
+            }
+            if (batch.length < EXPORT_BATCH_SIZE) return;
+            lastId = batch[batch.length - 1].id;
+          }
+        }
+
+        async function* csvLines() {
+          // Byte order mark so spreadsheet apps read Chinese text as UTF-8
+          yield '\uFEFF' + toCsvLine([...EXPORT_CSV_COLUMNS]);
+          for await (const property of listings()) {
+            yield toCsvLine([
+              property.id,
+              property.title,
+              property.description,
+              property.listingType,
+              property.price,
+              property.size,
+              property.saleableArea,
+              property.bedrooms,
+              property.bathrooms,
+              property.floorLevel,
+              property.facing,
+              property.yearBuilt,
+              property.district,
+              property.buildingId,
+              property.equipment,
+              property.amenities.join(CSV_LIST_SEPARATOR),
+              (property.photos ?? []).join(CSV_LIST_SEPARATOR),
+              property.virtualTourUrl,
+              property.address,
+              property.latitude,
+              property.longitude,
+              property.minLeaseMonths,
+              property.depositMonths,
+              property.availableFrom,
+              property.feesIncluded,
+              property.commissionApplies,
+              property.status,
+              property.publishedAt?.toISOString(),
+              property.createdAt.toISOString(),
+              property.updatedAt.toISOString(),
+            ]);
+          }
+        }
+
+        async function* jsonChunks() {
+          yield '[';
+          let first = true;
+          for await (const property of listings()) {
+            yield (first ? '' : ',') + JSON.stringify(property);
+            first = false;
+          }
+          yield ']';
+        }
+
+        const date = new Date().toISOString().slice(0, 10);
+        return reply
+          .type(format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8')
+          .header('Content-Disposition', `attachment; filename="listings-${date}.${format}"`)
+          .send(Readable.from(format === 'csv' ? csvLines() : jsonChunks()));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          app.logger.warn({ err: error, query: request.query }, 'Invalid listing export query');
+          return reply.status(400).send({ error: 'Validation failed', details: error.issues });
+        }
+        app.logger.error({ err: error, userId }, 'Failed to export user listings');
+        throw error;
+      }
+    }
+  );
+}
@@ -3,6 +3,7 @@ import { eq, or, and } from 'drizzle-orm';
 import * as schema from '../db/schema.js';
 import type { App } from '../index.js';
 import { z } from 'zod';
+import { recordListingEvent } from './analytics.js';
 
 const CreateMessageSchema = z.object({
   content: z.string().min(1),
@@ -39,6 +40,7 @@ export function registerChatsRoutes(app: App) {
                 id: true,
                 title: true,
                 photos: true,
+                deletedAt: true,
               },
             },
           },
@@ -110,8 +112,19 @@ export function registerChatsRoutes(app: App) {
           ),
         });
 
-        // Create chat if it doesn't exist
+        // Create chat if it doesn't exist. Only published listings take new enquiries;
+        // existing chats stay open after the listing is deleted.
         if (!chat) {
+          if (property.status !== 'published' || property.deletedAt) {
+            app.logger.warn(
+              { userId: session.user.id, propertyId, status: property.status },
+              'Cannot start chat on unpublished property'
+            );
+            return reply
+              .status(400)
+              .send({ error: 'Property is not available' });
+          }
+
           const [newChat] = await app.db
             .insert(schema.chats)
             .values({
@@ -122,6 +135,7 @@ export function registerChatsRoutes(app: App) {
             .returning();
 
           chat = newChat;
+          await recordListingEvent(app, propertyId, 'chat_start');
           app.logger.info(
             { chatId: chat.id, propertyId, userId: session.user.id },
             'Chat created'
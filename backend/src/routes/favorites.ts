@@ -0,0 +1,289 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and, isNull, desc } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import type { App } from '../index.js';
+import { enrichPropertyWithSignedUrls } from './properties.js';
+import { recordListingEvent } from './analytics.js';
+
+type Favorite = typeof schema.favorites.$inferSelect;
+type FavoriteProperty = Pick<
+  typeof schema.properties.$inferSelect,
+  'id' | 'title' | 'price' | 'size' | 'district' | 'photos' | 'status' | 'updatedAt'
+>;
+
+// Compares the listing with what the user last saw. Prices are compared as
+// numbers since decimals come back as strings.
+function withChanges(favorite: Favorite, property: FavoriteProperty) {
+  return {
+    propertyId: favorite.propertyId,
+    createdAt: favorite.createdAt,
+    seenPrice: favorite.seenPrice,
+    seenStatus: favorite.seenStatus,
+    priceChanged: Number(property.price) !== Number(favorite.seenPrice),
+    statusChanged: property.status !== favorite.seenStatus,
+  };
+}
+
+export function registerFavoritesRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  // GET /api/favorites - Returns the user's saved listings, newest first, with price and status changes flagged.
+  // Listings moved back to draft are private to their owner, so others only get the id and status.
+  app.fastify.get(
+    '/api/favorites',
+    {
+      schema: {
+        description: 'Get saved listings for the authenticated user',
+        tags: ['favorites'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      app.logger.info({ userId: session.user.id }, 'Fetching favorites');
+
+      try {
+        const favorites = await app.db.query.favorites.findMany({
+          where: eq(schema.favorites.userId, session.user.id),
+          orderBy: desc(schema.favorites.createdAt),
+          with: {
+            property: {
+              columns: {
+                id: true,
+                title: true,
+                price: true,
+                size: true,
+                district: true,
+                photos: true,
+                status: true,
+                updatedAt: true,
+                deletedAt: true,
+                ownerId: true,
+              },
+            },
+          },
+        });
+
+        // Deleted listings are hidden but reappear if the owner restores them in time
+        const result = await Promise.all(
+          favorites
+            .filter((favorite) => !favorite.property.deletedAt)
+            .map(async (favorite) => {
+              const { property } = favorite;
+              if (property.status === 'draft' && property.ownerId !== session.user.id) {
+                const { seenPrice, ...changes } = withChanges(favorite, property);
+                return {
+                  ...changes,
+                  priceChanged: false,
+                  property: { id: property.id, status: property.status },
+                };
+              }
+              return {
+                ...withChanges(favorite, property),
+                property: await enrichPropertyWithSignedUrls(property, app),
+              };
+            })
+        );
+
+        app.logger.info({ userId: session.user.id, count: result.length }, 'Favorites retrieved');
+        return result;
+      } catch (error) {
+        app.logger.error({ err: error, userId: session.user.id }, 'Failed to fetch favorites');
+        throw error;
+      }
+    }
+  );
+
+  // GET /api/favorites/ids - Returns the ids of saved listings, for heart toggles on listing cards
+  app.fastify.get(
+    '/api/favorites/ids',
+    {
+      schema: {
+        description: 'Get ids of saved listings for the authenticated user',
+        tags: ['favorites'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      try {
+        const rows = await app.db
+          .select({ propertyId: schema.favorites.propertyId })
+          .from(schema.favorites)
+          .where(eq(schema.favorites.userId, session.user.id));
+
+        return rows.map((row) => row.propertyId);
+      } catch (error) {
+        app.logger.error({ err: error, userId: session.user.id }, 'Failed to fetch favorite ids');
+        throw error;
+      }
+    }
+  );
+
+  // POST /api/favorites/:propertyId - Saves a published listing (saving it again is a no-op)
+  app.fastify.post(
+    '/api/favorites/:propertyId',
+    {
+      schema: {
+        description: 'Save a listing to favorites',
+        tags: ['favorites'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const params = request.params as Record<string, string>;
+      const { propertyId } = params;
+      app.logger.info({ userId: session.user.id, propertyId }, 'Saving favorite');
+
+      try {
+        const property = await app.db.query.properties.findFirst({
+          where: and(eq(schema.properties.id, propertyId), isNull(schema.properties.deletedAt)),
+          columns: { id: true, price: true, status: true },
+        });
+
+        if (!property) {
+          app.logger.warn({ propertyId }, 'Property not found');
+          return reply.status(404).send({ error: 'Property not found' });
+        }
+
+        const existing = await app.db.query.favorites.findFirst({
+          where: and(
+            eq(schema.favorites.userId, session.user.id),
+            eq(schema.favorites.propertyId, propertyId)
+          ),
+        });
+
+        if (existing) {
+          return { propertyId, createdAt: existing.createdAt };
+        }
+
+        if (property.status !== 'published') {
+          app.logger.warn({ propertyId, status: property.status }, 'Cannot save unpublished property');
+          return reply.status(400).send({ error: 'Property is not available' });
+        }
+
+        const [favorite] = await app.db
+          .insert(schema.favorites)
+          .values({
+            userId: session.user.id,
+            propertyId,
+            seenPrice: property.price,
+            seenStatus: property.status,
+          })
+          .onConflictDoNothing()
+          .returning();
+
+        // A racing duplicate save inserts nothing and is not counted twice
+        if (favorite) {
+          await recordListingEvent(app, propertyId, 'favorite');
+        }
+
+        app.logger.info({ userId: session.user.id, propertyId }, 'Favorite saved');
+        return { propertyId, createdAt: favorite?.createdAt ?? new Date() };
+      } catch (error) {
+        app.logger.error({ err: error, userId: session.user.id, propertyId }, 'Failed to save favorite');
+        throw error;
+      }
+    }
+  );
+
+  // POST /api/favorites/:propertyId/acknowledge - Marks the listing's current price and status as seen.
+  // For another owner's draft only the status is marked, since its price is not public.
+  app.fastify.post(
+    '/api/favorites/:propertyId/acknowledge',
+    {
+      schema: {
+        description: 'Clear price and status change flags on a saved listing',
+        tags: ['favorites'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const params = request.params as Record<string, string>;
+      const { propertyId } = params;
+
+      try {
+        const property = await app.db.query.properties.findFirst({
+          where: eq(schema.properties.id, propertyId),
+          columns: { price: true, status: true, ownerId: true },
+        });
+
+        const hidden = property?.status === 'draft' && property.ownerId !== session.user.id;
+        const [favorite] = property
+          ? await app.db
+              .update(schema.favorites)
+              .set({ seenStatus: property.status, ...(hidden ? {} : { seenPrice: property.price }) })
+              .where(
+                and(
+                  eq(schema.favorites.userId, session.user.id),
+                  eq(schema.favorites.propertyId, propertyId)
+                )
+              )
+              .returning()
+          : [];
+
+        if (!favorite) {
+          app.logger.warn({ userId: session.user.id, propertyId }, 'Favorite not found');
+          return reply.status(404).send({ error: 'Favorite not found' });
+        }
+
+        app.logger.info({ userId: session.user.id, propertyId }, 'Favorite changes acknowledged');
+        return { success: true };
+      } catch (error) {
+        app.logger.error(
+          { err: error, userId: session.user.id, propertyId },
+          'Failed to acknowledge favorite changes'
+        );
+        throw error;
+      }
+    }
+  );
+
+  // DELETE /api/favorites/:propertyId - Removes a listing from favorites
+  app.fastify.delete(
+    '/api/favorites/:propertyId',
+    {
+      schema: {
+        description: 'Remove a listing from favorites',
+        tags: ['favorites'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const params = request.params as Record<string, string>;
+      const { propertyId } = params;
+      app.logger.info({ userId: session.user.id, propertyId }, 'Removing favorite');
+
+      try {
+        const [removed] = await app.db
+          .delete(schema.favorites)
+          .where(
+            and(
+              eq(schema.favorites.userId, session.user.id),
+              eq(schema.favorites.propertyId, propertyId)
+            )
+          )
+          .returning();
+
+        if (!removed) {
+          app.logger.warn({ userId: session.user.id, propertyId }, 'Favorite not found');
+          return reply.status(404).send({ error: 'Favorite not found' });
+        }
+
+        app.logger.info({ userId: session.user.id, propertyId }, 'Favorite removed');
+        return { success: true };
+      } catch (error) {
+        app.logger.error({ err: error, userId: session.user.id, propertyId }, 'Failed to remove favorite');
+        throw error;
+      }
+    }
+  );
+}
@@ -0,0 +1,381 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and, or, desc, asc } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import type { App } from '../index.js';
+import { z } from 'zod';
+import { MAINTENANCE_PHOTO_PREFIX } from './upload.js';
+
+type MaintenanceTicket = typeof schema.maintenanceTickets.$inferSelect;
+
+const MAX_TICKET_PHOTOS = 6;
+
+const CreateTicketSchema = z.object({
+  tenancyId: z.uuid(),
+  category: z.enum(schema.MAINTENANCE_CATEGORIES),
+  urgency: z.enum(schema.MAINTENANCE_URGENCIES).optional(),
+  title: z.string().trim().min(1).max(120),
+  description: z.string().trim().min(1).max(5000),
+  photoKeys: z.array(z.string().min(1)).max(MAX_TICKET_PHOTOS).optional(),
+});
+
+// Owners triage tickets; clearing the contractor name unassigns the ticket
+const UpdateTicketSchema = z.object({
+  status: z.enum(schema.MAINTENANCE_STATUSES).optional(),
+  urgency: z.enum(schema.MAINTENANCE_URGENCIES).optional(),
+  contractorName: z.string().trim().max(120).nullable().optional(),
+});
+
+const CreateCommentSchema = z.object({
+  body: z.string().trim().min(1).max(2000),
+});
+
+const ListTicketsQuerySchema = z.object({
+  propertyId: z.uuid().optional(),
+  status: z.enum(schema.MAINTENANCE_STATUSES).optional(),
+});
+
+const isParty = (ticket: Pick<MaintenanceTicket, 'ownerId' | 'tenantId'>, userId: string) =>
+  ticket.ownerId === userId || ticket.tenantId === userId;
+
+// Photo keys must come from the tenant's own uploads
+const isOwnPhotoKey = (key: string, userId: string) => key.startsWith(`${MAINTENANCE_PHOTO_PREFIX}/${userId}/`);
+
+async function findTicket(app: App, id: string) {
+  return app.db.query.maintenanceTickets.findFirst({
+    where: eq(schema.maintenanceTickets.id, id),
+    with: {
+      property: { columns: { id: true, title: true, district: true, address: true } },
+      owner: { columns: { id: true, name: true } },
+      tenant: { columns: { id: true, name: true } },
+      comments: {
+        orderBy: asc(schema.maintenanceComments.createdAt),
+        with: { author: { columns: { id: true, name: true } } },
+      },
+    },
+  });
+}
+
+// Photos are private, so each is served through a short-lived signed URL.
+// Photos whose URL cannot be generated are left out.
+async function withPhotoUrls(app: App, { photoKeys, ...ticket }: NonNullable<Awaited<ReturnType<typeof findTicket>>>) {
+  const photos = await Promise.all(
+    photoKeys.map(async (key) => {
+      try {
+        const { url } = await app.storage.getSignedUrl(key);
+        return url;
+      } catch (err) {
+        app.logger.warn(
+          { ticketId: ticket.id, key, error: err instanceof Error ? err.message : 'Unknown error' },
+          'Failed to generate signed URL for maintenance photo'
+        );
+        return null;
+      }
+    })
+  );
+  return { ...ticket, photos: photos.filter((url): url is string => url !== null) };
+}
+
+export function registerMaintenanceRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  // GET /api/maintenance-tickets - Returns the maintenance tickets the authenticated user filed or owns the
+  // property of, most recently active first. Optionally filtered by property and status.
+  app.fastify.get(
+    '/api/maintenance-tickets',
+    {
+      schema: {
+        description: 'List maintenance tickets for the authenticated user',
+        tags: ['maintenance'],
+        querystring: {
+          type: 'object',
+          properties: {
+            propertyId: { type: 'string' },
+            status: { type: 'string' },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+      app.logger.info({ userId, query: request.query }, 'Fetching maintenance tickets');
+
+      try {
+        const { propertyId, status } = ListTicketsQuerySchema.parse(request.query);
+
+        const tickets = await app.db.query.maintenanceTickets.findMany({
+          where: and(
+            or(eq(schema.maintenanceTickets.ownerId, userId), eq(schema.maintenanceTickets.tenantId, userId)),
+            propertyId ? eq(schema.maintenanceTickets.propertyId, propertyId) : undefined,
+            status ? eq(schema.maintenanceTickets.status, status) : undefined
+          ),
+          orderBy: desc(schema.maintenanceTickets.updatedAt),
+          columns: { photoKeys: false },
+          with: {
+            property: { columns: { id: true, title: true, district: true } },
+            owner: { columns: { id: true, name: true } },
+            tenant: { columns: { id: true, name: true } },
+          },
+        });
+
+        app.logger.info({ userId, count: tickets.length }, 'Maintenance tickets retrieved');
+        return tickets;
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          app.logger.warn({ err: error, query: request.query }, 'Invalid maintenance ticket query');
+          return reply.status(400).send({ error: 'Validation failed', details: error.issues });
+        }
+        app.logger.error({ err: error, userId }, 'Failed to fetch maintenance tickets');
+        throw error;
+      }
+    }
+  );
+
+  // POST /api/maintenance-tickets - Files a maintenance request ONLY IF the authenticated user is the tenant of the
+  // active tenancy it is filed under
+  app.fastify.post(
+    '/api/maintenance-tickets',
+    {
+      schema: {
+        description: 'File a maintenance request',
+        tags: ['maintenance'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+      app.logger.info({ userId }, 'Filing maintenance request');
+
+      try {
+        const fields = CreateTicketSchema.parse(request.body);
+
+        const tenancy = await app.db.query.tenancies.findFirst({
+          where: eq(schema.tenancies.id, fields.tenancyId),
+        });
+
+        if (!tenancy) {
+          app.logger.warn({ tenancyId: fields.tenancyId }, 'Tenancy not found');
+          return reply.status(404).send({ error: 'Tenancy not found' });
+        }
+
+        if (tenancy.tenantId !== userId) {
+          app.logger.warn({ tenancyId: tenancy.id, userId }, 'Unauthorized maintenance request attempt');
+          return reply.status(403).send({ error: 'Unauthorized to file maintenance requests for this tenancy' });
+        }
+
+        if (tenancy.status !== 'active') {
+          return reply.status(409).send({ error: 'Maintenance requests can only be filed during an active tenancy' });
+        }
+
+        const photoKeys = fields.photoKeys ?? [];
+        if (photoKeys.some((key) => !isOwnPhotoKey(key, userId))) {
+          app.logger.warn({ tenancyId: tenancy.id, userId }, 'Maintenance request with foreign photo key');
+          return reply.status(400).send({ error: 'Invalid photo' });
+        }
+
+        const [ticket] = await app.db
+          .insert(schema.maintenanceTickets)
+          .values({
+            tenancyId: tenancy.id,
+            propertyId: tenancy.propertyId,
+            ownerId: tenancy.ownerId,
+            tenantId: userId,
+            category: fields.category,
+            urgency: fields.urgency,
+            title: fields.title,
+            description: fields.description,
+            photoKeys,
+          })
+          .returning();
+
+        app.logger.info({ ticketId: ticket.id, tenancyId: tenancy.id, urgency: ticket.urgency }, 'Maintenance request filed');
+        return withPhotoUrls(app, (await findTicket(app, ticket.id))!);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          app.logger.warn({ err: error }, 'Validation failed for maintenance request');
+          return reply.status(400).send({ error: 'Validation failed', details: error.issues });
+        }
+        app.logger.error({ err: error, userId }, 'Failed to file maintenance request');
+        throw error;
+      }
+    }
+  );
+
+  // GET /api/maintenance-tickets/:id - Returns a ticket with its photos and comment thread ONLY IF the
+  // authenticated user is the owner or the tenant
+  app.fastify.get(
+    '/api/maintenance-tickets/:id',
+    {
+      schema: {
+        description: 'Get a maintenance ticket with its comments',
+        tags: ['maintenance'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { id } = request.params as Record<string, string>;
+      app.logger.info({ ticketId: id, userId: session.user.id }, 'Fetching maintenance ticket');
+
+      try {
+        const ticket = await findTicket(app, id);
+
+        if (!ticket) {
+          app.logger.warn({ ticketId: id }, 'Maintenance ticket not found');
+          return reply.status(404).send({ error: 'Maintenance ticket not found' });
+        }
+
+        if (!isParty(ticket, session.user.id)) {
+          app.logger.warn({ ticketId: id, userId: session.user.id }, 'Unauthorized maintenance ticket access attempt');
+          return reply.status(403).send({ error: 'Unauthorized to view this maintenance ticket' });
+        }
+
+        return withPhotoUrls(app, ticket);
+      } catch (error) {
+        app.logger.error({ err: error, ticketId: id }, 'Failed to fetch maintenance ticket');
+        throw error;
+      }
+    }
+  );
+
+  // PUT /api/maintenance-tickets/:id - Updates the status, urgency or contractor ONLY IF the authenticated user is
+  // the owner. Status changes and assignments are added to the comment thread.
+  app.fastify.put(
+    '/api/maintenance-tickets/:id',
+    {
+      schema: {
+        description: 'Triage a maintenance ticket',
+        tags: ['maintenance'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { id } = request.params as Record<string, string>;
+      const userId = session.user.id;
+      app.logger.info({ ticketId: id, userId, body: request.body }, 'Updating maintenance ticket');
+
+      try {
+        const fields = UpdateTicketSchema.parse(request.body);
+
+        const existing = await app.db.query.maintenanceTickets.findFirst({
+          where: eq(schema.maintenanceTickets.id, id),
+        });
+
+        if (!existing) {
+          app.logger.warn({ ticketId: id }, 'Maintenance ticket not found');
+          return reply.status(404).send({ error: 'Maintenance ticket not found' });
+        }
+
+        if (existing.ownerId !== userId) {
+          app.logger.warn({ ticketId: id, userId }, 'Unauthorized maintenance ticket update attempt');
+          return reply.status(403).send({ error: 'Unauthorized to update this maintenance ticket' });
+        }
+
+        const status = fields.status ?? existing.status;
+        const contractorName = fields.contractorName === undefined ? existing.contractorName : fields.contractorName || null;
+
+        const events: (typeof schema.maintenanceComments.$inferInsert)[] = [];
+        if (status !== existing.status) {
+          events.push({ ticketId: id, authorId: userId, kind: 'status_change', body: status });
+        }
+        if (contractorName !== existing.contractorName) {
+          events.push({ ticketId: id, authorId: userId, kind: 'assignment', body: contractorName ?? '' });
+        }
+
+        await app.db.transaction(async (tx) => {
+          await tx
+            .update(schema.maintenanceTickets)
+            .set({
+              status,
+              urgency: fields.urgency ?? existing.urgency,
+              contractorName,
+              closedAt: status === 'closed' ? (existing.closedAt ?? new Date()) : null,
+            })
+            .where(eq(schema.maintenanceTickets.id, id));
+
+          if (events.length > 0) {
+            await tx.insert(schema.maintenanceComments).values(events);
+          }
+        });
+
+        app.logger.info({ ticketId: id, status, events: events.length }, 'Maintenance ticket updated');
+        return withPhotoUrls(app, (await findTicket(app, id))!);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          app.logger.warn({ err: error, ticketId: id }, 'Validation failed for maintenance ticket update');
+          return reply.status(400).send({ error: 'Validation failed', details: error.issues });
+        }
+        app.logger.error({ err: error, ticketId: id }, 'Failed to update maintenance ticket');
+        throw error;
+      }
+    }
+  );
+
+  // POST /api/maintenance-tickets/:id/comments - Adds a comment ONLY IF the authenticated user is the owner or the
+  // tenant and the ticket is not closed
+  app.fastify.post(
+    '/api/maintenance-tickets/:id/comments',
+    {
+      schema: {
+        description: 'Comment on a maintenance ticket',
+        tags: ['maintenance'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { id } = request.params as Record<string, string>;
+      const userId = session.user.id;
+      app.logger.info({ ticketId: id, userId }, 'Commenting on maintenance ticket');
+
+      try {
+        const { body } = CreateCommentSchema.parse(request.body);
+
+        const ticket = await app.db.query.maintenanceTickets.findFirst({
+          where: eq(schema.maintenanceTickets.id, id),
+        });
+
+        if (!ticket) {
+          app.logger.warn({ ticketId: id }, 'Maintenance ticket not found');
+          return reply.status(404).send({ error: 'Maintenance ticket not found' });
+        }
+
+        if (!isParty(ticket, userId)) {
+          app.logger.warn({ ticketId: id, userId }, 'Unauthorized maintenance comment attempt');
+          return reply.status(403).send({ error: 'Unauthorized to comment on this maintenance ticket' });
+        }
+
+        if (ticket.status === 'closed') {
+          return reply.status(409).send({ error: 'Closed tickets cannot be commented on' });
+        }
+
+        // Commenting bumps the ticket so the most recently active ones list first
+        const [comment] = await app.db.transaction(async (tx) => {
+          await tx
+            .update(schema.maintenanceTickets)
+            .set({ updatedAt: new Date() })
+            .where(eq(schema.maintenanceTickets.id, id));
+          return tx.insert(schema.maintenanceComments).values({ ticketId: id, authorId: userId, body }).returning();
+        });
+
+        app.logger.info({ ticketId: id, commentId: comment.id }, 'Maintenance comment added');
+        return { ...comment, author: { id: userId, name: session.user.name } };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          app.logger.warn({ err: error, ticketId: id }, 'Validation failed for maintenance comment');
+          return reply.status(400).send({ error: 'Validation failed', details: error.issues });
+        }
+        app.logger.error({ err: error, ticketId: id }, 'Failed to add maintenance comment');
+        throw error;
+      }
+    }
+  );
+}
@@ -0,0 +1,187 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and, ne, gte, isNull, count, sql, type SQL } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import type { App } from '../index.js';
+import { z } from 'zod';
+import type { District } from '../utils/districts.js';
+
+type ListingType = (typeof schema.LISTING_TYPES)[number];
+
+const DEFAULT_TREND_MONTHS = 12;
+const MAX_TREND_MONTHS = 24;
+
+const MarketStatsQuerySchema = z.object({
+  listingType: z.enum(schema.LISTING_TYPES).default('rent'),
+});
+
+const DistrictStatsQuerySchema = MarketStatsQuerySchema.extend({
+  months: z.coerce.number().int().min(1).max(MAX_TREND_MONTHS).default(DEFAULT_TREND_MONTHS),
+});
+
+const pricePerSqFt = sql`${schema.properties.price} / nullif(${schema.properties.size}, 0)`;
+const medianPrice = sql<number | null>`percentile_cont(0.5) within group (order by ${schema.properties.price})`;
+const medianPricePerSqFt = sql<number | null>`percentile_cont(0.5) within group (order by ${pricePerSqFt})`;
+
+const roundTo = (value: number | string | null, digits: number) =>
+  value == null ? null : Math.round(Number(value) * 10 ** digits) / 10 ** digits;
+
+/**
+ * Current market in each district for one listing type, from the listings
+ * that are live right now. Days on market counts from publishing to today.
+ */
+async function getDistrictSummaries(app: App, listingType: ListingType, district?: District) {
+  const conditions: SQL[] = [
+    eq(schema.properties.status, 'published'),
+    isNull(schema.properties.deletedAt),
+    eq(schema.properties.listingType, listingType),
+  ];
+  if (district) {
+    conditions.push(eq(schema.properties.district, district));
+  }
+
+  const rows = await app.db
+    .select({
+      district: schema.properties.district,
+      listingCount: count(),
+      medianPrice,
+      medianPricePerSqFt,
+      averageDaysOnMarket: sql<number | null>`avg(extract(epoch from now() - ${schema.properties.publishedAt}) / 86400)`,
+    })
+    .from(schema.properties)
+    .where(and(...conditions))
+    .groupBy(schema.properties.district);
+
+  const byDistrict = new Map(rows.map((row) => [row.district, row]));
+  const districts = district ? [district] : schema.DISTRICTS;
+
+  // Districts without live listings are still returned, with empty figures
+  return districts.map((name) => {
+    const row = byDistrict.get(name);
+    return {
+      district: name,
+      listingType,
+      listingCount: row?.listingCount ?? 0,
+      medianPrice: roundTo(row?.medianPrice ?? null, 0),
+      medianPricePerSqFt: roundTo(row?.medianPricePerSqFt ?? null, 1),
+      averageDaysOnMarket: roundTo(row?.averageDaysOnMarket ?? null, 1),
+    };
+  });
+}
+
+export function registerMarketStatsRoutes(app: App) {
+  // GET /api/districts/stats - Returns median price, median price per sq ft, listing count and average days on market for every district
+  app.fastify.get(
+    '/api/districts/stats',
+    {
+      schema: {
+        description: 'Get market statistics for all districts',
+        tags: ['market'],
+        querystring: {
+          type: 'object',
+          properties: {
+            listingType: { type: 'string' },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      app.logger.info({ query: request.query }, 'Fetching district market stats');
+
+      try {
+        const { listingType } = MarketStatsQuerySchema.parse(request.query);
+        const summaries = await getDistrictSummaries(app, listingType);
+
+        app.logger.info({ listingType }, 'District market stats retrieved');
+        return summaries;
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          app.logger.warn({ err: error, query: request.query }, 'Invalid district market stats query');
+          return reply.status(400).send({ error: 'Validation failed', details: error.issues });
+        }
+        app.logger.error({ err: error }, 'Failed to fetch district market stats');
+        throw error;
+      }
+    }
+  );
+
+  // GET /api/districts/:district/stats - Returns one district's current market figures plus a monthly trend of
+  // listings published in it (medians are of the price each listing has now)
+  app.fastify.get(
+    '/api/districts/:district/stats',
+    {
+      schema: {
+        description: 'Get market statistics and monthly trend for a district',
+        tags: ['market'],
+        querystring: {
+          type: 'object',
+          properties: {
+            listingType: { type: 'string' },
+            months: { type: 'string' },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const params = request.params as Record<string, string>;
+      app.logger.info({ district: params.district, query: request.query }, 'Fetching district stats');
+
+      const parsedDistrict = z.enum(schema.DISTRICTS).safeParse(params.district);
+      if (!parsedDistrict.success) {
+        app.logger.warn({ district: params.district }, 'District not found');
+        return reply.status(404).send({ error: 'District not found' });
+      }
+      const district = parsedDistrict.data;
+
+      try {
+        const { listingType, months } = DistrictStatsQuerySchema.parse(request.query);
+        const [summary] = await getDistrictSummaries(app, listingType, district);
+
+        // Months are UTC calendar months, oldest first, ending with the current one
+        const since = new Date();
+        since.setUTCHours(0, 0, 0, 0);
+        since.setUTCDate(1);
+        since.setUTCMonth(since.getUTCMonth() - (months - 1));
+
+        // Listings that have since been rented or archived still count towards the month they went live
+        const month = sql<string>`to_char(date_trunc('month', ${schema.properties.publishedAt}), 'YYYY-MM')`;
+        const rows = await app.db
+          .select({ month, newListings: count(), medianPrice, medianPricePerSqFt })
+          .from(schema.properties)
+          .where(
+            and(
+              eq(schema.properties.district, district),
+              eq(schema.properties.listingType, listingType),
+              ne(schema.properties.status, 'draft'),
+              isNull(schema.properties.deletedAt),
+              gte(schema.properties.publishedAt, since)
+            )
+          )
+          .groupBy(month);
+
+        // Months without new listings are kept, with empty medians, so the client can chart the range directly
+        const byMonth = new Map(rows.map((row) => [row.month, row]));
+        const trend = Array.from({ length: months }, (_, i) => {
+          const start = new Date(Date.UTC(since.getUTCFullYear(), since.getUTCMonth() + i, 1));
+          const key = start.toISOString().slice(0, 7);
+          const row = byMonth.get(key);
+          return {
+            month: key,
+            newListings: row?.newListings ?? 0,
+            medianPrice: roundTo(row?.medianPrice ?? null, 0),
+            medianPricePerSqFt: roundTo(row?.medianPricePerSqFt ?? null, 1),
+          };
+        });
+
+        app.logger.info({ district, listingType, months }, 'District stats retrieved');
+        return { ...summary, trend };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          app.logger.warn({ err: error, query: request.query }, 'Invalid district stats query');
+          return reply.status(400).send({ error: 'Validation failed', details: error.issues });
+        }
+        app.logger.error({ err: error, district }, 'Failed to fetch district stats');
+        throw error;
+      }
+    }
+  );
+}
@@ -1,11 +1,71 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { eq, and, gte, lte, ilike } from 'drizzle-orm';
+import { eq, and, not, gte, lte, lt, between, ilike, inArray, isNull, isNotNull, asc, desc, sql, getTableColumns } from 'drizzle-orm';
+import type { SQL } from 'drizzle-orm';
 import * as schema from '../db/schema.js';
 import type { App } from '../index.js';
 import { z } from 'zod';
+import { buildSearchQuery, buildSearchVector } from '../utils/search.js';
+import { revisionSnapshot, diffSnapshots, recordPropertyRevision } from '../utils/revisions.js';
+import { recordListingEvent } from './analytics.js';
+
+// All property columns except the full-text search document, which is internal
+const { searchVector: _searchVector, ...propertyColumns } = getTableColumns(schema.properties);
+export { propertyColumns };
+
+// Ids of the amenities linked to each listing. Columns are qualified by hand
+// because drizzle leaves them unqualified in single-table selects.
+export const amenityIdsColumn = sql<string[]>`coalesce((
+  select array_agg(pa.amenity_id order by pa.amenity_id)
+  from property_amenities pa
+  where pa.property_id = "properties"."id"
+), '{}')`;
+
+// Amenity labels in every language, folded into the search document
+const amenityLabelsColumn = sql<string[]>`coalesce((
+  select array_agg(concat_ws(' ', a.label_en, a.label_zh_tw, a.label_zh_cn))
+  from property_amenities pa
+  join amenities a on a.id = pa.amenity_id
+  where pa.property_id = "properties"."id"
+), '{}')`;
+
+// Highest earlier price when the listing now costs less, otherwise null
+export const priceReducedFromColumn = sql<string | null>`(
+  select max(h.price)
+  from property_price_history h
+  where h.property_id = "properties"."id" and h.price > "properties"."price"
+)`;
+
+type Amenity = typeof schema.amenities.$inferSelect;
+
+type PropertyStatus = (typeof schema.PROPERTY_STATUSES)[number];
+
+type DbTransaction = Parameters<Parameters<App['db']['transaction']>[0]>[0];
+
+function amenitySearchLabels(amenities: Amenity[]): string[] {
+  return amenities.map((amenity) => [amenity.labelEn, amenity.labelZhTw, amenity.labelZhCn].join(' '));
+}
+
+// Loads catalogue entries for the given ids and reports any that don't exist
+export async function resolveAmenities(app: App, ids: string[]): Promise<{ amenities: Amenity[]; unknownIds: string[] }> {
+  if (ids.length === 0) {
+    return { amenities: [], unknownIds: [] };
+  }
+  const amenities = await app.db
+    .select()
+    .from(schema.amenities)
+    .where(inArray(schema.amenities.id, ids));
+  const knownIds = new Set(amenities.map((amenity) => amenity.id));
+  return { amenities, unknownIds: ids.filter((id) => !knownIds.has(id)) };
+}
+
+type Building = typeof schema.buildings.$inferSelect;
+
+export async function findBuilding(app: App, id: string): Promise<Building | undefined> {
+  return app.db.query.buildings.findFirst({ where: eq(schema.buildings.id, id) });
+}
 
 // Helper function to generate fresh signed URLs for property media
-async function enrichPropertyWithSignedUrls(
+export async function enrichPropertyWithSignedUrls(
   property: any,
   app: App
 ): Promise<any> {
@@ -56,47 +116,722 @@ async function enrichPropertyWithSignedUrls(
   return enriched;
 }
 
-const CreatePropertySchema = z.object({
+const AmenityIdsSchema = z.array(z.string().min(1)).transform((ids) => [...new Set(ids)]);
+
+const MAX_LEASE_MONTHS = 120;
+const MAX_DEPOSIT_MONTHS = 12;
+const MAX_BEDROOMS = 20;
+const MAX_BATHROOMS = 20;
+const EARLIEST_YEAR_BUILT = 1800;
+
+const LatitudeSchema = z.number().min(-90).max(90);
+const LongitudeSchema = z.number().min(-180).max(180);
+
+export const CreatePropertySchema = z.object({
   title: z.string().min(1),
   description: z.string().optional(),
+  listingType: z.enum(schema.LISTING_TYPES).default('rent'),
   price: z.string().or(z.number()),
   size: z.number().min(1),
-  district: z.enum([
-    'Central and Western',
-    'Eastern',
-    'Southern',
-    'Wan Chai',
-    'Sham Shui Po',
-    'Kowloon City',
-    'Kwun Tong',
-    'Wong Tai Sin',
-    'Yau Tsim Mong',
-    'Islands',
-    'Kwai Tsing',
-    'North',
-    'Sai Kung',
-    'Sha Tin',
-    'Tai Po',
-    'Tsuen Wan',
-    'Tuen Mun',
-    'Yuen Long',
-  ]),
+  saleableArea: z.number().int().min(1).nullable().optional(),
+  bedrooms: z.number().int().min(0).max(MAX_BEDROOMS).nullable().optional(),
+  bathrooms: z.number().int().min(0).max(MAX_BATHROOMS).nullable().optional(),
+  floorLevel: z.enum(schema.FLOOR_LEVELS).nullable().optional(),
+  facing: z.enum(schema.FACINGS).nullable().optional(),
+  // Checked against the current year when parsed, so the bound never goes stale
+  yearBuilt: z
+    .number()
+    .int()
+    .min(EARLIEST_YEAR_BUILT)
+    .refine((year) => year <= new Date().getFullYear(), { message: 'Must not be in the future' })
+    .nullable()
+    .optional(),
+  district: z.enum(schema.DISTRICTS),
+  buildingId: z.uuid().nullable().optional(),
   equipment: z.string().optional(),
+  amenities: AmenityIdsSchema.optional(),
   photos: z.array(z.string()).optional(),
   virtualTourUrl: z.string().optional(),
+  address: z.string().optional(),
+  latitude: LatitudeSchema.nullable().optional(),
+  longitude: LongitudeSchema.nullable().optional(),
+  minLeaseMonths: z.number().int().min(1).max(MAX_LEASE_MONTHS).nullable().optional(),
+  depositMonths: z.number().int().min(0).max(MAX_DEPOSIT_MONTHS).nullable().optional(),
+  availableFrom: z.iso.date().nullable().optional(),
+  feesIncluded: z.boolean().nullable().optional(),
+  commissionApplies: z.boolean().nullable().optional(),
+  status: z.enum(['draft', 'published']).default('published'),
+});
+
+// Bulk import may also create listings that are already rented or archived
+export type CreatePropertyInput = Omit<z.infer<typeof CreatePropertySchema>, 'status'> & {
+  status: PropertyStatus;
+};
+
+/**
+ * Fills in the location and age a new listing left out from its building, so
+ * owners don't have to retype what the estate already records.
+ */
+function withBuildingDefaults<T extends z.infer<typeof CreatePropertySchema>>(data: T, building: Building): T {
+  const hasCoordinates = data.latitude != null && data.longitude != null;
+  return {
+    ...data,
+    address: data.address || building.address || undefined,
+    latitude: hasCoordinates ? data.latitude : building.latitude,
+    longitude: hasCoordinates ? data.longitude : building.longitude,
+    yearBuilt: data.yearBuilt ?? building.yearBuilt,
+  };
+}
+
+/**
+ * Inserts a listing with its amenity links and opening price history entry.
+ * `amenities` must be the resolved catalogue entries for `data.amenities`.
+ */
+export async function insertProperty(
+  tx: DbTransaction,
+  ownerId: string,
+  data: CreatePropertyInput,
+  amenities: Amenity[]
+) {
+  const amenityIds = data.amenities ?? [];
+  const [created] = await tx
+    .insert(schema.properties)
+    .values({
+      title: data.title,
+      description: data.description,
+      listingType: data.listingType,
+      price: data.price.toString(),
+      size: data.size,
+      saleableArea: data.saleableArea,
+      bedrooms: data.bedrooms,
+      bathrooms: data.bathrooms,
+      floorLevel: data.floorLevel,
+      facing: data.facing,
+      yearBuilt: data.yearBuilt,
+      district: data.district,
+      buildingId: data.buildingId,
+      equipment: data.equipment,
+      photos: data.photos || [],
+      virtualTourUrl: data.virtualTourUrl,
+      address: data.address,
+      latitude: data.latitude,
+      longitude: data.longitude,
+      // Lease length and deposit are dropped for sales
+      minLeaseMonths: data.listingType === 'rent' ? data.minLeaseMonths : null,
+      depositMonths: data.listingType === 'rent' ? data.depositMonths : null,
+      availableFrom: data.availableFrom,
+      feesIncluded: data.feesIncluded,
+      commissionApplies: data.commissionApplies,
+      status: data.status,
+      publishedAt: data.status === 'published' ? new Date() : null,
+      searchVector: buildSearchVector({ ...data, amenityLabels: amenitySearchLabels(amenities) }),
+      ownerId,
+    })
+    .returning(propertyColumns);
+
+  if (amenityIds.length > 0) {
+    await tx
+      .insert(schema.propertyAmenities)
+      .values(amenityIds.map((amenityId) => ({ propertyId: created.id, amenityId })));
+  }
+
+  await tx
+    .insert(schema.propertyPriceHistory)
+    .values({ propertyId: created.id, price: created.price });
+
+  const property = { ...created, amenities: [...amenityIds].sort(), priceReducedFrom: null };
+  await recordPropertyRevision(tx, {
+    propertyId: created.id,
+    userId: ownerId,
+    action: 'create',
+    changes: diffSnapshots(null, revisionSnapshot(property)),
+  });
+
+  return property;
+}
+
+// Status changes after creation go through PATCH /api/properties/:id/status
+export const UpdatePropertySchema = CreatePropertySchema.omit({ status: true }).partial();
+
+// Restores can also clear optional fields, which PUT itself never does
+export type PropertyUpdate = {
+  [K in keyof z.infer<typeof UpdatePropertySchema>]?: z.infer<typeof UpdatePropertySchema>[K] | null;
+};
+
+type PropertyRevisionInfo = { userId: string; action: 'update' | 'restore'; restoredFromId?: string };
+
+/**
+ * Applies a partial update in one transaction: amenity links, price history,
+ * the search document and a revision for whatever actually changed.
+ * `amenities` must be the resolved catalogue entries when `data.amenities` is set.
+ */
+export async function updateProperty(
+  app: App,
+  property: typeof schema.properties.$inferSelect,
+  data: PropertyUpdate,
+  amenities: Amenity[] | undefined,
+  revision: PropertyRevisionInfo
+) {
+  return app.db.transaction((tx) => applyPropertyUpdate(tx, property, data, amenities, revision));
+}
+
+/**
+ * The body of updateProperty, for callers that already hold a transaction.
+ */
+export async function applyPropertyUpdate(
+  tx: DbTransaction,
+  property: typeof schema.properties.$inferSelect,
+  data: PropertyUpdate,
+  amenities: Amenity[] | undefined,
+  revision: PropertyRevisionInfo
+) {
+  const { id } = property;
+  const updateData: any = {};
+
+  if (data.title !== undefined) updateData.title = data.title;
+  if (data.description !== undefined) updateData.description = data.description;
+  if (data.listingType !== undefined) updateData.listingType = data.listingType;
+  if (data.price !== undefined && data.price !== null) updateData.price = data.price.toString();
+  if (data.size !== undefined) updateData.size = data.size;
+  if (data.saleableArea !== undefined) updateData.saleableArea = data.saleableArea;
+  if (data.bedrooms !== undefined) updateData.bedrooms = data.bedrooms;
+  if (data.bathrooms !== undefined) updateData.bathrooms = data.bathrooms;
+  if (data.floorLevel !== undefined) updateData.floorLevel = data.floorLevel;
+  if (data.facing !== undefined) updateData.facing = data.facing;
+  if (data.yearBuilt !== undefined) updateData.yearBuilt = data.yearBuilt;
+  if (data.district !== undefined) updateData.district = data.district;
+  if (data.buildingId !== undefined) updateData.buildingId = data.buildingId;
+  if (data.equipment !== undefined) updateData.equipment = data.equipment;
+  if (data.photos !== undefined) updateData.photos = data.photos;
+  if (data.virtualTourUrl !== undefined) updateData.virtualTourUrl = data.virtualTourUrl;
+  if (data.address !== undefined) updateData.address = data.address;
+  if (data.latitude !== undefined) updateData.latitude = data.latitude;
+  if (data.longitude !== undefined) updateData.longitude = data.longitude;
+  if (data.minLeaseMonths !== undefined) updateData.minLeaseMonths = data.minLeaseMonths;
+  if (data.depositMonths !== undefined) updateData.depositMonths = data.depositMonths;
+  if (data.availableFrom !== undefined) updateData.availableFrom = data.availableFrom;
+  if (data.feesIncluded !== undefined) updateData.feesIncluded = data.feesIncluded;
+  if (data.commissionApplies !== undefined) updateData.commissionApplies = data.commissionApplies;
+
+  // Lease length and deposit are dropped for sales, including when a rental becomes one
+  if ((data.listingType ?? property.listingType) === 'sale') {
+    updateData.minLeaseMonths = null;
+    updateData.depositMonths = null;
+  }
+
+  if (
+    data.title !== undefined ||
+    data.description !== undefined ||
+    data.equipment !== undefined ||
+    amenities !== undefined
+  ) {
+    let amenityLabels: string[];
+    if (amenities !== undefined) {
+      amenityLabels = amenitySearchLabels(amenities);
+    } else {
+      const [current] = await tx
+        .select({ amenityLabels: amenityLabelsColumn })
+        .from(schema.properties)
+        .where(eq(schema.properties.id, id));
+      amenityLabels = current.amenityLabels;
+    }
+    updateData.searchVector = buildSearchVector({
+      title: data.title ?? property.title,
+      description: data.description !== undefined ? data.description : property.description,
+      equipment: data.equipment !== undefined ? data.equipment : property.equipment,
+      amenityLabels,
+    });
+  }
+
+  const [before] = await tx
+    .select({ ...propertyColumns, amenities: amenityIdsColumn })
+    .from(schema.properties)
+    .where(eq(schema.properties.id, id));
+
+  if (data.amenities !== undefined && data.amenities !== null) {
+    await tx
+      .delete(schema.propertyAmenities)
+      .where(eq(schema.propertyAmenities.propertyId, id));
+    if (data.amenities.length > 0) {
+      await tx
+        .insert(schema.propertyAmenities)
+        .values(data.amenities.map((amenityId) => ({ propertyId: id, amenityId })));
+    }
+  }
+
+  // Prices are compared as numbers since decimals come back as strings
+  if (updateData.price !== undefined && Number(updateData.price) !== Number(property.price)) {
+    await tx
+      .insert(schema.propertyPriceHistory)
+      .values({ propertyId: id, price: updateData.price });
+  }
+
+  const [row] = await tx
+    .update(schema.properties)
+    .set(updateData)
+    .where(eq(schema.properties.id, id))
+    .returning({ ...propertyColumns, amenities: amenityIdsColumn, priceReducedFrom: priceReducedFromColumn });
+
+  await recordPropertyRevision(tx, {
+    propertyId: id,
+    ...revision,
+    changes: diffSnapshots(revisionSnapshot(before), revisionSnapshot(row)),
+  });
+
+  return row;
+}
+
+// Allowed lifecycle transitions. Rented and archived listings can be relisted.
+export const STATUS_TRANSITIONS: Record<PropertyStatus, PropertyStatus[]> = {
+  draft: ['published', 'archived'],
+  published: ['draft', 'rented', 'archived'],
+  rented: ['published', 'archived'],
+  archived: ['published', 'draft'],
+};
+
+const UpdatePropertyStatusSchema = z.object({
+  status: z.enum(schema.PROPERTY_STATUSES),
+});
+
+// Latitude and longitude must be set (or cleared) together
+export function hasIncompleteCoordinates(data: { latitude?: number | null; longitude?: number | null }): boolean {
+  return (
+    (data.latitude === undefined) !== (data.longitude === undefined) ||
+    (data.latitude === null) !== (data.longitude === null)
+  );
+}
+
+export const SALEABLE_AREA_MESSAGE = 'saleableArea cannot be larger than the gross size';
+
+// Saleable area leaves out common areas, so it can never exceed the gross size
+export function hasSaleableAreaAboveSize(data: { size?: number | null; saleableArea?: number | null }): boolean {
+  return data.size != null && data.saleableArea != null && data.saleableArea > data.size;
+}
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LATITUDE = 111.32;
+const DEFAULT_RADIUS_KM = 2;
+const MAX_RADIUS_KM = 50;
+
+interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+// Great-circle (haversine) distance in km from a point to each listing
+function distanceKmExpression(point: GeoPoint): SQL {
+  const { latitude, longitude } = schema.properties;
+  const pointLatitude = sql`${point.latitude}::double precision`;
+  const pointLongitude = sql`${point.longitude}::double precision`;
+  return sql`(${EARTH_RADIUS_KM}::double precision * 2 * asin(sqrt(
+    power(sin(radians(${latitude} - ${pointLatitude}) / 2), 2) +
+    cos(radians(${pointLatitude})) * cos(radians(${latitude})) *
+    power(sin(radians(${longitude} - ${pointLongitude}) / 2), 2)
+  )))`;
+}
+
+function parseNumberList(value: string): number[] {
+  return value.split(',').map((part) => Number(part.trim()));
+}
+
+// "a,b,c" - listings must have every amenity listed
+const AmenityFilterSchema = z
+  .string()
+  .transform((value) => [...new Set(value.split(',').map((id) => id.trim()).filter(Boolean))]);
+
+// "lat,lng"
+const NearSchema = z
+  .string()
+  .transform(parseNumberList)
+  .pipe(z.array(z.number()).length(2))
+  .transform(([latitude, longitude]) => ({ latitude, longitude }))
+  .pipe(z.object({ latitude: LatitudeSchema, longitude: LongitudeSchema }));
+
+// "minLng,minLat,maxLng,maxLat"
+const BoundingBoxSchema = z
+  .string()
+  .transform(parseNumberList)
+  .pipe(z.array(z.number()).length(4))
+  .transform(([minLng, minLat, maxLng, maxLat]) => ({ minLng, minLat, maxLng, maxLat }))
+  .pipe(
+    z
+      .object({
+        minLng: LongitudeSchema,
+        minLat: LatitudeSchema,
+        maxLng: LongitudeSchema,
+        maxLat: LatitudeSchema,
+      })
+      .refine((box) => box.minLng <= box.maxLng && box.minLat <= box.maxLat, {
+        message: 'bbox must be minLng,minLat,maxLng,maxLat',
+      })
+  );
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+
+const PROPERTY_SORTS = [
+  'relevance',
+  'distance',
+  'newest',
+  'price_asc',
+  'price_desc',
+  'size_asc',
+  'size_desc',
+  'price_per_sqft_asc',
+  'price_per_sqft_desc',
+  'saleable_area_asc',
+  'saleable_area_desc',
+  'bedrooms_asc',
+  'bedrooms_desc',
+  'building_newest',
+  'building_oldest',
+] as const;
+
+type PropertySort = (typeof PROPERTY_SORTS)[number];
+
+const NumericStringSchema = z.string().trim().regex(/^\d+(\.\d+)?$/, 'Must be a non-negative number');
+
+/**
+ * Listing filters accepted by GET /api/properties. Saved searches store the
+ * raw query values and run them through the same schema and conditions, so
+ * any filter added here is picked up by both.
+ */
+export const PropertyFilterSchema = z.object({
+  district: z.string().optional(),
+  minPrice: NumericStringSchema.optional(),
+  maxPrice: NumericStringSchema.optional(),
+  minSize: NumericStringSchema.optional(),
+  maxSize: NumericStringSchema.optional(),
+  q: z.string().trim().max(200).optional(),
+  near: NearSchema.optional(),
+  radiusKm: z.coerce.number().positive().max(MAX_RADIUS_KM).default(DEFAULT_RADIUS_KM),
+  bbox: BoundingBoxSchema.optional(),
+  amenities: AmenityFilterSchema.optional(),
+  priceReduced: z.stringbool().optional(),
+  listingType: z.enum(schema.LISTING_TYPES).optional(),
+  maxLeaseMonths: z.coerce.number().int().positive().optional(), // minimum lease no longer than this
+  maxDepositMonths: z.coerce.number().int().min(0).optional(),
+  availableBy: z.iso.date().optional(), // move-in date the listing must be free by
+  feesIncluded: z.stringbool().optional(),
+  commissionApplies: z.stringbool().optional(),
+  buildingId: z.uuid().optional(),
+  minSaleableArea: NumericStringSchema.optional(),
+  maxSaleableArea: NumericStringSchema.optional(),
+  minBedrooms: z.coerce.number().int().min(0).optional(),
+  maxBedrooms: z.coerce.number().int().min(0).optional(),
+  minBathrooms: z.coerce.number().int().min(0).optional(),
+  floorLevel: z.enum(schema.FLOOR_LEVELS).optional(),
+  facing: z.enum(schema.FACINGS).optional(),
+  maxBuildingAge: z.coerce.number().int().min(0).optional(), // years since completion
+});
+
+export type PropertyFilters = z.infer<typeof PropertyFilterSchema>;
+
+export const PROPERTY_FILTER_KEYS = Object.keys(PropertyFilterSchema.shape) as (keyof PropertyFilters)[];
+
+const PropertyListQuerySchema = PropertyFilterSchema.extend({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  sort: z.enum(PROPERTY_SORTS).optional(),
 });
 
-const UpdatePropertySchema = CreatePropertySchema.partial();
+const VALID_DISTRICTS: string[] = [...schema.properties.district.enumValues];
+
+interface PropertyFilterConditions {
+  conditions: SQL[];
+  searchQuery: SQL | null;
+  distance: SQL | null;
+}
+
+/**
+ * WHERE conditions for a set of listing filters. Only published listings
+ * that are not deleted ever match. The search query and distance expressions are returned for
+ * sorting.
+ */
+export function buildPropertyFilterConditions(filters: PropertyFilters): PropertyFilterConditions {
+  const { district, minPrice, maxPrice, minSize, maxSize, near, radiusKm, bbox, amenities, priceReduced } = filters;
+  const { listingType, maxLeaseMonths, maxDepositMonths, availableBy, feesIncluded, commissionApplies } = filters;
+  const { minSaleableArea, maxSaleableArea, minBedrooms, maxBedrooms, minBathrooms, floorLevel, facing, maxBuildingAge } =
+    filters;
+  const { buildingId } = filters;
+  const searchQuery = filters.q ? buildSearchQuery(filters.q) : null;
+  const distance = near ? distanceKmExpression(near) : null;
+  const conditions: SQL[] = [eq(schema.properties.status, 'published'), isNull(schema.properties.deletedAt)];
+
+  if (searchQuery) {
+    conditions.push(sql`${schema.properties.searchVector} @@ ${searchQuery}`);
+  }
+
+  if (near && distance) {
+    // Coarse bounding box first so the location index can be used
+    const latitudeDelta = radiusKm / KM_PER_DEGREE_LATITUDE;
+    const longitudeDelta =
+      radiusKm / (KM_PER_DEGREE_LATITUDE * Math.max(Math.cos((near.latitude * Math.PI) / 180), 0.01));
+    conditions.push(
+      between(schema.properties.latitude, near.latitude - latitudeDelta, near.latitude + latitudeDelta),
+      between(schema.properties.longitude, near.longitude - longitudeDelta, near.longitude + longitudeDelta),
+      sql`${distance} <= ${radiusKm}::double precision`
+    );
+  }
+
+  if (bbox) {
+    conditions.push(
+      between(schema.properties.latitude, bbox.minLat, bbox.maxLat),
+      between(schema.properties.longitude, bbox.minLng, bbox.maxLng)
+    );
+  }
+
+  if (amenities && amenities.length > 0) {
+    conditions.push(
+      sql`(select count(*) from property_amenities pa
+        where pa.property_id = "properties"."id"
+        and pa.amenity_id in ${amenities}) = ${amenities.length}`
+    );
+  }
+
+  if (priceReduced) {
+    conditions.push(sql`${priceReducedFromColumn} is not null`);
+  }
+
+  if (buildingId) {
+    conditions.push(eq(schema.properties.buildingId, buildingId));
+  }
+
+  if (district && VALID_DISTRICTS.includes(district)) {
+    conditions.push(eq(schema.properties.district, district as any));
+  }
+  if (minPrice) {
+    conditions.push(gte(schema.properties.price, minPrice));
+  }
+  if (maxPrice) {
+    conditions.push(lte(schema.properties.price, maxPrice));
+  }
+  if (minSize) {
+    conditions.push(gte(schema.properties.size, parseInt(minSize)));
+  }
+  if (maxSize) {
+    conditions.push(lte(schema.properties.size, parseInt(maxSize)));
+  }
+
+  // Terms the owner left blank don't match term filters, except a blank availability date
+  if (listingType) {
+    conditions.push(eq(schema.properties.listingType, listingType));
+  }
+  if (maxLeaseMonths !== undefined) {
+    conditions.push(lte(schema.properties.minLeaseMonths, maxLeaseMonths));
+  }
+  if (maxDepositMonths !== undefined) {
+    conditions.push(lte(schema.properties.depositMonths, maxDepositMonths));
+  }
+  if (availableBy) {
+    conditions.push(
+      sql`(${schema.properties.availableFrom} is null or ${schema.properties.availableFrom} <= ${availableBy})`
+    );
+  }
+  if (feesIncluded !== undefined) {
+    conditions.push(eq(schema.properties.feesIncluded, feesIncluded));
+  }
+  if (commissionApplies !== undefined) {
+    conditions.push(eq(schema.properties.commissionApplies, commissionApplies));
+  }
+
+  // Likewise, unit details the owner left blank don't match unit filters
+  if (minSaleableArea) {
+    conditions.push(gte(schema.properties.saleableArea, parseInt(minSaleableArea)));
+  }
+  if (maxSaleableArea) {
+    conditions.push(lte(schema.properties.saleableArea, parseInt(maxSaleableArea)));
+  }
+  if (minBedrooms !== undefined) {
+    conditions.push(gte(schema.properties.bedrooms, minBedrooms));
+  }
+  if (maxBedrooms !== undefined) {
+    conditions.push(lte(schema.properties.bedrooms, maxBedrooms));
+  }
+  if (minBathrooms !== undefined) {
+    conditions.push(gte(schema.properties.bathrooms, minBathrooms));
+  }
+  if (floorLevel) {
+    conditions.push(eq(schema.properties.floorLevel, floorLevel));
+  }
+  if (facing) {
+    conditions.push(eq(schema.properties.facing, facing));
+  }
+  if (maxBuildingAge !== undefined) {
+    conditions.push(gte(schema.properties.yearBuilt, new Date().getFullYear() - maxBuildingAge));
+  }
+
+  return { conditions, searchQuery, distance };
+}
+
+// Stand-ins for blank integer sort keys
+const SORT_LAST_ASC = sql.raw('2147483647');
+const SORT_LAST_DESC = sql.raw('-1');
+
+interface SortSpec {
+  expression: SQL;
+  direction: 'asc' | 'desc';
+  cast: 'timestamp' | 'numeric' | 'integer' | 'real' | 'double precision';
+}
+
+interface SortContext {
+  searchQuery: SQL | null;
+  distance: SQL | null;
+}
+
+// Sort key for each sort option. Rows are always tie-broken on id in the same
+// direction, so (sort key, id) identifies a unique position for the cursor.
+// Relevance and distance need a search query / reference point and are
+// resolved to 'newest' before this is called when those are missing.
+// Unit details can be blank; those listings are coalesced to sort last either
+// way, since null sort keys would break the cursor comparison.
+function getSortSpec(sort: PropertySort, context: SortContext): SortSpec {
+  const { createdAt, price, size, saleableArea, bedrooms, yearBuilt, searchVector } = schema.properties;
+  switch (sort) {
+    case 'relevance':
+      return {
+        expression: sql`ts_rank_cd(${searchVector}, ${context.searchQuery})`,
+        direction: 'desc',
+        cast: 'real',
+      };
+    case 'distance':
+      return { expression: context.distance, direction: 'asc', cast: 'double precision' };
+    case 'price_asc':
+      return { expression: sql`${price}`, direction: 'asc', cast: 'numeric' };
+    case 'price_desc':
+      return { expression: sql`${price}`, direction: 'desc', cast: 'numeric' };
+    case 'size_asc':
+      return { expression: sql`${size}`, direction: 'asc', cast: 'integer' };
+    case 'size_desc':
+      return { expression: sql`${size}`, direction: 'desc', cast: 'integer' };
+    case 'price_per_sqft_asc':
+      return { expression: sql`(${price} / ${size})`, direction: 'asc', cast: 'numeric' };
+    case 'price_per_sqft_desc':
+      return { expression: sql`(${price} / ${size})`, direction: 'desc', cast: 'numeric' };
+    case 'saleable_area_asc':
+      return { expression: sql`coalesce(${saleableArea}, ${SORT_LAST_ASC})`, direction: 'asc', cast: 'integer' };
+    case 'saleable_area_desc':
+      return { expression: sql`coalesce(${saleableArea}, ${SORT_LAST_DESC})`, direction: 'desc', cast: 'integer' };
+    case 'bedrooms_asc':
+      return { expression: sql`coalesce(${bedrooms}, ${SORT_LAST_ASC})`, direction: 'asc', cast: 'integer' };
+    case 'bedrooms_desc':
+      return { expression: sql`coalesce(${bedrooms}, ${SORT_LAST_DESC})`, direction: 'desc', cast: 'integer' };
+    case 'building_newest':
+      return { expression: sql`coalesce(${yearBuilt}, ${SORT_LAST_DESC})`, direction: 'desc', cast: 'integer' };
+    case 'building_oldest':
+      return { expression: sql`coalesce(${yearBuilt}, ${SORT_LAST_ASC})`, direction: 'asc', cast: 'integer' };
+    case 'newest':
+    default:
+      return { expression: sql`${createdAt}`, direction: 'desc', cast: 'timestamp' };
+  }
+}
+
+interface PropertyCursor {
+  sort: PropertySort;
+  key: string;
+  id: string;
+}
+
+// Cursors are opaque to clients: base64url-encoded JSON holding the sort
+// option and the last row's sort key (as Postgres text, to keep full
+// timestamp/numeric precision) and id.
+function encodeCursor(cursor: PropertyCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(value: string, sort: PropertySort): PropertyCursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (
+      decoded?.sort !== sort ||
+      typeof decoded.key !== 'string' ||
+      typeof decoded.id !== 'string' ||
+      !z.uuid().safeParse(decoded.id).success
+    ) {
+      return null;
+    }
+    return decoded as PropertyCursor;
+  } catch {
+    return null;
+  }
+}
+
+const SEARCH_BACKFILL_BATCH_SIZE = 100;
+
+// Indexes listings that have no search document yet (e.g. rows created before
+// full-text search existed). Safe to run on every startup.
+export async function backfillPropertySearchVectors(app: App) {
+  let indexed = 0;
+
+  while (true) {
+    const batch = await app.db
+      .select({
+        id: schema.properties.id,
+        title: schema.properties.title,
+        description: schema.properties.description,
+        equipment: schema.properties.equipment,
+        amenityLabels: amenityLabelsColumn,
+      })
+      .from(schema.properties)
+      .where(isNull(schema.properties.searchVector))
+      .limit(SEARCH_BACKFILL_BATCH_SIZE);
+
+    if (batch.length === 0) break;
+
+    for (const row of batch) {
+      await app.db
+        .update(schema.properties)
+        .set({ searchVector: buildSearchVector(row) })
+        .where(eq(schema.properties.id, row.id));
+    }
+    indexed += batch.length;
+  }
+
+  if (indexed > 0) {
+    app.logger.info({ count: indexed }, 'Backfilled property search vectors');
+  }
+}
+
+// Deleted listings can be restored by their owner for this long before they are purged
+export const PROPERTY_RESTORE_WINDOW_DAYS = 30;
+const RESTORE_WINDOW_MS = PROPERTY_RESTORE_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+
+function restoreDeadline(deletedAt: Date) {
+  return new Date(deletedAt.getTime() + RESTORE_WINDOW_MS);
+}
+
+// Listings that were let keep their tenancies and signed agreements, which
+// outlive the listing, so they are never purged
+const hasTenancyRecords = sql`(
+  exists (select 1 from tenancies t where t.property_id = "properties"."id")
+  or exists (select 1 from tenancy_agreements ta where ta.property_id = "properties"."id")
+)`;
+
+// Permanently removes listings deleted more than PROPERTY_RESTORE_WINDOW_DAYS ago.
+// Chats about them are kept with their property unset; everything else cascades
+// except the revision log, which has no foreign key so it survives as an audit trail.
+export async function purgeDeletedProperties(app: App) {
+  const cutoff = new Date(Date.now() - RESTORE_WINDOW_MS);
+
+  const purged = await app.db
+    .delete(schema.properties)
+    .where(and(lt(schema.properties.deletedAt, cutoff), not(hasTenancyRecords)))
+    .returning({ id: schema.properties.id });
+
+  if (purged.length > 0) {
+    app.logger.info({ count: purged.length }, 'Purged deleted properties');
+  }
+}
 
 export function registerPropertiesRoutes(app: App) {
   const requireAuth = app.requireAuth();
 
-  // GET /api/properties - Returns all properties with filters
+  // GET /api/properties - Returns a page of properties with filters, sorting and cursor pagination
   app.fastify.get(
     '/api/properties',
     {
       schema: {
-        description: 'Get all properties with optional filters',
+        description: 'Get a page of properties with optional filters and sorting',
         tags: ['properties'],
         querystring: {
           type: 'object',
@@ -106,74 +841,110 @@ export function registerPropertiesRoutes(app: App) {
             maxPrice: { type: 'string' },
             minSize: { type: 'string' },
             maxSize: { type: 'string' },
+            q: { type: 'string' },
+            cursor: { type: 'string' },
+            limit: { type: 'string' },
+            sort: { type: 'string', enum: [...PROPERTY_SORTS] },
+            near: { type: 'string' },
+            radiusKm: { type: 'string' },
+            bbox: { type: 'string' },
+            amenities: { type: 'string' },
+            priceReduced: { type: 'string' },
+            listingType: { type: 'string', enum: [...schema.LISTING_TYPES] },
+            maxLeaseMonths: { type: 'string' },
+            maxDepositMonths: { type: 'string' },
+            availableBy: { type: 'string' },
+            feesIncluded: { type: 'string' },
+            commissionApplies: { type: 'string' },
+            buildingId: { type: 'string' },
+            minSaleableArea: { type: 'string' },
+            maxSaleableArea: { type: 'string' },
+            minBedrooms: { type: 'string' },
+            maxBedrooms: { type: 'string' },
+            minBathrooms: { type: 'string' },
+            floorLevel: { type: 'string' },
+            facing: { type: 'string' },
+            maxBuildingAge: { type: 'string' },
           },
         },
       },
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const query = request.query as Record<string, string | undefined>;
-      const { district, minPrice, maxPrice, minSize, maxSize } = query;
       app.logger.info(
         { query: request.query },
         'Fetching properties with filters'
       );
 
       try {
-        const conditions: any[] = [];
-
-        const validDistricts = [
-          'Central and Western',
-          'Eastern',
-          'Southern',
-          'Wan Chai',
-          'Sham Shui Po',
-          'Kowloon City',
-          'Kwun Tong',
-          'Wong Tai Sin',
-          'Yau Tsim Mong',
-          'Islands',
-          'Kwai Tsing',
-          'North',
-          'Sai Kung',
-          'Sha Tin',
-          'Tai Po',
-          'Tsuen Wan',
-          'Tuen Mun',
-          'Yuen Long',
-        ];
-
-        if (district && validDistricts.includes(district)) {
-          conditions.push(eq(schema.properties.district, district as any));
-        }
-        if (minPrice) {
-          conditions.push(gte(schema.properties.price, minPrice));
-        }
-        if (maxPrice) {
-          conditions.push(lte(schema.properties.price, maxPrice));
-        }
-        if (minSize) {
-          conditions.push(gte(schema.properties.size, parseInt(minSize)));
-        }
-        if (maxSize) {
-          conditions.push(lte(schema.properties.size, parseInt(maxSize)));
+        const parsedQuery = PropertyListQuerySchema.parse(query);
+        const { cursor, limit } = parsedQuery;
+        const { conditions, searchQuery, distance } = buildPropertyFilterConditions(parsedQuery);
+        const requestedSort = parsedQuery.sort ?? (searchQuery ? 'relevance' : 'newest');
+        const sort: PropertySort =
+          (requestedSort === 'relevance' && !searchQuery) || (requestedSort === 'distance' && !distance)
+            ? 'newest'
+            : requestedSort;
+        const sortSpec = getSortSpec(sort, { searchQuery, distance });
+
+        if (cursor) {
+          const decodedCursor = decodeCursor(cursor, sort);
+          if (!decodedCursor) {
+            app.logger.warn({ cursor, sort }, 'Invalid properties cursor');
+            return reply.status(400).send({ error: 'Invalid cursor' });
+          }
+          const comparator = sortSpec.direction === 'desc' ? sql`<` : sql`>`;
+          conditions.push(
+            sql`(${sortSpec.expression}, ${schema.properties.id}) ${comparator} (${decodedCursor.key}::${sql.raw(sortSpec.cast)}, ${decodedCursor.id}::uuid)`
+          );
         }
 
-        let dbQuery: any = app.db.select().from(schema.properties);
+        const order = sortSpec.direction === 'desc' ? desc : asc;
 
-        if (conditions.length > 0) {
-          dbQuery = dbQuery.where(and(...conditions));
-        }
+        // Fetch one extra row to know whether another page exists
+        const rows = await app.db
+          .select({
+            ...propertyColumns,
+            amenities: amenityIdsColumn,
+            priceReducedFrom: priceReducedFromColumn,
+            sortKey: sql<string>`(${sortSpec.expression})::text`,
+            distanceKm: distance ? sql<number>`${distance}` : sql<null>`null`,
+          })
+          .from(schema.properties)
+          .where(and(...conditions))
+          .orderBy(order(sortSpec.expression), order(schema.properties.id))
+          .limit(limit + 1);
 
-        const properties = await dbQuery;
-        app.logger.info({ count: properties.length }, 'Properties fetched');
+        const hasMore = rows.length > limit;
+        const pageRows = hasMore ? rows.slice(0, limit) : rows;
+        const lastRow = pageRows[pageRows.length - 1];
+        const nextCursor =
+          hasMore && lastRow
+            ? encodeCursor({ sort, key: lastRow.sortKey, id: lastRow.id })
+            : null;
 
-        // Generate fresh signed URLs for all properties
-        const enrichedProperties = await Promise.all(
-          properties.map((prop: any) => enrichPropertyWithSignedUrls(prop, app))
+        app.logger.info(
+          { count: pageRows.length, sort, hasMore },
+          'Properties fetched'
         );
 
-        return enrichedProperties;
+        // Generate fresh signed URLs for this page only
+        const items = await Promise.all(
+          pageRows.map(async ({ sortKey, distanceKm, ...prop }) => {
+            const enriched = await enrichPropertyWithSignedUrls(prop, app);
+            return distance ? { ...enriched, distanceKm } : enriched;
+          })
+        );
+
+        return { items, nextCursor };
       } catch (error) {
+        if (error instanceof z.ZodError) {
+          app.logger.warn(
+            { err: error, query: request.query },
+            'Validation failed for properties query'
+          );
+          return reply.status(400).send({ error: 'Validation failed', details: error.issues });
+        }
         app.logger.error({ err: error }, 'Failed to fetch properties');
         throw error;
       }
@@ -196,7 +967,12 @@ export function registerPropertiesRoutes(app: App) {
 
       try {
         const property = await app.db.query.properties.findFirst({
-          where: eq(schema.properties.id, id),
+          where: and(eq(schema.properties.id, id), isNull(schema.properties.deletedAt)),
+          columns: { searchVector: false },
+          with: {
+            amenities: { columns: { amenityId: true } },
+            building: { columns: { id: true, nameEn: true, nameZh: true } },
+          },
         });
 
         if (!property) {
@@ -204,10 +980,36 @@ export function registerPropertiesRoutes(app: App) {
           return reply.status(404).send({ error: 'Property not found' });
         }
 
+        // Drafts are only visible to their owner
+        if (property.status === 'draft') {
+          const session = await requireAuth(request, reply);
+          if (!session) return;
+          if (session.user.id !== property.ownerId) {
+            app.logger.warn({ propertyId: id, userId: session.user.id }, 'Draft property requested by non-owner');
+            return reply.status(404).send({ error: 'Property not found' });
+          }
+        } else {
+          // Owners checking their own listing are not counted. Only requests that carry a token are looked up,
+          // so signed-out visitors still get the listing.
+          const session = request.headers.authorization ? await requireAuth(request, reply) : null;
+          if (request.headers.authorization && !session) return;
+          if (session?.user.id !== property.ownerId) {
+            await recordListingEvent(app, id, 'view');
+          }
+        }
+
+        const [{ priceReducedFrom }] = await app.db
+          .select({ priceReducedFrom: priceReducedFromColumn })
+          .from(schema.properties)
+          .where(eq(schema.properties.id, id));
+
         app.logger.info({ propertyId: id }, 'Property details retrieved');
 
         // Generate fresh signed URLs for media
-        const enrichedProperty = await enrichPropertyWithSignedUrls(property, app);
+        const enrichedProperty = await enrichPropertyWithSignedUrls(
+          { ...property, amenities: property.amenities.map((link) => link.amenityId).sort(), priceReducedFrom },
+          app
+        );
         return enrichedProperty;
       } catch (error) {
         app.logger.error({ err: error, propertyId: id }, 'Failed to fetch property');
@@ -237,20 +1039,40 @@ export function registerPropertiesRoutes(app: App) {
       try {
         const validatedData = CreatePropertySchema.parse(request.body);
 
-        const [property] = await app.db
-          .insert(schema.properties)
-          .values({
-            title: validatedData.title,
-            description: validatedData.description,
-            price: validatedData.price.toString(),
-            size: validatedData.size,
-            district: validatedData.district,
-            equipment: validatedData.equipment,
-            photos: validatedData.photos || [],
-            virtualTourUrl: validatedData.virtualTourUrl,
-            ownerId: session.user.id,
-          })
-          .returning();
+        if (hasIncompleteCoordinates(validatedData)) {
+          app.logger.warn({ body: request.body }, 'Incomplete coordinates for property creation');
+          return reply
+            .status(400)
+            .send({ error: 'Validation failed', message: 'latitude and longitude must be provided together' });
+        }
+
+        if (hasSaleableAreaAboveSize(validatedData)) {
+          app.logger.warn({ body: request.body }, 'Saleable area above gross size for property creation');
+          return reply.status(400).send({ error: 'Validation failed', message: SALEABLE_AREA_MESSAGE });
+        }
+
+        const amenityIds = validatedData.amenities ?? [];
+        const { amenities, unknownIds } = await resolveAmenities(app, amenityIds);
+        if (unknownIds.length > 0) {
+          app.logger.warn({ unknownIds }, 'Unknown amenities for property creation');
+          return reply
+            .status(400)
+            .send({ error: 'Validation failed', message: `Unknown amenities: ${unknownIds.join(', ')}` });
+        }
+
+        let data = validatedData;
+        if (validatedData.buildingId) {
+          const building = await findBuilding(app, validatedData.buildingId);
+          if (!building) {
+            app.logger.warn({ buildingId: validatedData.buildingId }, 'Unknown building for property creation');
+            return reply.status(400).send({ error: 'Validation failed', message: 'Unknown building' });
+          }
+          data = withBuildingDefaults(validatedData, building);
+        }
+
+        const property = await app.db.transaction((tx) =>
+          insertProperty(tx, session.user.id, data, amenities)
+        );
 
         app.logger.info(
           { propertyId: property.id, userId: session.user.id },
@@ -274,6 +1096,59 @@ export function registerPropertiesRoutes(app: App) {
     }
   );
 
+  // GET /api/properties/:id/price-history - Returns every price the listing has had, oldest first
+  app.fastify.get(
+    '/api/properties/:id/price-history',
+    {
+      schema: {
+        description: 'Get the price history of a property',
+        tags: ['properties'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const params = request.params as Record<string, string>;
+      const { id } = params;
+      app.logger.info({ propertyId: id }, 'Fetching property price history');
+
+      try {
+        const property = await app.db.query.properties.findFirst({
+          where: and(eq(schema.properties.id, id), isNull(schema.properties.deletedAt)),
+          columns: { id: true, ownerId: true, status: true },
+        });
+
+        if (!property) {
+          app.logger.warn({ propertyId: id }, 'Property not found');
+          return reply.status(404).send({ error: 'Property not found' });
+        }
+
+        // Same visibility as the listing itself
+        if (property.status === 'draft') {
+          const session = await requireAuth(request, reply);
+          if (!session) return;
+          if (session.user.id !== property.ownerId) {
+            app.logger.warn({ propertyId: id, userId: session.user.id }, 'Draft price history requested by non-owner');
+            return reply.status(404).send({ error: 'Property not found' });
+          }
+        }
+
+        const history = await app.db
+          .select({
+            price: schema.propertyPriceHistory.price,
+            changedAt: schema.propertyPriceHistory.changedAt,
+          })
+          .from(schema.propertyPriceHistory)
+          .where(eq(schema.propertyPriceHistory.propertyId, id))
+          .orderBy(asc(schema.propertyPriceHistory.changedAt));
+
+        app.logger.info({ propertyId: id, count: history.length }, 'Property price history retrieved');
+        return history;
+      } catch (error) {
+        app.logger.error({ err: error, propertyId: id }, 'Failed to fetch property price history');
+        throw error;
+      }
+    }
+  );
+
   // PUT /api/properties/:id - Updates property ONLY IF property.ownerId matches authenticated user
   app.fastify.put(
     '/api/properties/:id',
@@ -296,7 +1171,7 @@ export function registerPropertiesRoutes(app: App) {
 
       try {
         const property = await app.db.query.properties.findFirst({
-          where: eq(schema.properties.id, id),
+          where: and(eq(schema.properties.id, id), isNull(schema.properties.deletedAt)),
         });
 
         if (!property) {
@@ -315,22 +1190,45 @@ export function registerPropertiesRoutes(app: App) {
         }
 
         const validatedData = UpdatePropertySchema.parse(request.body);
-        const updateData: any = {};
-
-        if (validatedData.title !== undefined) updateData.title = validatedData.title;
-        if (validatedData.description !== undefined) updateData.description = validatedData.description;
-        if (validatedData.price !== undefined) updateData.price = validatedData.price.toString();
-        if (validatedData.size !== undefined) updateData.size = validatedData.size;
-        if (validatedData.district !== undefined) updateData.district = validatedData.district;
-        if (validatedData.equipment !== undefined) updateData.equipment = validatedData.equipment;
-        if (validatedData.photos !== undefined) updateData.photos = validatedData.photos;
-        if (validatedData.virtualTourUrl !== undefined) updateData.virtualTourUrl = validatedData.virtualTourUrl;
-
-        const [updated] = await app.db
-          .update(schema.properties)
-          .set(updateData)
-          .where(eq(schema.properties.id, id))
-          .returning();
+
+        if (hasIncompleteCoordinates(validatedData)) {
+          app.logger.warn({ propertyId: id, body: request.body }, 'Incomplete coordinates for property update');
+          return reply
+            .status(400)
+            .send({ error: 'Validation failed', message: 'latitude and longitude must be provided together' });
+        }
+
+        if (
+          hasSaleableAreaAboveSize({
+            size: validatedData.size ?? property.size,
+            saleableArea: validatedData.saleableArea !== undefined ? validatedData.saleableArea : property.saleableArea,
+          })
+        ) {
+          app.logger.warn({ propertyId: id, body: request.body }, 'Saleable area above gross size for property update');
+          return reply.status(400).send({ error: 'Validation failed', message: SALEABLE_AREA_MESSAGE });
+        }
+
+        let amenities: Amenity[] | undefined;
+        if (validatedData.amenities !== undefined) {
+          const resolved = await resolveAmenities(app, validatedData.amenities);
+          if (resolved.unknownIds.length > 0) {
+            app.logger.warn({ propertyId: id, unknownIds: resolved.unknownIds }, 'Unknown amenities for property update');
+            return reply
+              .status(400)
+              .send({ error: 'Validation failed', message: `Unknown amenities: ${resolved.unknownIds.join(', ')}` });
+          }
+          amenities = resolved.amenities;
+        }
+
+        if (validatedData.buildingId && !(await findBuilding(app, validatedData.buildingId))) {
+          app.logger.warn({ propertyId: id, buildingId: validatedData.buildingId }, 'Unknown building for property update');
+          return reply.status(400).send({ error: 'Validation failed', message: 'Unknown building' });
+        }
+
+        const updated = await updateProperty(app, property, validatedData, amenities, {
+          userId: session.user.id,
+          action: 'update',
+        });
 
         app.logger.info(
           { propertyId: id, userId: session.user.id },
@@ -354,7 +1252,101 @@ export function registerPropertiesRoutes(app: App) {
     }
   );
 
-  // DELETE /api/properties/:id - Deletes property ONLY IF property.ownerId matches authenticated user
+  // PATCH /api/properties/:id/status - Moves a listing through its lifecycle ONLY IF property.ownerId matches authenticated user
+  app.fastify.patch(
+    '/api/properties/:id/status',
+    {
+      schema: {
+        description: 'Change the status of a property (draft, published, rented, archived)',
+        tags: ['properties'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const params = request.params as Record<string, string>;
+      const { id } = params;
+      app.logger.info(
+        { propertyId: id, userId: session.user.id, body: request.body },
+        'Updating property status'
+      );
+
+      try {
+        const { status } = UpdatePropertyStatusSchema.parse(request.body);
+
+        const property = await app.db.query.properties.findFirst({
+          where: and(eq(schema.properties.id, id), isNull(schema.properties.deletedAt)),
+          columns: { id: true, ownerId: true, status: true },
+        });
+
+        if (!property) {
+          app.logger.warn({ propertyId: id }, 'Property not found');
+          return reply.status(404).send({ error: 'Property not found' });
+        }
+
+        if (property.ownerId !== session.user.id) {
+          app.logger.warn(
+            { propertyId: id, userId: session.user.id, ownerId: property.ownerId },
+            'Unauthorized property status change attempt'
+          );
+          return reply
+            .status(403)
+            .send({ error: 'Unauthorized to update this property' });
+        }
+
+        if (!STATUS_TRANSITIONS[property.status].includes(status)) {
+          app.logger.warn(
+            { propertyId: id, from: property.status, to: status },
+            'Invalid property status transition'
+          );
+          return reply.status(409).send({
+            error: 'Invalid status transition',
+            message: `Cannot change status from ${property.status} to ${status}`,
+          });
+        }
+
+        const updated = await app.db.transaction(async (tx) => {
+          const [row] = await tx
+            .update(schema.properties)
+            .set({ status, ...(status === 'published' ? { publishedAt: new Date() } : {}) })
+            .where(eq(schema.properties.id, id))
+            .returning({ ...propertyColumns, amenities: amenityIdsColumn });
+
+          await recordPropertyRevision(tx, {
+            propertyId: id,
+            userId: session.user.id,
+            action: 'status',
+            changes: { status: { from: property.status, to: status } },
+          });
+          return row;
+        });
+
+        app.logger.info(
+          { propertyId: id, userId: session.user.id, from: property.status, to: status },
+          'Property status updated'
+        );
+        return updated;
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          app.logger.warn(
+            { err: error, propertyId: id },
+            'Validation failed for property status update'
+          );
+          return reply.status(400).send({ error: 'Validation failed', details: error.issues });
+        }
+        app.logger.error(
+          { err: error, propertyId: id, userId: session.user.id },
+          'Failed to update property status'
+        );
+        throw error;
+      }
+    }
+  );
+
+  // DELETE /api/properties/:id - Soft-deletes property ONLY IF property.ownerId matches authenticated user
+  // and no tenancy for it is active. The listing disappears everywhere but chats stay readable, and the
+  // owner can restore it for PROPERTY_RESTORE_WINDOW_DAYS before purgeDeletedProperties removes it for good.
   app.fastify.delete(
     '/api/properties/:id',
     {
@@ -376,7 +1368,8 @@ export function registerPropertiesRoutes(app: App) {
 
       try {
         const property = await app.db.query.properties.findFirst({
-          where: eq(schema.properties.id, id),
+          where: and(eq(schema.properties.id, id), isNull(schema.properties.deletedAt)),
+          columns: { id: true, ownerId: true },
         });
 
         if (!property) {
@@ -394,15 +1387,38 @@ export function registerPropertiesRoutes(app: App) {
             .send({ error: 'Unauthorized to delete this property' });
         }
 
-        await app.db
-          .delete(schema.properties)
-          .where(eq(schema.properties.id, id));
+        const activeTenancy = await app.db.query.tenancies.findFirst({
+          where: and(eq(schema.tenancies.propertyId, id), eq(schema.tenancies.status, 'active')),
+          columns: { id: true },
+        });
+
+        if (activeTenancy) {
+          app.logger.warn({ propertyId: id, tenancyId: activeTenancy.id }, 'Cannot delete property with an active tenancy');
+          return reply
+            .status(409)
+            .send({ error: 'End the active tenancy before deleting this property' });
+        }
+
+        const deletedAt = new Date();
+        await app.db.transaction(async (tx) => {
+          await tx
+            .update(schema.properties)
+            .set({ deletedAt })
+            .where(eq(schema.properties.id, id));
+
+          await recordPropertyRevision(tx, {
+            propertyId: id,
+            userId: session.user.id,
+            action: 'delete',
+            changes: { deletedAt: { from: null, to: deletedAt } },
+          });
+        });
 
         app.logger.info(
           { propertyId: id, userId: session.user.id },
           'Property deleted successfully'
         );
-        return { success: true };
+        return { success: true, restoreUntil: restoreDeadline(deletedAt) };
       } catch (error) {
         app.logger.error(
           { err: error, propertyId: id, userId: session.user.id },
@@ -413,12 +1429,86 @@ export function registerPropertiesRoutes(app: App) {
     }
   );
 
-  // GET /api/properties/my-listings - Returns properties owned by the authenticated user
+  // POST /api/properties/:id/restore - Undoes a delete within the restore window ONLY IF property.ownerId
+  // matches authenticated user. The listing comes back with the status it had.
+  app.fastify.post(
+    '/api/properties/:id/restore',
+    {
+      schema: {
+        description: 'Restore a deleted property',
+        tags: ['properties'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const params = request.params as Record<string, string>;
+      const { id } = params;
+      app.logger.info(
+        { propertyId: id, userId: session.user.id },
+        'Restoring deleted property'
+      );
+
+      try {
+        const property = await app.db.query.properties.findFirst({
+          where: and(eq(schema.properties.id, id), isNotNull(schema.properties.deletedAt)),
+          columns: { id: true, ownerId: true, deletedAt: true },
+        });
+
+        // Past the window the listing is as good as purged, even if the job has not run yet
+        if (!property || !property.deletedAt || restoreDeadline(property.deletedAt) <= new Date()) {
+          app.logger.warn({ propertyId: id }, 'Deleted property not found');
+          return reply.status(404).send({ error: 'Deleted property not found' });
+        }
+
+        if (property.ownerId !== session.user.id) {
+          app.logger.warn(
+            { propertyId: id, userId: session.user.id, ownerId: property.ownerId },
+            'Unauthorized property restore attempt'
+          );
+          return reply
+            .status(403)
+            .send({ error: 'Unauthorized to restore this property' });
+        }
+
+        const restored = await app.db.transaction(async (tx) => {
+          const [row] = await tx
+            .update(schema.properties)
+            .set({ deletedAt: null })
+            .where(eq(schema.properties.id, id))
+            .returning({ ...propertyColumns, amenities: amenityIdsColumn });
+
+          await recordPropertyRevision(tx, {
+            propertyId: id,
+            userId: session.user.id,
+            action: 'undelete',
+            changes: { deletedAt: { from: property.deletedAt, to: null } },
+          });
+          return row;
+        });
+
+        app.logger.info(
+          { propertyId: id, userId: session.user.id },
+          'Deleted property restored'
+        );
+        return restored;
+      } catch (error) {
+        app.logger.error(
+          { err: error, propertyId: id, userId: session.user.id },
+          'Failed to restore deleted property'
+        );
+        throw error;
+      }
+    }
+  );
+
+  // GET /api/properties/my-listings - Returns properties owned by the authenticated user, grouped by status
   app.fastify.get(
     '/api/my-listings',
     {
       schema: {
-        description: 'Get properties owned by authenticated user',
+        description: 'Get properties owned by authenticated user, grouped by status',
         tags: ['properties'],
       },
     },
@@ -430,9 +1520,10 @@ export function registerPropertiesRoutes(app: App) {
 
       try {
         const properties = await app.db
-          .select()
+          .select({ ...propertyColumns, amenities: amenityIdsColumn })
           .from(schema.properties)
-          .where(eq(schema.properties.ownerId, session.user.id));
+          .where(and(eq(schema.properties.ownerId, session.user.id), isNull(schema.properties.deletedAt)))
+          .orderBy(desc(schema.properties.updatedAt));
 
         app.logger.info(
           { userId: session.user.id, count: properties.length },
@@ -444,7 +1535,14 @@ export function registerPropertiesRoutes(app: App) {
           properties.map((prop: any) => enrichPropertyWithSignedUrls(prop, app))
         );
 
-        return enrichedProperties;
+        const grouped = Object.fromEntries(
+          schema.PROPERTY_STATUSES.map((status) => [status, [] as any[]])
+        ) as Record<PropertyStatus, any[]>;
+        for (const property of enrichedProperties) {
+          grouped[property.status as PropertyStatus].push(property);
+        }
+
+        return grouped;
       } catch (error) {
         app.logger.error(
           { err: error, userId: session.user.id },
@@ -454,4 +1552,53 @@ export function registerPropertiesRoutes(app: App) {
       }
     }
   );
+  // GET /api/my-listings/deleted - Returns the authenticated user's deleted listings that can still be restored
+  app.fastify.get(
+    '/api/my-listings/deleted',
+    {
+      schema: {
+        description: 'Get deleted properties owned by authenticated user that are still within the restore window',
+        tags: ['properties'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      app.logger.info({ userId: session.user.id }, 'Fetching deleted user listings');
+
+      try {
+        const cutoff = new Date(Date.now() - RESTORE_WINDOW_MS);
+        const properties = await app.db
+          .select({ ...propertyColumns, amenities: amenityIdsColumn })
+          .from(schema.properties)
+          .where(
+            and(
+              eq(schema.properties.ownerId, session.user.id),
+              isNotNull(schema.properties.deletedAt),
+              gte(schema.properties.deletedAt, cutoff)
+            )
+          )
+          .orderBy(desc(schema.properties.deletedAt));
+
+        app.logger.info(
+          { userId: session.user.id, count: properties.length },
+          'Deleted user listings retrieved'
+        );
+
+        return Promise.all(
+          properties.map(async (property: any) => ({
+            ...(await enrichPropertyWithSignedUrls(property, app)),
+            restoreUntil: restoreDeadline(property.deletedAt),
+          }))
+        );
+      } catch (error) {
+        app.logger.error(
+          { err: error, userId: session.user.id },
+          'Failed to fetch deleted user listings'
+        );
+        throw error;
+      }
+    }
+  );
 }
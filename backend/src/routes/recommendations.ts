@@ -0,0 +1,452 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and, ne, desc, isNull, inArray, notInArray, sql, type SQL, type Column } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import type { App } from '../index.js';
+import { z } from 'zod';
+import type { District } from '../utils/districts.js';
+import {
+  propertyColumns,
+  amenityIdsColumn,
+  priceReducedFromColumn,
+  enrichPropertyWithSignedUrls,
+} from './properties.js';
+
+type ListingType = (typeof schema.LISTING_TYPES)[number];
+
+const DEFAULT_FEED_LIMIT = 20;
+const MAX_FEED_LIMIT = 50;
+
+// Older searches are dropped as new ones come in
+const MAX_SEARCH_HISTORY = 50;
+const MAX_VIEW_SIGNALS = 100;
+
+// How strongly each kind of activity counts towards a user's taste
+const SIGNAL_WEIGHTS = {
+  search: 1,
+  view: 1,
+  savedSearch: 2,
+  favorite: 3,
+  chat: 4,
+};
+
+// How much each part of the match contributes to a listing's score (they sum to 1)
+const SCORE_WEIGHTS = {
+  district: 0.35,
+  price: 0.25,
+  listingType: 0.1,
+  freshness: 0.2,
+  unseen: 0.1,
+};
+
+// Listings published longer ago than this get no freshness boost
+const FRESHNESS_DAYS = 30;
+
+const FeedQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_FEED_LIMIT).default(DEFAULT_FEED_LIMIT),
+});
+
+const RecordSearchSchema = z.object({
+  listingType: z.enum(schema.LISTING_TYPES).nullable().optional(),
+  district: z.enum(schema.DISTRICTS).nullable().optional(),
+  minPrice: z.number().nonnegative().nullable().optional(),
+  maxPrice: z.number().nonnegative().nullable().optional(),
+});
+
+interface TasteProfile {
+  districts: Map<District, number>;
+  listingTypes: Map<ListingType, number>;
+  prices: Map<ListingType, { price: number; weight: number }[]>;
+  // Favorited or chatted about already, so there is no point suggesting them
+  excludedIds: string[];
+}
+
+const addWeight = <K>(map: Map<K, number>, key: K, weight: number) => {
+  map.set(key, (map.get(key) ?? 0) + weight);
+};
+
+/**
+ * Price where half of the weighted points are at or below it
+ */
+const weightedMedian = (points: { price: number; weight: number }[]) => {
+  const sorted = [...points].sort((a, b) => a.price - b.price);
+  const half = sorted.reduce((sum, point) => sum + point.weight, 0) / 2;
+  let seen = 0;
+  for (const point of sorted) {
+    seen += point.weight;
+    if (seen >= half) return point.price;
+  }
+  return null;
+};
+
+/**
+ * Price a search was aiming at: the middle of its range, or its one bound
+ */
+const searchTargetPrice = (minPrice: number | null, maxPrice: number | null) => {
+  if (minPrice != null && maxPrice != null) return (minPrice + maxPrice) / 2;
+  return minPrice ?? maxPrice;
+};
+
+/**
+ * Collects the districts, listing types and prices a user has shown interest
+ * in through their searches, saved searches, views, favorites and chats.
+ */
+async function buildTasteProfile(app: App, userId: string): Promise<TasteProfile> {
+  const listingColumns = {
+    propertyId: schema.properties.id,
+    district: schema.properties.district,
+    listingType: schema.properties.listingType,
+    price: schema.properties.price,
+  };
+
+  const [searches, savedSearches, views, favorites, chats] = await Promise.all([
+    app.db
+      .select()
+      .from(schema.searchHistory)
+      .where(eq(schema.searchHistory.userId, userId))
+      .orderBy(desc(schema.searchHistory.createdAt))
+      .limit(MAX_SEARCH_HISTORY),
+    app.db.select().from(schema.savedSearches).where(eq(schema.savedSearches.userId, userId)),
+    app.db
+      .select(listingColumns)
+      .from(schema.propertyViews)
+      .innerJoin(schema.properties, eq(schema.propertyViews.propertyId, schema.properties.id))
+      .where(eq(schema.propertyViews.userId, userId))
+      .orderBy(desc(schema.propertyViews.lastViewedAt))
+      .limit(MAX_VIEW_SIGNALS),
+    app.db
+      .select(listingColumns)
+      .from(schema.favorites)
+      .innerJoin(schema.properties, eq(schema.favorites.propertyId, schema.properties.id))
+      .where(eq(schema.favorites.userId, userId)),
+    app.db
+      .select(listingColumns)
+      .from(schema.chats)
+      .innerJoin(schema.properties, eq(schema.chats.propertyId, schema.properties.id))
+      .where(eq(schema.chats.renteeId, userId)),
+  ]);
+
+  const profile: TasteProfile = {
+    districts: new Map(),
+    listingTypes: new Map(),
+    prices: new Map(),
+    excludedIds: [...new Set([...favorites, ...chats].map((listing) => listing.propertyId))],
+  };
+
+  const addPrice = (listingType: ListingType, price: number, weight: number) => {
+    profile.prices.set(listingType, [...(profile.prices.get(listingType) ?? []), { price, weight }]);
+  };
+
+  const addSearch = (
+    search: { district: District | null; listingType: ListingType | null; minPrice: number | null; maxPrice: number | null },
+    weight: number
+  ) => {
+    if (search.district) addWeight(profile.districts, search.district, weight);
+    if (search.listingType) addWeight(profile.listingTypes, search.listingType, weight);
+    const target = searchTargetPrice(search.minPrice, search.maxPrice);
+    // A price range only means something for the listing type it was searched with
+    if (target && search.listingType) addPrice(search.listingType, target, weight);
+  };
+
+  for (const search of searches) {
+    addSearch(
+      {
+        district: search.district,
+        listingType: search.listingType,
+        minPrice: search.minPrice != null ? Number(search.minPrice) : null,
+        maxPrice: search.maxPrice != null ? Number(search.maxPrice) : null,
+      },
+      SIGNAL_WEIGHTS.search
+    );
+  }
+
+  for (const saved of savedSearches) {
+    const parsed = RecordSearchSchema.safeParse({
+      district: saved.filters.district ?? null,
+      listingType: saved.filters.listingType ?? null,
+      minPrice: saved.filters.minPrice ? Number(saved.filters.minPrice) : null,
+      maxPrice: saved.filters.maxPrice ? Number(saved.filters.maxPrice) : null,
+    });
+    if (parsed.success) {
+      addSearch(
+        {
+          district: parsed.data.district ?? null,
+          listingType: parsed.data.listingType ?? null,
+          minPrice: parsed.data.minPrice ?? null,
+          maxPrice: parsed.data.maxPrice ?? null,
+        },
+        SIGNAL_WEIGHTS.savedSearch
+      );
+    }
+  }
+
+  const engaged = [
+    ...views.map((listing) => ({ listing, weight: SIGNAL_WEIGHTS.view })),
+    ...favorites.map((listing) => ({ listing, weight: SIGNAL_WEIGHTS.favorite })),
+    ...chats.map((listing) => ({ listing, weight: SIGNAL_WEIGHTS.chat })),
+  ];
+  for (const { listing, weight } of engaged) {
+    addWeight(profile.districts, listing.district, weight);
+    addWeight(profile.listingTypes, listing.listingType, weight);
+    addPrice(listing.listingType, Number(listing.price), weight);
+  }
+
+  return profile;
+}
+
+/**
+ * CASE expression giving each value's share of the largest weight, 0 for others
+ */
+const weightShareCase = <K extends string>(column: Column, weights: Map<K, number>) => {
+  const max = Math.max(...weights.values());
+  const branches = [...weights].map(([key, weight]) => sql`when ${key} then ${weight / max}::numeric`);
+  return sql`(case ${column} ${sql.join(branches, sql` `)} else 0 end)`;
+};
+
+export function registerRecommendationsRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  // GET /api/for-you - Returns published listings ranked for the authenticated user from the districts, listing
+  // types and prices they searched, opened, saved and chatted about. Newer and not yet opened listings rank higher.
+  // Users without any activity get the newest listings, with personalised false.
+  app.fastify.get(
+    '/api/for-you',
+    {
+      schema: {
+        description: 'Get the personalised "For you" listing feed',
+        tags: ['recommendations'],
+        querystring: {
+          type: 'object',
+          properties: {
+            limit: { type: 'string' },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+      app.logger.info({ userId, query: request.query }, 'Fetching for you feed');
+
+      try {
+        const { limit } = FeedQuerySchema.parse(request.query);
+        const profile = await buildTasteProfile(app, userId);
+        const personalised = profile.districts.size > 0 || profile.listingTypes.size > 0;
+
+        const conditions: SQL[] = [
+          eq(schema.properties.status, 'published'),
+          isNull(schema.properties.deletedAt),
+          ne(schema.properties.ownerId, userId),
+        ];
+        if (profile.excludedIds.length > 0) {
+          conditions.push(notInArray(schema.properties.id, profile.excludedIds));
+        }
+        if (profile.districts.size > 0) {
+          conditions.push(inArray(schema.properties.district, [...profile.districts.keys()]));
+        }
+
+        const freshness = sql`(1 - least(extract(epoch from now() - ${schema.properties.publishedAt}) / 86400 / ${FRESHNESS_DAYS}::numeric, 1))`;
+        const unseen = sql`(case when exists (
+          select 1 from property_views pv
+          where pv.user_id = ${userId} and pv.property_id = "properties"."id"
+        ) then 0 else 1 end)`;
+
+        // Closeness to the typical price the user looked at for the listing's type, 0 without one
+        const priceBranches = schema.LISTING_TYPES.flatMap((listingType) => {
+          const target = weightedMedian(profile.prices.get(listingType) ?? []);
+          return target
+            ? [
+                sql`when ${listingType} then 1 - least(abs(${schema.properties.price} - ${target}::numeric) / ${target}::numeric, 1)`,
+              ]
+            : [];
+        });
+        const priceMatch =
+          priceBranches.length > 0
+            ? sql`(case ${schema.properties.listingType} ${sql.join(priceBranches, sql` `)} else 0 end)`
+            : sql`0`;
+
+        const districtMatch = profile.districts.size > 0 ? weightShareCase(schema.properties.district, profile.districts) : sql`0`;
+        const listingTypeMatch =
+          profile.listingTypes.size > 0 ? weightShareCase(schema.properties.listingType, profile.listingTypes) : sql`0`;
+
+        const score = sql<number>`(
+          ${districtMatch} * ${SCORE_WEIGHTS.district}::numeric
+          + ${priceMatch} * ${SCORE_WEIGHTS.price}::numeric
+          + ${listingTypeMatch} * ${SCORE_WEIGHTS.listingType}::numeric
+          + ${freshness} * ${SCORE_WEIGHTS.freshness}::numeric
+          + ${unseen} * ${SCORE_WEIGHTS.unseen}::numeric
+        )::double precision`;
+
+        const rows = await app.db
+          .select({
+            ...propertyColumns,
+            amenities: amenityIdsColumn,
+            priceReducedFrom: priceReducedFromColumn,
+            score,
+          })
+          .from(schema.properties)
+          .where(and(...conditions))
+          .orderBy(
+            ...(personalised ? [desc(score)] : []),
+            desc(schema.properties.publishedAt),
+            desc(schema.properties.id)
+          )
+          .limit(limit);
+
+        const items = await Promise.all(rows.map((row) => enrichPropertyWithSignedUrls(row, app)));
+
+        app.logger.info({ userId, personalised, count: items.length }, 'For you feed retrieved');
+        return { personalised, items };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          app.logger.warn({ err: error, query: request.query }, 'Invalid for you feed query');
+          return reply.status(400).send({ error: 'Validation failed', details: error.issues });
+        }
+        app.logger.error({ err: error, userId }, 'Failed to fetch for you feed');
+        throw error;
+      }
+    }
+  );
+
+  // POST /api/for-you/searches - Records the district, listing type and price range the authenticated user is browsing with
+  app.fastify.post(
+    '/api/for-you/searches',
+    {
+      schema: {
+        description: 'Record home feed filters for recommendations',
+        tags: ['recommendations'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+      app.logger.info({ userId, body: request.body }, 'Recording search');
+
+      try {
+        const search = RecordSearchSchema.parse(request.body);
+        const entry = {
+          listingType: search.listingType ?? null,
+          district: search.district ?? null,
+          minPrice: search.minPrice != null ? String(search.minPrice) : null,
+          maxPrice: search.maxPrice != null ? String(search.maxPrice) : null,
+        };
+
+        if (!entry.listingType && !entry.district && entry.minPrice == null && entry.maxPrice == null) {
+          return { success: true };
+        }
+
+        await app.db.transaction(async (tx) => {
+          const [latest] = await tx
+            .select()
+            .from(schema.searchHistory)
+            .where(eq(schema.searchHistory.userId, userId))
+            .orderBy(desc(schema.searchHistory.createdAt))
+            .limit(1);
+
+          // Coming back to the same filters refreshes the latest entry instead of adding another
+          const isRepeat =
+            latest &&
+            latest.listingType === entry.listingType &&
+            latest.district === entry.district &&
+            (latest.minPrice == null ? null : Number(latest.minPrice)) === (search.minPrice ?? null) &&
+            (latest.maxPrice == null ? null : Number(latest.maxPrice)) === (search.maxPrice ?? null);
+
+          if (isRepeat) {
+            await tx
+              .update(schema.searchHistory)
+              .set({ createdAt: new Date() })
+              .where(eq(schema.searchHistory.id, latest.id));
+            return;
+          }
+
+          await tx.insert(schema.searchHistory).values({ userId, ...entry });
+
+          const stale = await tx
+            .select({ id: schema.searchHistory.id })
+            .from(schema.searchHistory)
+            .where(eq(schema.searchHistory.userId, userId))
+            .orderBy(desc(schema.searchHistory.createdAt))
+            .offset(MAX_SEARCH_HISTORY);
+          if (stale.length > 0) {
+            await tx.delete(schema.searchHistory).where(
+              inArray(
+                schema.searchHistory.id,
+                stale.map((row) => row.id)
+              )
+            );
+          }
+        });
+
+        app.logger.info({ userId }, 'Search recorded');
+        return { success: true };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          app.logger.warn({ err: error, body: request.body }, 'Validation failed for search signal');
+          return reply.status(400).send({ error: 'Validation failed', details: error.issues });
+        }
+        app.logger.error({ err: error, userId }, 'Failed to record search');
+        throw error;
+      }
+    }
+  );
+
+  // POST /api/for-you/views/:propertyId - Records that the authenticated user opened a listing
+  app.fastify.post(
+    '/api/for-you/views/:propertyId',
+    {
+      schema: {
+        description: 'Record a listing view for recommendations',
+        tags: ['recommendations'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const params = request.params as Record<string, string>;
+      const { propertyId } = params;
+      const userId = session.user.id;
+
+      try {
+        const property = await app.db.query.properties.findFirst({
+          where: and(
+            eq(schema.properties.id, propertyId),
+            ne(schema.properties.status, 'draft'),
+            isNull(schema.properties.deletedAt)
+          ),
+          columns: { id: true, ownerId: true },
+        });
+
+        if (!property) {
+          app.logger.warn({ propertyId }, 'Property not found');
+          return reply.status(404).send({ error: 'Property not found' });
+        }
+
+        // Owners checking their own listing say nothing about what they are looking for
+        if (property.ownerId === userId) {
+          return { success: true };
+        }
+
+        await app.db
+          .insert(schema.propertyViews)
+          .values({ userId, propertyId })
+          .onConflictDoUpdate({
+            target: [schema.propertyViews.userId, schema.propertyViews.propertyId],
+            set: {
+              viewCount: sql`${schema.propertyViews.viewCount} + 1`,
+              lastViewedAt: new Date(),
+            },
+          });
+
+        app.logger.info({ userId, propertyId }, 'Listing view recorded');
+        return { success: true };
+      } catch (error) {
+        app.logger.error({ err: error, userId, propertyId }, 'Failed to record listing view');
+        throw error;
+      }
+    }
+  );
+}
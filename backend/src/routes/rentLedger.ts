@@ -0,0 +1,960 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and, or, isNull, lte, gte, desc, count, notExists } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import type { App } from '../index.js';
+import { z } from 'zod';
+import { RENT_RECEIPT_PREFIX } from './upload.js';
+import { toCsvLine } from '../utils/csv.js';
+import type { PaymentProvider } from '../utils/payments.js';
+import {
+  CHARGE_LEAD_DAYS,
+  REMINDER_LEAD_DAYS,
+  addDays,
+  addMonths,
+  fromCents,
+  rentDueDates,
+  summarizeCharge,
+  toCents,
+} from '../utils/rentLedger.js';
+
+type Tenancy = typeof schema.tenancies.$inferSelect;
+type RentPayment = typeof schema.rentPayments.$inferSelect;
+type TenancyStatus = (typeof schema.TENANCY_STATUSES)[number];
+type DepositStatus = (typeof schema.DEPOSIT_STATUSES)[number];
+type DbTransaction = Parameters<Parameters<App['db']['transaction']>[0]>[0];
+
+const REMINDER_FEED_LIMIT = 100;
+
+// Anything left out is taken from the application and the listing's terms
+const CreateTenancySchema = z
+  .object({
+    startDate: z.iso.date().optional(),
+    endDate: z.iso.date().nullable().optional(),
+    monthlyRent: z.number().positive().optional(),
+    depositAmount: z.number().min(0).optional(),
+  })
+  .refine((body) => !body.startDate || !body.endDate || body.endDate > body.startDate, {
+    message: 'End date must be after the start date',
+    path: ['endDate'],
+  });
+
+const UpdateTenancySchema = z.object({
+  depositStatus: z.enum(schema.DEPOSIT_STATUSES).optional(),
+  endDate: z.iso.date().nullable().optional(),
+  status: z.enum(schema.TENANCY_STATUSES).optional(),
+});
+
+// Allowed tenancy changes. An ended tenancy is not reopened; start a new one instead.
+const TENANCY_STATUS_TRANSITIONS: Record<TenancyStatus, TenancyStatus[]> = {
+  active: ['ended'],
+  ended: [],
+};
+
+const DEPOSIT_STATUS_TRANSITIONS: Record<DepositStatus, DepositStatus[]> = {
+  unpaid: ['held'],
+  held: ['returned'],
+  returned: [],
+};
+
+const RecordPaymentSchema = z.object({
+  chargeId: z.uuid(),
+  amount: z.number().positive(),
+  method: z.enum(schema.RENT_PAYMENT_METHODS).exclude(['online']),
+  paidOn: z.iso.date(),
+  note: z.string().trim().max(500).optional(),
+  receipt: z
+    .object({
+      key: z.string().min(1),
+      filename: z.string().trim().min(1).max(255),
+    })
+    .optional(),
+});
+
+const PaymentDecisionSchema = z.object({
+  decision: z.enum(['confirm', 'reject']),
+});
+
+const todayDate = () => new Date().toISOString().slice(0, 10);
+
+function isUniqueViolation(error: unknown): boolean {
+  const err = error as { code?: string; cause?: { code?: string } } | null;
+  return err?.code === '23505' || err?.cause?.code === '23505';
+}
+
+const isParty = (tenancy: Pick<Tenancy, 'ownerId' | 'tenantId'>, userId: string) =>
+  tenancy.ownerId === userId || tenancy.tenantId === userId;
+
+// Receipt keys must come from the recorder's own uploads
+const isOwnReceiptKey = (key: string, userId: string) => key.startsWith(`${RENT_RECEIPT_PREFIX}/${userId}/`);
+
+/**
+ * Creates any charges falling due within the lead window that do not exist
+ * yet. Returns how many were created.
+ */
+async function syncRentCharges(db: App['db'] | DbTransaction, tenancy: Tenancy, today: string): Promise<number> {
+  if (tenancy.status !== 'active') return 0;
+
+  const dueDates = rentDueDates(tenancy.startDate, tenancy.endDate, addDays(today, CHARGE_LEAD_DAYS));
+  if (dueDates.length === 0) return 0;
+
+  const inserted = await db
+    .insert(schema.rentCharges)
+    .values(dueDates.map((dueDate) => ({ tenancyId: tenancy.id, dueDate, amount: tenancy.monthlyRent })))
+    .onConflictDoNothing()
+    .returning({ id: schema.rentCharges.id });
+  return inserted.length;
+}
+
+/**
+ * Creates upcoming charges for every active tenancy and records due-soon and
+ * overdue reminders for both parties on charges that are not fully paid
+ */
+export async function runRentLedgerJob(app: App) {
+  const today = todayDate();
+  const active = await app.db.select().from(schema.tenancies).where(eq(schema.tenancies.status, 'active'));
+  let chargesCreated = 0;
+  let remindersRecorded = 0;
+
+  for (const tenancy of active) {
+    try {
+      chargesCreated += await syncRentCharges(app.db, tenancy, today);
+
+      const charges = await app.db.query.rentCharges.findMany({
+        where: and(
+          eq(schema.rentCharges.tenancyId, tenancy.id),
+          lte(schema.rentCharges.dueDate, addDays(today, REMINDER_LEAD_DAYS))
+        ),
+        with: { payments: { columns: { amount: true, status: true, paidOn: true } } },
+      });
+
+      const reminders = charges.flatMap((charge) => {
+        const { status } = summarizeCharge(charge, today);
+        if (status === 'paid') return [];
+        const kind = status === 'overdue' ? ('overdue' as const) : ('due_soon' as const);
+        return [tenancy.ownerId, tenancy.tenantId].map((userId) => ({ chargeId: charge.id, userId, kind }));
+      });
+
+      if (reminders.length > 0) {
+        const inserted = await app.db
+          .insert(schema.rentReminders)
+          .values(reminders)
+          .onConflictDoNothing()
+          .returning({ id: schema.rentReminders.id });
+        remindersRecorded += inserted.length;
+      }
+    } catch (error) {
+      app.logger.error({ err: error, tenancyId: tenancy.id }, 'Failed to update rent ledger');
+    }
+  }
+
+  if (chargesCreated > 0 || remindersRecorded > 0) {
+    app.logger.info(
+      { tenancies: active.length, charges: chargesCreated, reminders: remindersRecorded },
+      'Updated rent ledgers'
+    );
+  }
+}
+
+async function findTenancy(app: App, id: string) {
+  return app.db.query.tenancies.findFirst({
+    where: eq(schema.tenancies.id, id),
+    with: {
+      property: { columns: { id: true, title: true, district: true, address: true } },
+      owner: { columns: { id: true, name: true } },
+      tenant: { columns: { id: true, name: true } },
+      charges: {
+        orderBy: desc(schema.rentCharges.dueDate),
+        with: { payments: { orderBy: schema.rentPayments.createdAt } },
+      },
+    },
+  });
+}
+
+// Receipts are private, so each is served through a short-lived signed URL
+async function withReceiptUrl(app: App, { receiptKey, ...payment }: RentPayment) {
+  if (!receiptKey) {
+    return { ...payment, receiptUrl: null };
+  }
+  try {
+    const { url } = await app.storage.getSignedUrl(receiptKey);
+    return { ...payment, receiptUrl: url };
+  } catch (err) {
+    app.logger.warn(
+      { paymentId: payment.id, error: err instanceof Error ? err.message : 'Unknown error' },
+      'Failed to generate signed URL for rent receipt'
+    );
+    return { ...payment, receiptUrl: null };
+  }
+}
+
+/**
+ * A tenancy with each charge's payment status and the running balance. Only
+ * charges already due count towards the balance.
+ */
+async function buildLedger(app: App, tenancy: NonNullable<Awaited<ReturnType<typeof findTenancy>>>) {
+  const today = todayDate();
+  let charged = 0;
+  let paid = 0;
+  let overdueCount = 0;
+
+  const charges = await Promise.all(
+    tenancy.charges.map(async ({ payments, ...charge }) => {
+      const summary = summarizeCharge({ ...charge, payments }, today);
+      if (charge.dueDate <= today) {
+        charged += toCents(charge.amount);
+        paid += toCents(summary.paidAmount);
+      }
+      if (summary.status === 'overdue') {
+        overdueCount++;
+      }
+      return {
+        ...charge,
+        ...summary,
+        payments: await Promise.all(payments.map((payment) => withReceiptUrl(app, payment))),
+      };
+    })
+  );
+
+  return {
+    ...tenancy,
+    charges,
+    balance: {
+      charged: fromCents(charged),
+      paid: fromCents(paid),
+      outstanding: fromCents(Math.max(charged - paid, 0)),
+      overdueCount,
+    },
+  };
+}
+
+// Without a payment provider, online payments are turned off
+export function registerRentLedgerRoutes(app: App, paymentProvider: PaymentProvider | null) {
+  const requireAuth = app.requireAuth();
+  const paymentProviderName = paymentProvider?.name ?? null;
+
+  app.logger.info({ paymentProvider: paymentProviderName }, 'Rent payments configured');
+
+  // Ledger responses tell the app which provider online payments go through, if any
+  const loadLedger = async (tenancyId: string) => {
+    const tenancy = await findTenancy(app, tenancyId);
+    return { ...(await buildLedger(app, tenancy!)), paymentProvider: paymentProviderName };
+  };
+
+  // POST /api/applications/:id/tenancy - Starts the rent ledger for an accepted application. Only the listing owner
+  // can do this, once per application.
+  app.fastify.post(
+    '/api/applications/:id/tenancy',
+    {
+      schema: {
+        description: 'Start a tenancy for an accepted application',
+        tags: ['rent-ledger'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { id } = request.params as Record<string, string>;
+      const userId = session.user.id;
+      app.logger.info({ applicationId: id, userId }, 'Starting tenancy');
+
+      try {
+        const fields = CreateTenancySchema.parse(request.body ?? {});
+
+        const application = await app.db.query.rentalApplications.findFirst({
+          where: eq(schema.rentalApplications.id, id),
+          with: {
+            property: {
+              columns: { id: true, ownerId: true, price: true, depositMonths: true, minLeaseMonths: true },
+            },
+            tenancy: { columns: { id: true } },
+          },
+        });
+
+        if (!application) {
+          app.logger.warn({ applicationId: id }, 'Application not found');
+          return reply.status(404).send({ error: 'Application not found' });
+        }
+
+        const { property } = application;
+        if (property.ownerId !== userId) {
+          app.logger.warn({ applicationId: id, userId }, 'Unauthorized tenancy start attempt');
+          return reply.status(403).send({ error: 'Unauthorized to start a tenancy for this application' });
+        }
+
+        if (application.status !== 'accepted') {
+          return reply.status(409).send({ error: 'Only accepted applications can start a tenancy' });
+        }
+
+        if (application.tenancy) {
+          return reply.status(409).send({ error: 'A tenancy already exists for this application' });
+        }
+
+        const startDate = fields.startDate ?? application.moveInDate;
+        const monthlyRent = fields.monthlyRent ?? Number(property.price);
+        const endDate =
+          fields.endDate !== undefined
+            ? fields.endDate
+            : property.minLeaseMonths !== null
+              ? addMonths(startDate, property.minLeaseMonths)
+              : null;
+
+        if (endDate && endDate <= startDate) {
+          return reply.status(400).send({ error: 'End date must be after the start date' });
+        }
+
+        let tenancy: Tenancy;
+        try {
+          [tenancy] = await app.db
+            .insert(schema.tenancies)
+            .values({
+              applicationId: id,
+              propertyId: property.id,
+              ownerId: userId,
+              tenantId: application.applicantId,
+              monthlyRent: fromCents(toCents(monthlyRent)),
+              depositAmount: fromCents(toCents(fields.depositAmount ?? monthlyRent * (property.depositMonths ?? 0))),
+              startDate,
+              endDate,
+            })
+            .returning();
+        } catch (error) {
+          if (isUniqueViolation(error)) {
+            app.logger.warn({ applicationId: id }, 'Tenancy already exists for application');
+            return reply.status(409).send({ error: 'A tenancy already exists for this application' });
+          }
+          throw error;
+        }
+
+        const chargesCreated = await syncRentCharges(app.db, tenancy, todayDate());
+
+        app.logger.info({ tenancyId: tenancy.id, applicationId: id, chargesCreated }, 'Tenancy started');
+        return loadLedger(tenancy.id);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          app.logger.warn({ err: error, applicationId: id }, 'Validation failed for tenancy start');
+          return reply.status(400).send({ error: 'Validation failed', details: error.issues });
+        }
+        app.logger.error({ err: error, applicationId: id, userId }, 'Failed to start tenancy');
+        throw error;
+      }
+    }
+  );
+
+  // GET /api/tenancies - Returns the tenancies the authenticated user is the owner or the tenant of, with balances
+  app.fastify.get(
+    '/api/tenancies',
+    {
+      schema: {
+        description: 'List tenancies for the authenticated user',
+        tags: ['rent-ledger'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+      app.logger.info({ userId }, 'Fetching tenancies');
+
+      try {
+        const tenancies = await app.db.query.tenancies.findMany({
+          where: or(eq(schema.tenancies.ownerId, userId), eq(schema.tenancies.tenantId, userId)),
+          orderBy: desc(schema.tenancies.startDate),
+          with: {
+            property: { columns: { id: true, title: true, district: true } },
+            owner: { columns: { id: true, name: true } },
+            tenant: { columns: { id: true, name: true } },
+            charges: {
+              orderBy: desc(schema.rentCharges.dueDate),
+              with: { payments: { columns: { amount: true, status: true, paidOn: true } } },
+            },
+          },
+        });
+
+        const today = todayDate();
+        const result = tenancies.map(({ charges, ...tenancy }) => {
+          const summaries = charges.map((charge) => ({ dueDate: charge.dueDate, ...summarizeCharge(charge, today) }));
+          const open = summaries.filter((summary) => summary.status !== 'paid');
+          return {
+            ...tenancy,
+            overdueCount: open.filter((summary) => summary.status === 'overdue').length,
+            nextDueDate: open.length > 0 ? open[open.length - 1].dueDate : null,
+          };
+        });
+
+        app.logger.info({ userId, count: result.length }, 'Tenancies retrieved');
+        return result;
+      } catch (error) {
+        app.logger.error({ err: error, userId }, 'Failed to fetch tenancies');
+        throw error;
+      }
+    }
+  );
+
+  // GET /api/tenancies/:id - Returns the shared rent ledger ONLY IF the authenticated user is the owner or the tenant
+  app.fastify.get(
+    '/api/tenancies/:id',
+    {
+      schema: {
+        description: 'Get a tenancy with its rent ledger',
+        tags: ['rent-ledger'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { id } = request.params as Record<string, string>;
+      app.logger.info({ tenancyId: id, userId: session.user.id }, 'Fetching rent ledger');
+
+      try {
+        const tenancy = await findTenancy(app, id);
+
+        if (!tenancy) {
+          app.logger.warn({ tenancyId: id }, 'Tenancy not found');
+          return reply.status(404).send({ error: 'Tenancy not found' });
+        }
+
+        if (!isParty(tenancy, session.user.id)) {
+          app.logger.warn({ tenancyId: id, userId: session.user.id }, 'Unauthorized rent ledger access attempt');
+          return reply.status(403).send({ error: 'Unauthorized to view this tenancy' });
+        }
+
+        const ledger = await buildLedger(app, tenancy);
+        return { ...ledger, paymentProvider: paymentProviderName };
+      } catch (error) {
+        app.logger.error({ err: error, tenancyId: id }, 'Failed to fetch rent ledger');
+        throw error;
+      }
+    }
+  );
+
+  // PUT /api/tenancies/:id - Updates the deposit status, end date or status ONLY IF the authenticated user is the
+  // owner and the status changes are allowed. Unpaid charges from a new end date onwards are dropped.
+  app.fastify.put(
+    '/api/tenancies/:id',
+    {
+      schema: {
+        description: 'Update a tenancy',
+        tags: ['rent-ledger'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { id } = request.params as Record<string, string>;
+      app.logger.info({ tenancyId: id, userId: session.user.id, body: request.body }, 'Updating tenancy');
+
+      try {
+        const fields = UpdateTenancySchema.parse(request.body);
+
+        const existing = await app.db.query.tenancies.findFirst({
+          where: eq(schema.tenancies.id, id),
+        });
+
+        if (!existing) {
+          app.logger.warn({ tenancyId: id }, 'Tenancy not found');
+          return reply.status(404).send({ error: 'Tenancy not found' });
+        }
+
+        if (existing.ownerId !== session.user.id) {
+          app.logger.warn({ tenancyId: id, userId: session.user.id }, 'Unauthorized tenancy update attempt');
+          return reply.status(403).send({ error: 'Unauthorized to update this tenancy' });
+        }
+
+        if (fields.endDate && fields.endDate <= existing.startDate) {
+          return reply.status(400).send({ error: 'End date must be after the start date' });
+        }
+
+        const result = await app.db.transaction(async (tx) => {
+          const [current] = await tx
+            .select()
+            .from(schema.tenancies)
+            .where(eq(schema.tenancies.id, id))
+            .for('update');
+
+          if (fields.status && fields.status !== current.status) {
+            if (!TENANCY_STATUS_TRANSITIONS[current.status].includes(fields.status)) {
+              return { field: 'status', from: current.status, to: fields.status };
+            }
+          }
+          if (fields.depositStatus && fields.depositStatus !== current.depositStatus) {
+            if (!DEPOSIT_STATUS_TRANSITIONS[current.depositStatus].includes(fields.depositStatus)) {
+              return { field: 'deposit status', from: current.depositStatus, to: fields.depositStatus };
+            }
+          }
+
+          const [updated] = await tx
+            .update(schema.tenancies)
+            .set(fields)
+            .where(eq(schema.tenancies.id, id))
+            .returning();
+
+          if (updated.endDate && updated.endDate !== current.endDate) {
+            await tx
+              .delete(schema.rentCharges)
+              .where(
+                and(
+                  eq(schema.rentCharges.tenancyId, id),
+                  gte(schema.rentCharges.dueDate, updated.endDate),
+                  notExists(
+                    tx
+                      .select({ id: schema.rentPayments.id })
+                      .from(schema.rentPayments)
+                      .where(eq(schema.rentPayments.chargeId, schema.rentCharges.id))
+                  )
+                )
+              );
+          }
+          await syncRentCharges(tx, updated, todayDate());
+          return null;
+        });
+
+        if (result) {
+          app.logger.warn({ tenancyId: id, ...result }, 'Invalid tenancy status transition');
+          return reply.status(409).send({
+            error: 'Invalid status transition',
+            message: `Cannot change ${result.field} from ${result.from} to ${result.to}`,
+          });
+        }
+
+        app.logger.info({ tenancyId: id }, 'Tenancy updated');
+        return loadLedger(id);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          app.logger.warn({ err: error, tenancyId: id }, 'Validation failed for tenancy update');
+          return reply.status(400).send({ error: 'Validation failed', details: error.issues });
+        }
+        app.logger.error({ err: error, tenancyId: id }, 'Failed to update tenancy');
+        throw error;
+      }
+    }
+  );
+
+  // POST /api/tenancies/:id/payments - Records a payment made outside the app against one of the tenancy's charges.
+  // Owner-recorded payments count straight away; tenant-recorded ones wait for the owner to confirm them. Receipts
+  // are uploaded through POST /api/upload/rent-receipt.
+  app.fastify.post(
+    '/api/tenancies/:id/payments',
+    {
+      schema: {
+        description: 'Record a rent payment',
+        tags: ['rent-ledger'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { id } = request.params as Record<string, string>;
+      const userId = session.user.id;
+      app.logger.info({ tenancyId: id, userId }, 'Recording rent payment');
+
+      try {
+        const fields = RecordPaymentSchema.parse(request.body);
+
+        const tenancy = await app.db.query.tenancies.findFirst({
+          where: eq(schema.tenancies.id, id),
+        });
+
+        if (!tenancy) {
+          app.logger.warn({ tenancyId: id }, 'Tenancy not found');
+          return reply.status(404).send({ error: 'Tenancy not found' });
+        }
+
+        if (!isParty(tenancy, userId)) {
+          app.logger.warn({ tenancyId: id, userId }, 'Unauthorized rent payment attempt');
+          return reply.status(403).send({ error: 'Unauthorized to record payments for this tenancy' });
+        }
+
+        const charge = await app.db.query.rentCharges.findFirst({
+          where: and(eq(schema.rentCharges.id, fields.chargeId), eq(schema.rentCharges.tenancyId, id)),
+        });
+
+        if (!charge) {
+          app.logger.warn({ chargeId: fields.chargeId, tenancyId: id }, 'Rent charge not found');
+          return reply.status(404).send({ error: 'Charge not found' });
+        }
+
+        if (fields.paidOn > todayDate()) {
+          return reply.status(400).send({ error: 'Payment date cannot be in the future' });
+        }
+
+        if (fields.receipt && !isOwnReceiptKey(fields.receipt.key, userId)) {
+          app.logger.warn({ tenancyId: id, userId }, 'Rent payment references a receipt the user did not upload');
+          return reply.status(400).send({ error: 'Invalid receipt' });
+        }
+
+        const [payment] = await app.db
+          .insert(schema.rentPayments)
+          .values({
+            chargeId: charge.id,
+            tenancyId: id,
+            recordedById: userId,
+            amount: fromCents(toCents(fields.amount)),
+            method: fields.method,
+            status: userId === tenancy.ownerId ? 'completed' : 'pending',
+            paidOn: fields.paidOn,
+            note: fields.note || null,
+            receiptKey: fields.receipt?.key ?? null,
+            receiptFilename: fields.receipt?.filename ?? null,
+          })
+          .returning();
+
+        app.logger.info(
+          { paymentId: payment.id, tenancyId: id, chargeId: charge.id, status: payment.status },
+          'Rent payment recorded'
+        );
+        return loadLedger(id);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          app.logger.warn({ err: error, tenancyId: id }, 'Validation failed for rent payment');
+          return reply.status(400).send({ error: 'Validation failed', details: error.issues });
+        }
+        app.logger.error({ err: error, tenancyId: id, userId }, 'Failed to record rent payment');
+        throw error;
+      }
+    }
+  );
+
+  // POST /api/rent-charges/:id/pay - Pays what is left on a charge through the payment provider ONLY IF the
+  // authenticated user is the tenant. Payments still pending, including online ones in flight, are not paid again.
+  // Returns 501 when no payment provider is configured.
+  app.fastify.post(
+    '/api/rent-charges/:id/pay',
+    {
+      schema: {
+        description: 'Pay a rent charge online',
+        tags: ['rent-ledger'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { id } = request.params as Record<string, string>;
+      const userId = session.user.id;
+      app.logger.info({ chargeId: id, userId, provider: paymentProviderName }, 'Paying rent charge');
+
+      if (!paymentProvider) {
+        return reply.status(501).send({ error: 'Online payments are not available' });
+      }
+
+      try {
+        const charge = await app.db.query.rentCharges.findFirst({
+          where: eq(schema.rentCharges.id, id),
+          with: { tenancy: { with: { property: { columns: { title: true } } } } },
+        });
+
+        if (!charge) {
+          app.logger.warn({ chargeId: id }, 'Rent charge not found');
+          return reply.status(404).send({ error: 'Charge not found' });
+        }
+
+        const { tenancy } = charge;
+        if (tenancy.tenantId !== userId) {
+          app.logger.warn({ chargeId: id, userId }, 'Unauthorized rent charge payment attempt');
+          return reply.status(403).send({ error: 'Unauthorized to pay this charge' });
+        }
+
+        // The charge row is locked while the pending payment is recorded, so a
+        // second tap waits and then sees the first payment instead of paying twice
+        const today = todayDate();
+        const payment = await app.db.transaction(async (tx) => {
+          await tx
+            .select({ id: schema.rentCharges.id })
+            .from(schema.rentCharges)
+            .where(eq(schema.rentCharges.id, id))
+            .for('update');
+
+          const payments = await tx
+            .select({
+              amount: schema.rentPayments.amount,
+              status: schema.rentPayments.status,
+              paidOn: schema.rentPayments.paidOn,
+            })
+            .from(schema.rentPayments)
+            .where(eq(schema.rentPayments.chargeId, id));
+
+          const summary = summarizeCharge({ ...charge, payments }, today);
+          const amount = toCents(summary.outstanding) - toCents(summary.pendingAmount);
+          if (amount <= 0) {
+            return null;
+          }
+
+          const [inserted] = await tx
+            .insert(schema.rentPayments)
+            .values({
+              chargeId: id,
+              tenancyId: tenancy.id,
+              recordedById: userId,
+              amount: fromCents(amount),
+              method: 'online',
+              status: 'pending',
+              paidOn: today,
+              provider: paymentProvider.name,
+            })
+            .returning();
+          return inserted;
+        });
+
+        if (!payment) {
+          return reply.status(409).send({ error: 'Nothing left to pay on this charge' });
+        }
+
+        let result;
+        try {
+          result = await paymentProvider.charge({
+            paymentId: payment.id,
+            amount: payment.amount,
+            description: `Rent due ${charge.dueDate} - ${tenancy.property.title}`,
+            payerId: tenancy.tenantId,
+            payeeId: tenancy.ownerId,
+          });
+        } catch (err) {
+          await app.db
+            .update(schema.rentPayments)
+            .set({ status: 'failed' })
+            .where(eq(schema.rentPayments.id, payment.id));
+          app.logger.error({ err, paymentId: payment.id, provider: paymentProvider.name }, 'Payment provider error');
+          return reply.status(502).send({ error: 'Payment provider is unavailable. Please try again later.' });
+        }
+
+        await app.db
+          .update(schema.rentPayments)
+          .set({ status: result.status, providerReference: result.reference, note: result.failureReason ?? null })
+          .where(eq(schema.rentPayments.id, payment.id));
+
+        app.logger.info(
+          { paymentId: payment.id, chargeId: id, status: result.status, reference: result.reference },
+          'Online rent payment processed'
+        );
+
+        if (result.status === 'failed') {
+          return reply.status(402).send({ error: result.failureReason || 'Payment was declined' });
+        }
+
+        return loadLedger(tenancy.id);
+      } catch (error) {
+        app.logger.error({ err: error, chargeId: id, userId }, 'Failed to pay rent charge');
+        throw error;
+      }
+    }
+  );
+
+  // POST /api/rent-payments/:id/decision - Confirms or rejects a payment the tenant recorded ONLY IF the
+  // authenticated user is the owner
+  app.fastify.post(
+    '/api/rent-payments/:id/decision',
+    {
+      schema: {
+        description: 'Confirm or reject a recorded rent payment',
+        tags: ['rent-ledger'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { id } = request.params as Record<string, string>;
+      app.logger.info({ paymentId: id, userId: session.user.id, body: request.body }, 'Reviewing rent payment');
+
+      try {
+        const { decision } = PaymentDecisionSchema.parse(request.body);
+
+        const payment = await app.db.query.rentPayments.findFirst({
+          where: eq(schema.rentPayments.id, id),
+          with: { tenancy: { columns: { id: true, ownerId: true } } },
+        });
+
+        if (!payment) {
+          app.logger.warn({ paymentId: id }, 'Rent payment not found');
+          return reply.status(404).send({ error: 'Payment not found' });
+        }
+
+        if (payment.tenancy.ownerId !== session.user.id) {
+          app.logger.warn({ paymentId: id, userId: session.user.id }, 'Unauthorized rent payment review attempt');
+          return reply.status(403).send({ error: 'Unauthorized to review this payment' });
+        }
+
+        if (payment.status !== 'pending' || payment.method === 'online') {
+          return reply.status(409).send({ error: 'Only payments awaiting confirmation can be reviewed' });
+        }
+
+        await app.db
+          .update(schema.rentPayments)
+          .set({ status: decision === 'confirm' ? 'completed' : 'rejected' })
+          .where(eq(schema.rentPayments.id, id));
+
+        app.logger.info({ paymentId: id, decision }, 'Rent payment reviewed');
+        return loadLedger(payment.tenancy.id);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          app.logger.warn({ err: error, paymentId: id }, 'Validation failed for rent payment review');
+          return reply.status(400).send({ error: 'Validation failed', details: error.issues });
+        }
+        app.logger.error({ err: error, paymentId: id }, 'Failed to review rent payment');
+        throw error;
+      }
+    }
+  );
+
+  // GET /api/tenancies/:id/export - Returns the rent ledger as CSV, one row per charge, for either party
+  app.fastify.get(
+    '/api/tenancies/:id/export',
+    {
+      schema: {
+        description: 'Export a rent ledger as CSV',
+        tags: ['rent-ledger'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { id } = request.params as Record<string, string>;
+      app.logger.info({ tenancyId: id, userId: session.user.id }, 'Exporting rent ledger');
+
+      try {
+        const tenancy = await findTenancy(app, id);
+
+        if (!tenancy) {
+          app.logger.warn({ tenancyId: id }, 'Tenancy not found');
+          return reply.status(404).send({ error: 'Tenancy not found' });
+        }
+
+        if (!isParty(tenancy, session.user.id)) {
+          app.logger.warn({ tenancyId: id, userId: session.user.id }, 'Unauthorized rent ledger export attempt');
+          return reply.status(403).send({ error: 'Unauthorized to export this tenancy' });
+        }
+
+        const today = todayDate();
+        let csv = '\uFEFF' + toCsvLine(['due_date', 'amount', 'paid', 'outstanding', 'status', 'late', 'paid_on', 'payments']);
+        for (const charge of [...tenancy.charges].reverse()) {
+          const summary = summarizeCharge(charge, today);
+          const payments = charge.payments
+            .map((payment) => `${payment.paidOn} ${payment.amount} ${payment.method} (${payment.status})`)
+            .join('; ');
+          csv += toCsvLine([
+            charge.dueDate,
+            charge.amount,
+            summary.paidAmount,
+            summary.outstanding,
+            summary.status,
+            summary.late,
+            summary.paidOn,
+            payments,
+          ]);
+        }
+
+        return reply
+          .type('text/csv; charset=utf-8')
+          .header('Content-Disposition', `attachment; filename="rent-ledger-${today}.csv"`)
+          .send(csv);
+      } catch (error) {
+        app.logger.error({ err: error, tenancyId: id }, 'Failed to export rent ledger');
+        throw error;
+      }
+    }
+  );
+
+  // GET /api/rent-reminders - Returns the user's recent due-date reminders, newest first
+  app.fastify.get(
+    '/api/rent-reminders',
+    {
+      schema: {
+        description: 'Get rent due-date reminders',
+        tags: ['rent-ledger'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      app.logger.info({ userId: session.user.id }, 'Fetching rent reminders');
+
+      try {
+        const reminders = await app.db.query.rentReminders.findMany({
+          where: eq(schema.rentReminders.userId, session.user.id),
+          orderBy: desc(schema.rentReminders.createdAt),
+          limit: REMINDER_FEED_LIMIT,
+          with: {
+            charge: {
+              columns: { id: true, dueDate: true, amount: true },
+              with: {
+                tenancy: {
+                  columns: { id: true },
+                  with: { property: { columns: { id: true, title: true } } },
+                },
+              },
+            },
+          },
+        });
+
+        app.logger.info({ userId: session.user.id, count: reminders.length }, 'Rent reminders retrieved');
+        return reminders;
+      } catch (error) {
+        app.logger.error({ err: error, userId: session.user.id }, 'Failed to fetch rent reminders');
+        throw error;
+      }
+    }
+  );
+
+  // GET /api/rent-reminders/unseen-count - Returns the number of unseen reminders, for the app badge
+  app.fastify.get(
+    '/api/rent-reminders/unseen-count',
+    {
+      schema: {
+        description: 'Get the number of unseen rent reminders',
+        tags: ['rent-ledger'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      try {
+        const [{ value }] = await app.db
+          .select({ value: count() })
+          .from(schema.rentReminders)
+          .where(and(eq(schema.rentReminders.userId, session.user.id), isNull(schema.rentReminders.seenAt)));
+
+        return { count: value };
+      } catch (error) {
+        app.logger.error({ err: error, userId: session.user.id }, 'Failed to count rent reminders');
+        throw error;
+      }
+    }
+  );
+
+  // POST /api/rent-reminders/seen - Marks every reminder as seen
+  app.fastify.post(
+    '/api/rent-reminders/seen',
+    {
+      schema: {
+        description: 'Mark all rent reminders as seen',
+        tags: ['rent-ledger'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      app.logger.info({ userId: session.user.id }, 'Marking rent reminders as seen');
+
+      try {
+        await app.db
+          .update(schema.rentReminders)
+          .set({ seenAt: new Date() })
+          .where(and(eq(schema.rentReminders.userId, session.user.id), isNull(schema.rentReminders.seenAt)));
+
+        return { success: true };
+      } catch (error) {
+        app.logger.error({ err: error, userId: session.user.id }, 'Failed to mark rent reminders as seen');
+        throw error;
+      }
+    }
+  );
+}
@@ -0,0 +1,170 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and, gt, isNull, desc } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import type { App } from '../index.js';
+import { REVISION_FIELDS, revisionSnapshot } from '../utils/revisions.js';
+import { resolveAmenities, updateProperty } from './properties.js';
+import type { PropertyUpdate } from './properties.js';
+
+export function registerRevisionsRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  // GET /api/properties/:id/revisions - Returns the listing's revision log, newest first, ONLY IF property.ownerId matches authenticated user
+  app.fastify.get(
+    '/api/properties/:id/revisions',
+    {
+      schema: {
+        description: 'Get the revision history of a property',
+        tags: ['properties'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const params = request.params as Record<string, string>;
+      const { id } = params;
+      app.logger.info({ propertyId: id, userId: session.user.id }, 'Fetching property revisions');
+
+      try {
+        const property = await app.db.query.properties.findFirst({
+          where: and(eq(schema.properties.id, id), isNull(schema.properties.deletedAt)),
+          columns: { id: true, ownerId: true },
+        });
+
+        if (!property) {
+          app.logger.warn({ propertyId: id }, 'Property not found');
+          return reply.status(404).send({ error: 'Property not found' });
+        }
+
+        if (property.ownerId !== session.user.id) {
+          app.logger.warn(
+            { propertyId: id, userId: session.user.id, ownerId: property.ownerId },
+            'Unauthorized property revisions access attempt'
+          );
+          return reply.status(403).send({ error: 'Unauthorized to view revisions of this property' });
+        }
+
+        const revisions = await app.db.query.propertyRevisions.findMany({
+          where: eq(schema.propertyRevisions.propertyId, id),
+          orderBy: desc(schema.propertyRevisions.createdAt),
+          columns: { propertyId: false, userId: false },
+          with: { user: { columns: { id: true, name: true } } },
+        });
+
+        app.logger.info({ propertyId: id, count: revisions.length }, 'Property revisions retrieved');
+        return revisions;
+      } catch (error) {
+        app.logger.error({ err: error, propertyId: id }, 'Failed to fetch property revisions');
+        throw error;
+      }
+    }
+  );
+
+  // POST /api/properties/:id/revisions/:revisionId/restore - Puts the listing's fields back to how they were
+  // right after the given revision, ONLY IF property.ownerId matches authenticated user. Status is left alone;
+  // it only changes through PATCH /api/properties/:id/status. The restore is itself logged as a revision.
+  app.fastify.post(
+    '/api/properties/:id/revisions/:revisionId/restore',
+    {
+      schema: {
+        description: 'Restore a property to a previous revision',
+        tags: ['properties'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const params = request.params as Record<string, string>;
+      const { id, revisionId } = params;
+      app.logger.info({ propertyId: id, revisionId, userId: session.user.id }, 'Restoring property revision');
+
+      try {
+        const property = await app.db.query.properties.findFirst({
+          where: and(eq(schema.properties.id, id), isNull(schema.properties.deletedAt)),
+          with: { amenities: { columns: { amenityId: true } } },
+        });
+
+        if (!property) {
+          app.logger.warn({ propertyId: id }, 'Property not found');
+          return reply.status(404).send({ error: 'Property not found' });
+        }
+
+        if (property.ownerId !== session.user.id) {
+          app.logger.warn(
+            { propertyId: id, userId: session.user.id, ownerId: property.ownerId },
+            'Unauthorized property restore attempt'
+          );
+          return reply.status(403).send({ error: 'Unauthorized to restore this property' });
+        }
+
+        const target = await app.db.query.propertyRevisions.findFirst({
+          where: and(eq(schema.propertyRevisions.id, revisionId), eq(schema.propertyRevisions.propertyId, id)),
+        });
+
+        if (!target) {
+          app.logger.warn({ propertyId: id, revisionId }, 'Revision not found');
+          return reply.status(404).send({ error: 'Revision not found' });
+        }
+
+        // Walk back from the current values, undoing every later revision
+        const { amenities: amenityLinks, ...row } = property;
+        const current = revisionSnapshot({ ...row, amenities: amenityLinks.map((link) => link.amenityId).sort() });
+        const state = { ...current };
+        const later = await app.db
+          .select({ changes: schema.propertyRevisions.changes })
+          .from(schema.propertyRevisions)
+          .where(and(eq(schema.propertyRevisions.propertyId, id), gt(schema.propertyRevisions.createdAt, target.createdAt)))
+          .orderBy(desc(schema.propertyRevisions.createdAt));
+        for (const revision of later) {
+          for (const [field, change] of Object.entries(revision.changes)) {
+            if (field in state) state[field as keyof typeof state] = change.from;
+          }
+        }
+
+        const data: Record<string, unknown> = {};
+        for (const field of REVISION_FIELDS) {
+          if (field !== 'status' && JSON.stringify(state[field]) !== JSON.stringify(current[field])) {
+            data[field] = state[field];
+          }
+        }
+
+        if (Object.keys(data).length === 0) {
+          return reply
+            .status(409)
+            .send({ error: 'Nothing to restore', message: 'The listing already matches this revision' });
+        }
+
+        const update = data as PropertyUpdate;
+        let amenities;
+        if (update.amenities) {
+          const resolved = await resolveAmenities(app, update.amenities);
+          if (resolved.unknownIds.length > 0) {
+            app.logger.warn({ propertyId: id, unknownIds: resolved.unknownIds }, 'Restored amenities no longer exist');
+            return reply.status(409).send({
+              error: 'Cannot restore revision',
+              message: `Amenities no longer offered: ${resolved.unknownIds.join(', ')}`,
+            });
+          }
+          amenities = resolved.amenities;
+        }
+
+        const restored = await updateProperty(app, property, update, amenities, {
+          userId: session.user.id,
+          action: 'restore',
+          restoredFromId: target.id,
+        });
+
+        app.logger.info(
+          { propertyId: id, revisionId, userId: session.user.id, fields: Object.keys(data) },
+          'Property revision restored'
+        );
+        return restored;
+      } catch (error) {
+        app.logger.error({ err: error, propertyId: id, revisionId }, 'Failed to restore property revision');
+        throw error;
+      }
+    }
+  );
+}
@@ -0,0 +1,359 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and, ne, desc, isNull, gt, count, sql } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import type { App } from '../index.js';
+import { z } from 'zod';
+import {
+  PropertyFilterSchema,
+  PROPERTY_FILTER_KEYS,
+  buildPropertyFilterConditions,
+  enrichPropertyWithSignedUrls,
+} from './properties.js';
+
+const MAX_SAVED_SEARCHES = 20;
+const MATCH_FEED_LIMIT = 100;
+
+// Re-checks a few minutes before the last run so listings published in a
+// transaction that committed after that run started are not missed. The
+// unique index on (search, property) drops the repeats.
+const ALERT_LOOKBACK_MS = 5 * 60 * 1000;
+
+// Only filter keys are kept, and empty values are dropped, so a saved search
+// holds exactly the query string GET /api/properties would receive
+const SavedSearchFiltersSchema = z
+  .record(z.string(), z.string())
+  .transform((filters) =>
+    Object.fromEntries(
+      PROPERTY_FILTER_KEYS.filter((key) => filters[key]?.trim()).map((key) => [key, filters[key].trim()])
+    )
+  );
+
+const CreateSavedSearchSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  filters: SavedSearchFiltersSchema,
+});
+
+/**
+ * Records listings published since each saved search was last checked that
+ * match its filters. Uses the same conditions as GET /api/properties.
+ */
+export async function runSavedSearchAlerts(app: App) {
+  const searches = await app.db.select().from(schema.savedSearches);
+  let recorded = 0;
+
+  for (const search of searches) {
+    const checkedAt = new Date();
+    try {
+      const filters = PropertyFilterSchema.parse(search.filters);
+      const { conditions } = buildPropertyFilterConditions(filters);
+      const since = new Date(
+        Math.max(search.lastCheckedAt.getTime() - ALERT_LOOKBACK_MS, search.createdAt.getTime())
+      );
+
+      const matches = await app.db
+        .select({ id: schema.properties.id })
+        .from(schema.properties)
+        .where(and(...conditions, gt(schema.properties.publishedAt, since)));
+
+      if (matches.length > 0) {
+        const inserted = await app.db
+          .insert(schema.savedSearchMatches)
+          .values(
+            matches.map((match) => ({
+              savedSearchId: search.id,
+              userId: search.userId,
+              propertyId: match.id,
+            }))
+          )
+          .onConflictDoNothing()
+          .returning({ id: schema.savedSearchMatches.id });
+        recorded += inserted.length;
+      }
+
+      await app.db
+        .update(schema.savedSearches)
+        .set({ lastCheckedAt: checkedAt })
+        .where(eq(schema.savedSearches.id, search.id));
+    } catch (error) {
+      app.logger.error({ err: error, savedSearchId: search.id }, 'Failed to evaluate saved search');
+    }
+  }
+
+  if (recorded > 0) {
+    app.logger.info({ searches: searches.length, matches: recorded }, 'Recorded saved search matches');
+  }
+}
+
+export function registerSavedSearchesRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+
+  // GET /api/saved-searches - Returns the user's saved searches with their unseen match counts
+  app.fastify.get(
+    '/api/saved-searches',
+    {
+      schema: {
+        description: 'Get saved searches for the authenticated user',
+        tags: ['saved-searches'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      app.logger.info({ userId: session.user.id }, 'Fetching saved searches');
+
+      try {
+        const searches = await app.db
+          .select({
+            id: schema.savedSearches.id,
+            name: schema.savedSearches.name,
+            filters: schema.savedSearches.filters,
+            createdAt: schema.savedSearches.createdAt,
+            // Deleted and draft listings are left out here as they are from the match feed
+            newMatchCount: sql<number>`(
+              select count(*)::int from saved_search_matches m
+              join properties p on p.id = m.property_id
+              where m.saved_search_id = "saved_searches"."id" and m.seen_at is null
+                and p.deleted_at is null and p.status <> 'draft'
+            )`,
+          })
+          .from(schema.savedSearches)
+          .where(eq(schema.savedSearches.userId, session.user.id))
+          .orderBy(desc(schema.savedSearches.createdAt));
+
+        app.logger.info({ userId: session.user.id, count: searches.length }, 'Saved searches retrieved');
+        return searches;
+      } catch (error) {
+        app.logger.error({ err: error, userId: session.user.id }, 'Failed to fetch saved searches');
+        throw error;
+      }
+    }
+  );
+
+  // POST /api/saved-searches - Saves a named set of GET /api/properties filters
+  app.fastify.post(
+    '/api/saved-searches',
+    {
+      schema: {
+        description: 'Save the current listing filters as a named search',
+        tags: ['saved-searches'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      app.logger.info({ userId: session.user.id, body: request.body }, 'Creating saved search');
+
+      try {
+        const { name, filters } = CreateSavedSearchSchema.parse(request.body);
+        // Reject filters the listing endpoint itself would reject
+        PropertyFilterSchema.parse(filters);
+
+        const [{ value: existingCount }] = await app.db
+          .select({ value: count() })
+          .from(schema.savedSearches)
+          .where(eq(schema.savedSearches.userId, session.user.id));
+
+        if (existingCount >= MAX_SAVED_SEARCHES) {
+          app.logger.warn({ userId: session.user.id }, 'Saved search limit reached');
+          return reply
+            .status(409)
+            .send({ error: 'Saved search limit reached', message: `You can save up to ${MAX_SAVED_SEARCHES} searches` });
+        }
+
+        const [search] = await app.db
+          .insert(schema.savedSearches)
+          .values({ userId: session.user.id, name, filters })
+          .returning({
+            id: schema.savedSearches.id,
+            name: schema.savedSearches.name,
+            filters: schema.savedSearches.filters,
+            createdAt: schema.savedSearches.createdAt,
+          });
+
+        app.logger.info({ savedSearchId: search.id, userId: session.user.id }, 'Saved search created');
+        return { ...search, newMatchCount: 0 };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          app.logger.warn({ err: error, body: request.body }, 'Validation failed for saved search creation');
+          return reply.status(400).send({ error: 'Validation failed', details: error.issues });
+        }
+        app.logger.error({ err: error, userId: session.user.id }, 'Failed to create saved search');
+        throw error;
+      }
+    }
+  );
+
+  // DELETE /api/saved-searches/:id - Deletes a saved search and its matches ONLY IF it belongs to the authenticated user
+  app.fastify.delete(
+    '/api/saved-searches/:id',
+    {
+      schema: {
+        description: 'Delete a saved search',
+        tags: ['saved-searches'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const params = request.params as Record<string, string>;
+      const { id } = params;
+      app.logger.info({ savedSearchId: id, userId: session.user.id }, 'Deleting saved search');
+
+      try {
+        const search = await app.db.query.savedSearches.findFirst({
+          where: eq(schema.savedSearches.id, id),
+          columns: { id: true, userId: true },
+        });
+
+        if (!search) {
+          app.logger.warn({ savedSearchId: id }, 'Saved search not found');
+          return reply.status(404).send({ error: 'Saved search not found' });
+        }
+
+        if (search.userId !== session.user.id) {
+          app.logger.warn(
+            { savedSearchId: id, userId: session.user.id, ownerId: search.userId },
+            'Unauthorized saved search deletion attempt'
+          );
+          return reply.status(403).send({ error: 'Unauthorized to delete this saved search' });
+        }
+
+        await app.db.delete(schema.savedSearches).where(eq(schema.savedSearches.id, id));
+
+        app.logger.info({ savedSearchId: id, userId: session.user.id }, 'Saved search deleted');
+        return { success: true };
+      } catch (error) {
+        app.logger.error({ err: error, savedSearchId: id, userId: session.user.id }, 'Failed to delete saved search');
+        throw error;
+      }
+    }
+  );
+
+  // GET /api/saved-search-matches - Returns the user's feed of new listings matching their saved searches
+  app.fastify.get(
+    '/api/saved-search-matches',
+    {
+      schema: {
+        description: 'Get newly published listings that matched saved searches',
+        tags: ['saved-searches'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      app.logger.info({ userId: session.user.id }, 'Fetching saved search matches');
+
+      try {
+        const matches = await app.db.query.savedSearchMatches.findMany({
+          where: eq(schema.savedSearchMatches.userId, session.user.id),
+          orderBy: desc(schema.savedSearchMatches.createdAt),
+          limit: MATCH_FEED_LIMIT,
+          with: {
+            savedSearch: { columns: { id: true, name: true } },
+            property: {
+              columns: {
+                id: true,
+                title: true,
+                price: true,
+                size: true,
+                district: true,
+                photos: true,
+                status: true,
+                deletedAt: true,
+              },
+            },
+          },
+        });
+
+        // Listings deleted or moved back to draft since they matched are left out until they return
+        const result = await Promise.all(
+          matches
+            .filter((match) => !match.property.deletedAt && match.property.status !== 'draft')
+            .map(async ({ property, ...match }) => ({
+              ...match,
+              property: await enrichPropertyWithSignedUrls(property, app),
+            }))
+        );
+
+        app.logger.info({ userId: session.user.id, count: result.length }, 'Saved search matches retrieved');
+        return result;
+      } catch (error) {
+        app.logger.error({ err: error, userId: session.user.id }, 'Failed to fetch saved search matches');
+        throw error;
+      }
+    }
+  );
+
+  // GET /api/saved-search-matches/unseen-count - Returns the number of unseen matches, for the app badge
+  app.fastify.get(
+    '/api/saved-search-matches/unseen-count',
+    {
+      schema: {
+        description: 'Get the number of unseen saved search matches',
+        tags: ['saved-searches'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      try {
+        const [{ value }] = await app.db
+          .select({ value: count() })
+          .from(schema.savedSearchMatches)
+          .innerJoin(schema.properties, eq(schema.properties.id, schema.savedSearchMatches.propertyId))
+          .where(
+            and(
+              eq(schema.savedSearchMatches.userId, session.user.id),
+              isNull(schema.savedSearchMatches.seenAt),
+              isNull(schema.properties.deletedAt),
+              ne(schema.properties.status, 'draft')
+            )
+          );
+
+        return { count: value };
+      } catch (error) {
+        app.logger.error({ err: error, userId: session.user.id }, 'Failed to count saved search matches');
+        throw error;
+      }
+    }
+  );
+
+  // POST /api/saved-search-matches/seen - Marks every match in the user's feed as seen
+  app.fastify.post(
+    '/api/saved-search-matches/seen',
+    {
+      schema: {
+        description: 'Mark all saved search matches as seen',
+        tags: ['saved-searches'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      app.logger.info({ userId: session.user.id }, 'Marking saved search matches as seen');
+
+      try {
+        await app.db
+          .update(schema.savedSearchMatches)
+          .set({ seenAt: new Date() })
+          .where(
+            and(
+              eq(schema.savedSearchMatches.userId, session.user.id),
+              isNull(schema.savedSearchMatches.seenAt)
+            )
+          );
+
+        return { success: true };
+      } catch (error) {
+        app.logger.error({ err: error, userId: session.user.id }, 'Failed to mark saved search matches as seen');
+        throw error;
+      }
+    }
+  );
+}
@@ -0,0 +1,149 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and, ne, inArray, isNull, between, desc, sql } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import type { App } from '../index.js';
+import { z } from 'zod';
+import { getNeighbouringDistricts } from '../utils/districts.js';
+import {
+  propertyColumns,
+  amenityIdsColumn,
+  priceReducedFromColumn,
+  enrichPropertyWithSignedUrls,
+} from './properties.js';
+
+const DEFAULT_SIMILAR_LIMIT = 6;
+const MAX_SIMILAR_LIMIT = 20;
+
+// Candidates must be within this fraction of the listing's price and size
+const COMPARABLE_RANGE = 0.5;
+
+// How much each signal contributes to the similarity score (they sum to 1)
+const SCORE_WEIGHTS = {
+  district: 0.25,
+  price: 0.35,
+  size: 0.2,
+  amenities: 0.2,
+};
+
+// A neighbouring district counts for this much of a same-district match
+const NEIGHBOURING_DISTRICT_SCORE = 0.5;
+
+const SimilarQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_SIMILAR_LIMIT).default(DEFAULT_SIMILAR_LIMIT),
+});
+
+export function registerSimilarListingsRoutes(app: App) {
+  // GET /api/properties/:id/similar - Returns published listings of the same type in the same or neighbouring
+  // districts with comparable price and size, best match first. Each carries a similarity score from 0 to 1
+  // built from district, price and size closeness and amenity overlap. Works for listings that are rented or
+  // archived too, so renters who find one already taken can keep browsing.
+  app.fastify.get(
+    '/api/properties/:id/similar',
+    {
+      schema: {
+        description: 'Get listings similar to a property',
+        tags: ['properties'],
+        querystring: {
+          type: 'object',
+          properties: {
+            limit: { type: 'string' },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const params = request.params as Record<string, string>;
+      const { id } = params;
+      app.logger.info({ propertyId: id, query: request.query }, 'Fetching similar properties');
+
+      try {
+        const { limit } = SimilarQuerySchema.parse(request.query);
+
+        // Drafts have no public page, so there is nothing to be similar to
+        const property = await app.db.query.properties.findFirst({
+          where: and(
+            eq(schema.properties.id, id),
+            ne(schema.properties.status, 'draft'),
+            isNull(schema.properties.deletedAt)
+          ),
+          with: { amenities: { columns: { amenityId: true } } },
+        });
+
+        if (!property) {
+          app.logger.warn({ propertyId: id }, 'Property not found');
+          return reply.status(404).send({ error: 'Property not found' });
+        }
+
+        const price = Number(property.price);
+
+        // Comparable ranges and scores are relative to price and size, so a zero leaves nothing to compare
+        if (price <= 0 || property.size <= 0) {
+          app.logger.info({ propertyId: id }, 'Property has no price or size to compare');
+          return [];
+        }
+
+        const districts = [property.district, ...getNeighbouringDistricts(property.district)];
+        const amenityIds = property.amenities.map((link) => link.amenityId);
+
+        // Share of the two listings' combined amenities that both have (Jaccard index)
+        const amenityOverlap =
+          amenityIds.length > 0
+            ? sql`coalesce((
+                select count(*) filter (where pa.amenity_id in ${amenityIds})::numeric
+                  / (${amenityIds.length} + count(*) - count(*) filter (where pa.amenity_id in ${amenityIds}))
+                from property_amenities pa
+                where pa.property_id = "properties"."id"
+              ), 0)`
+            : sql`0`;
+
+        const score = sql<number>`(
+          (case when ${schema.properties.district} = ${property.district} then 1 else ${NEIGHBOURING_DISTRICT_SCORE}::numeric end) * ${SCORE_WEIGHTS.district}::numeric
+          + (1 - least(abs(${schema.properties.price} - ${price}::numeric) / ${price}::numeric, 1)) * ${SCORE_WEIGHTS.price}::numeric
+          + (1 - least(abs(${schema.properties.size} - ${property.size})::numeric / ${property.size}, 1)) * ${SCORE_WEIGHTS.size}::numeric
+          + ${amenityOverlap} * ${SCORE_WEIGHTS.amenities}::numeric
+        )::double precision`;
+
+        const rows = await app.db
+          .select({
+            ...propertyColumns,
+            amenities: amenityIdsColumn,
+            priceReducedFrom: priceReducedFromColumn,
+            similarity: score,
+          })
+          .from(schema.properties)
+          .where(
+            and(
+              ne(schema.properties.id, id),
+              eq(schema.properties.status, 'published'),
+              isNull(schema.properties.deletedAt),
+              eq(schema.properties.listingType, property.listingType),
+              inArray(schema.properties.district, districts),
+              between(
+                schema.properties.price,
+                String(price * (1 - COMPARABLE_RANGE)),
+                String(price * (1 + COMPARABLE_RANGE))
+              ),
+              between(
+                schema.properties.size,
+                Math.floor(property.size * (1 - COMPARABLE_RANGE)),
+                Math.ceil(property.size * (1 + COMPARABLE_RANGE))
+              )
+            )
+          )
+          .orderBy(desc(score), desc(schema.properties.createdAt))
+          .limit(limit);
+
+        app.logger.info({ propertyId: id, count: rows.length }, 'Similar properties retrieved');
+
+        return Promise.all(rows.map((row) => enrichPropertyWithSignedUrls(row, app)));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          app.logger.warn({ err: error, query: request.query }, 'Validation failed for similar properties query');
+          return reply.status(400).send({ error: 'Validation failed', details: error.issues });
+        }
+        app.logger.error({ err: error, propertyId: id }, 'Failed to fetch similar properties');
+        throw error;
+      }
+    }
+  );
+}
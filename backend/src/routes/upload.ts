@@ -3,6 +3,22 @@ import type { App } from '../index.js';
 
 const MAX_IMAGE_SIZE = 5 * 1024 * 1024; // 5MB
 const MAX_VIDEO_SIZE = 200 * 1024 * 1024; // 200MB
+const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024; // 10MB
+
+// Application documents (ID, payslips and the like) and rent receipts are scans, photos or PDFs
+const DOCUMENT_MIME_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/heic', 'image/webp'];
+
+// Storage prefix for rental application documents, followed by the uploader's user ID
+export const APPLICATION_DOCUMENT_PREFIX = 'application-documents';
+
+// Storage prefix for rent payment receipts, followed by the uploader's user ID
+export const RENT_RECEIPT_PREFIX = 'rent-receipts';
+
+// Maintenance request photos are images only
+const PHOTO_MIME_TYPES = ['image/jpeg', 'image/png', 'image/heic', 'image/webp'];
+
+// Storage prefix for maintenance request photos, followed by the uploader's user ID
+export const MAINTENANCE_PHOTO_PREFIX = 'maintenance-photos';
 
 // Helper to format bytes to human readable size
 function formatBytes(bytes: number): string {
@@ -13,6 +29,106 @@ function formatBytes(bytes: number): string {
   return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + ' ' + sizes[i];
 }
 
+interface PrivateUploadRoute {
+  path: string;
+  description: string;
+  label: string; // for log messages, e.g. 'Rent receipt'
+  prefix: string; // storage prefix, followed by the uploader's user ID
+  mimeTypes: string[];
+  maxSize: number;
+  fileNoun: string; // starts the size limit message, e.g. 'Receipt file'
+  typeMessage: string;
+  attachMessage: string;
+}
+
+// Uploads that only the uploader and the other party of the record they attach
+// to may see. Only the key is returned; signed URLs are made when the record
+// is opened.
+function registerPrivateUploadRoute(
+  app: App,
+  requireAuth: ReturnType<App['requireAuth']>,
+  { path, description, label, prefix, mimeTypes, maxSize, fileNoun, typeMessage, attachMessage }: PrivateUploadRoute
+) {
+  const tooLarge = {
+    error: 'file_too_large',
+    message: `${fileNoun} exceeds maximum size of ${formatBytes(maxSize)}`,
+    maxSize,
+    maxSizeFormatted: formatBytes(maxSize),
+  };
+
+  app.fastify.post<{ Body: any }>(
+    path,
+    {
+      schema: {
+        description,
+        tags: ['upload'],
+        consumes: ['multipart/form-data'],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      app.logger.info({ userId: session.user.id }, `Uploading ${label.toLowerCase()}`);
+
+      try {
+        let data;
+        try {
+          data = await request.file({ limits: { fileSize: maxSize } });
+        } catch (err: any) {
+          // Handle file size limit errors from Fastify
+          if (err.code === 'FST_REQ_FILE_TOO_LARGE' || err.message?.includes('too large')) {
+            app.logger.warn({ userId: session.user.id, error: err.message }, `${label} exceeds size limit`);
+            return reply.status(413).send(tooLarge);
+          }
+          throw err;
+        }
+
+        if (!data) {
+          app.logger.warn({ userId: session.user.id }, `No file provided for ${label.toLowerCase()} upload`);
+          return reply.status(400).send({ error: 'no_file', message: attachMessage });
+        }
+
+        if (!mimeTypes.includes(data.mimetype)) {
+          app.logger.warn(
+            { userId: session.user.id, filename: data.filename, mimetype: data.mimetype },
+            `Unsupported ${label.toLowerCase()} type`
+          );
+          return reply.status(400).send({ error: 'invalid_file_type', message: typeMessage });
+        }
+
+        let buffer: Buffer;
+        try {
+          buffer = await data.toBuffer();
+        } catch (err: any) {
+          app.logger.warn(
+            { userId: session.user.id, filename: data.filename, error: err.message },
+            `Failed to read ${label.toLowerCase()}`
+          );
+          return reply.status(413).send(tooLarge);
+        }
+
+        // Generate unique key with timestamp and user ID
+        const timestamp = Date.now();
+        const key = `${prefix}/${session.user.id}/${timestamp}-${data.filename}`;
+
+        // Upload file
+        const uploadedKey = await app.storage.upload(key, buffer);
+
+        app.logger.info(
+          { userId: session.user.id, filename: data.filename, key: uploadedKey },
+          `${label} uploaded successfully`
+        );
+
+        return { key: uploadedKey, filename: data.filename };
+      } catch (error) {
+        app.logger.error({ err: error, userId: session.user.id }, `Failed to upload ${label.toLowerCase()}`);
+        throw error;
+      }
+    }
+  );
+}
+
 export function registerUploadRoutes(app: App) {
   const requireAuth = app.requireAuth();
 
@@ -21,6 +137,7 @@ export function registerUploadRoutes(app: App) {
     {
       maxImageSize: formatBytes(MAX_IMAGE_SIZE),
       maxVideoSize: formatBytes(MAX_VIDEO_SIZE),
+      maxDocumentSize: formatBytes(MAX_DOCUMENT_SIZE),
     },
     'Upload endpoints configured'
   );
@@ -210,4 +327,48 @@ export function registerUploadRoutes(app: App) {
       }
     }
   );
+
+  // POST /api/upload/application-document - Accepts multipart form data with 'document' field (PDF or image).
+  // The returned key is only usable in the uploader's own rental applications.
+  registerPrivateUploadRoute(app, requireAuth, {
+    path: '/api/upload/application-document',
+    description: 'Upload a rental application document',
+    label: 'Application document',
+    prefix: APPLICATION_DOCUMENT_PREFIX,
+    mimeTypes: DOCUMENT_MIME_TYPES,
+    maxSize: MAX_DOCUMENT_SIZE,
+    fileNoun: 'Document file',
+    typeMessage: 'Documents must be a PDF or an image.',
+    attachMessage: 'No file provided. Please attach a PDF or image file.',
+  });
+
+  // POST /api/upload/rent-receipt - Accepts multipart form data with 'receipt' field (PDF or image).
+  // The returned key is only usable in rent payments the uploader records.
+  registerPrivateUploadRoute(app, requireAuth, {
+    path: '/api/upload/rent-receipt',
+    description: 'Upload a rent payment receipt',
+    label: 'Rent receipt',
+    prefix: RENT_RECEIPT_PREFIX,
+    mimeTypes: DOCUMENT_MIME_TYPES,
+    maxSize: MAX_DOCUMENT_SIZE,
+    fileNoun: 'Receipt file',
+    typeMessage: 'Receipts must be a PDF or an image.',
+    attachMessage: 'No file provided. Please attach a PDF or image file.',
+  });
+
+  // POST /api/upload/maintenance-photo - Accepts multipart form data with 'photo' field (image only).
+  // The returned key is only usable in maintenance requests the uploader files.
+  registerPrivateUploadRoute(app, requireAuth, {
+    path: '/api/upload/maintenance-photo',
+    description: 'Upload a maintenance request photo',
+    label: 'Maintenance photo',
+    prefix: MAINTENANCE_PHOTO_PREFIX,
+    mimeTypes: PHOTO_MIME_TYPES,
+    // Photos come straight from phone cameras, so they get the document size
+    // limit rather than the listing image one
+    maxSize: MAX_DOCUMENT_SIZE,
+    fileNoun: 'Photo',
+    typeMessage: 'Maintenance photos must be an image.',
+    attachMessage: 'No file provided. Please attach an image file.',
+  });
 }
@@ -0,0 +1,127 @@
+import type * as schema from '../db/schema.js';
+
+type AgreementLanguage = (typeof schema.AGREEMENT_LANGUAGES)[number];
+
+// Fields a template body can use as {{name}}
+export const AGREEMENT_PLACEHOLDERS = [
+  'agreementDate',
+  'ownerName',
+  'ownerEmail',
+  'tenantName',
+  'tenantEmail',
+  'propertyTitle',
+  'address',
+  'district',
+  'size',
+  'monthlyRent',
+  'depositMonths',
+  'deposit',
+  'leaseMonths',
+  'moveInDate',
+  'rentDueDay',
+  'occupants',
+] as const;
+
+export type AgreementPlaceholder = (typeof AGREEMENT_PLACEHOLDERS)[number];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z]+)\s*\}\}/g;
+
+// Printed for terms the listing leaves open, so the parties fill them in by hand
+const BLANK = '____________';
+
+export interface AgreementSource {
+  property: {
+    title: string;
+    address: string | null;
+    district: string;
+    size: number;
+    price: string;
+    depositMonths: number | null;
+    minLeaseMonths: number | null;
+  };
+  application: {
+    moveInDate: string; // YYYY-MM-DD
+    occupants: number;
+  };
+  owner: { name: string; email: string };
+  tenant: { name: string; email: string };
+}
+
+/**
+ * Placeholder names used in a template body that are not known fields, so
+ * typos are caught when the template is saved rather than in a signed PDF
+ */
+export function findUnknownPlaceholders(body: string): string[] {
+  const unknown = new Set<string>();
+  for (const [, name] of body.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!(AGREEMENT_PLACEHOLDERS as readonly string[]).includes(name)) {
+      unknown.add(name);
+    }
+  }
+  return [...unknown];
+}
+
+/**
+ * Replaces every {{placeholder}} in a template body with its value
+ */
+export function fillTemplate(body: string, values: Record<AgreementPlaceholder, string>): string {
+  return body.replace(PLACEHOLDER_PATTERN, (match, name: string) =>
+    name in values ? values[name as AgreementPlaceholder] : match
+  );
+}
+
+const formatMoney = (amount: number) => `HK$${Math.round(amount).toLocaleString('en-US')}`;
+
+// Dates are fixed-format rather than locale-formatted so the PDF reads the same
+// whichever server renders it. `value` is YYYY-MM-DD.
+function formatDate(value: string, language: AgreementLanguage): string {
+  const [year, month, day] = value.split('-').map(Number);
+  if (language === 'zh') {
+    return `${year}年${month}月${day}日`;
+  }
+  const monthName = new Date(Date.UTC(year, month - 1, 1)).toLocaleString('en-GB', { month: 'long', timeZone: 'UTC' });
+  return `${day} ${monthName} ${year}`;
+}
+
+// Rent falls due on the move-in date's day of the month, the same day the
+// tenancy's rent ledger bills on, moving to the last day of shorter months
+function formatRentDueDay(moveInDate: string, language: AgreementLanguage): string {
+  const day = Number(moveInDate.split('-')[2]);
+  if (language === 'zh') {
+    return day > 28 ? `每月${day}日（如該月較短則為該月最後一日）` : `每月${day}日`;
+  }
+  const suffix = day >= 11 && day <= 13 ? 'th' : ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[day % 10] ?? 'th';
+  const ordinal = `the ${day}${suffix} day of each month`;
+  return day > 28 ? `${ordinal} (or the last day of any shorter month)` : ordinal;
+}
+
+/**
+ * Template values for an application, formatted for the agreement's language
+ */
+export function buildAgreementValues(
+  { property, application, owner, tenant }: AgreementSource,
+  language: AgreementLanguage,
+  today: string // YYYY-MM-DD
+): Record<AgreementPlaceholder, string> {
+  const rent = Number(property.price);
+  const months = (count: number) => (language === 'zh' ? `${count}個月` : `${count} month${count === 1 ? '' : 's'}`);
+
+  return {
+    agreementDate: formatDate(today, language),
+    ownerName: owner.name,
+    ownerEmail: owner.email,
+    tenantName: tenant.name,
+    tenantEmail: tenant.email,
+    propertyTitle: property.title,
+    address: property.address ?? BLANK,
+    district: property.district,
+    size: language === 'zh' ? `${property.size}平方呎` : `${property.size} sq ft`,
+    monthlyRent: formatMoney(rent),
+    depositMonths: property.depositMonths !== null ? months(property.depositMonths) : BLANK,
+    deposit: property.depositMonths !== null ? formatMoney(rent * property.depositMonths) : BLANK,
+    leaseMonths: property.minLeaseMonths !== null ? months(property.minLeaseMonths) : BLANK,
+    moveInDate: formatDate(application.moveInDate, language),
+    rentDueDay: formatRentDueDay(application.moveInDate, language),
+    occupants: String(application.occupants),
+  };
+}
@@ -0,0 +1,97 @@
+// Minimal RFC 4180 CSV reading and writing: comma separated, fields
+// optionally wrapped in double quotes, "" for a literal quote inside a quoted
+// field, CRLF or LF line endings. Quoted fields may span lines.
+
+/**
+ * Parses CSV text into rows of raw string fields. Blank lines are skipped.
+ * Throws if a quoted field is never closed.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0; // skip a byte order mark from spreadsheet exports
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('Unterminated quoted field');
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Parses CSV text with a header row into one record per data row, keyed by
+ * the trimmed header names
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const columns = header.map((name) => name.trim());
+  return rows.map((row) => Object.fromEntries(columns.map((column, index) => [column, row[index] ?? ''])));
+}
+
+// Text starting with one of these is run as a formula by spreadsheet apps
+const FORMULA_PREFIX = /^[=+\-@]/;
+
+/**
+ * Formats one CSV line, quoting fields that contain a comma, quote or line
+ * break. null and undefined become empty fields. Text that a spreadsheet
+ * would read as a formula is prefixed with an apostrophe; numbers are left as is.
+ */
+export function toCsvLine(fields: (string | number | boolean | null | undefined)[]): string {
+  return (
+    fields
+      .map((value) => {
+        let text = value === null || value === undefined ? '' : String(value);
+        if (typeof value === 'string' && FORMULA_PREFIX.test(text)) text = `'${text}`;
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(',') + '\r\n'
+  );
+}
+
+/**
+ * Undoes the apostrophe toCsvLine puts in front of formula-like text, so
+ * exported files import back unchanged
+ */
+export function stripFormulaEscape(text: string): string {
+  return text.startsWith("'") && FORMULA_PREFIX.test(text.slice(1)) ? text.slice(1) : text;
+}
@@ -0,0 +1,54 @@
+import { DISTRICTS } from '../db/schema.js';
+
+export type District = (typeof DISTRICTS)[number];
+
+// Districts that share a border or a direct cross-harbour/tunnel link, each pair listed once
+const ADJACENT_DISTRICTS: [District, District][] = [
+  ['Central and Western', 'Wan Chai'],
+  ['Central and Western', 'Southern'],
+  ['Central and Western', 'Islands'],
+  ['Central and Western', 'Yau Tsim Mong'],
+  ['Wan Chai', 'Eastern'],
+  ['Wan Chai', 'Southern'],
+  ['Eastern', 'Southern'],
+  ['Eastern', 'Kwun Tong'],
+  ['Southern', 'Islands'],
+  ['Yau Tsim Mong', 'Sham Shui Po'],
+  ['Yau Tsim Mong', 'Kowloon City'],
+  ['Sham Shui Po', 'Kowloon City'],
+  ['Sham Shui Po', 'Kwai Tsing'],
+  ['Sham Shui Po', 'Sha Tin'],
+  ['Kowloon City', 'Wong Tai Sin'],
+  ['Kowloon City', 'Kwun Tong'],
+  ['Wong Tai Sin', 'Kwun Tong'],
+  ['Wong Tai Sin', 'Sha Tin'],
+  ['Wong Tai Sin', 'Sai Kung'],
+  ['Kwun Tong', 'Sai Kung'],
+  ['Sai Kung', 'Sha Tin'],
+  ['Sai Kung', 'Tai Po'],
+  ['Sha Tin', 'Tai Po'],
+  ['Sha Tin', 'Tsuen Wan'],
+  ['Sha Tin', 'Kwai Tsing'],
+  ['Tai Po', 'North'],
+  ['Tai Po', 'Yuen Long'],
+  ['Tai Po', 'Tsuen Wan'],
+  ['North', 'Yuen Long'],
+  ['Yuen Long', 'Tuen Mun'],
+  ['Yuen Long', 'Tsuen Wan'],
+  ['Tuen Mun', 'Tsuen Wan'],
+  ['Tsuen Wan', 'Kwai Tsing'],
+  ['Kwai Tsing', 'Islands'],
+];
+
+const NEIGHBOURS = new Map<District, District[]>(DISTRICTS.map((district) => [district, []]));
+for (const [a, b] of ADJACENT_DISTRICTS) {
+  NEIGHBOURS.get(a)!.push(b);
+  NEIGHBOURS.get(b)!.push(a);
+}
+
+/**
+ * Districts next to the given one, not including itself
+ */
+export function getNeighbouringDistricts(district: District): District[] {
+  return NEIGHBOURS.get(district) ?? [];
+}
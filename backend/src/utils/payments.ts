@@ -0,0 +1,57 @@
+import { randomUUID } from 'node:crypto';
+
+// Online rent payments go through a payment provider chosen with the
+// PAYMENT_PROVIDER environment variable. Only the fake provider exists so far;
+// a real one implements PaymentProvider and is added to PAYMENT_PROVIDERS.
+// Without a provider, tenants can still record payments by hand.
+
+export interface PaymentRequest {
+  paymentId: string; // our rent payment ID, for providers that take an idempotency key
+  amount: string; // HKD, two decimal places
+  description: string;
+  payerId: string;
+  payeeId: string;
+}
+
+export interface PaymentResult {
+  status: 'completed' | 'pending' | 'failed';
+  reference: string; // the provider's ID for the payment
+  failureReason?: string;
+}
+
+export interface PaymentProvider {
+  name: string;
+  charge(request: PaymentRequest): Promise<PaymentResult>;
+}
+
+/**
+ * Development provider that completes every payment immediately without moving
+ * any money
+ */
+export const fakePaymentProvider: PaymentProvider = {
+  name: 'fake',
+  async charge() {
+    return { status: 'completed', reference: `fake_${randomUUID()}` };
+  },
+};
+
+const PAYMENT_PROVIDERS: Record<string, PaymentProvider> = {
+  fake: fakePaymentProvider,
+};
+
+/**
+ * Looks up a provider by name. Unset means the fake provider in development
+ * and no online payments in production, so a deploy that forgets to configure
+ * one never marks rent paid without moving money. Throws on an unknown name so
+ * a misconfigured server fails at startup.
+ */
+export function getPaymentProvider(name: string | undefined, isProduction: boolean): PaymentProvider | null {
+  if (!name) {
+    return isProduction ? null : fakePaymentProvider;
+  }
+  const provider = PAYMENT_PROVIDERS[name];
+  if (!provider) {
+    throw new Error(`Unknown payment provider "${name}". Available: ${Object.keys(PAYMENT_PROVIDERS).join(', ')}`);
+  }
+  return provider;
+}
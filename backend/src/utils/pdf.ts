@@ -0,0 +1,277 @@
+// Minimal PDF 1.4 writer for plain text documents such as tenancy agreements.
+// Nothing is embedded: Latin text uses the standard Courier faces, whose fixed
+// advance width makes line wrapping exact, and Chinese text uses MSung-Light,
+// the Traditional Chinese CID font PDF readers supply themselves. Latin documents
+// also fall back to MSung-Light for characters WinAnsi cannot encode, such as a
+// Chinese name in an English agreement.
+
+export type PdfScript = 'latin' | 'cjk';
+
+export interface TextPdfOptions {
+  script: PdfScript;
+  title: string; // document metadata only; put a visible title in the text
+}
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+const BODY_SIZE = 11;
+const HEADING_SIZE = 15;
+const FOOTER_SIZE = 9;
+const LINE_SPACING = 1.5;
+const TEXT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+interface Line {
+  text: string;
+  size: number;
+  heading: boolean;
+}
+
+// WinAnsi codes for the characters it places where Latin-1 has control codes
+const WIN_ANSI_EXTRAS: Record<number, number> = {
+  0x20ac: 0x80, 0x201a: 0x82, 0x0192: 0x83, 0x201e: 0x84, 0x2026: 0x85, 0x2020: 0x86, 0x2021: 0x87,
+  0x02c6: 0x88, 0x2030: 0x89, 0x0160: 0x8a, 0x2039: 0x8b, 0x0152: 0x8c, 0x017d: 0x8e, 0x2018: 0x91,
+  0x2019: 0x92, 0x201c: 0x93, 0x201d: 0x94, 0x2022: 0x95, 0x2013: 0x96, 0x2014: 0x97, 0x02dc: 0x98,
+  0x2122: 0x99, 0x0161: 0x9a, 0x203a: 0x9b, 0x0153: 0x9c, 0x017e: 0x9e, 0x0178: 0x9f,
+};
+
+// The WinAnsi code for a character, or undefined when Courier cannot show it
+function winAnsiCode(char: string): number | undefined {
+  const code = char.codePointAt(0)!;
+  if (code < 0x80 || (code >= 0xa0 && code <= 0xff)) return code;
+  return WIN_ANSI_EXTRAS[code];
+}
+
+// Advance width of a character in ems
+function charWidth(char: string, script: PdfScript): number {
+  if (script === 'latin') return winAnsiCode(char) !== undefined ? 0.6 : 1;
+  const code = char.charCodeAt(0);
+  return code >= 0x20 && code <= 0x7e ? 0.5 : 1;
+}
+
+function measure(text: string, size: number, script: PdfScript): number {
+  let width = 0;
+  for (const char of text) {
+    width += charWidth(char, script);
+  }
+  return width * size;
+}
+
+// Latin text breaks between words; Chinese can break after any character but
+// keeps runs of ASCII (numbers, amounts, emails) together
+function tokenize(text: string, script: PdfScript): string[] {
+  const pattern = script === 'latin' ? /\S+|\s+/g : /[!-~]+|\s+|[^\s!-~]/gu;
+  return text.match(pattern) ?? [];
+}
+
+function wrap(text: string, size: number, script: PdfScript): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  const push = () => {
+    lines.push(line.trimEnd());
+    line = '';
+  };
+
+  for (const token of tokenize(text, script)) {
+    const isSpace = /^\s+$/.test(token);
+    if (isSpace && line === '') continue;
+
+    if (measure(line + token, size, script) <= TEXT_WIDTH) {
+      line += token;
+      continue;
+    }
+    if (line !== '') push();
+    if (isSpace) continue;
+
+    // A single token wider than the page is split wherever it overflows
+    for (const char of token) {
+      if (line !== '' && measure(line + char, size, script) > TEXT_WIDTH) push();
+      line += char;
+    }
+  }
+
+  if (line !== '' || lines.length === 0) push();
+  return lines;
+}
+
+// Lines starting with "# " are headings; blank lines separate paragraphs
+function layout(text: string, script: PdfScript): Line[] {
+  const lines: Line[] = [];
+  for (const raw of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const heading = raw.startsWith('# ');
+    const size = heading ? HEADING_SIZE : BODY_SIZE;
+    const content = heading ? raw.slice(2).trim() : raw;
+    for (const wrapped of wrap(content, size, script)) {
+      lines.push({ text: wrapped, size, heading });
+    }
+  }
+  return lines;
+}
+
+// Latin strings are WinAnsi literals; callers pass only characters winAnsiCode accepts
+function encodeLatin(text: string): string {
+  let out = '';
+  for (const char of text) {
+    const code = winAnsiCode(char)!;
+    if (char === '\\' || char === '(' || char === ')') {
+      out += `\\${char}`;
+    } else if (code < 0x20 || code > 0x7e) {
+      out += `\\${code.toString(8).padStart(3, '0')}`;
+    } else {
+      out += char;
+    }
+  }
+  return `(${out})`;
+}
+
+// CJK strings are UCS-2 big-endian hex for the UniCNS-UCS2-H encoding
+function encodeUcs2(text: string): string {
+  let out = '';
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    out += (code > 0xffff ? 0x3f : code).toString(16).padStart(4, '0');
+  }
+  return `<${out}>`;
+}
+
+// Splits Latin text into runs Courier can show and runs left to the CID font
+function latinRuns(text: string): { text: string; fallback: boolean }[] {
+  const runs: { text: string; fallback: boolean }[] = [];
+  for (const char of text) {
+    const fallback = winAnsiCode(char) === undefined;
+    const last = runs[runs.length - 1];
+    if (last && last.fallback === fallback) {
+      last.text += char;
+    } else {
+      runs.push({ text: char, fallback });
+    }
+  }
+  return runs;
+}
+
+// Document metadata strings are UTF-16BE with a byte order mark
+function encodeTextString(text: string): string {
+  let out = 'feff';
+  for (let i = 0; i < text.length; i++) {
+    out += text.charCodeAt(i).toString(16).padStart(4, '0');
+  }
+  return `<${out}>`;
+}
+
+// The MSung-Light font and the objects it references. `first` is the object
+// number the font itself will get.
+function cidFontObjects(first: number): string[] {
+  return [
+    `<< /Type /Font /Subtype /Type0 /BaseFont /MSung-Light /Encoding /UniCNS-UCS2-H /DescendantFonts [${first + 1} 0 R] >>`,
+    '<< /Type /Font /Subtype /CIDFontType0 /BaseFont /MSung-Light ' +
+      '/CIDSystemInfo << /Registry (Adobe) /Ordering (CNS1) /Supplement 0 >> ' +
+      `/FontDescriptor ${first + 2} 0 R /DW 1000 /W [1 95 500] >>`,
+    '<< /Type /FontDescriptor /FontName /MSung-Light /Flags 6 /FontBBox [-160 -249 1015 1071] ' +
+      '/ItalicAngle 0 /Ascent 880 /Descent -120 /CapHeight 880 /StemV 93 >>',
+  ];
+}
+
+// Font dictionaries for the body and heading faces. `first` is the object
+// number the first body font will get, for the CID font's internal references.
+function fontObjects(script: PdfScript, first: number): { body: string[]; heading: string[] } {
+  if (script === 'latin') {
+    return {
+      body: ['<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>'],
+      heading: ['<< /Type /Font /Subtype /Type1 /BaseFont /Courier-Bold /Encoding /WinAnsiEncoding >>'],
+    };
+  }
+  // There is no bold MSung, so headings only change size
+  return { body: cidFontObjects(first), heading: [] };
+}
+
+// Text-showing operators for one line. Latin documents switch to the fallback
+// font F3 for runs Courier cannot show; the pen advances across the switches.
+function showText(text: string, font: string, size: number, script: PdfScript): string {
+  if (script === 'cjk') return `/${font} ${size} Tf ${encodeUcs2(text)} Tj`;
+  return latinRuns(text)
+    .map((run) =>
+      run.fallback ? `/F3 ${size} Tf ${encodeUcs2(run.text)} Tj` : `/${font} ${size} Tf ${encodeLatin(run.text)} Tj`
+    )
+    .join(' ');
+}
+
+/**
+ * Renders plain text to an A4 PDF, wrapping lines to the page width and
+ * starting new pages as needed. Pages are numbered in the footer.
+ */
+export function renderTextPdf(text: string, { script, title }: TextPdfOptions): Buffer {
+  const objects: string[] = [];
+  const addObject = (body: string) => objects.push(body);
+
+  addObject('<< /Type /Catalog /Pages 2 0 R >>');
+  addObject(''); // page tree, written once the pages exist
+
+  const bodyFont = objects.length + 1;
+  const fonts = fontObjects(script, bodyFont);
+  fonts.body.forEach(addObject);
+  const headingFont = fonts.heading.length > 0 ? objects.length + 1 : bodyFont;
+  fonts.heading.forEach(addObject);
+  let fontResources = `/F1 ${bodyFont} 0 R /F2 ${headingFont} 0 R`;
+  if (script === 'latin' && [...text].some((char) => winAnsiCode(char) === undefined)) {
+    fontResources += ` /F3 ${objects.length + 1} 0 R`;
+    cidFontObjects(objects.length + 1).forEach(addObject);
+  }
+
+  // Split lines into pages
+  const pages: Line[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+  for (const line of layout(text, script)) {
+    const advance = line.size * LINE_SPACING;
+    if (y - advance < MARGIN && pages[pages.length - 1].length > 0) {
+      pages.push([]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+    pages[pages.length - 1].push(line);
+    y -= advance;
+  }
+
+  const pageIds: number[] = [];
+  pages.forEach((lines, pageIndex) => {
+    const commands: string[] = [];
+    let cursor = PAGE_HEIGHT - MARGIN;
+    for (const line of lines) {
+      cursor -= line.size * LINE_SPACING;
+      if (line.text === '') continue;
+      const font = line.heading ? 'F2' : 'F1';
+      commands.push(`BT ${MARGIN} ${cursor.toFixed(2)} Td ${showText(line.text, font, line.size, script)} ET`);
+    }
+
+    const footer = `${pageIndex + 1} / ${pages.length}`;
+    const footerX = (PAGE_WIDTH - measure(footer, FOOTER_SIZE, script)) / 2;
+    commands.push(`BT ${footerX.toFixed(2)} ${MARGIN / 2} Td ${showText(footer, 'F1', FOOTER_SIZE, script)} ET`);
+
+    const content = commands.join('\n');
+    addObject(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    const contentId = objects.length;
+    addObject(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << ${fontResources} >> >> /Contents ${contentId} 0 R >>`
+    );
+    pageIds.push(objects.length);
+  });
+
+  objects[1] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+  addObject(`<< /Title ${encodeTextString(title)} >>`);
+  const infoId = objects.length;
+
+  // Everything above is ASCII, so string length is the byte offset
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'ascii');
+}
@@ -0,0 +1,95 @@
+// Rent ledger arithmetic. Dates are YYYY-MM-DD strings and compare as text;
+// money is handled in whole cents so partial payments add up exactly.
+
+// Charges are created this many days before they fall due
+export const CHARGE_LEAD_DAYS = 31;
+
+// Both parties are reminded this many days before a charge falls due
+export const REMINDER_LEAD_DAYS = 3;
+
+export type ChargeStatus = 'paid' | 'due' | 'overdue';
+
+export interface ChargePayment {
+  amount: string;
+  status: string;
+  paidOn: string;
+}
+
+export interface ChargeSummary {
+  paidAmount: string; // completed payments only
+  pendingAmount: string; // recorded by the tenant, awaiting the owner
+  outstanding: string;
+  status: ChargeStatus;
+  paidOn: string | null; // date the completed payments covered the charge
+  late: boolean; // overdue, or paid after the due date
+}
+
+export const toCents = (amount: string | number): number => Math.round(Number(amount) * 100);
+
+export const fromCents = (cents: number): string => (cents / 100).toFixed(2);
+
+export const addDays = (date: string, days: number): string => {
+  const value = new Date(`${date}T00:00:00Z`);
+  value.setUTCDate(value.getUTCDate() + days);
+  return value.toISOString().slice(0, 10);
+};
+
+/**
+ * The date `months` months after `date`, on the same day of the month or the
+ * month's last day when it is shorter (31 Jan + 1 month is 28 or 29 Feb)
+ */
+export const addMonths = (date: string, months: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))).toISOString().slice(0, 10);
+};
+
+/**
+ * Rent due dates from the start of a tenancy up to and including `until`,
+ * stopping before the end date. Each is counted from the start date so a
+ * tenancy starting on the 31st returns to the 31st after a short month.
+ */
+export function rentDueDates(startDate: string, endDate: string | null, until: string): string[] {
+  const dates: string[] = [];
+  for (let i = 0; ; i++) {
+    const dueDate = addMonths(startDate, i);
+    if (dueDate > until || (endDate && dueDate >= endDate)) break;
+    dates.push(dueDate);
+  }
+  return dates;
+}
+
+/**
+ * Works out how much of a charge has been paid and whether it is late.
+ * `today` is YYYY-MM-DD.
+ */
+export function summarizeCharge(
+  charge: { dueDate: string; amount: string; payments: ChargePayment[] },
+  today: string
+): ChargeSummary {
+  const amount = toCents(charge.amount);
+  const completed = charge.payments
+    .filter((payment) => payment.status === 'completed')
+    .sort((a, b) => a.paidOn.localeCompare(b.paidOn));
+  const pending = charge.payments.filter((payment) => payment.status === 'pending');
+
+  let paid = 0;
+  let paidOn: string | null = null;
+  for (const payment of completed) {
+    paid += toCents(payment.amount);
+    if (!paidOn && paid >= amount) {
+      paidOn = payment.paidOn;
+    }
+  }
+
+  const status: ChargeStatus = paidOn ? 'paid' : charge.dueDate < today ? 'overdue' : 'due';
+
+  return {
+    paidAmount: fromCents(paid),
+    pendingAmount: fromCents(pending.reduce((sum, payment) => sum + toCents(payment.amount), 0)),
+    outstanding: fromCents(Math.max(amount - paid, 0)),
+    status,
+    paidOn,
+    late: paidOn ? paidOn > charge.dueDate : status === 'overdue',
+  };
+}
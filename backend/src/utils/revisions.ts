@@ -0,0 +1,78 @@
+import * as schema from '../db/schema.js';
+import type { PropertyRevisionChanges } from '../db/schema.js';
+import type { App } from '../index.js';
+
+type DbTransaction = Parameters<Parameters<App['db']['transaction']>[0]>[0];
+
+// Listing fields tracked by the revision log, by their API names
+export const REVISION_FIELDS = [
+  'title',
+  'description',
+  'listingType',
+  'price',
+  'size',
+  'saleableArea',
+  'bedrooms',
+  'bathrooms',
+  'floorLevel',
+  'facing',
+  'yearBuilt',
+  'district',
+  'buildingId',
+  'equipment',
+  'amenities',
+  'photos',
+  'virtualTourUrl',
+  'address',
+  'latitude',
+  'longitude',
+  'minLeaseMonths',
+  'depositMonths',
+  'availableFrom',
+  'feesIncluded',
+  'commissionApplies',
+  'status',
+] as const;
+
+export type RevisionField = (typeof REVISION_FIELDS)[number];
+
+export type RevisionSnapshot = Record<RevisionField, unknown>;
+
+// Picks the tracked fields from a property row; amenities must be the sorted id list
+export function revisionSnapshot(property: Partial<Record<RevisionField, unknown>>): RevisionSnapshot {
+  return Object.fromEntries(REVISION_FIELDS.map((field) => [field, property[field] ?? null])) as RevisionSnapshot;
+}
+
+/**
+ * Fields whose values differ between two snapshots, compared by their JSON
+ * form. A missing snapshot (before creation, after deletion) counts as all null.
+ */
+export function diffSnapshots(before: RevisionSnapshot | null, after: RevisionSnapshot | null): PropertyRevisionChanges {
+  const changes: PropertyRevisionChanges = {};
+  for (const field of REVISION_FIELDS) {
+    const from = before?.[field] ?? null;
+    const to = after?.[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+}
+
+/**
+ * Appends a revision inside the transaction making the change. Nothing is
+ * written when no tracked field changed.
+ */
+export async function recordPropertyRevision(
+  tx: DbTransaction,
+  revision: {
+    propertyId: string;
+    userId: string;
+    action: (typeof schema.REVISION_ACTIONS)[number];
+    changes: PropertyRevisionChanges;
+    restoredFromId?: string;
+  }
+) {
+  if (Object.keys(revision.changes).length === 0) return;
+  await tx.insert(schema.propertyRevisions).values(revision);
+}
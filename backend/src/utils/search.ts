@@ -0,0 +1,91 @@
+import { sql } from 'drizzle-orm';
+import type { SQL } from 'drizzle-orm';
+import * as OpenCC from 'opencc-js/t2cn';
+
+// Postgres has no built-in Chinese text search configuration, so CJK text is
+// tokenized here before it reaches to_tsvector/to_tsquery:
+// - Traditional (including Hong Kong variants) is folded to Simplified so a
+//   query in either script matches listings written in the other
+// - Each run of Han characters is split into single characters and
+//   overlapping bigrams, indexed with the 'simple' configuration
+// - Everything else goes through the 'english' configuration for stemming
+
+const HAN_RUN = /\p{Script=Han}+/gu;
+
+const toSimplified = OpenCC.Converter({ from: 'hk', to: 'cn' });
+
+interface SplitText {
+  latin: string;
+  hanRuns: string[];
+}
+
+function splitText(text: string): SplitText {
+  const simplified = toSimplified(text.normalize('NFKC')).toLowerCase();
+  const hanRuns = simplified.match(HAN_RUN) ?? [];
+  const latin = simplified.replace(HAN_RUN, ' ').replace(/\s+/g, ' ').trim();
+  return { latin, hanRuns };
+}
+
+function bigrams(run: string): string[] {
+  const chars = Array.from(run);
+  const result: string[] = [];
+  for (let i = 0; i < chars.length - 1; i++) {
+    result.push(chars[i] + chars[i + 1]);
+  }
+  return result;
+}
+
+// Documents index unigrams and bigrams so single-character queries still match
+function hanDocumentTokens(runs: string[]): string {
+  return runs.flatMap((run) => [...Array.from(run), ...bigrams(run)]).join(' ');
+}
+
+// Queries use bigrams where possible, which keeps multi-character terms precise
+function hanQueryTokens(runs: string[]): string[] {
+  return runs.flatMap((run) => (Array.from(run).length > 1 ? bigrams(run) : [run]));
+}
+
+function weightedVector(text: string | null | undefined, weight: 'A' | 'B' | 'C'): SQL {
+  const { latin, hanRuns } = splitText(text ?? '');
+  return sql`setweight(to_tsvector('english', ${latin}), ${weight}) || setweight(to_tsvector('simple', ${hanDocumentTokens(hanRuns)}), ${weight})`;
+}
+
+export interface SearchableFields {
+  title: string;
+  description?: string | null;
+  equipment?: string | null;
+  amenityLabels?: string[] | null;
+}
+
+/**
+ * Builds the tsvector expression stored in properties.search_vector.
+ * Title ranks highest, then amenities and equipment, then description.
+ */
+export function buildSearchVector(fields: SearchableFields): SQL {
+  const amenities = [fields.equipment ?? '', ...(fields.amenityLabels ?? [])].join(' ');
+  return sql`(${weightedVector(fields.title, 'A')} || ${weightedVector(amenities, 'B')} || ${weightedVector(fields.description, 'C')})`;
+}
+
+/**
+ * Builds a tsquery expression for a free-text search string, or null when the
+ * string has no searchable terms. All terms must match.
+ */
+export function buildSearchQuery(q: string): SQL | null {
+  const { latin, hanRuns } = splitText(q);
+  const parts: SQL[] = [];
+
+  if (latin) {
+    parts.push(sql`websearch_to_tsquery('english', ${latin})`);
+  }
+
+  const hanTokens = hanQueryTokens(hanRuns);
+  if (hanTokens.length > 0) {
+    parts.push(sql`to_tsquery('simple', ${hanTokens.join(' & ')})`);
+  }
+
+  if (parts.length === 0) {
+    return null;
+  }
+
+  return sql`(${sql.join(parts, sql` && `)})`;
+}
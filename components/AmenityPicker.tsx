@@ -0,0 +1,74 @@
+import React from "react";
+import { View, Text, TouchableOpacity, StyleSheet } from "react-native";
+import { colors } from "@/styles/commonStyles";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { Amenity, getAmenityLabel } from "@/utils/amenities";
+
+interface AmenityPickerProps {
+  amenities: Amenity[];
+  selectedIds: string[];
+  onChange: (selectedIds: string[]) => void;
+}
+
+/**
+ * Multi-select chips for the amenities catalogue
+ */
+export function AmenityPicker({ amenities, selectedIds, onChange }: AmenityPickerProps) {
+  const { language } = useLanguage();
+
+  const toggleAmenity = (amenityId: string) => {
+    console.log("Toggled amenity:", amenityId);
+    if (selectedIds.includes(amenityId)) {
+      onChange(selectedIds.filter((id) => id !== amenityId));
+    } else {
+      onChange([...selectedIds, amenityId]);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      {amenities.map((amenity) => {
+        const isSelected = selectedIds.includes(amenity.id);
+        return (
+          <TouchableOpacity
+            key={amenity.id}
+            style={[styles.chip, isSelected && styles.chipSelected]}
+            onPress={() => toggleAmenity(amenity.id)}
+          >
+            <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+              {getAmenityLabel(amenity, language)}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: colors.backgroundAlt,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    color: colors.text,
+    fontWeight: "500",
+  },
+  chipTextSelected: {
+    color: "#FFFFFF",
+  },
+});
@@ -0,0 +1,163 @@
+import React, { useState } from "react";
+import { View, Text, TouchableOpacity, ActivityIndicator, StyleSheet } from "react-native";
+import { IconSymbol } from "@/components/IconSymbol";
+import { colors } from "@/styles/commonStyles";
+import { useLanguage } from "@/contexts/LanguageContext";
+import {
+  APPLICATION_DOCUMENT_TYPES,
+  ApplicationDocumentType,
+  DOCUMENT_TYPE_LABEL_KEYS,
+  UploadedDocument,
+  pickAndUploadDocument,
+} from "@/utils/applications";
+
+interface ApplicationDocumentsFieldProps {
+  value: UploadedDocument[];
+  onChange: (value: UploadedDocument[]) => void;
+  onError: (message: string) => void;
+  /** Types already on file, shown as satisfied when answering an info request */
+  existingTypes?: ApplicationDocumentType[];
+}
+
+/**
+ * ID, employment and income documents for a rental application, one group per
+ * type. Each file is uploaded as soon as it is picked.
+ */
+export function ApplicationDocumentsField({ value, onChange, onError, existingTypes = [] }: ApplicationDocumentsFieldProps) {
+  const { t } = useLanguage();
+  const [uploadingType, setUploadingType] = useState<ApplicationDocumentType | null>(null);
+
+  const handleAdd = async (type: ApplicationDocumentType) => {
+    console.log("User tapped Add document:", type);
+    try {
+      setUploadingType(type);
+      const document = await pickAndUploadDocument(type);
+      if (document) {
+        onChange([...value, document]);
+      }
+    } catch (error) {
+      console.error("Error uploading application document:", error);
+      const errorMsg = error instanceof Error ? error.message : "Unknown error";
+      onError(`${t("uploadDocumentFailed")} ${errorMsg}`);
+    } finally {
+      setUploadingType(null);
+    }
+  };
+
+  const handleRemove = (key: string) => {
+    onChange(value.filter((document) => document.key !== key));
+  };
+
+  return (
+    <View style={styles.container}>
+      {APPLICATION_DOCUMENT_TYPES.map((type) => {
+        const documents = value.filter((document) => document.type === type);
+        const onFile = existingTypes.includes(type);
+
+        return (
+          <View key={type} style={styles.group}>
+            <View style={styles.groupHeader}>
+              <Text style={styles.label}>{t(DOCUMENT_TYPE_LABEL_KEYS[type])}</Text>
+              {onFile && documents.length === 0 && (
+                <Text style={styles.onFileText}>{t("documentOnFile")}</Text>
+              )}
+            </View>
+            {documents.map((document) => (
+              <View key={document.key} style={styles.documentRow}>
+                <IconSymbol
+                  ios_icon_name="doc.text"
+                  android_material_icon_name="description"
+                  size={18}
+                  color={colors.primary}
+                />
+                <Text style={styles.documentName} numberOfLines={1}>
+                  {document.filename}
+                </Text>
+                <TouchableOpacity onPress={() => handleRemove(document.key)}>
+                  <IconSymbol
+                    ios_icon_name="xmark.circle.fill"
+                    android_material_icon_name="cancel"
+                    size={20}
+                    color={colors.textSecondary}
+                  />
+                </TouchableOpacity>
+              </View>
+            ))}
+            <TouchableOpacity
+              style={styles.addButton}
+              onPress={() => handleAdd(type)}
+              disabled={!!uploadingType}
+            >
+              {uploadingType === type ? (
+                <ActivityIndicator size="small" color={colors.primary} />
+              ) : (
+                <>
+                  <IconSymbol
+                    ios_icon_name="plus"
+                    android_material_icon_name="add"
+                    size={18}
+                    color={colors.primary}
+                  />
+                  <Text style={styles.addButtonText}>{t("addDocument")}</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 16,
+  },
+  group: {
+    gap: 8,
+  },
+  groupHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: colors.text,
+  },
+  onFileText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  documentRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: colors.backgroundAlt,
+  },
+  documentName: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.text,
+  },
+  addButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderStyle: "dashed",
+    borderColor: colors.primary,
+  },
+  addButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: colors.primary,
+  },
+});
@@ -0,0 +1,204 @@
+import React, { useState, useEffect } from "react";
+import { View, Text, TextInput, TouchableOpacity, ActivityIndicator, StyleSheet } from "react-native";
+import { colors } from "@/styles/commonStyles";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { authenticatedGet, authenticatedPost } from "@/utils/api";
+import { Building, BuildingSummary, getBuildingName } from "@/utils/buildings";
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface BuildingPickerProps {
+  value: BuildingSummary | null;
+  district: string;
+  onChange: (building: Building | null) => void;
+}
+
+/**
+ * Autocomplete over the buildings directory for the list and edit property
+ * forms. A building that isn't listed yet can be added in the form's district.
+ */
+export function BuildingPicker({ value, district, onChange }: BuildingPickerProps) {
+  const { language, t } = useLanguage();
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<Building[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [adding, setAdding] = useState(false);
+  const [errorKey, setErrorKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        setSearching(true);
+        const data = await authenticatedGet<Building[]>(`/api/buildings?q=${encodeURIComponent(trimmed)}`);
+        if (!cancelled) {
+          setResults(data);
+        }
+      } catch (error) {
+        console.error("Error searching buildings:", error);
+      } finally {
+        if (!cancelled) {
+          setSearching(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query]);
+
+  const handleSelect = (building: Building) => {
+    console.log("Selected building:", building.id);
+    setQuery("");
+    setResults([]);
+    setErrorKey(null);
+    onChange(building);
+  };
+
+  const handleAdd = async () => {
+    const nameEn = query.trim();
+    if (!district) {
+      setErrorKey("selectDistrictBeforeBuilding");
+      return;
+    }
+
+    console.log("Adding building:", nameEn, district);
+    try {
+      setAdding(true);
+      setErrorKey(null);
+      const building = await authenticatedPost<Building>("/api/buildings", { nameEn, district });
+      handleSelect(building);
+    } catch (error) {
+      console.error("Error adding building:", error);
+      setErrorKey("errorAddingBuilding");
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  if (value) {
+    return (
+      <View style={styles.selected}>
+        <Text style={styles.selectedName} numberOfLines={1}>
+          {getBuildingName(value, language)}
+        </Text>
+        <TouchableOpacity onPress={() => onChange(null)}>
+          <Text style={styles.changeText}>{t("change")}</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const trimmedQuery = query.trim();
+  const hasExactMatch = results.some(
+    (building) => building.nameEn.toLowerCase() === trimmedQuery.toLowerCase() || building.nameZh === trimmedQuery
+  );
+
+  return (
+    <View style={styles.container}>
+      <TextInput
+        style={styles.input}
+        placeholder={t("searchBuildingPlaceholder")}
+        placeholderTextColor={colors.textSecondary}
+        value={query}
+        onChangeText={setQuery}
+        autoCorrect={false}
+      />
+
+      {searching && <ActivityIndicator size="small" color={colors.primary} />}
+
+      {results.map((building) => (
+        <TouchableOpacity key={building.id} style={styles.result} onPress={() => handleSelect(building)}>
+          <Text style={styles.resultName}>{getBuildingName(building, language)}</Text>
+          <Text style={styles.resultMeta} numberOfLines={1}>
+            {building.address ? `${building.district} · ${building.address}` : building.district}
+          </Text>
+        </TouchableOpacity>
+      ))}
+
+      {!!trimmedQuery && !searching && !hasExactMatch && (
+        <TouchableOpacity style={styles.result} onPress={handleAdd} disabled={adding}>
+          {adding ? (
+            <ActivityIndicator size="small" color={colors.primary} />
+          ) : (
+            <Text style={styles.addText}>{`${t("addNewBuilding")}: ${trimmedQuery}`}</Text>
+          )}
+        </TouchableOpacity>
+      )}
+
+      {errorKey && <Text style={styles.errorText}>{t(errorKey)}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  input: {
+    backgroundColor: colors.backgroundAlt,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: colors.text,
+  },
+  result: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.background,
+  },
+  resultName: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: colors.text,
+  },
+  resultMeta: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  addText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: colors.primary,
+  },
+  errorText: {
+    fontSize: 14,
+    color: colors.error,
+  },
+  selected: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    backgroundColor: colors.backgroundAlt,
+  },
+  selectedName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: "600",
+    color: colors.text,
+  },
+  changeText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: colors.primary,
+  },
+});
@@ -0,0 +1,42 @@
+import React from "react";
+import { TouchableOpacity, StyleSheet, StyleProp, ViewStyle } from "react-native";
+import { IconSymbol } from "@/components/IconSymbol";
+import { colors } from "@/styles/commonStyles";
+
+interface FavoriteButtonProps {
+  isFavorite: boolean;
+  onPress: () => void;
+  size?: number;
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * Heart toggle for saving a listing
+ */
+export function FavoriteButton({ isFavorite, onPress, size = 22, style }: FavoriteButtonProps) {
+  return (
+    <TouchableOpacity
+      style={[styles.button, style]}
+      onPress={onPress}
+      hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+    >
+      <IconSymbol
+        ios_icon_name={isFavorite ? "heart.fill" : "heart"}
+        android_material_icon_name={isFavorite ? "favorite" : "favorite-border"}
+        size={size}
+        color={isFavorite ? colors.error : colors.text}
+      />
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: "rgba(255, 255, 255, 0.9)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+});
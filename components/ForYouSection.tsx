@@ -0,0 +1,19 @@
+import React from "react";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { ListingCarousel } from "@/components/ListingCarousel";
+import { useForYouFeed } from "@/utils/recommendations";
+
+/**
+ * "For you" row at the top of the home feed, ranked from the user's searches,
+ * opened listings, favorites and chats. Renders nothing for new users.
+ */
+export function ForYouSection() {
+  const { t } = useLanguage();
+  const listings = useForYouFeed();
+
+  if (listings.length === 0) {
+    return null;
+  }
+
+  return <ListingCarousel title={t("forYou")} subtitle={t("forYouSubtitle")} listings={listings} />;
+}
@@ -0,0 +1,143 @@
+import React from "react";
+import { View, Text, ScrollView, TouchableOpacity, Image, ImageSourcePropType, StyleSheet } from "react-native";
+import { useRouter } from "expo-router";
+import { IconSymbol } from "@/components/IconSymbol";
+import { colors } from "@/styles/commonStyles";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { ListingType, PRICE_LABEL_KEYS } from "@/utils/listingTerms";
+
+/**
+ * The listing fields a carousel card shows
+ */
+export interface CarouselListing {
+  id: string;
+  title: string;
+  price: string;
+  size: number;
+  district: string;
+  listingType: ListingType;
+  photos: string[];
+}
+
+interface ListingCarouselProps {
+  title: string;
+  subtitle?: string;
+  listings: CarouselListing[];
+}
+
+function resolveImageSource(source: string | number | ImageSourcePropType | undefined): ImageSourcePropType {
+  if (!source) return { uri: '' };
+  if (typeof source === 'string') return { uri: source };
+  return source as ImageSourcePropType;
+}
+
+/**
+ * Titled, horizontally scrolling row of listing cards that open the listing
+ */
+export function ListingCarousel({ title, subtitle, listings }: ListingCarouselProps) {
+  const router = useRouter();
+  const { t } = useLanguage();
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>{title}</Text>
+      {!!subtitle && <Text style={styles.subtitle}>{subtitle}</Text>}
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+        {listings.map((listing) => {
+          const firstPhoto = listing.photos && listing.photos.length > 0 ? listing.photos[0] : '';
+
+          return (
+            <TouchableOpacity
+              key={listing.id}
+              style={styles.card}
+              onPress={() => router.push(`/property/${listing.id}`)}
+              activeOpacity={0.7}
+            >
+              {firstPhoto ? (
+                <Image source={resolveImageSource(firstPhoto)} style={styles.image} resizeMode="cover" />
+              ) : (
+                <View style={[styles.image, styles.imagePlaceholder]}>
+                  <IconSymbol
+                    ios_icon_name="house.fill"
+                    android_material_icon_name="home"
+                    size={32}
+                    color={colors.textSecondary}
+                  />
+                </View>
+              )}
+              <View style={styles.info}>
+                <Text style={styles.price} numberOfLines={1}>{`HK$${listing.price}`}</Text>
+                <Text style={styles.priceLabel} numberOfLines={1}>{t(PRICE_LABEL_KEYS[listing.listingType])}</Text>
+                <Text style={styles.listingTitle} numberOfLines={1}>{listing.title}</Text>
+                <Text style={styles.meta} numberOfLines={1}>{`${listing.district} · ${listing.size} sq ft`}</Text>
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+}
+
+const CARD_WIDTH = 200;
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: colors.text,
+    marginBottom: 12,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  row: {
+    gap: 12,
+  },
+  card: {
+    width: CARD_WIDTH,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.background,
+    overflow: "hidden",
+  },
+  image: {
+    width: CARD_WIDTH,
+    height: 120,
+    backgroundColor: colors.backgroundAlt,
+  },
+  imagePlaceholder: {
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  info: {
+    padding: 10,
+  },
+  price: {
+    fontSize: 16,
+    fontWeight: "bold",
+    color: colors.primary,
+  },
+  priceLabel: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginBottom: 4,
+  },
+  listingTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: colors.text,
+  },
+  meta: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+});
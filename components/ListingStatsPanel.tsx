@@ -0,0 +1,179 @@
+import React, { useState, useEffect } from "react";
+import { View, Text, StyleSheet, ActivityIndicator } from "react-native";
+import { colors } from "@/styles/commonStyles";
+import { authenticatedGet } from "@/utils/api";
+import { useLanguage } from "@/contexts/LanguageContext";
+
+interface DailyStats {
+  date: string;
+  views: number;
+  favorites: number;
+  chatStarts: number;
+}
+
+interface ListingStats {
+  propertyId: string;
+  days: number;
+  totals: { views: number; favorites: number; chatStarts: number };
+  chatConversionRate: number | null;
+  daily: DailyStats[];
+}
+
+interface ListingStatsPanelProps {
+  propertyId: string;
+}
+
+const SPARKLINE_HEIGHT = 40;
+
+/**
+ * Owner-only engagement summary for one listing over the last 30 days
+ */
+export function ListingStatsPanel({ propertyId }: ListingStatsPanelProps) {
+  const { t } = useLanguage();
+  const [stats, setStats] = useState<ListingStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadStats = async () => {
+      try {
+        setLoading(true);
+        console.log("Fetching listing stats for property:", propertyId);
+        const data = await authenticatedGet<ListingStats>(`/api/properties/${propertyId}/stats`);
+        if (!cancelled) setStats(data);
+      } catch (error) {
+        console.error("Error loading listing stats:", error);
+        if (!cancelled) setErrorMessage(error instanceof Error ? error.message : 'Unknown error');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    loadStats();
+    return () => {
+      cancelled = true;
+    };
+  }, [propertyId]);
+
+  if (loading) {
+    return (
+      <View style={styles.panel}>
+        <ActivityIndicator size="small" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (!stats) {
+    return (
+      <View style={styles.panel}>
+        <Text style={styles.errorText}>{`${t('errorLoadingStats')} ${errorMessage}`}</Text>
+      </View>
+    );
+  }
+
+  // Trend compares views in the second half of the period with the first half
+  const half = Math.floor(stats.daily.length / 2);
+  const earlierViews = stats.daily.slice(0, half).reduce((sum, day) => sum + day.views, 0);
+  const recentViews = stats.daily.slice(half).reduce((sum, day) => sum + day.views, 0);
+  const trendPercent = earlierViews > 0 ? Math.round(((recentViews - earlierViews) / earlierViews) * 100) : null;
+  const maxDailyViews = Math.max(1, ...stats.daily.map((day) => day.views));
+
+  const conversionText = stats.chatConversionRate === null
+    ? "–"
+    : `${(stats.chatConversionRate * 100).toFixed(1)}%`;
+  const trendText = trendPercent === null
+    ? "–"
+    : `${trendPercent > 0 ? "+" : ""}${trendPercent}%`;
+
+  return (
+    <View style={styles.panel}>
+      <Text style={styles.periodLabel}>{t('last30Days')}</Text>
+      <View style={styles.totalsRow}>
+        <View style={styles.totalItem}>
+          <Text style={styles.totalValue}>{stats.totals.views}</Text>
+          <Text style={styles.totalLabel}>{t('views')}</Text>
+        </View>
+        <View style={styles.totalItem}>
+          <Text style={styles.totalValue}>{stats.totals.favorites}</Text>
+          <Text style={styles.totalLabel}>{t('saves')}</Text>
+        </View>
+        <View style={styles.totalItem}>
+          <Text style={styles.totalValue}>{stats.totals.chatStarts}</Text>
+          <Text style={styles.totalLabel}>{t('chatStarts')}</Text>
+        </View>
+        <View style={styles.totalItem}>
+          <Text style={styles.totalValue}>{conversionText}</Text>
+          <Text style={styles.totalLabel}>{t('viewToChat')}</Text>
+        </View>
+      </View>
+
+      <View style={styles.sparkline}>
+        {stats.daily.map((day) => (
+          <View
+            key={day.date}
+            style={[
+              styles.sparklineBar,
+              { height: Math.max(2, Math.round((day.views / maxDailyViews) * SPARKLINE_HEIGHT)) },
+            ]}
+          />
+        ))}
+      </View>
+      <Text style={styles.trendText}>
+        {`${t('viewsTrend')}: ${trendText}`}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    paddingTop: 12,
+    marginTop: 12,
+  },
+  periodLabel: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginBottom: 8,
+  },
+  totalsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  totalItem: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  totalValue: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  totalLabel: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  sparkline: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: SPARKLINE_HEIGHT,
+    gap: 2,
+  },
+  sparklineBar: {
+    flex: 1,
+    backgroundColor: colors.primary,
+    borderRadius: 1,
+  },
+  trendText: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 8,
+  },
+  errorText: {
+    fontSize: 14,
+    color: colors.error,
+  },
+});
@@ -1,6 +1,6 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import { StyleSheet, View, ViewStyle, ActivityIndicator } from 'react-native';
-import { WebView } from 'react-native-webview';
+import { WebView, WebViewMessageEvent } from 'react-native-webview';
 
 export interface MapMarker {
     id: string;
@@ -10,33 +10,58 @@ export interface MapMarker {
     description?: string;
 }
 
+export interface MapCoordinate {
+    latitude: number;
+    longitude: number;
+}
+
+export interface MapRegion extends MapCoordinate {
+    latitudeDelta: number;
+    longitudeDelta: number;
+}
+
+export interface MapBounds {
+    minLatitude: number;
+    minLongitude: number;
+    maxLatitude: number;
+    maxLongitude: number;
+}
+
+// Hong Kong, roughly centred on Victoria Harbour
+export const DEFAULT_MAP_REGION: MapRegion = {
+    latitude: 22.3027,
+    longitude: 114.1772,
+    latitudeDelta: 0.0922,
+    longitudeDelta: 0.0421,
+};
+
 interface MapProps {
     markers?: MapMarker[];
-    initialRegion?: {
-        latitude: number;
-        longitude: number;
-        latitudeDelta: number;
-        longitudeDelta: number;
-    };
+    initialRegion?: MapRegion;
     style?: ViewStyle;
     showsUserLocation?: boolean;
+    onPress?: (coordinate: MapCoordinate) => void;
+    onMarkerPress?: (marker: MapMarker) => void;
+    onBoundsChange?: (bounds: MapBounds) => void;
 }
 
 export const Map = ({
     markers = [],
-    initialRegion = {
-        latitude: 37.78825,
-        longitude: -122.4324,
-        latitudeDelta: 0.0922,
-        longitudeDelta: 0.0421,
-    },
+    initialRegion = DEFAULT_MAP_REGION,
     style,
-    showsUserLocation = false
+    showsUserLocation = false,
+    onPress,
+    onMarkerPress,
+    onBoundsChange,
 }: MapProps) => {
+    const webViewRef = useRef<React.ElementRef<typeof WebView>>(null);
+    const loadedRef = useRef(false);
+    const markersJson = JSON.stringify(markers);
+    const showPopups = !onMarkerPress;
 
-    // HTML Content for Leaflet Map
+    // HTML Content for Leaflet Map. Markers are pushed in via setMarkers so the
+    // page (and the user's pan/zoom) survives marker updates.
     const mapHtml = useMemo(() => {
-        const markersJson = JSON.stringify(markers);
         const centerLat = initialRegion.latitude;
         const centerLng = initialRegion.longitude;
         const zoom = 13;
@@ -72,15 +97,45 @@ export const Map = ({
                     attribution: '&copy; OpenStreetMap'
                 }).addTo(map);
 
-                // Markers
-                var markersData = ${markersJson};
-                markersData.forEach(function(m) {
-                    var marker = L.marker([m.latitude, m.longitude]).addTo(map);
-                    if (m.title || m.description) {
-                         marker.bindPopup("<b>" + (m.title || "") + "</b><br>" + (m.description || ""));
+                function postToNative(message) {
+                    if (window.ReactNativeWebView) {
+                        window.ReactNativeWebView.postMessage(JSON.stringify(message));
                     }
+                }
+
+                // Markers
+                var markerLayer = L.layerGroup().addTo(map);
+                window.setMarkers = function(markersData) {
+                    markerLayer.clearLayers();
+                    markersData.forEach(function(m) {
+                        var marker = L.marker([m.latitude, m.longitude]).addTo(markerLayer);
+                        if (${showPopups} && (m.title || m.description)) {
+                             marker.bindPopup("<b>" + (m.title || "") + "</b><br>" + (m.description || ""));
+                        }
+                        marker.on('click', function() {
+                            postToNative({ type: 'markerPress', id: m.id });
+                        });
+                    });
+                };
+
+                // Forward taps and viewport changes to React Native
+                map.on('click', function(e) {
+                    postToNative({ type: 'press', latitude: e.latlng.lat, longitude: e.latlng.lng });
                 });
 
+                function postBounds() {
+                    var bounds = map.getBounds();
+                    postToNative({
+                        type: 'boundsChange',
+                        minLatitude: bounds.getSouth(),
+                        minLongitude: bounds.getWest(),
+                        maxLatitude: bounds.getNorth(),
+                        maxLongitude: bounds.getEast()
+                    });
+                }
+                map.on('moveend', postBounds);
+                postBounds();
+
                 // Routing - Basic implementation
                 // Exposed function to set route from React Native
                 window.calculateRoute = function(startLat, startLng, endLat, endLng) {
@@ -102,15 +157,57 @@ export const Map = ({
         </body>
         </html>
         `;
-    }, [markers, initialRegion]);
+    }, [initialRegion, showPopups]);
+
+    const pushMarkers = () => {
+        webViewRef.current?.injectJavaScript(`window.setMarkers(${markersJson}); true;`);
+    };
+
+    useEffect(() => {
+        if (loadedRef.current) {
+            pushMarkers();
+        }
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [markersJson]);
+
+    const handleMessage = (event: WebViewMessageEvent) => {
+        try {
+            const message = JSON.parse(event.nativeEvent.data);
+            if (message.type === 'press' && onPress) {
+                onPress({ latitude: message.latitude, longitude: message.longitude });
+            } else if (message.type === 'markerPress' && onMarkerPress) {
+                const marker = markers.find((m) => m.id === message.id);
+                if (marker) {
+                    onMarkerPress(marker);
+                }
+            } else if (message.type === 'boundsChange' && onBoundsChange) {
+                onBoundsChange({
+                    minLatitude: message.minLatitude,
+                    minLongitude: message.minLongitude,
+                    maxLatitude: message.maxLatitude,
+                    maxLongitude: message.maxLongitude,
+                });
+            }
+        } catch (error) {
+            console.error('Invalid message from map:', error);
+        }
+    };
+
     return (
         <View style={[styles.container, style]}>
             <WebView
+                ref={webViewRef}
                 originWhitelist={['*']}
                 source={{ html: mapHtml }}
                 style={styles.webview}
                 scrollEnabled={false}
                 startInLoadingState={true}
+                onMessage={handleMessage}
+                onLoadStart={() => { loadedRef.current = false; }}
+                onLoadEnd={() => {
+                    loadedRef.current = true;
+                    pushMarkers();
+                }}
                 renderLoading={() => <View style={styles.loading}><ActivityIndicator /></View>}
             />
         </View>
@@ -1,6 +1,6 @@
 import React, { useEffect } from 'react';
 import { StyleSheet, View, ViewStyle } from 'react-native';
-import { MapContainer, TileLayer, Marker, Popup } from 'react-leaflet';
+import { MapContainer, TileLayer, Marker, Popup, useMapEvents } from 'react-leaflet';
 import 'leaflet/dist/leaflet.css';
 import L from 'leaflet';
 
@@ -19,6 +19,38 @@ if (typeof window !== 'undefined') {
     });
 }
 
+// Forwards map clicks to the onPress prop (must render inside MapContainer)
+const MapPressHandler = ({ onPress }: { onPress: (coordinate: MapCoordinate) => void }) => {
+    useMapEvents({
+        click(event) {
+            onPress({ latitude: event.latlng.lat, longitude: event.latlng.lng });
+        },
+    });
+    return null;
+};
+
+// Reports the visible bounds once on mount and after every pan/zoom
+const MapBoundsHandler = ({ onBoundsChange }: { onBoundsChange: (bounds: MapBounds) => void }) => {
+    const reportBounds = (bounds: L.LatLngBounds) => {
+        onBoundsChange({
+            minLatitude: bounds.getSouth(),
+            minLongitude: bounds.getWest(),
+            maxLatitude: bounds.getNorth(),
+            maxLongitude: bounds.getEast(),
+        });
+    };
+    const map = useMapEvents({
+        moveend() {
+            reportBounds(map.getBounds());
+        },
+    });
+    useEffect(() => {
+        reportBounds(map.getBounds());
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [map]);
+    return null;
+};
+
 export interface MapMarker {
     id: string;
     latitude: number;
@@ -27,28 +59,49 @@ export interface MapMarker {
     description?: string;
 }
 
+export interface MapCoordinate {
+    latitude: number;
+    longitude: number;
+}
+
+export interface MapRegion extends MapCoordinate {
+    latitudeDelta: number;
+    longitudeDelta: number;
+}
+
+export interface MapBounds {
+    minLatitude: number;
+    minLongitude: number;
+    maxLatitude: number;
+    maxLongitude: number;
+}
+
+// Hong Kong, roughly centred on Victoria Harbour
+export const DEFAULT_MAP_REGION: MapRegion = {
+    latitude: 22.3027,
+    longitude: 114.1772,
+    latitudeDelta: 0.0922,
+    longitudeDelta: 0.0421,
+};
+
 interface MapProps {
     markers?: MapMarker[];
-    initialRegion?: {
-        latitude: number;
-        longitude: number;
-        latitudeDelta: number;
-        longitudeDelta: number;
-    };
+    initialRegion?: MapRegion;
     style?: ViewStyle;
     showsUserLocation?: boolean;
+    onPress?: (coordinate: MapCoordinate) => void;
+    onMarkerPress?: (marker: MapMarker) => void;
+    onBoundsChange?: (bounds: MapBounds) => void;
 }
 
 export const Map = ({
     markers = [],
-    initialRegion = {
-        latitude: 37.78825,
-        longitude: -122.4324,
-        latitudeDelta: 0.0922,
-        longitudeDelta: 0.0421,
-    },
+    initialRegion = DEFAULT_MAP_REGION,
     style,
-    showsUserLocation = false
+    showsUserLocation = false,
+    onPress,
+    onMarkerPress,
+    onBoundsChange,
 }: MapProps) => {
 
     const zoom = 13;
@@ -69,14 +122,19 @@ export const Map = ({
                             attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
                             url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
                         />
+                        {onPress && <MapPressHandler onPress={onPress} />}
+                        {onBoundsChange && <MapBoundsHandler onBoundsChange={onBoundsChange} />}
                         {markers.map((marker) => (
                             <Marker
                                 key={marker.id}
                                 position={[marker.latitude, marker.longitude]}
+                                eventHandlers={onMarkerPress ? { click: () => onMarkerPress(marker) } : undefined}
                             >
-                                <Popup>
-                                    {marker.title} <br /> {marker.description}
-                                </Popup>
+                                {!onMarkerPress && (
+                                    <Popup>
+                                        {marker.title} <br /> {marker.description}
+                                    </Popup>
+                                )}
                             </Marker>
                         ))}
                     </MapContainer>
@@ -0,0 +1,89 @@
+import React from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { colors } from "@/styles/commonStyles";
+import { MarketTrendPoint } from "@/utils/marketStats";
+
+interface MarketTrendChartProps {
+  trend: MarketTrendPoint[];
+  locale: string;
+}
+
+const CHART_HEIGHT = 120;
+const MIN_BAR_RATIO = 0.3;
+const EMPTY_BAR_HEIGHT = 2;
+
+/**
+ * Bar chart of a district's median price per sq ft by month, oldest on the
+ * left. Months without new listings get a flat stub so gaps stay visible.
+ */
+export function MarketTrendChart({ trend, locale }: MarketTrendChartProps) {
+  const values = trend
+    .map((point) => point.medianPricePerSqFt)
+    .filter((value): value is number => value !== null);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+
+  const barHeight = (value: number) => {
+    const ratio = max === min ? 1 : MIN_BAR_RATIO + ((value - min) / (max - min)) * (1 - MIN_BAR_RATIO);
+    return Math.round(ratio * CHART_HEIGHT);
+  };
+
+  return (
+    <View style={styles.chart}>
+      {trend.map((point, index) => {
+        const value = point.medianPricePerSqFt;
+        const isLatest = index === trend.length - 1;
+        // Mid-month avoids the label slipping into the previous month in timezones behind UTC
+        const monthText = new Date(`${point.month}-15`).toLocaleDateString(locale, { month: "short" });
+
+        return (
+          <View key={point.month} style={styles.column}>
+            <Text style={styles.valueLabel} numberOfLines={1}>
+              {value !== null ? `$${Math.round(value)}` : ""}
+            </Text>
+            <View
+              style={[
+                styles.bar,
+                { height: value !== null ? barHeight(value) : EMPTY_BAR_HEIGHT },
+                isLatest && value !== null && styles.barLatest,
+              ]}
+            />
+            <Text style={styles.monthLabel} numberOfLines={1}>{monthText}</Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chart: {
+    flexDirection: "row",
+    alignItems: "flex-end",
+    gap: 4,
+    paddingVertical: 8,
+  },
+  column: {
+    flex: 1,
+    alignItems: "center",
+  },
+  valueLabel: {
+    fontSize: 9,
+    color: colors.textSecondary,
+    marginBottom: 4,
+  },
+  bar: {
+    width: "70%",
+    borderTopLeftRadius: 4,
+    borderTopRightRadius: 4,
+    backgroundColor: colors.border,
+  },
+  barLatest: {
+    backgroundColor: colors.primary,
+  },
+  monthLabel: {
+    fontSize: 9,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+});
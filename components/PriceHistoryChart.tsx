@@ -0,0 +1,97 @@
+import React from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { colors } from "@/styles/commonStyles";
+
+export interface PricePoint {
+  price: string;
+  changedAt: string;
+}
+
+interface PriceHistoryChartProps {
+  history: PricePoint[];
+  locale: string;
+}
+
+const MAX_POINTS = 8;
+const CHART_HEIGHT = 120;
+const MIN_BAR_RATIO = 0.3;
+
+/**
+ * Bar chart of a listing's prices, oldest on the left. Bars are scaled
+ * between the lowest and highest price so small changes stay visible.
+ */
+export function PriceHistoryChart({ history, locale }: PriceHistoryChartProps) {
+  const points = history.slice(-MAX_POINTS);
+  const prices = points.map((point) => Number(point.price));
+  const min = Math.min(...prices);
+  const max = Math.max(...prices);
+
+  const barHeight = (price: number) => {
+    const ratio = max === min ? 1 : MIN_BAR_RATIO + ((price - min) / (max - min)) * (1 - MIN_BAR_RATIO);
+    return Math.round(ratio * CHART_HEIGHT);
+  };
+
+  return (
+    <View style={styles.chart}>
+      {points.map((point, index) => {
+        const price = prices[index];
+        const previous = index > 0 ? prices[index - 1] : price;
+        const isDrop = price < previous;
+        const isLatest = index === points.length - 1;
+        const dateText = new Date(point.changedAt).toLocaleDateString(locale, { day: "numeric", month: "short" });
+
+        return (
+          <View key={`${point.changedAt}-${index}`} style={styles.column}>
+            <Text style={styles.priceLabel} numberOfLines={1}>
+              {`$${Math.round(price).toLocaleString()}`}
+            </Text>
+            <View
+              style={[
+                styles.bar,
+                { height: barHeight(price) },
+                isDrop && styles.barDrop,
+                isLatest && styles.barLatest,
+              ]}
+            />
+            <Text style={styles.dateLabel} numberOfLines={1}>{dateText}</Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chart: {
+    flexDirection: "row",
+    alignItems: "flex-end",
+    gap: 8,
+    paddingVertical: 8,
+  },
+  column: {
+    flex: 1,
+    alignItems: "center",
+  },
+  priceLabel: {
+    fontSize: 10,
+    color: colors.textSecondary,
+    marginBottom: 4,
+  },
+  bar: {
+    width: "70%",
+    borderTopLeftRadius: 4,
+    borderTopRightRadius: 4,
+    backgroundColor: colors.border,
+  },
+  barDrop: {
+    backgroundColor: colors.secondary,
+  },
+  barLatest: {
+    backgroundColor: colors.primary,
+  },
+  dateLabel: {
+    fontSize: 10,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+});
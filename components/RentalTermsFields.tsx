@@ -0,0 +1,174 @@
+import React from "react";
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from "react-native";
+import { colors } from "@/styles/commonStyles";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { LISTING_TYPES, LISTING_TYPE_LABEL_KEYS, RentalTermsForm } from "@/utils/listingTerms";
+
+interface RentalTermsFieldsProps {
+  value: RentalTermsForm;
+  onChange: (value: RentalTermsForm) => void;
+}
+
+/**
+ * Listing type and rental terms for the list and edit property forms. Lease
+ * length and deposit are only asked for rentals.
+ */
+export function RentalTermsFields({ value, onChange }: RentalTermsFieldsProps) {
+  const { t } = useLanguage();
+
+  const update = (changes: Partial<RentalTermsForm>) => onChange({ ...value, ...changes });
+
+  // Tapping the selected answer again clears it back to "not stated"
+  const renderYesNo = (field: "feesIncluded" | "commissionApplies") => (
+    <View style={styles.chipRow}>
+      {[true, false].map((answer) => {
+        const isSelected = value[field] === answer;
+        return (
+          <TouchableOpacity
+            key={String(answer)}
+            style={[styles.chip, isSelected && styles.chipSelected]}
+            onPress={() => update({ [field]: isSelected ? null : answer })}
+          >
+            <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+              {t(answer ? "yes" : "no")}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.group}>
+        <Text style={styles.label}>{t("listingType")}</Text>
+        <View style={styles.chipRow}>
+          {LISTING_TYPES.map((listingType) => {
+            const isSelected = value.listingType === listingType;
+            return (
+              <TouchableOpacity
+                key={listingType}
+                style={[styles.chip, isSelected && styles.chipSelected]}
+                onPress={() => update({ listingType })}
+              >
+                <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                  {t(LISTING_TYPE_LABEL_KEYS[listingType])}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+
+      {value.listingType === "rent" && (
+        <View style={styles.row}>
+          <View style={[styles.group, styles.half]}>
+            <Text style={styles.label}>{t("minLeaseMonths")}</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="e.g., 12"
+              placeholderTextColor={colors.textSecondary}
+              value={value.minLeaseMonths}
+              onChangeText={(minLeaseMonths) => update({ minLeaseMonths })}
+              keyboardType="numeric"
+            />
+          </View>
+          <View style={[styles.group, styles.half]}>
+            <Text style={styles.label}>{t("depositMonths")}</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="e.g., 2"
+              placeholderTextColor={colors.textSecondary}
+              value={value.depositMonths}
+              onChangeText={(depositMonths) => update({ depositMonths })}
+              keyboardType="numeric"
+            />
+          </View>
+        </View>
+      )}
+
+      <View style={styles.group}>
+        <Text style={styles.label}>{t("availableFrom")}</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="YYYY-MM-DD"
+          placeholderTextColor={colors.textSecondary}
+          value={value.availableFrom}
+          onChangeText={(availableFrom) => update({ availableFrom })}
+          autoCapitalize="none"
+        />
+        <Text style={styles.helperText}>{t("availableFromHint")}</Text>
+      </View>
+
+      <View style={styles.group}>
+        <Text style={styles.label}>{t("feesIncluded")}</Text>
+        {renderYesNo("feesIncluded")}
+      </View>
+
+      <View style={styles.group}>
+        <Text style={styles.label}>{t("commissionApplies")}</Text>
+        {renderYesNo("commissionApplies")}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 20,
+  },
+  group: {
+    gap: 8,
+  },
+  row: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  half: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: colors.text,
+  },
+  input: {
+    backgroundColor: colors.backgroundAlt,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: colors.text,
+  },
+  helperText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: colors.backgroundAlt,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    color: colors.text,
+    fontWeight: "500",
+  },
+  chipTextSelected: {
+    color: "#FFFFFF",
+  },
+});
@@ -0,0 +1,46 @@
+import React, { useState, useEffect } from "react";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { authenticatedGet } from "@/utils/api";
+import { ListingCarousel, CarouselListing } from "@/components/ListingCarousel";
+
+interface SimilarListing extends CarouselListing {
+  similarity: number;
+}
+
+interface SimilarListingsProps {
+  propertyId: string;
+}
+
+/**
+ * "You may also like" row for the bottom of a listing page: comparable
+ * listings nearby, best match first. Renders nothing when there are none.
+ */
+export function SimilarListings({ propertyId }: SimilarListingsProps) {
+  const { t } = useLanguage();
+  const [listings, setListings] = useState<SimilarListing[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadSimilar = async () => {
+      try {
+        console.log("Fetching similar listings for:", propertyId);
+        const data = await authenticatedGet<SimilarListing[]>(`/api/properties/${propertyId}/similar`);
+        if (!cancelled) {
+          setListings(data);
+        }
+      } catch (error) {
+        console.error("Error loading similar listings:", error);
+      }
+    };
+    loadSimilar();
+    return () => {
+      cancelled = true;
+    };
+  }, [propertyId]);
+
+  if (listings.length === 0) {
+    return null;
+  }
+
+  return <ListingCarousel title={t("youMayAlsoLike")} listings={listings} />;
+}
@@ -0,0 +1,181 @@
+import React from "react";
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from "react-native";
+import { colors } from "@/styles/commonStyles";
+import { useLanguage } from "@/contexts/LanguageContext";
+import {
+  FACINGS,
+  FACING_LABEL_KEYS,
+  FLOOR_LEVELS,
+  FLOOR_LEVEL_LABEL_KEYS,
+  UnitDetailsForm,
+} from "@/utils/unitDetails";
+
+interface UnitDetailsFieldsProps {
+  value: UnitDetailsForm;
+  onChange: (value: UnitDetailsForm) => void;
+}
+
+/**
+ * Optional unit attributes for the list and edit property forms. The gross
+ * size stays in the form itself since it is required.
+ */
+export function UnitDetailsFields({ value, onChange }: UnitDetailsFieldsProps) {
+  const { t } = useLanguage();
+
+  const update = (changes: Partial<UnitDetailsForm>) => onChange({ ...value, ...changes });
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.group}>
+        <Text style={styles.label}>{t("saleableAreaSqFt")}</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="e.g., 450"
+          placeholderTextColor={colors.textSecondary}
+          value={value.saleableArea}
+          onChangeText={(saleableArea) => update({ saleableArea })}
+          keyboardType="numeric"
+        />
+        <Text style={styles.helperText}>{t("saleableAreaHint")}</Text>
+      </View>
+
+      <View style={styles.row}>
+        <View style={[styles.group, styles.half]}>
+          <Text style={styles.label}>{t("bedrooms")}</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="e.g., 2"
+            placeholderTextColor={colors.textSecondary}
+            value={value.bedrooms}
+            onChangeText={(bedrooms) => update({ bedrooms })}
+            keyboardType="numeric"
+          />
+        </View>
+        <View style={[styles.group, styles.half]}>
+          <Text style={styles.label}>{t("bathrooms")}</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="e.g., 1"
+            placeholderTextColor={colors.textSecondary}
+            value={value.bathrooms}
+            onChangeText={(bathrooms) => update({ bathrooms })}
+            keyboardType="numeric"
+          />
+        </View>
+      </View>
+
+      {/* Tapping the selected chip again clears it back to "not stated" */}
+      <View style={styles.group}>
+        <Text style={styles.label}>{t("floorLevel")}</Text>
+        <View style={styles.chipRow}>
+          {FLOOR_LEVELS.map((floorLevel) => {
+            const isSelected = value.floorLevel === floorLevel;
+            return (
+              <TouchableOpacity
+                key={floorLevel}
+                style={[styles.chip, isSelected && styles.chipSelected]}
+                onPress={() => update({ floorLevel: isSelected ? null : floorLevel })}
+              >
+                <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                  {t(FLOOR_LEVEL_LABEL_KEYS[floorLevel])}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+
+      <View style={styles.group}>
+        <Text style={styles.label}>{t("facing")}</Text>
+        <View style={styles.chipRow}>
+          {FACINGS.map((facing) => {
+            const isSelected = value.facing === facing;
+            return (
+              <TouchableOpacity
+                key={facing}
+                style={[styles.chip, isSelected && styles.chipSelected]}
+                onPress={() => update({ facing: isSelected ? null : facing })}
+              >
+                <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                  {t(FACING_LABEL_KEYS[facing])}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+
+      <View style={styles.group}>
+        <Text style={styles.label}>{t("yearBuilt")}</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="e.g., 1998"
+          placeholderTextColor={colors.textSecondary}
+          value={value.yearBuilt}
+          onChangeText={(yearBuilt) => update({ yearBuilt })}
+          keyboardType="numeric"
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 20,
+  },
+  group: {
+    gap: 8,
+  },
+  row: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  half: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: colors.text,
+  },
+  input: {
+    backgroundColor: colors.backgroundAlt,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: colors.text,
+  },
+  helperText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: colors.backgroundAlt,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    color: colors.text,
+    fontWeight: "500",
+  },
+  chipTextSelected: {
+    color: "#FFFFFF",
+  },
+});
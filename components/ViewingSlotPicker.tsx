@@ -0,0 +1,174 @@
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+} from "react-native";
+import { IconSymbol } from "@/components/IconSymbol";
+import { colors } from "@/styles/commonStyles";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { authenticatedGet } from "@/utils/api";
+import { ViewingSlot, formatSlotTime } from "@/utils/appointments";
+
+interface ViewingSlotPickerProps {
+  visible: boolean;
+  propertyId: string;
+  title: string;
+  submitting?: boolean;
+  error?: string | null;
+  onSelect: (slot: ViewingSlot) => void;
+  onClose: () => void;
+}
+
+/**
+ * Bottom-sheet list of a property's free viewing slots
+ */
+export function ViewingSlotPicker({
+  visible,
+  propertyId,
+  title,
+  submitting = false,
+  error,
+  onSelect,
+  onClose,
+}: ViewingSlotPickerProps) {
+  const { language, t } = useLanguage();
+  const [slots, setSlots] = useState<ViewingSlot[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Reloads after a failed booking too, since the slot may have just been taken
+  useEffect(() => {
+    if (!visible || !propertyId) return;
+
+    const loadSlots = async () => {
+      try {
+        setLoading(true);
+        console.log("Fetching viewing slots for property:", propertyId);
+        const data = await authenticatedGet<ViewingSlot[]>(`/api/properties/${propertyId}/viewing-slots`);
+        setSlots(data.filter((slot) => !slot.booked));
+      } catch (error) {
+        console.error("Error loading viewing slots:", error);
+        setSlots([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSlots();
+  }, [visible, propertyId, error]);
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{title}</Text>
+            <TouchableOpacity onPress={onClose}>
+              <IconSymbol
+                ios_icon_name="xmark"
+                android_material_icon_name="close"
+                size={24}
+                color={colors.text}
+              />
+            </TouchableOpacity>
+          </View>
+
+          {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+          {loading || submitting ? (
+            <View style={styles.centered}>
+              <ActivityIndicator size="large" color={colors.primary} />
+            </View>
+          ) : slots.length === 0 ? (
+            <View style={styles.centered}>
+              <Text style={styles.emptyText}>{t("noViewingSlots")}</Text>
+            </View>
+          ) : (
+            <ScrollView style={styles.list}>
+              {slots.map((slot) => (
+                <TouchableOpacity
+                  key={slot.id}
+                  style={styles.slotOption}
+                  onPress={() => onSelect(slot)}
+                >
+                  <IconSymbol
+                    ios_icon_name="calendar"
+                    android_material_icon_name="event"
+                    size={20}
+                    color={colors.primary}
+                  />
+                  <Text style={styles.slotText}>
+                    {formatSlotTime(slot.startsAt, slot.endsAt, language)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  content: {
+    backgroundColor: colors.background,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingTop: 20,
+    paddingBottom: 40,
+    maxHeight: "70%",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 20,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: colors.text,
+  },
+  centered: {
+    paddingVertical: 40,
+    alignItems: "center",
+  },
+  emptyText: {
+    fontSize: 16,
+    color: colors.textSecondary,
+    textAlign: "center",
+    paddingHorizontal: 20,
+  },
+  errorText: {
+    fontSize: 14,
+    color: colors.error,
+    paddingHorizontal: 20,
+    marginBottom: 12,
+  },
+  list: {
+    paddingHorizontal: 20,
+  },
+  slotOption: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  slotText: {
+    fontSize: 16,
+    color: colors.text,
+  },
+});
@@ -77,8 +77,10 @@ const translations: Record<Language, Record<string, string>> = {
     allDistricts: "All Districts",
     loadingProperties: "Loading properties...",
     noPropertiesFound: "No properties found",
+    noPropertiesInArea: "No properties in this area",
     tryAdjustingFilters: "Try adjusting your filters or check back later",
     listYourProperty: "List Your Property",
+    loadingMore: "Loading more...",
     
     // Filters
     filters: "Filters",
@@ -88,6 +90,24 @@ const translations: Record<Language, Record<string, string>> = {
     max: "Max",
     clearAll: "Clear All",
     applyFilters: "Apply Filters",
+    sortBy: "Sort By",
+    sortRelevance: "Best Match",
+    sortNewest: "Newest",
+    sortPriceLowHigh: "Price: Low to High",
+    sortPriceHighLow: "Price: High to Low",
+    sortSizeLargeSmall: "Size: Largest First",
+    sortSizeSmallLarge: "Size: Smallest First",
+    sortPricePerSqftLowHigh: "Price per sq ft: Low to High",
+    sortPricePerSqftHighLow: "Price per sq ft: High to Low",
+    sortSaleableAreaLargeSmall: "Saleable area: Large to Small",
+    sortSaleableAreaSmallLarge: "Saleable area: Small to Large",
+    sortBedroomsMostFewest: "Bedrooms: Most first",
+    sortBedroomsFewestMost: "Bedrooms: Fewest first",
+    sortBuildingNewest: "Building: Newest first",
+    sortBuildingOldest: "Building: Oldest first",
+    saleableAreaRange: "Saleable Area (sq ft)",
+    any: "Any",
+    maxBuildingAge: "Building age up to (years)",
     
     // Districts
     centralAndWestern: "Central and Western",
@@ -114,6 +134,308 @@ const translations: Record<Language, Record<string, string>> = {
     size: "Size",
     description: "Description",
     equipmentAmenities: "Equipment & Amenities",
+    amenities: "Amenities",
+    otherEquipment: "Other Equipment",
+    location: "Location",
+    building: "Building / Estate",
+    buildingHint: "Choosing a building fills in its district, address, location and year built",
+    searchBuildingPlaceholder: "Search by building or estate name",
+    addNewBuilding: "Add new building",
+    selectDistrictBeforeBuilding: "Please select a district before adding a new building",
+    errorAddingBuilding: "Failed to add building. Please try again.",
+    change: "Change",
+    buildingNotFound: "Building not found",
+    facilities: "Facilities",
+    unitsAvailable: "Units Available",
+    noUnitsAvailable: "No units are listed in this building right now",
+    loadMore: "Load More",
+    tapMapToSetLocation: "Tap the map to pin the property's location",
+    clearLocation: "Clear location",
+    saveAsDraft: "Save as Draft",
+    listingStatus: "Listing Status",
+    statusDraft: "Draft",
+    statusPublished: "Published",
+    statusRented: "Rented",
+    statusArchived: "Archived",
+    publishListing: "Publish",
+    relistListing: "Relist",
+    moveToDrafts: "Move to Drafts",
+    markAsRented: "Mark as Rented",
+    archiveListing: "Archive",
+    errorUpdatingStatus: "Failed to update listing status. Please try again.",
+    error: "Error",
+    bookViewing: "Book a Viewing",
+    viewings: "Viewings",
+    myViewings: "My Viewings",
+    marketInsights: "Market Insights",
+    manageViewingSlots: "Manage Viewing Slots",
+    addViewingSlot: "Add Viewing Slot",
+    upcomingViewingSlots: "Upcoming Slots",
+    viewingDuration: "Duration",
+    slotAvailable: "Available",
+    slotBooked: "Booked",
+    noViewingSlots: "No viewing slots available",
+    noViewings: "No viewings booked yet",
+    upcomingViewings: "Upcoming",
+    pastViewings: "Past & Cancelled",
+    viewingAsOwner: "You're the owner",
+    viewingAsTenant: "You're viewing",
+    appointmentPending: "Pending",
+    appointmentConfirmed: "Confirmed",
+    appointmentCancelled: "Cancelled",
+    confirmViewing: "Confirm",
+    rescheduleViewing: "Reschedule",
+    cancelViewing: "Cancel Viewing",
+    confirmCancelViewing: "Are you sure you want to cancel this viewing? The time slot will be released.",
+    viewingRequestedMessage: "I've requested a viewing for",
+    errorBookingViewing: "Failed to book viewing. Please try again.",
+    errorUpdatingAppointment: "Failed to update viewing. Please try again.",
+    errorAddingViewingSlot: "Failed to add viewing slot. Please try again.",
+    errorDeletingViewingSlot: "Failed to delete viewing slot. Please try again.",
+    savedListings: "Saved",
+    noSavedListings: "No saved listings yet",
+    savedListingsHint: "Tap the heart on a listing to keep track of it",
+    priceChanged: "Price changed",
+    listingAvailableAgain: "Available again",
+    listingNoLongerPublic: "Listing no longer public",
+    save: "Save",
+    saveThisSearch: "Save this search",
+    savedSearchNamePlaceholder: "e.g., 2-bed in Sha Tin",
+    searchSaved: "Search saved. We'll let you know about new matches.",
+    errorSavingSearch: "Failed to save search. Please try again.",
+    savedSearches: "Saved Searches",
+    newMatches: "New Matches",
+    noNewMatches: "No new listings match your saved searches yet",
+    noSavedSearches: "Save a search from the filters on the home screen to get alerts for new listings",
+    mapArea: "Map area",
+    allListings: "All listings",
+    priceHistory: "Price History",
+    youMayAlsoLike: "You May Also Like",
+    forYou: "For You",
+    forYouSubtitle: "Based on the areas, prices and homes you've been looking at",
+    priceReduced: "Price reduced",
+    priceReducedFrom: "Reduced from",
+    priceReducedOnly: "Price reduced only",
+    daysOnMarket: "Days on market",
+    vsDistrictMedian: "vs district median",
+    inLineWithMedian: "in line",
+    marketInsightsIntro: "See what comparable homes go for in each district to price your unit with confidence.",
+    medianRent: "Median rent",
+    medianSalePrice: "Median asking price",
+    medianPricePerSqFt: "Median per sq ft",
+    activeListings: "Active listings",
+    averageDaysOnMarket: "Avg. days on market",
+    pricePerSqFtTrend: "Median per sq ft by month listed",
+    noMarketTrend: "Not enough listings yet to show a trend.",
+    
+    // Rental applications
+    rentalApplication: "Rental Application",
+    rentalApplications: "Rental Applications",
+    myApplications: "My Applications",
+    rentalApplicationIntro: "Tell the owner about your move and attach your documents. Only the owner can see them.",
+    moveInDate: "Move-in Date",
+    occupants: "Occupants",
+    monthlyIncome: "Monthly Income (HK$)",
+    messageToOwner: "Message to Owner",
+    messageToOwnerPlaceholder: "Anything the owner should know (optional)",
+    applicationDocuments: "Documents",
+    applicationDocumentsHint: "Add at least one ID, employment and income document.",
+    idDocument: "ID Document",
+    employmentDocument: "Proof of Employment",
+    incomeDocument: "Proof of Income",
+    addDocument: "Add Document",
+    documentOnFile: "Already provided",
+    uploadDocumentFailed: "Failed to upload document.",
+    documentUnavailable: "This document can't be opened right now.",
+    submitApplication: "Submit Application",
+    applicationFieldsRequired: "Please enter a move-in date (YYYY-MM-DD), the number of occupants and your monthly income.",
+    missingDocuments: "Please add:",
+    applicationSentMessage: "I've submitted a rental application for this property.",
+    errorSubmittingApplication: "Failed to submit application.",
+    errorUpdatingApplication: "Failed to update application.",
+    applicationNotFound: "Application not found",
+    submittedOn: "Submitted",
+    ownerNote: "Note from the owner",
+    reviewApplication: "Review Application",
+    ownerNotePlaceholder: "Note for the applicant (required when asking for more information)",
+    infoRequestNoteRequired: "Please tell the applicant what information you need.",
+    markListingRented: "Mark listing as rented",
+    acceptApplication: "Accept",
+    rejectApplication: "Reject",
+    requestMoreInfo: "Request Info",
+    addMoreDocuments: "Add More Documents",
+    resubmitApplication: "Resubmit Application",
+    withdrawApplication: "Withdraw Application",
+    confirmWithdrawApplication: "Are you sure you want to withdraw this application?",
+    noApplications: "No applications yet",
+    openApplications: "Awaiting Decision",
+    closedApplications: "Closed",
+    applicationSubmitted: "Submitted",
+    applicationInfoRequested: "Info Requested",
+    applicationAccepted: "Accepted",
+    applicationRejected: "Rejected",
+    applicationWithdrawn: "Withdrawn",
+    
+    // Tenancy agreements
+    tenancyAgreement: "Tenancy Agreement",
+    agreementNotFound: "Agreement not found",
+    viewAgreementPdf: "View agreement PDF",
+    landlord: "Landlord",
+    tenant: "Tenant",
+    acknowledgedOn: "Acknowledged on",
+    awaitingAcknowledgement: "Awaiting acknowledgement",
+    awaitingYourAcknowledgement: "Tenancy agreement awaiting your acknowledgement",
+    awaitingOtherParty: "Tenancy agreement awaiting the other party",
+    agreementAcknowledged: "Tenancy agreement acknowledged by both parties",
+    acknowledgeAgreementHint: "Please read the agreement PDF before acknowledging it. Both parties need to acknowledge the agreement.",
+    acknowledgeAgreement: "Acknowledge Agreement",
+    errorAcknowledgingAgreement: "Could not acknowledge the agreement:",
+    prepareAgreement: "Prepare Tenancy Agreement",
+    regenerateAgreement: "Regenerate Tenancy Agreement",
+    chooseAgreementTemplate: "Choose a template. Regenerating resets both acknowledgements.",
+    generateAgreement: "Generate & Share",
+    errorGeneratingAgreement: "Could not generate the agreement:",
+    agreementTemplates: "Agreement Templates",
+    agreementTemplatesIntro: "Copy a built-in template to adjust the wording for your own agreements.",
+    builtInTemplates: "Built-in Templates",
+    myTemplates: "My Templates",
+    noTemplates: "You have no templates yet",
+    editTemplate: "Edit Template",
+    templateName: "Template Name",
+    agreementLanguage: "Agreement Language",
+    templateBody: "Agreement Text",
+    templateBodyHint: "Lines starting with \"# \" become headings. These placeholders are filled in from the property and both parties:",
+    templateFieldsRequired: "Please enter a name and the agreement text",
+    errorSavingTemplate: "Could not save the template:",
+    copy: "Copy",
+    edit: "Edit",
+    
+    // Rent ledger
+    rentLedger: "Rent Ledger",
+    tenancies: "Tenancies",
+    noTenancies: "No tenancies yet. Start a rent ledger from an accepted application.",
+    tenancyNotFound: "Tenancy not found",
+    tenancyEnded: "Ended",
+    tenancyPeriod: "Tenancy period",
+    openEnded: "Open-ended",
+    deposit: "Deposit",
+    nextDue: "Next due",
+    startRentLedger: "Start rent ledger",
+    tenancyDefaultsHint: "Leave a field blank to use the move-in date and the listing's rent, deposit and minimum lease.",
+    tenancyStartDate: "Start date",
+    tenancyEndDate: "End date",
+    tenancyFieldsInvalid: "Use YYYY-MM-DD dates and positive amounts.",
+    errorStartingTenancy: "Failed to start rent ledger:",
+    errorUpdatingLedger: "Failed to update rent ledger:",
+    rentCharged: "Charged",
+    rentPaid: "Paid",
+    outstanding: "Outstanding",
+    rentCharges: "Rent charges",
+    noRentCharges: "No rent has fallen due yet.",
+    chargePaid: "Paid",
+    chargeDue: "Due",
+    chargeOverdue: "Overdue",
+    paidLate: "Paid late",
+    paidOn: "Paid on",
+    amount: "Amount",
+    paymentMethod: "Payment method",
+    paymentNote: "Note (optional)",
+    paymentOnline: "Online",
+    paymentBankTransfer: "Bank transfer",
+    paymentFps: "FPS",
+    paymentCash: "Cash",
+    paymentCheque: "Cheque",
+    paymentPending: "Awaiting confirmation",
+    paymentCompleted: "Completed",
+    paymentFailed: "Failed",
+    paymentRejected: "Rejected",
+    depositUnpaid: "Not paid",
+    depositHeld: "Held",
+    depositReturned: "Returned",
+    recordPayment: "Record payment",
+    payOnline: "Pay online",
+    attachReceipt: "Attach receipt",
+    paymentFieldsRequired: "Enter an amount and a YYYY-MM-DD payment date.",
+    tenantPaymentHint: "Payments you record stay pending until the landlord confirms them.",
+    testPaymentsHint: "Online payments are in test mode and no money is moved.",
+    confirm: "Confirm",
+    reject: "Reject",
+    exportLedgerCsv: "Export CSV",
+    rentReminders: "Reminders",
+    rentDueOn: "Rent due",
+    rentOverdueSince: "Rent overdue since",
+    
+    // Maintenance requests
+    maintenanceRequests: "Maintenance Requests",
+    maintenanceRequest: "Maintenance Request",
+    newMaintenanceRequest: "New Request",
+    noMaintenanceRequests: "No maintenance requests yet",
+    maintenanceRequestNotFound: "Maintenance request not found",
+    noActiveTenancy: "You need an active tenancy to file a maintenance request.",
+    all: "All",
+    property: "Property",
+    maintenanceCategory: "Category",
+    maintenancePlumbing: "Plumbing",
+    maintenanceElectrical: "Electrical",
+    maintenanceAppliance: "Appliance",
+    maintenanceAirConditioning: "Air conditioning",
+    maintenanceStructural: "Walls, floors & windows",
+    maintenancePest: "Pests",
+    maintenanceOther: "Other",
+    urgency: "Urgency",
+    urgencyLow: "Low",
+    urgencyNormal: "Normal",
+    urgencyUrgent: "Urgent",
+    maintenanceTitle: "Summary",
+    maintenanceDescription: "Description",
+    photos: "Photos",
+    addPhoto: "Add photo",
+    submitMaintenanceRequest: "Submit Request",
+    maintenanceFieldsRequired: "Choose a category and fill in the summary and description.",
+    errorFilingMaintenanceRequest: "Failed to submit maintenance request:",
+    errorUpdatingMaintenanceRequest: "Failed to update maintenance request:",
+    ticketOpen: "Open",
+    ticketInProgress: "In progress",
+    ticketResolved: "Resolved",
+    ticketClosed: "Closed",
+    ticketStatus: "Status",
+    triage: "Manage request",
+    contractor: "Contractor",
+    contractorName: "Contractor name",
+    reportedBy: "Reported by",
+    maintenanceHistory: "History",
+    noMaintenanceComments: "No comments yet",
+    addComment: "Add a comment...",
+    ticketClosedHint: "This request is closed.",
+    ticketStatusChanged: "changed the status to",
+    contractorAssigned: "assigned",
+    contractorUnassigned: "removed the contractor",
+    showStats: "Show stats",
+    hideStats: "Hide stats",
+    last30Days: "Last 30 days",
+    views: "Views",
+    saves: "Saves",
+    chatStarts: "Chats",
+    viewToChat: "View → chat",
+    viewsTrend: "Views, last 15 days vs previous 15",
+    errorLoadingStats: "Failed to load stats. Please try again.",
+    editHistory: "Edit History",
+    viewEditHistory: "View Edit History",
+    revisionCreated: "Listing created",
+    revisionEdited: "Listing edited",
+    revisionStatusChanged: "Status changed",
+    revisionDeleted: "Listing deleted",
+    revisionUndeleted: "Restored from deleted",
+    revisionRestored: "Restored earlier version",
+    currentVersion: "Current",
+    restore: "Restore",
+    restoreRevision: "Restore Version",
+    confirmRestoreRevision: "Put the listing back to how it was after this change? Its status will not change, and the restore will appear in the history.",
+    errorRestoringRevision: "Failed to restore version. Please try again.",
+    noRevisions: "No changes recorded yet",
+    recentlyDeleted: "Recently Deleted",
+    recentlyDeletedHint: "Deleted listings can be restored for 30 days, then they are removed for good.",
+    restorableUntil: "Can be restored until",
     virtualTour: "Virtual Tour",
     contactOwner: "Contact Owner",
     propertyNotFound: "Property not found",
@@ -123,7 +445,60 @@ const translations: Record<Language, Record<string, string>> = {
     propertyTitle: "Property Title",
     propertyDescription: "Description",
     monthlyRentHKD: "Monthly Rent (HK$)",
-    sizeSqFt: "Size (sq ft)",
+    salePrice: "Sale Price",
+    salePriceHKD: "Sale Price (HK$)",
+    listingType: "Listing Type",
+    forRent: "For Rent",
+    forSale: "For Sale",
+    allListingTypes: "All",
+    rentalTerms: "Terms",
+    minLeaseMonths: "Minimum Lease (months)",
+    depositMonths: "Deposit (months)",
+    availableFrom: "Available From",
+    availableFromHint: "Leave blank if available now",
+    availableNow: "Available now",
+    feesIncluded: "Management fees & rates included",
+    commissionApplies: "Agency commission applies",
+    yes: "Yes",
+    no: "No",
+    maxLeaseMonthsFilter: "Lease up to (months)",
+    maxDepositMonthsFilter: "Deposit up to (months)",
+    availableByFilter: "Move in by (YYYY-MM-DD)",
+    feesIncludedOnly: "Fees included",
+    noCommissionOnly: "No commission",
+    invalidLeaseMonths: "Minimum lease must be a whole number of months from 1 to 120",
+    invalidDepositMonths: "Deposit must be a whole number of months from 0 to 12",
+    invalidAvailableFrom: "Available from must be a date in YYYY-MM-DD format",
+    grossAreaSqFt: "Gross Area (sq ft)",
+    grossArea: "Gross Area",
+    saleableArea: "Saleable Area",
+    saleableAreaSqFt: "Saleable Area (sq ft)",
+    saleableAreaHint: "Floor area of the unit itself, excluding common areas",
+    unitDetails: "Unit Details",
+    bedrooms: "Bedrooms",
+    bathrooms: "Bathrooms",
+    studio: "Studio",
+    floorLevel: "Floor Level",
+    floorLow: "Low floor",
+    floorMid: "Middle floor",
+    floorHigh: "High floor",
+    facing: "Facing",
+    facingNorth: "North",
+    facingNortheast: "Northeast",
+    facingEast: "East",
+    facingSoutheast: "Southeast",
+    facingSouth: "South",
+    facingSouthwest: "Southwest",
+    facingWest: "West",
+    facingNorthwest: "Northwest",
+    yearBuilt: "Year Built",
+    buildingAge: "Building Age",
+    years: "years",
+    invalidSaleableArea: "Saleable area must be a whole number of sq ft",
+    saleableAreaAboveGross: "Saleable area cannot be larger than the gross area",
+    invalidBedrooms: "Bedrooms must be a whole number from 0 to 20",
+    invalidBathrooms: "Bathrooms must be a whole number from 0 to 20",
+    invalidYearBuilt: "Year built must be a year from 1800 to this year",
     district: "District",
     selectDistrict: "Select District",
     equipment: "Equipment & Amenities",
@@ -184,7 +559,7 @@ const translations: Record<Language, Record<string, string>> = {
     propertyUpdatedSuccess: "Your property has been updated successfully",
     errorUpdatingProperty: "Failed to update property. Please try again.",
     deleteProperty: "Delete Property",
-    confirmDelete: "Are you sure you want to delete this property? This action cannot be undone.",
+    confirmDelete: "Are you sure you want to delete this property? It will be hidden from search straight away. You can restore it from your profile within 30 days, after which it is removed for good. Chats about it stay available.",
     delete: "Delete",
     propertyDeletedSuccess: "Property deleted successfully",
     errorDeletingProperty: "Failed to delete property. Please try again.",
@@ -198,8 +573,10 @@ const translations: Record<Language, Record<string, string>> = {
     allDistricts: "所有地區",
     loadingProperties: "載入物業中...",
     noPropertiesFound: "找不到物業",
+    noPropertiesInArea: "此區域暫無物業",
     tryAdjustingFilters: "請調整篩選條件或稍後再試",
     listYourProperty: "刊登您的物業",
+    loadingMore: "載入更多中...",
     
     // Filters
     filters: "篩選",
@@ -209,6 +586,24 @@ const translations: Record<Language, Record<string, string>> = {
     max: "最高",
     clearAll: "清除全部",
     applyFilters: "套用篩選",
+    sortBy: "排序方式",
+    sortRelevance: "最相關",
+    sortNewest: "最新",
+    sortPriceLowHigh: "價格：由低至高",
+    sortPriceHighLow: "價格：由高至低",
+    sortSizeLargeSmall: "面積：由大至小",
+    sortSizeSmallLarge: "面積：由小至大",
+    sortPricePerSqftLowHigh: "呎價：由低至高",
+    sortPricePerSqftHighLow: "呎價：由高至低",
+    sortSaleableAreaLargeSmall: "實用面積：由大至小",
+    sortSaleableAreaSmallLarge: "實用面積：由小至大",
+    sortBedroomsMostFewest: "睡房：由多至少",
+    sortBedroomsFewestMost: "睡房：由少至多",
+    sortBuildingNewest: "樓齡：由新至舊",
+    sortBuildingOldest: "樓齡：由舊至新",
+    saleableAreaRange: "實用面積 (平方呎)",
+    any: "不限",
+    maxBuildingAge: "樓齡上限 (年)",
     
     // Districts
     centralAndWestern: "中西區",
@@ -235,6 +630,308 @@ const translations: Record<Language, Record<string, string>> = {
     size: "面積",
     description: "描述",
     equipmentAmenities: "設備及配套",
+    amenities: "設施",
+    otherEquipment: "其他設備",
+    location: "位置",
+    building: "大廈 / 屋苑",
+    buildingHint: "選擇大廈後會自動填入地區、地址、位置及落成年份",
+    searchBuildingPlaceholder: "輸入大廈或屋苑名稱搜尋",
+    addNewBuilding: "新增大廈",
+    selectDistrictBeforeBuilding: "新增大廈前請先選擇地區",
+    errorAddingBuilding: "新增大廈失敗，請重試。",
+    change: "更改",
+    buildingNotFound: "找不到大廈",
+    facilities: "設施",
+    unitsAvailable: "現有放盤",
+    noUnitsAvailable: "此大廈暫時沒有放盤",
+    loadMore: "載入更多",
+    tapMapToSetLocation: "點按地圖以標示物業位置",
+    clearLocation: "清除位置",
+    saveAsDraft: "儲存為草稿",
+    listingStatus: "放盤狀態",
+    statusDraft: "草稿",
+    statusPublished: "已刊登",
+    statusRented: "已租出",
+    statusArchived: "已封存",
+    publishListing: "刊登",
+    relistListing: "重新刊登",
+    moveToDrafts: "移至草稿",
+    markAsRented: "標記為已租出",
+    archiveListing: "封存",
+    errorUpdatingStatus: "更新放盤狀態失敗，請重試。",
+    error: "錯誤",
+    bookViewing: "預約睇樓",
+    viewings: "睇樓",
+    myViewings: "我的睇樓預約",
+    marketInsights: "市場數據",
+    manageViewingSlots: "管理睇樓時段",
+    addViewingSlot: "新增睇樓時段",
+    upcomingViewingSlots: "即將舉行的時段",
+    viewingDuration: "時長",
+    slotAvailable: "可預約",
+    slotBooked: "已預約",
+    noViewingSlots: "暫無可預約的睇樓時段",
+    noViewings: "尚未有睇樓預約",
+    upcomingViewings: "即將舉行",
+    pastViewings: "已過去及已取消",
+    viewingAsOwner: "你是業主",
+    viewingAsTenant: "你是睇樓人",
+    appointmentPending: "待確認",
+    appointmentConfirmed: "已確認",
+    appointmentCancelled: "已取消",
+    confirmViewing: "確認",
+    rescheduleViewing: "改期",
+    cancelViewing: "取消睇樓",
+    confirmCancelViewing: "確定要取消此睇樓預約嗎？該時段將會釋出。",
+    viewingRequestedMessage: "我已預約睇樓時間：",
+    errorBookingViewing: "預約睇樓失敗，請重試。",
+    errorUpdatingAppointment: "更新睇樓預約失敗，請重試。",
+    errorAddingViewingSlot: "新增睇樓時段失敗，請重試。",
+    errorDeletingViewingSlot: "刪除睇樓時段失敗，請重試。",
+    savedListings: "已收藏",
+    noSavedListings: "尚未收藏任何盤源",
+    savedListingsHint: "按盤源上的心形圖示即可收藏",
+    priceChanged: "價格已更改",
+    listingAvailableAgain: "已重新放盤",
+    listingNoLongerPublic: "此物業已暫停公開",
+    save: "儲存",
+    saveThisSearch: "儲存此搜尋",
+    savedSearchNamePlaceholder: "例如：沙田兩房",
+    searchSaved: "已儲存搜尋，有新盤源時會通知你。",
+    errorSavingSearch: "儲存搜尋失敗，請重試。",
+    savedSearches: "已儲存的搜尋",
+    newMatches: "新配對盤源",
+    noNewMatches: "暫時未有符合已儲存搜尋的新盤源",
+    noSavedSearches: "在首頁的篩選中儲存搜尋，即可收到新盤源通知",
+    mapArea: "地圖範圍",
+    allListings: "所有盤源",
+    priceHistory: "價格走勢",
+    youMayAlsoLike: "你可能也喜歡",
+    forYou: "為你推介",
+    forYouSubtitle: "根據你最近搜尋的地區、價錢及瀏覽過的單位",
+    priceReduced: "已減價",
+    priceReducedFrom: "原價",
+    priceReducedOnly: "只顯示已減價",
+    daysOnMarket: "放盤日數",
+    vsDistrictMedian: "對比地區中位數",
+    inLineWithMedian: "相若",
+    marketInsightsIntro: "參考各區同類物業的叫價，為你的單位訂出合適價錢。",
+    medianRent: "租金中位數",
+    medianSalePrice: "叫價中位數",
+    medianPricePerSqFt: "每平方呎中位數",
+    activeListings: "現有放盤",
+    averageDaysOnMarket: "平均放盤日數",
+    pricePerSqFtTrend: "按放盤月份的每平方呎中位數",
+    noMarketTrend: "暫時未有足夠放盤顯示走勢。",
+    
+    // Rental applications
+    rentalApplication: "租盤申請",
+    rentalApplications: "租盤申請",
+    myApplications: "我的申請",
+    rentalApplicationIntro: "向業主介紹您的入住安排並附上文件，只有業主可以查看。",
+    moveInDate: "入住日期",
+    occupants: "入住人數",
+    monthlyIncome: "每月收入（港幣）",
+    messageToOwner: "給業主的留言",
+    messageToOwnerPlaceholder: "業主需要知道的事項（選填）",
+    applicationDocuments: "文件",
+    applicationDocumentsHint: "請最少提供身份證明、工作證明及入息證明各一份。",
+    idDocument: "身份證明",
+    employmentDocument: "工作證明",
+    incomeDocument: "入息證明",
+    addDocument: "新增文件",
+    documentOnFile: "已提供",
+    uploadDocumentFailed: "上傳文件失敗。",
+    documentUnavailable: "暫時無法開啟此文件。",
+    submitApplication: "提交申請",
+    applicationFieldsRequired: "請輸入入住日期（YYYY-MM-DD）、入住人數及每月收入。",
+    missingDocuments: "請提供：",
+    applicationSentMessage: "我已為此物業提交租盤申請。",
+    errorSubmittingApplication: "提交申請失敗。",
+    errorUpdatingApplication: "更新申請失敗。",
+    applicationNotFound: "找不到申請",
+    submittedOn: "提交於",
+    ownerNote: "業主備註",
+    reviewApplication: "審批申請",
+    ownerNotePlaceholder: "給申請人的備註（要求補充資料時必填）",
+    infoRequestNoteRequired: "請說明您需要申請人補充哪些資料。",
+    markListingRented: "將物業標記為已租出",
+    acceptApplication: "接受",
+    rejectApplication: "拒絕",
+    requestMoreInfo: "要求補充資料",
+    addMoreDocuments: "補充文件",
+    resubmitApplication: "重新提交申請",
+    withdrawApplication: "撤回申請",
+    confirmWithdrawApplication: "確定要撤回此申請嗎？",
+    noApplications: "暫時沒有申請",
+    openApplications: "待審批",
+    closedApplications: "已完結",
+    applicationSubmitted: "已提交",
+    applicationInfoRequested: "需補充資料",
+    applicationAccepted: "已接受",
+    applicationRejected: "已拒絕",
+    applicationWithdrawn: "已撤回",
+    
+    // Tenancy agreements
+    tenancyAgreement: "租約",
+    agreementNotFound: "找不到租約",
+    viewAgreementPdf: "查看租約 PDF",
+    landlord: "業主",
+    tenant: "租客",
+    acknowledgedOn: "確認於",
+    awaitingAcknowledgement: "等待確認",
+    awaitingYourAcknowledgement: "租約正等待你確認",
+    awaitingOtherParty: "租約正等待對方確認",
+    agreementAcknowledged: "雙方已確認租約",
+    acknowledgeAgreementHint: "確認前請先細閱租約 PDF。租約需經雙方確認。",
+    acknowledgeAgreement: "確認租約",
+    errorAcknowledgingAgreement: "無法確認租約：",
+    prepareAgreement: "準備租約",
+    regenerateAgreement: "重新產生租約",
+    chooseAgreementTemplate: "請選擇範本。重新產生會重設雙方的確認。",
+    generateAgreement: "產生並分享",
+    errorGeneratingAgreement: "無法產生租約：",
+    agreementTemplates: "租約範本",
+    agreementTemplatesIntro: "複製內置範本即可修改你自己的租約內容。",
+    builtInTemplates: "內置範本",
+    myTemplates: "我的範本",
+    noTemplates: "你暫時沒有範本",
+    editTemplate: "編輯範本",
+    templateName: "範本名稱",
+    agreementLanguage: "租約語言",
+    templateBody: "租約內容",
+    templateBodyHint: "以「# 」開頭的行會成為標題。以下欄位會按物業及雙方資料填寫：",
+    templateFieldsRequired: "請輸入名稱及租約內容",
+    errorSavingTemplate: "無法儲存範本：",
+    copy: "複製",
+    edit: "編輯",
+    
+    // Rent ledger
+    rentLedger: "租金帳簿",
+    tenancies: "租約",
+    noTenancies: "暫無租約。可從已接受的申請開始租金帳簿。",
+    tenancyNotFound: "找不到租約",
+    tenancyEnded: "已結束",
+    tenancyPeriod: "租期",
+    openEnded: "不定期",
+    deposit: "按金",
+    nextDue: "下次到期",
+    startRentLedger: "開始租金帳簿",
+    tenancyDefaultsHint: "留空欄位將使用入住日期及放盤的租金、按金和最短租期。",
+    tenancyStartDate: "開始日期",
+    tenancyEndDate: "結束日期",
+    tenancyFieldsInvalid: "請使用 YYYY-MM-DD 日期格式及正數金額。",
+    errorStartingTenancy: "開始租金帳簿失敗：",
+    errorUpdatingLedger: "更新租金帳簿失敗：",
+    rentCharged: "應付",
+    rentPaid: "已付",
+    outstanding: "尚欠",
+    rentCharges: "租金賬項",
+    noRentCharges: "暫無到期租金。",
+    chargePaid: "已付",
+    chargeDue: "待付",
+    chargeOverdue: "逾期",
+    paidLate: "逾期繳付",
+    paidOn: "付款日期",
+    amount: "金額",
+    paymentMethod: "付款方式",
+    paymentNote: "備註（可選）",
+    paymentOnline: "網上付款",
+    paymentBankTransfer: "銀行轉賬",
+    paymentFps: "轉數快",
+    paymentCash: "現金",
+    paymentCheque: "支票",
+    paymentPending: "等待確認",
+    paymentCompleted: "已完成",
+    paymentFailed: "失敗",
+    paymentRejected: "已拒絕",
+    depositUnpaid: "未付",
+    depositHeld: "已持有",
+    depositReturned: "已退還",
+    recordPayment: "記錄付款",
+    payOnline: "網上付款",
+    attachReceipt: "附加收據",
+    paymentFieldsRequired: "請輸入金額及 YYYY-MM-DD 格式的付款日期。",
+    tenantPaymentHint: "你記錄的付款須待業主確認。",
+    testPaymentsHint: "網上付款處於測試模式，不會實際扣款。",
+    confirm: "確認",
+    reject: "拒絕",
+    exportLedgerCsv: "匯出 CSV",
+    rentReminders: "提醒",
+    rentDueOn: "租金到期",
+    rentOverdueSince: "租金逾期，到期日",
+    
+    // Maintenance requests
+    maintenanceRequests: "維修申請",
+    maintenanceRequest: "維修申請",
+    newMaintenanceRequest: "新申請",
+    noMaintenanceRequests: "暫無維修申請",
+    maintenanceRequestNotFound: "找不到維修申請",
+    noActiveTenancy: "你需要有生效中的租約才能提交維修申請。",
+    all: "全部",
+    property: "物業",
+    maintenanceCategory: "類別",
+    maintenancePlumbing: "水喉",
+    maintenanceElectrical: "電力",
+    maintenanceAppliance: "電器",
+    maintenanceAirConditioning: "冷氣",
+    maintenanceStructural: "牆身、地板及窗戶",
+    maintenancePest: "蟲害",
+    maintenanceOther: "其他",
+    urgency: "緊急程度",
+    urgencyLow: "低",
+    urgencyNormal: "一般",
+    urgencyUrgent: "緊急",
+    maintenanceTitle: "摘要",
+    maintenanceDescription: "描述",
+    photos: "相片",
+    addPhoto: "加入相片",
+    submitMaintenanceRequest: "提交申請",
+    maintenanceFieldsRequired: "請選擇類別並填寫摘要及描述。",
+    errorFilingMaintenanceRequest: "提交維修申請失敗：",
+    errorUpdatingMaintenanceRequest: "更新維修申請失敗：",
+    ticketOpen: "待處理",
+    ticketInProgress: "處理中",
+    ticketResolved: "已解決",
+    ticketClosed: "已關閉",
+    ticketStatus: "狀態",
+    triage: "處理申請",
+    contractor: "承辦商",
+    contractorName: "承辦商名稱",
+    reportedBy: "報告人",
+    maintenanceHistory: "記錄",
+    noMaintenanceComments: "暫無留言",
+    addComment: "新增留言...",
+    ticketClosedHint: "此申請已關閉。",
+    ticketStatusChanged: "將狀態更改為",
+    contractorAssigned: "已指派",
+    contractorUnassigned: "已移除承辦商",
+    showStats: "顯示數據",
+    hideStats: "隱藏數據",
+    last30Days: "過去 30 日",
+    views: "瀏覽",
+    saves: "收藏",
+    chatStarts: "查詢",
+    viewToChat: "瀏覽轉查詢",
+    viewsTrend: "瀏覽量（近 15 日對比之前 15 日）",
+    errorLoadingStats: "載入數據失敗，請重試。",
+    editHistory: "編輯記錄",
+    viewEditHistory: "查看編輯記錄",
+    revisionCreated: "已建立刊登",
+    revisionEdited: "已編輯刊登",
+    revisionStatusChanged: "狀態已更改",
+    revisionDeleted: "已刪除刊登",
+    revisionUndeleted: "已從已刪除中還原",
+    revisionRestored: "已還原先前版本",
+    currentVersion: "目前版本",
+    restore: "還原",
+    restoreRevision: "還原版本",
+    confirmRestoreRevision: "要將刊登還原至此更改後的內容嗎？刊登狀態不會改變，而還原亦會記錄在編輯記錄中。",
+    errorRestoringRevision: "還原版本失敗，請重試。",
+    noRevisions: "尚未有更改記錄",
+    recentlyDeleted: "最近刪除",
+    recentlyDeletedHint: "已刪除的刊登可於 30 天內還原，之後將被永久刪除。",
+    restorableUntil: "可還原至",
     virtualTour: "虛擬導覽",
     contactOwner: "聯絡業主",
     propertyNotFound: "找不到物業",
@@ -244,7 +941,60 @@ const translations: Record<Language, Record<string, string>> = {
     propertyTitle: "物業標題",
     propertyDescription: "描述",
     monthlyRentHKD: "月租 (港幣)",
-    sizeSqFt: "面積 (平方呎)",
+    salePrice: "售價",
+    salePriceHKD: "售價 (港幣)",
+    listingType: "放盤類型",
+    forRent: "出租",
+    forSale: "出售",
+    allListingTypes: "全部",
+    rentalTerms: "租售條款",
+    minLeaseMonths: "最短租期 (月)",
+    depositMonths: "按金 (月)",
+    availableFrom: "可入住日期",
+    availableFromHint: "如即時可入住請留空",
+    availableNow: "即時入住",
+    feesIncluded: "包管理費及差餉",
+    commissionApplies: "需付佣金",
+    yes: "是",
+    no: "否",
+    maxLeaseMonthsFilter: "租期最多 (月)",
+    maxDepositMonthsFilter: "按金最多 (月)",
+    availableByFilter: "入住日期 (YYYY-MM-DD)",
+    feesIncludedOnly: "包管理費",
+    noCommissionOnly: "免佣",
+    invalidLeaseMonths: "最短租期須為 1 至 120 之間的整數月數",
+    invalidDepositMonths: "按金須為 0 至 12 之間的整數月數",
+    invalidAvailableFrom: "可入住日期須為 YYYY-MM-DD 格式",
+    grossAreaSqFt: "建築面積 (平方呎)",
+    grossArea: "建築面積",
+    saleableArea: "實用面積",
+    saleableAreaSqFt: "實用面積 (平方呎)",
+    saleableAreaHint: "單位本身的面積，不包括公用地方",
+    unitDetails: "單位資料",
+    bedrooms: "睡房",
+    bathrooms: "浴室",
+    studio: "開放式",
+    floorLevel: "樓層",
+    floorLow: "低層",
+    floorMid: "中層",
+    floorHigh: "高層",
+    facing: "座向",
+    facingNorth: "北",
+    facingNortheast: "東北",
+    facingEast: "東",
+    facingSoutheast: "東南",
+    facingSouth: "南",
+    facingSouthwest: "西南",
+    facingWest: "西",
+    facingNorthwest: "西北",
+    yearBuilt: "落成年份",
+    buildingAge: "樓齡",
+    years: "年",
+    invalidSaleableArea: "實用面積須為整數平方呎",
+    saleableAreaAboveGross: "實用面積不能大於建築面積",
+    invalidBedrooms: "睡房數目須為 0 至 20 之間的整數",
+    invalidBathrooms: "浴室數目須為 0 至 20 之間的整數",
+    invalidYearBuilt: "落成年份須為 1800 年至今年之間",
     district: "地區",
     selectDistrict: "選擇地區",
     equipment: "設備及配套",
@@ -305,7 +1055,7 @@ const translations: Record<Language, Record<string, string>> = {
     propertyUpdatedSuccess: "您的物業已成功更新",
     errorUpdatingProperty: "更新物業失敗，請重試。",
     deleteProperty: "刪除物業",
-    confirmDelete: "確定要刪除此物業嗎？此操作無法復原。",
+    confirmDelete: "確定要刪除此物業嗎？物業會即時從搜尋結果中隱藏。你可於 30 天內在個人檔案中還原，之後將被永久刪除。相關對話會繼續保留。",
     delete: "刪除",
     propertyDeletedSuccess: "物業已成功刪除",
     errorDeletingProperty: "刪除物業失敗，請重試。",
@@ -319,8 +1069,10 @@ const translations: Record<Language, Record<string, string>> = {
     allDistricts: "所有地区",
     loadingProperties: "加载物业中...",
     noPropertiesFound: "找不到物业",
+    noPropertiesInArea: "此区域暂无物业",
     tryAdjustingFilters: "请调整筛选条件或稍后再试",
     listYourProperty: "刊登您的物业",
+    loadingMore: "加载更多中...",
     
     // Filters
     filters: "筛选",
@@ -330,6 +1082,24 @@ const translations: Record<Language, Record<string, string>> = {
     max: "最高",
     clearAll: "清除全部",
     applyFilters: "应用筛选",
+    sortBy: "排序方式",
+    sortRelevance: "最相关",
+    sortNewest: "最新",
+    sortPriceLowHigh: "价格：由低至高",
+    sortPriceHighLow: "价格：由高至低",
+    sortSizeLargeSmall: "面积：由大至小",
+    sortSizeSmallLarge: "面积：由小至大",
+    sortPricePerSqftLowHigh: "呎价：由低至高",
+    sortPricePerSqftHighLow: "呎价：由高至低",
+    sortSaleableAreaLargeSmall: "实用面积：由大至小",
+    sortSaleableAreaSmallLarge: "实用面积：由小至大",
+    sortBedroomsMostFewest: "卧室：由多至少",
+    sortBedroomsFewestMost: "卧室：由少至多",
+    sortBuildingNewest: "楼龄：由新至旧",
+    sortBuildingOldest: "楼龄：由旧至新",
+    saleableAreaRange: "实用面积 (平方呎)",
+    any: "不限",
+    maxBuildingAge: "楼龄上限 (年)",
     
     // Districts
     centralAndWestern: "中西区",
@@ -356,6 +1126,308 @@ const translations: Record<Language, Record<string, string>> = {
     size: "面积",
     description: "描述",
     equipmentAmenities: "设备及配套",
+    amenities: "设施",
+    otherEquipment: "其他设备",
+    location: "位置",
+    building: "大厦 / 屋苑",
+    buildingHint: "选择大厦后会自动填入地区、地址、位置及落成年份",
+    searchBuildingPlaceholder: "输入大厦或屋苑名称搜索",
+    addNewBuilding: "新增大厦",
+    selectDistrictBeforeBuilding: "新增大厦前请先选择地区",
+    errorAddingBuilding: "新增大厦失败，请重试。",
+    change: "更改",
+    buildingNotFound: "找不到大厦",
+    facilities: "设施",
+    unitsAvailable: "现有放盘",
+    noUnitsAvailable: "此大厦暂时没有放盘",
+    loadMore: "加载更多",
+    tapMapToSetLocation: "点按地图以标示物业位置",
+    clearLocation: "清除位置",
+    saveAsDraft: "保存为草稿",
+    listingStatus: "房源状态",
+    statusDraft: "草稿",
+    statusPublished: "已发布",
+    statusRented: "已租出",
+    statusArchived: "已归档",
+    publishListing: "发布",
+    relistListing: "重新发布",
+    moveToDrafts: "移至草稿",
+    markAsRented: "标记为已租出",
+    archiveListing: "归档",
+    errorUpdatingStatus: "更新房源状态失败，请重试。",
+    error: "错误",
+    bookViewing: "预约看房",
+    viewings: "看房",
+    myViewings: "我的看房预约",
+    marketInsights: "市场数据",
+    manageViewingSlots: "管理看房时段",
+    addViewingSlot: "添加看房时段",
+    upcomingViewingSlots: "即将到来的时段",
+    viewingDuration: "时长",
+    slotAvailable: "可预约",
+    slotBooked: "已预约",
+    noViewingSlots: "暂无可预约的看房时段",
+    noViewings: "尚无看房预约",
+    upcomingViewings: "即将到来",
+    pastViewings: "已过去及已取消",
+    viewingAsOwner: "你是房东",
+    viewingAsTenant: "你是看房人",
+    appointmentPending: "待确认",
+    appointmentConfirmed: "已确认",
+    appointmentCancelled: "已取消",
+    confirmViewing: "确认",
+    rescheduleViewing: "改期",
+    cancelViewing: "取消看房",
+    confirmCancelViewing: "确定要取消此看房预约吗？该时段将会释放。",
+    viewingRequestedMessage: "我已预约看房时间：",
+    errorBookingViewing: "预约看房失败，请重试。",
+    errorUpdatingAppointment: "更新看房预约失败，请重试。",
+    errorAddingViewingSlot: "添加看房时段失败，请重试。",
+    errorDeletingViewingSlot: "删除看房时段失败，请重试。",
+    savedListings: "已收藏",
+    noSavedListings: "尚未收藏任何房源",
+    savedListingsHint: "点击房源上的心形图标即可收藏",
+    priceChanged: "价格已更改",
+    listingAvailableAgain: "已重新上架",
+    listingNoLongerPublic: "此房源已暂停公开",
+    save: "保存",
+    saveThisSearch: "保存此搜索",
+    savedSearchNamePlaceholder: "例如：沙田两房",
+    searchSaved: "已保存搜索，有新房源时会通知你。",
+    errorSavingSearch: "保存搜索失败，请重试。",
+    savedSearches: "已保存的搜索",
+    newMatches: "新匹配房源",
+    noNewMatches: "暂时没有符合已保存搜索的新房源",
+    noSavedSearches: "在首页的筛选中保存搜索，即可收到新房源通知",
+    mapArea: "地图范围",
+    allListings: "所有房源",
+    priceHistory: "价格走势",
+    youMayAlsoLike: "你可能也喜欢",
+    forYou: "为你推荐",
+    forYouSubtitle: "根据你最近搜索的地区、价格及浏览过的房源",
+    priceReduced: "已减价",
+    priceReducedFrom: "原价",
+    priceReducedOnly: "只显示已减价",
+    daysOnMarket: "放盘天数",
+    vsDistrictMedian: "对比地区中位数",
+    inLineWithMedian: "相若",
+    marketInsightsIntro: "参考各区同类物业的叫价，为你的单位定出合适价格。",
+    medianRent: "租金中位数",
+    medianSalePrice: "叫价中位数",
+    medianPricePerSqFt: "每平方尺中位数",
+    activeListings: "现有房源",
+    averageDaysOnMarket: "平均放盘天数",
+    pricePerSqFtTrend: "按放盘月份的每平方尺中位数",
+    noMarketTrend: "暂时没有足够房源显示走势。",
+    
+    // Rental applications
+    rentalApplication: "租房申请",
+    rentalApplications: "租房申请",
+    myApplications: "我的申请",
+    rentalApplicationIntro: "向房东介绍您的入住安排并附上文件，只有房东可以查看。",
+    moveInDate: "入住日期",
+    occupants: "入住人数",
+    monthlyIncome: "每月收入（港币）",
+    messageToOwner: "给房东的留言",
+    messageToOwnerPlaceholder: "房东需要知道的事项（选填）",
+    applicationDocuments: "文件",
+    applicationDocumentsHint: "请至少提供身份证明、工作证明及收入证明各一份。",
+    idDocument: "身份证明",
+    employmentDocument: "工作证明",
+    incomeDocument: "收入证明",
+    addDocument: "添加文件",
+    documentOnFile: "已提供",
+    uploadDocumentFailed: "上传文件失败。",
+    documentUnavailable: "暂时无法打开此文件。",
+    submitApplication: "提交申请",
+    applicationFieldsRequired: "请输入入住日期（YYYY-MM-DD）、入住人数及每月收入。",
+    missingDocuments: "请提供：",
+    applicationSentMessage: "我已为此房源提交租房申请。",
+    errorSubmittingApplication: "提交申请失败。",
+    errorUpdatingApplication: "更新申请失败。",
+    applicationNotFound: "找不到申请",
+    submittedOn: "提交于",
+    ownerNote: "房东备注",
+    reviewApplication: "审批申请",
+    ownerNotePlaceholder: "给申请人的备注（要求补充资料时必填）",
+    infoRequestNoteRequired: "请说明您需要申请人补充哪些资料。",
+    markListingRented: "将房源标记为已出租",
+    acceptApplication: "接受",
+    rejectApplication: "拒绝",
+    requestMoreInfo: "要求补充资料",
+    addMoreDocuments: "补充文件",
+    resubmitApplication: "重新提交申请",
+    withdrawApplication: "撤回申请",
+    confirmWithdrawApplication: "确定要撤回此申请吗？",
+    noApplications: "暂时没有申请",
+    openApplications: "待审批",
+    closedApplications: "已结束",
+    applicationSubmitted: "已提交",
+    applicationInfoRequested: "需补充资料",
+    applicationAccepted: "已接受",
+    applicationRejected: "已拒绝",
+    applicationWithdrawn: "已撤回",
+    
+    // Tenancy agreements
+    tenancyAgreement: "租约",
+    agreementNotFound: "找不到租约",
+    viewAgreementPdf: "查看租约 PDF",
+    landlord: "业主",
+    tenant: "租客",
+    acknowledgedOn: "确认于",
+    awaitingAcknowledgement: "等待确认",
+    awaitingYourAcknowledgement: "租约正等待你确认",
+    awaitingOtherParty: "租约正等待对方确认",
+    agreementAcknowledged: "双方已确认租约",
+    acknowledgeAgreementHint: "确认前请先细阅租约 PDF。租约需经双方确认。",
+    acknowledgeAgreement: "确认租约",
+    errorAcknowledgingAgreement: "无法确认租约：",
+    prepareAgreement: "准备租约",
+    regenerateAgreement: "重新生成租约",
+    chooseAgreementTemplate: "请选择模板。重新生成会重置双方的确认。",
+    generateAgreement: "生成并分享",
+    errorGeneratingAgreement: "无法生成租约：",
+    agreementTemplates: "租约模板",
+    agreementTemplatesIntro: "复制内置模板即可修改你自己的租约内容。",
+    builtInTemplates: "内置模板",
+    myTemplates: "我的模板",
+    noTemplates: "你暂时没有模板",
+    editTemplate: "编辑模板",
+    templateName: "模板名称",
+    agreementLanguage: "租约语言",
+    templateBody: "租约内容",
+    templateBodyHint: "以「# 」开头的行会成为标题。以下字段会按物业及双方资料填写：",
+    templateFieldsRequired: "请输入名称及租约内容",
+    errorSavingTemplate: "无法保存模板：",
+    copy: "复制",
+    edit: "编辑",
+    
+    // Rent ledger
+    rentLedger: "租金账簿",
+    tenancies: "租约",
+    noTenancies: "暂无租约。可从已接受的申请开始租金账簿。",
+    tenancyNotFound: "找不到租约",
+    tenancyEnded: "已结束",
+    tenancyPeriod: "租期",
+    openEnded: "不定期",
+    deposit: "押金",
+    nextDue: "下次到期",
+    startRentLedger: "开始租金账簿",
+    tenancyDefaultsHint: "留空字段将使用入住日期及房源的租金、押金和最短租期。",
+    tenancyStartDate: "开始日期",
+    tenancyEndDate: "结束日期",
+    tenancyFieldsInvalid: "请使用 YYYY-MM-DD 日期格式及正数金额。",
+    errorStartingTenancy: "开始租金账簿失败：",
+    errorUpdatingLedger: "更新租金账簿失败：",
+    rentCharged: "应付",
+    rentPaid: "已付",
+    outstanding: "尚欠",
+    rentCharges: "租金账项",
+    noRentCharges: "暂无到期租金。",
+    chargePaid: "已付",
+    chargeDue: "待付",
+    chargeOverdue: "逾期",
+    paidLate: "逾期缴付",
+    paidOn: "付款日期",
+    amount: "金额",
+    paymentMethod: "付款方式",
+    paymentNote: "备注（可选）",
+    paymentOnline: "网上付款",
+    paymentBankTransfer: "银行转账",
+    paymentFps: "转数快",
+    paymentCash: "现金",
+    paymentCheque: "支票",
+    paymentPending: "等待确认",
+    paymentCompleted: "已完成",
+    paymentFailed: "失败",
+    paymentRejected: "已拒绝",
+    depositUnpaid: "未付",
+    depositHeld: "已持有",
+    depositReturned: "已退还",
+    recordPayment: "记录付款",
+    payOnline: "网上付款",
+    attachReceipt: "附加收据",
+    paymentFieldsRequired: "请输入金额及 YYYY-MM-DD 格式的付款日期。",
+    tenantPaymentHint: "你记录的付款须待业主确认。",
+    testPaymentsHint: "网上付款处于测试模式，不会实际扣款。",
+    confirm: "确认",
+    reject: "拒绝",
+    exportLedgerCsv: "导出 CSV",
+    rentReminders: "提醒",
+    rentDueOn: "租金到期",
+    rentOverdueSince: "租金逾期，到期日",
+    
+    // Maintenance requests
+    maintenanceRequests: "维修申请",
+    maintenanceRequest: "维修申请",
+    newMaintenanceRequest: "新申请",
+    noMaintenanceRequests: "暂无维修申请",
+    maintenanceRequestNotFound: "找不到维修申请",
+    noActiveTenancy: "你需要有生效中的租约才能提交维修申请。",
+    all: "全部",
+    property: "物业",
+    maintenanceCategory: "类别",
+    maintenancePlumbing: "水管",
+    maintenanceElectrical: "电力",
+    maintenanceAppliance: "电器",
+    maintenanceAirConditioning: "空调",
+    maintenanceStructural: "墙身、地板及窗户",
+    maintenancePest: "虫害",
+    maintenanceOther: "其他",
+    urgency: "紧急程度",
+    urgencyLow: "低",
+    urgencyNormal: "一般",
+    urgencyUrgent: "紧急",
+    maintenanceTitle: "摘要",
+    maintenanceDescription: "描述",
+    photos: "照片",
+    addPhoto: "添加照片",
+    submitMaintenanceRequest: "提交申请",
+    maintenanceFieldsRequired: "请选择类别并填写摘要及描述。",
+    errorFilingMaintenanceRequest: "提交维修申请失败：",
+    errorUpdatingMaintenanceRequest: "更新维修申请失败：",
+    ticketOpen: "待处理",
+    ticketInProgress: "处理中",
+    ticketResolved: "已解决",
+    ticketClosed: "已关闭",
+    ticketStatus: "状态",
+    triage: "处理申请",
+    contractor: "承包商",
+    contractorName: "承包商名称",
+    reportedBy: "报告人",
+    maintenanceHistory: "记录",
+    noMaintenanceComments: "暂无留言",
+    addComment: "添加留言...",
+    ticketClosedHint: "此申请已关闭。",
+    ticketStatusChanged: "将状态更改为",
+    contractorAssigned: "已指派",
+    contractorUnassigned: "已移除承包商",
+    showStats: "显示数据",
+    hideStats: "隐藏数据",
+    last30Days: "过去 30 天",
+    views: "浏览",
+    saves: "收藏",
+    chatStarts: "咨询",
+    viewToChat: "浏览转咨询",
+    viewsTrend: "浏览量（近 15 天对比之前 15 天）",
+    errorLoadingStats: "加载数据失败，请重试。",
+    editHistory: "编辑记录",
+    viewEditHistory: "查看编辑记录",
+    revisionCreated: "已创建房源",
+    revisionEdited: "已编辑房源",
+    revisionStatusChanged: "状态已更改",
+    revisionDeleted: "已删除房源",
+    revisionUndeleted: "已从已删除中还原",
+    revisionRestored: "已还原先前版本",
+    currentVersion: "当前版本",
+    restore: "还原",
+    restoreRevision: "还原版本",
+    confirmRestoreRevision: "要将房源还原至此更改后的内容吗？房源状态不会改变，而还原也会记录在编辑记录中。",
+    errorRestoringRevision: "还原版本失败，请重试。",
+    noRevisions: "尚无更改记录",
+    recentlyDeleted: "最近删除",
+    recentlyDeletedHint: "已删除的房源可于 30 天内还原，之后将被永久删除。",
+    restorableUntil: "可还原至",
     virtualTour: "虚拟导览",
     contactOwner: "联络业主",
     propertyNotFound: "找不到物业",
@@ -365,7 +1437,60 @@ const translations: Record<Language, Record<string, string>> = {
     propertyTitle: "物业标题",
     propertyDescription: "描述",
     monthlyRentHKD: "月租 (港币)",
-    sizeSqFt: "面积 (平方呎)",
+    salePrice: "售价",
+    salePriceHKD: "售价 (港币)",
+    listingType: "放盘类型",
+    forRent: "出租",
+    forSale: "出售",
+    allListingTypes: "全部",
+    rentalTerms: "租售条款",
+    minLeaseMonths: "最短租期 (月)",
+    depositMonths: "押金 (月)",
+    availableFrom: "可入住日期",
+    availableFromHint: "如即时可入住请留空",
+    availableNow: "即时入住",
+    feesIncluded: "包管理费及差饷",
+    commissionApplies: "需付佣金",
+    yes: "是",
+    no: "否",
+    maxLeaseMonthsFilter: "租期最多 (月)",
+    maxDepositMonthsFilter: "押金最多 (月)",
+    availableByFilter: "入住日期 (YYYY-MM-DD)",
+    feesIncludedOnly: "包管理费",
+    noCommissionOnly: "免佣",
+    invalidLeaseMonths: "最短租期须为 1 至 120 之间的整数月数",
+    invalidDepositMonths: "押金须为 0 至 12 之间的整数月数",
+    invalidAvailableFrom: "可入住日期须为 YYYY-MM-DD 格式",
+    grossAreaSqFt: "建筑面积 (平方呎)",
+    grossArea: "建筑面积",
+    saleableArea: "实用面积",
+    saleableAreaSqFt: "实用面积 (平方呎)",
+    saleableAreaHint: "单位本身的面积，不包括公用地方",
+    unitDetails: "单位资料",
+    bedrooms: "卧室",
+    bathrooms: "浴室",
+    studio: "开放式",
+    floorLevel: "楼层",
+    floorLow: "低层",
+    floorMid: "中层",
+    floorHigh: "高层",
+    facing: "朝向",
+    facingNorth: "北",
+    facingNortheast: "东北",
+    facingEast: "东",
+    facingSoutheast: "东南",
+    facingSouth: "南",
+    facingSouthwest: "西南",
+    facingWest: "西",
+    facingNorthwest: "西北",
+    yearBuilt: "落成年份",
+    buildingAge: "楼龄",
+    years: "年",
+    invalidSaleableArea: "实用面积须为整数平方呎",
+    saleableAreaAboveGross: "实用面积不能大于建筑面积",
+    invalidBedrooms: "卧室数目须为 0 至 20 之间的整数",
+    invalidBathrooms: "浴室数目须为 0 至 20 之间的整数",
+    invalidYearBuilt: "落成年份须为 1800 年至今年之间",
     district: "地区",
     selectDistrict: "选择地区",
     equipment: "设备及配套",
@@ -426,7 +1551,7 @@ const translations: Record<Language, Record<string, string>> = {
     propertyUpdatedSuccess: "您的物业已成功更新",
     errorUpdatingProperty: "更新物业失败，请重试。",
     deleteProperty: "删除物业",
-    confirmDelete: "确定要删除此物业吗？此操作无法复原。",
+    confirmDelete: "确定要删除此物业吗？物业会即时从搜索结果中隐藏。你可于 30 天内在个人档案中还原，之后将被永久删除。相关对话会继续保留。",
     delete: "删除",
     propertyDeletedSuccess: "物业已成功删除",
     errorDeletingProperty: "删除物业失败，请重试。",
@@ -0,0 +1,90 @@
+export type AgreementLanguage = "en" | "zh";
+
+export const AGREEMENT_LANGUAGES: AgreementLanguage[] = ["en", "zh"];
+
+/**
+ * Translation key for each agreement language label
+ */
+export const AGREEMENT_LANGUAGE_LABEL_KEYS: Record<AgreementLanguage, string> = {
+  en: "english",
+  zh: "traditionalChinese",
+};
+
+/**
+ * Fields a template body can use as {{name}}; keep in sync with the backend's
+ * utils/agreements.ts
+ */
+export const AGREEMENT_PLACEHOLDERS = [
+  "agreementDate",
+  "ownerName",
+  "ownerEmail",
+  "tenantName",
+  "tenantEmail",
+  "propertyTitle",
+  "address",
+  "district",
+  "size",
+  "monthlyRent",
+  "depositMonths",
+  "deposit",
+  "leaseMonths",
+  "moveInDate",
+  "rentDueDay",
+  "occupants",
+];
+
+/**
+ * Tenancy agreement template (GET /api/agreement-templates). Built-in templates
+ * have no owner and can't be edited, only copied.
+ */
+export interface AgreementTemplate {
+  id: string;
+  ownerId: string | null;
+  name: string;
+  language: AgreementLanguage;
+  body: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Tenancy agreement (GET /api/agreements/:id). `url` is a short-lived signed
+ * link to the PDF and is only present on a single agreement.
+ */
+export interface TenancyAgreement {
+  id: string;
+  applicationId: string;
+  propertyId: string;
+  ownerId: string;
+  tenantId: string;
+  chatId: string | null;
+  templateId: string | null;
+  language: AgreementLanguage;
+  version: number; // bumped each time the PDF is regenerated
+  ownerAcknowledgedAt: string | null;
+  tenantAcknowledgedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  url?: string | null;
+  property: {
+    id: string;
+    title: string;
+  };
+  owner?: {
+    id: string;
+    name: string;
+  };
+  tenant?: {
+    id: string;
+    name: string;
+  };
+}
+
+/**
+ * Whether the given user still has to acknowledge the agreement
+ */
+export const needsAcknowledgement = (
+  agreement: Pick<TenancyAgreement, "ownerId" | "ownerAcknowledgedAt" | "tenantAcknowledgedAt">,
+  userId: string | undefined
+): boolean =>
+  agreement.ownerId === userId ? !agreement.ownerAcknowledgedAt : !agreement.tenantAcknowledgedAt;
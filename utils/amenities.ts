@@ -0,0 +1,55 @@
+import { useEffect, useState } from "react";
+import { Language } from "@/contexts/LanguageContext";
+import { authenticatedGet } from "@/utils/api";
+
+/**
+ * Entry in the amenities catalogue (GET /api/amenities)
+ */
+export interface Amenity {
+  id: string;
+  labelEn: string;
+  labelZhTw: string;
+  labelZhCn: string;
+  sortOrder: number;
+}
+
+/**
+ * Label for an amenity in the given app language
+ */
+export const getAmenityLabel = (amenity: Amenity, language: Language): string => {
+  switch (language) {
+    case "zh-TW":
+      return amenity.labelZhTw;
+    case "zh-CN":
+      return amenity.labelZhCn;
+    default:
+      return amenity.labelEn;
+  }
+};
+
+/**
+ * Loads the amenities catalogue once per mounted screen
+ *
+ * @returns Catalogue entries in display order (empty until loaded)
+ */
+export const useAmenities = (): Amenity[] => {
+  const [amenities, setAmenities] = useState<Amenity[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    authenticatedGet<Amenity[]>("/api/amenities")
+      .then((data) => {
+        if (!cancelled) {
+          setAmenities(data);
+        }
+      })
+      .catch((error) => {
+        console.error("Error loading amenities:", error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return amenities;
+};
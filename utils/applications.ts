@@ -0,0 +1,104 @@
+import { UploadedFile, pickAndUploadPrivateFile } from "@/utils/uploads";
+
+export type ApplicationStatus = "submitted" | "info_requested" | "accepted" | "rejected" | "withdrawn";
+
+export type ApplicationDocumentType = "id" | "employment" | "income";
+
+export const APPLICATION_DOCUMENT_TYPES: ApplicationDocumentType[] = ["id", "employment", "income"];
+
+/**
+ * Document attached to an application. `url` is a short-lived signed link and is
+ * only present on a single application (GET /api/applications/:id).
+ */
+export interface ApplicationDocument {
+  id: string;
+  type: ApplicationDocumentType;
+  filename: string;
+  url?: string | null;
+}
+
+/**
+ * Document uploaded through POST /api/upload/application-document, not yet
+ * attached to an application
+ */
+export interface UploadedDocument extends UploadedFile {
+  type: ApplicationDocumentType;
+}
+
+/**
+ * Rental application (GET /api/applications, GET /api/properties/:id/applications)
+ */
+export interface RentalApplication {
+  id: string;
+  propertyId: string;
+  applicantId: string;
+  chatId: string | null;
+  moveInDate: string;
+  occupants: number;
+  monthlyIncome: string;
+  message: string | null;
+  status: ApplicationStatus;
+  ownerNote: string | null;
+  decidedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  property?: {
+    id: string;
+    title: string;
+    district: string;
+    price: string;
+    status: string;
+    ownerId?: string;
+  };
+  applicant?: {
+    id: string;
+    name: string;
+    email?: string;
+  };
+  documents: ApplicationDocument[];
+  agreement?: {
+    id: string;
+    ownerAcknowledgedAt: string | null;
+    tenantAcknowledgedAt: string | null;
+  } | null;
+  tenancy?: {
+    id: string;
+  } | null;
+}
+
+/**
+ * Applications the owner can still decide on and the applicant can still change
+ */
+export const isOpenApplication = (status: ApplicationStatus): boolean =>
+  status === "submitted" || status === "info_requested";
+
+/**
+ * Translation key for each application status label
+ */
+export const APPLICATION_STATUS_LABEL_KEYS: Record<ApplicationStatus, string> = {
+  submitted: "applicationSubmitted",
+  info_requested: "applicationInfoRequested",
+  accepted: "applicationAccepted",
+  rejected: "applicationRejected",
+  withdrawn: "applicationWithdrawn",
+};
+
+/**
+ * Translation key for each document type label
+ */
+export const DOCUMENT_TYPE_LABEL_KEYS: Record<ApplicationDocumentType, string> = {
+  id: "idDocument",
+  employment: "employmentDocument",
+  income: "incomeDocument",
+};
+
+/**
+ * Lets the user pick a photo or scan of a document and uploads it to private
+ * storage. Returns null when the picker is cancelled.
+ */
+export const pickAndUploadDocument = async (
+  type: ApplicationDocumentType
+): Promise<UploadedDocument | null> => {
+  const uploaded = await pickAndUploadPrivateFile("/api/upload/application-document", "document", `${type}.jpg`);
+  return uploaded && { type, ...uploaded };
+};
@@ -0,0 +1,76 @@
+import { Language } from "@/contexts/LanguageContext";
+
+/**
+ * Viewing slot offered by an owner (GET /api/properties/:id/viewing-slots).
+ * `appointment` is only returned to the property owner.
+ */
+export interface ViewingSlot {
+  id: string;
+  startsAt: string;
+  endsAt: string;
+  booked: boolean;
+  appointment?: {
+    id: string;
+    status: AppointmentStatus;
+    tenantId: string;
+  } | null;
+}
+
+export type AppointmentStatus = "pending" | "confirmed" | "cancelled";
+
+/**
+ * Viewing appointment (GET /api/appointments)
+ */
+export interface Appointment {
+  id: string;
+  propertyId: string;
+  ownerId: string;
+  tenantId: string;
+  chatId: string | null;
+  status: AppointmentStatus;
+  requestedBy: string;
+  createdAt: string;
+  updatedAt: string;
+  slot: {
+    id: string;
+    startsAt: string;
+    endsAt: string;
+  };
+  property: {
+    id: string;
+    title: string;
+    district: string;
+  };
+}
+
+/**
+ * Translation key for each appointment status label
+ */
+export const APPOINTMENT_STATUS_LABEL_KEYS: Record<AppointmentStatus, string> = {
+  pending: "appointmentPending",
+  confirmed: "appointmentConfirmed",
+  cancelled: "appointmentCancelled",
+};
+
+const LOCALES: Record<Language, string> = {
+  en: "en-HK",
+  "zh-TW": "zh-HK",
+  "zh-CN": "zh-CN",
+};
+
+/**
+ * Locale used for date formatting in the given app language
+ */
+export const getDateLocale = (language: Language): string => LOCALES[language];
+
+/**
+ * Formats a slot as e.g. "Sat, 25 Oct, 14:00 – 14:30" in the app language
+ */
+export const formatSlotTime = (startsAt: string, endsAt: string, language: Language): string => {
+  const locale = getDateLocale(language);
+  const start = new Date(startsAt);
+  const end = new Date(endsAt);
+  const day = start.toLocaleDateString(locale, { weekday: "short", day: "numeric", month: "short" });
+  const time = (date: Date) => date.toLocaleTimeString(locale, { hour: "2-digit", minute: "2-digit", hour12: false });
+  return `${day}, ${time(start)} – ${time(end)}`;
+};
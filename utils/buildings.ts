@@ -0,0 +1,29 @@
+import { Language } from "@/contexts/LanguageContext";
+
+/**
+ * Building or estate from the directory (GET /api/buildings)
+ */
+export interface Building {
+  id: string;
+  nameEn: string;
+  nameZh: string | null;
+  district: string;
+  address: string | null;
+  yearBuilt: number | null;
+  latitude: number | null;
+  longitude: number | null;
+  facilities: string[]; // amenity ids
+  listingCount: number;
+}
+
+/**
+ * The name and id a listing carries for its building (GET /api/properties/:id)
+ */
+export type BuildingSummary = Pick<Building, "id" | "nameEn" | "nameZh">;
+
+/**
+ * Building name in the given app language. Estates have a single Chinese
+ * name, used for both Chinese variants; English is the fallback.
+ */
+export const getBuildingName = (building: BuildingSummary, language: Language): string =>
+  language === "en" ? building.nameEn : building.nameZh || building.nameEn;
@@ -0,0 +1,102 @@
+import { useCallback, useState } from "react";
+import { useFocusEffect } from "expo-router";
+import { authenticatedDelete, authenticatedGet, authenticatedPost } from "@/utils/api";
+import { ListingStatus } from "@/utils/listingStatus";
+
+export interface SavedProperty {
+  id: string;
+  title: string;
+  price: string;
+  size: number;
+  district: string;
+  photos: string[];
+  status: ListingStatus;
+  updatedAt: string;
+}
+
+/**
+ * A saved listing its owner moved back to draft. Drafts are private, so only
+ * the id and status come back.
+ */
+export interface HiddenSavedProperty {
+  id: string;
+  status: "draft";
+}
+
+/**
+ * Saved listing (GET /api/favorites). `priceChanged` and `statusChanged`
+ * compare the listing with what the user last saw.
+ */
+export interface SavedListing {
+  propertyId: string;
+  createdAt: string;
+  seenPrice?: string; // left out when the listing is another owner's draft
+  seenStatus: ListingStatus;
+  priceChanged: boolean;
+  statusChanged: boolean;
+  property: SavedProperty | HiddenSavedProperty;
+}
+
+/**
+ * Whether the saved listing came back as a draft stub without its details
+ */
+export const isHiddenSavedProperty = (property: SavedListing["property"]): property is HiddenSavedProperty =>
+  !("title" in property);
+
+/**
+ * Tracks which listings the user has saved, reloading whenever the screen
+ * regains focus so hearts stay in sync across screens
+ *
+ * @returns The saved ids and an optimistic toggle that rolls back on failure
+ */
+export const useFavoriteIds = () => {
+  const [favoriteIds, setFavoriteIds] = useState<Set<string>>(new Set());
+
+  useFocusEffect(
+    useCallback(() => {
+      let cancelled = false;
+      authenticatedGet<string[]>("/api/favorites/ids")
+        .then((ids) => {
+          if (!cancelled) {
+            setFavoriteIds(new Set(ids));
+          }
+        })
+        .catch((error) => {
+          console.error("Error loading favorites:", error);
+        });
+      return () => {
+        cancelled = true;
+      };
+    }, [])
+  );
+
+  const setSaved = (propertyId: string, saved: boolean) => {
+    setFavoriteIds((current) => {
+      const next = new Set(current);
+      if (saved) {
+        next.add(propertyId);
+      } else {
+        next.delete(propertyId);
+      }
+      return next;
+    });
+  };
+
+  const toggleFavorite = async (propertyId: string) => {
+    const saved = !favoriteIds.has(propertyId);
+    console.log(saved ? "Saving favorite:" : "Removing favorite:", propertyId);
+    setSaved(propertyId, saved);
+    try {
+      if (saved) {
+        await authenticatedPost(`/api/favorites/${propertyId}`, {});
+      } else {
+        await authenticatedDelete(`/api/favorites/${propertyId}`);
+      }
+    } catch (error) {
+      console.error("Error updating favorite:", error);
+      setSaved(propertyId, !saved);
+    }
+  };
+
+  return { favoriteIds, toggleFavorite };
+};
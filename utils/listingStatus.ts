@@ -0,0 +1,43 @@
+/**
+ * Listing lifecycle statuses, in the order the profile screen groups them
+ */
+export type ListingStatus = "draft" | "published" | "rented" | "archived";
+
+export const LISTING_STATUSES: ListingStatus[] = ["published", "draft", "rented", "archived"];
+
+/**
+ * Translation key for each status label
+ */
+export const STATUS_LABEL_KEYS: Record<ListingStatus, string> = {
+  draft: "statusDraft",
+  published: "statusPublished",
+  rented: "statusRented",
+  archived: "statusArchived",
+};
+
+/**
+ * Allowed transitions (mirrors STATUS_TRANSITIONS in backend/src/routes/properties.ts)
+ */
+export const STATUS_TRANSITIONS: Record<ListingStatus, ListingStatus[]> = {
+  draft: ["published", "archived"],
+  published: ["draft", "rented", "archived"],
+  rented: ["published", "archived"],
+  archived: ["published", "draft"],
+};
+
+/**
+ * Translation key for the action that moves a listing from one status to another
+ */
+export const getStatusActionKey = (from: ListingStatus, to: ListingStatus): string => {
+  switch (to) {
+    case "published":
+      return from === "draft" ? "publishListing" : "relistListing";
+    case "draft":
+      return "moveToDrafts";
+    case "rented":
+      return "markAsRented";
+    case "archived":
+    default:
+      return "archiveListing";
+  }
+};
@@ -0,0 +1,114 @@
+/**
+ * Whether a listing's price is the monthly rent or the asking price
+ */
+export type ListingType = "rent" | "sale";
+
+export const LISTING_TYPES: ListingType[] = ["rent", "sale"];
+
+/**
+ * Translation key for each listing type label
+ */
+export const LISTING_TYPE_LABEL_KEYS: Record<ListingType, string> = {
+  rent: "forRent",
+  sale: "forSale",
+};
+
+/**
+ * Translation key for the price label of each listing type
+ */
+export const PRICE_LABEL_KEYS: Record<ListingType, string> = {
+  rent: "monthlyRent",
+  sale: "salePrice",
+};
+
+/**
+ * Structured terms on a listing (mirrors the properties table). Null means the
+ * owner has not said, except availableFrom where it means available now.
+ * Lease length and deposit only apply to rentals.
+ */
+export interface RentalTerms {
+  listingType: ListingType;
+  minLeaseMonths: number | null;
+  depositMonths: number | null;
+  availableFrom: string | null; // YYYY-MM-DD
+  feesIncluded: boolean | null;
+  commissionApplies: boolean | null;
+}
+
+/**
+ * Rental terms as edited in the listing forms, with numbers and dates as typed
+ */
+export interface RentalTermsForm {
+  listingType: ListingType;
+  minLeaseMonths: string;
+  depositMonths: string;
+  availableFrom: string;
+  feesIncluded: boolean | null;
+  commissionApplies: boolean | null;
+}
+
+export const EMPTY_RENTAL_TERMS_FORM: RentalTermsForm = {
+  listingType: "rent",
+  minLeaseMonths: "",
+  depositMonths: "",
+  availableFrom: "",
+  feesIncluded: null,
+  commissionApplies: null,
+};
+
+export const rentalTermsToForm = (terms: Partial<RentalTerms>): RentalTermsForm => ({
+  listingType: terms.listingType ?? "rent",
+  minLeaseMonths: terms.minLeaseMonths != null ? String(terms.minLeaseMonths) : "",
+  depositMonths: terms.depositMonths != null ? String(terms.depositMonths) : "",
+  availableFrom: terms.availableFrom ?? "",
+  feesIncluded: terms.feesIncluded ?? null,
+  commissionApplies: terms.commissionApplies ?? null,
+});
+
+// Limits enforced by the backend
+const MAX_LEASE_MONTHS = 120;
+const MAX_DEPOSIT_MONTHS = 12;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isWholeNumberInRange = (value: string, min: number, max: number): boolean =>
+  /^\d+$/.test(value) && Number(value) >= min && Number(value) <= max;
+
+const isValidDate = (value: string): boolean =>
+  DATE_PATTERN.test(value) && !isNaN(new Date(`${value}T00:00:00Z`).getTime());
+
+/**
+ * Translation key of the first problem with the form, or null when it can be submitted
+ */
+export const validateRentalTermsForm = (form: RentalTermsForm): string | null => {
+  if (form.listingType === "rent") {
+    const minLeaseMonths = form.minLeaseMonths.trim();
+    const depositMonths = form.depositMonths.trim();
+    if (minLeaseMonths && !isWholeNumberInRange(minLeaseMonths, 1, MAX_LEASE_MONTHS)) {
+      return "invalidLeaseMonths";
+    }
+    if (depositMonths && !isWholeNumberInRange(depositMonths, 0, MAX_DEPOSIT_MONTHS)) {
+      return "invalidDepositMonths";
+    }
+  }
+  if (form.availableFrom.trim() && !isValidDate(form.availableFrom.trim())) {
+    return "invalidAvailableFrom";
+  }
+  return null;
+};
+
+/**
+ * Request body fields for POST and PUT /api/properties. Blank fields are sent
+ * as null so clearing them in the edit form sticks.
+ */
+export const rentalTermsFromForm = (form: RentalTermsForm): RentalTerms => {
+  const isRental = form.listingType === "rent";
+  return {
+    listingType: form.listingType,
+    minLeaseMonths: isRental && form.minLeaseMonths.trim() ? parseInt(form.minLeaseMonths.trim(), 10) : null,
+    depositMonths: isRental && form.depositMonths.trim() ? parseInt(form.depositMonths.trim(), 10) : null,
+    availableFrom: form.availableFrom.trim() || null,
+    feesIncluded: form.feesIncluded,
+    commissionApplies: form.commissionApplies,
+  };
+};
@@ -0,0 +1,120 @@
+import { UploadedFile, pickAndUploadPrivateFile } from "@/utils/uploads";
+
+export type MaintenanceCategory =
+  | "plumbing"
+  | "electrical"
+  | "appliance"
+  | "air_conditioning"
+  | "structural"
+  | "pest"
+  | "other";
+
+export type MaintenanceUrgency = "low" | "normal" | "urgent";
+
+export type MaintenanceStatus = "open" | "in_progress" | "resolved" | "closed";
+
+export type MaintenanceCommentKind = "comment" | "status_change" | "assignment";
+
+export const MAINTENANCE_CATEGORIES: MaintenanceCategory[] = [
+  "plumbing",
+  "electrical",
+  "appliance",
+  "air_conditioning",
+  "structural",
+  "pest",
+  "other",
+];
+
+export const MAINTENANCE_URGENCIES: MaintenanceUrgency[] = ["low", "normal", "urgent"];
+
+export const MAINTENANCE_STATUSES: MaintenanceStatus[] = ["open", "in_progress", "resolved", "closed"];
+
+export const MAX_TICKET_PHOTOS = 6;
+
+interface Party {
+  id: string;
+  name: string;
+}
+
+export interface MaintenanceComment {
+  id: string;
+  authorId: string;
+  kind: MaintenanceCommentKind;
+  body: string; // the new status or the contractor's name for status changes and assignments
+  createdAt: string;
+  author: Party;
+}
+
+export interface MaintenanceTicketSummary {
+  id: string;
+  tenancyId: string;
+  propertyId: string;
+  ownerId: string;
+  tenantId: string;
+  category: MaintenanceCategory;
+  urgency: MaintenanceUrgency;
+  title: string;
+  description: string;
+  status: MaintenanceStatus;
+  contractorName: string | null;
+  closedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  property: {
+    id: string;
+    title: string;
+    district: string;
+  };
+  owner: Party;
+  tenant: Party;
+}
+
+export interface MaintenanceTicket extends Omit<MaintenanceTicketSummary, "property"> {
+  property: {
+    id: string;
+    title: string;
+    district: string;
+    address: string | null;
+  };
+  photos: string[]; // short-lived signed links
+  comments: MaintenanceComment[];
+}
+
+/**
+ * Translation key for each maintenance category label
+ */
+export const CATEGORY_LABEL_KEYS: Record<MaintenanceCategory, string> = {
+  plumbing: "maintenancePlumbing",
+  electrical: "maintenanceElectrical",
+  appliance: "maintenanceAppliance",
+  air_conditioning: "maintenanceAirConditioning",
+  structural: "maintenanceStructural",
+  pest: "maintenancePest",
+  other: "maintenanceOther",
+};
+
+/**
+ * Translation key for each urgency label
+ */
+export const URGENCY_LABEL_KEYS: Record<MaintenanceUrgency, string> = {
+  low: "urgencyLow",
+  normal: "urgencyNormal",
+  urgent: "urgencyUrgent",
+};
+
+/**
+ * Translation key for each ticket status label
+ */
+export const TICKET_STATUS_LABEL_KEYS: Record<MaintenanceStatus, string> = {
+  open: "ticketOpen",
+  in_progress: "ticketInProgress",
+  resolved: "ticketResolved",
+  closed: "ticketClosed",
+};
+
+/**
+ * Lets the tenant pick a photo of the problem and uploads it to private
+ * storage. Returns null when the picker is cancelled.
+ */
+export const pickAndUploadMaintenancePhoto = (): Promise<UploadedFile | null> =>
+  pickAndUploadPrivateFile("/api/upload/maintenance-photo", "photo", "photo.jpg");
@@ -0,0 +1,58 @@
+import { ListingType } from "@/utils/listingTerms";
+
+/**
+ * Current market in a district for one listing type (GET /api/districts/stats).
+ * Figures are null when the district has no live listings of that type.
+ */
+export interface DistrictStats {
+  district: string;
+  listingType: ListingType;
+  listingCount: number;
+  medianPrice: number | null;
+  medianPricePerSqFt: number | null;
+  averageDaysOnMarket: number | null;
+}
+
+/**
+ * Listings that went live in a month, medians of their current prices
+ */
+export interface MarketTrendPoint {
+  month: string; // YYYY-MM
+  newListings: number;
+  medianPrice: number | null;
+  medianPricePerSqFt: number | null;
+}
+
+/**
+ * A district's stats with its monthly trend (GET /api/districts/:district/stats)
+ */
+export interface DistrictStatsDetail extends DistrictStats {
+  trend: MarketTrendPoint[];
+}
+
+/**
+ * Listings this close to the median (in percent) count as in line with it
+ */
+const IN_LINE_PERCENT = 2;
+
+export type MedianComparison = "above" | "below" | "inLine";
+
+/**
+ * How a listing's price per sq ft compares with its district's median, as a
+ * whole percentage (positive when above). Null when either side is missing.
+ */
+export const compareWithMedian = (
+  price: number,
+  size: number,
+  medianPricePerSqFt: number | null
+): { percent: number; comparison: MedianComparison } | null => {
+  if (!medianPricePerSqFt || !size) return null;
+  const percent = Math.round(((price / size - medianPricePerSqFt) / medianPricePerSqFt) * 100);
+  const comparison = Math.abs(percent) <= IN_LINE_PERCENT ? "inLine" : percent > 0 ? "above" : "below";
+  return { percent, comparison };
+};
+
+/**
+ * Money figures without decimals and with thousands separators, e.g. HK$18,500
+ */
+export const formatHKD = (value: number): string => `HK$${Math.round(value).toLocaleString()}`;
@@ -0,0 +1,82 @@
+import { useCallback, useState } from "react";
+import { useFocusEffect } from "expo-router";
+import { authenticatedGet, authenticatedPost } from "@/utils/api";
+import { ListingType } from "@/utils/listingTerms";
+
+const FOR_YOU_LIMIT = 10;
+
+/**
+ * Listing in the "For you" feed (GET /api/for-you), best match first
+ */
+export interface RecommendedListing {
+  id: string;
+  title: string;
+  price: string;
+  size: number;
+  district: string;
+  listingType: ListingType;
+  photos: string[];
+  score: number;
+}
+
+/**
+ * Home feed filters worth remembering for recommendations
+ */
+export interface SearchSignal {
+  listingType: ListingType | null;
+  district: string | null;
+  minPrice: number | null;
+  maxPrice: number | null;
+}
+
+/**
+ * Loads the "For you" feed (GET /api/for-you), reloading whenever the screen
+ * regains focus so listings opened in the meantime are taken into account.
+ * Listings are only returned once the user has some activity to go on.
+ */
+export const useForYouFeed = () => {
+  const [listings, setListings] = useState<RecommendedListing[]>([]);
+
+  useFocusEffect(
+    useCallback(() => {
+      let cancelled = false;
+      authenticatedGet<{ personalised: boolean; items: RecommendedListing[] }>(`/api/for-you?limit=${FOR_YOU_LIMIT}`)
+        .then((feed) => {
+          if (!cancelled) {
+            setListings(feed.personalised ? feed.items : []);
+          }
+        })
+        .catch((error) => {
+          console.error("Error loading for you feed:", error);
+        });
+      return () => {
+        cancelled = true;
+      };
+    }, [])
+  );
+
+  return listings;
+};
+
+/**
+ * Remembers the filters the user is browsing with. Recommendations are a
+ * side feature, so failures are only logged.
+ */
+export const recordSearch = async (signal: SearchSignal) => {
+  try {
+    await authenticatedPost("/api/for-you/searches", signal);
+  } catch (error) {
+    console.error("Error recording search:", error);
+  }
+};
+
+/**
+ * Remembers that the user opened a listing; failures are only logged
+ */
+export const recordListingView = async (propertyId: string) => {
+  try {
+    await authenticatedPost(`/api/for-you/views/${propertyId}`, {});
+  } catch (error) {
+    console.error("Error recording listing view:", error);
+  }
+};
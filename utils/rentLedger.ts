@@ -0,0 +1,222 @@
+import { useCallback, useState } from "react";
+import { useFocusEffect } from "expo-router";
+import { BACKEND_URL, authenticatedGet, getBearerToken } from "@/utils/api";
+import { UploadedFile, pickAndUploadPrivateFile } from "@/utils/uploads";
+
+export type DepositStatus = "unpaid" | "held" | "returned";
+
+export type RentPaymentMethod = "online" | "bank_transfer" | "fps" | "cash" | "cheque";
+
+export type RentPaymentStatus = "pending" | "completed" | "failed" | "rejected";
+
+export type RentChargeStatus = "paid" | "due" | "overdue";
+
+export const DEPOSIT_STATUSES: DepositStatus[] = ["unpaid", "held", "returned"];
+
+/**
+ * Allowed deposit changes (mirrors DEPOSIT_STATUS_TRANSITIONS in backend/src/routes/rentLedger.ts)
+ */
+export const DEPOSIT_STATUS_TRANSITIONS: Record<DepositStatus, DepositStatus[]> = {
+  unpaid: ["held"],
+  held: ["returned"],
+  returned: [],
+};
+
+// Methods either party can record by hand; online payments go through the provider
+export const MANUAL_PAYMENT_METHODS: RentPaymentMethod[] = ["bank_transfer", "fps", "cash", "cheque"];
+
+export interface RentPayment {
+  id: string;
+  chargeId: string;
+  recordedById: string;
+  amount: string;
+  method: RentPaymentMethod;
+  status: RentPaymentStatus;
+  paidOn: string;
+  provider: string | null;
+  providerReference: string | null;
+  receiptFilename: string | null;
+  receiptUrl: string | null; // short-lived signed link
+  note: string | null;
+  createdAt: string;
+}
+
+export interface RentCharge {
+  id: string;
+  dueDate: string;
+  amount: string;
+  paidAmount: string;
+  pendingAmount: string;
+  outstanding: string;
+  status: RentChargeStatus;
+  paidOn: string | null;
+  late: boolean;
+  payments: RentPayment[];
+}
+
+interface TenancyParty {
+  id: string;
+  name: string;
+}
+
+/**
+ * Tenancy as listed in GET /api/tenancies
+ */
+export interface TenancySummary {
+  id: string;
+  applicationId: string;
+  propertyId: string;
+  ownerId: string;
+  tenantId: string;
+  monthlyRent: string;
+  depositAmount: string;
+  depositStatus: DepositStatus;
+  startDate: string;
+  endDate: string | null;
+  status: "active" | "ended";
+  property: {
+    id: string;
+    title: string;
+    district: string;
+  };
+  owner: TenancyParty;
+  tenant: TenancyParty;
+  overdueCount: number;
+  nextDueDate: string | null;
+}
+
+/**
+ * Shared rent ledger (GET /api/tenancies/:id). Charges are newest first.
+ */
+export interface RentLedger extends Omit<TenancySummary, "overdueCount" | "nextDueDate"> {
+  property: TenancySummary["property"] & { address: string | null };
+  charges: RentCharge[];
+  balance: {
+    charged: string;
+    paid: string;
+    outstanding: string;
+    overdueCount: number;
+  };
+  paymentProvider: string | null; // null when online payments are turned off
+}
+
+/**
+ * Due-date reminder (GET /api/rent-reminders)
+ */
+export interface RentReminder {
+  id: string;
+  kind: "due_soon" | "overdue";
+  seenAt: string | null;
+  createdAt: string;
+  charge: {
+    id: string;
+    dueDate: string;
+    amount: string;
+    tenancy: {
+      id: string;
+      property: {
+        id: string;
+        title: string;
+      };
+    };
+  };
+}
+
+/**
+ * Translation key for each charge status label
+ */
+export const CHARGE_STATUS_LABEL_KEYS: Record<RentChargeStatus, string> = {
+  paid: "chargePaid",
+  due: "chargeDue",
+  overdue: "chargeOverdue",
+};
+
+/**
+ * Translation key for each payment method label
+ */
+export const PAYMENT_METHOD_LABEL_KEYS: Record<RentPaymentMethod, string> = {
+  online: "paymentOnline",
+  bank_transfer: "paymentBankTransfer",
+  fps: "paymentFps",
+  cash: "paymentCash",
+  cheque: "paymentCheque",
+};
+
+/**
+ * Translation key for each payment status label
+ */
+export const PAYMENT_STATUS_LABEL_KEYS: Record<RentPaymentStatus, string> = {
+  pending: "paymentPending",
+  completed: "paymentCompleted",
+  failed: "paymentFailed",
+  rejected: "paymentRejected",
+};
+
+/**
+ * Translation key for each deposit status label
+ */
+export const DEPOSIT_STATUS_LABEL_KEYS: Record<DepositStatus, string> = {
+  unpaid: "depositUnpaid",
+  held: "depositHeld",
+  returned: "depositReturned",
+};
+
+/**
+ * HK$ amount keeping any cents, since partial payments need not be round
+ */
+export const formatRentAmount = (amount: string): string =>
+  `HK$${Number(amount).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+/**
+ * Lets the user pick a photo or scan of a receipt and uploads it to private
+ * storage. Returns null when the picker is cancelled.
+ */
+export const pickAndUploadReceipt = (): Promise<UploadedFile | null> =>
+  pickAndUploadPrivateFile("/api/upload/rent-receipt", "receipt", "receipt.jpg");
+
+/**
+ * Downloads the ledger as CSV text for sharing into a spreadsheet
+ */
+export const fetchLedgerCsv = async (tenancyId: string): Promise<string> => {
+  const token = await getBearerToken();
+  if (!token) {
+    throw new Error("Authentication token not found");
+  }
+
+  const response = await fetch(`${BACKEND_URL}/api/tenancies/${tenancyId}/export`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+  if (!response.ok) {
+    throw new Error(`API error: ${response.status} - ${await response.text()}`);
+  }
+  return response.text();
+};
+
+/**
+ * Number of unseen rent reminders, refreshed whenever the screen regains focus
+ */
+export const useUnseenRentReminderCount = (): number => {
+  const [unseenCount, setUnseenCount] = useState(0);
+
+  useFocusEffect(
+    useCallback(() => {
+      let cancelled = false;
+      authenticatedGet<{ count: number }>("/api/rent-reminders/unseen-count")
+        .then((data) => {
+          if (!cancelled) {
+            setUnseenCount(data.count);
+          }
+        })
+        .catch((error) => {
+          console.error("Error loading rent reminder count:", error);
+        });
+      return () => {
+        cancelled = true;
+      };
+    }, [])
+  );
+
+  return unseenCount;
+};
@@ -0,0 +1,67 @@
+import { useCallback, useState } from "react";
+import { useFocusEffect } from "expo-router";
+import { authenticatedGet } from "@/utils/api";
+import { ListingStatus } from "@/utils/listingStatus";
+
+/**
+ * Saved search (GET /api/saved-searches). `filters` holds GET /api/properties
+ * query values.
+ */
+export interface SavedSearch {
+  id: string;
+  name: string;
+  filters: Record<string, string>;
+  createdAt: string;
+  newMatchCount: number;
+}
+
+/**
+ * Newly published listing that matched a saved search (GET /api/saved-search-matches)
+ */
+export interface SavedSearchMatch {
+  id: string;
+  savedSearchId: string;
+  propertyId: string;
+  seenAt: string | null;
+  createdAt: string;
+  savedSearch: {
+    id: string;
+    name: string;
+  };
+  property: {
+    id: string;
+    title: string;
+    price: string;
+    size: number;
+    district: string;
+    photos: string[];
+    status: ListingStatus;
+  };
+}
+
+/**
+ * Number of unseen saved search matches, refreshed whenever the screen regains focus
+ */
+export const useUnseenMatchCount = (): number => {
+  const [unseenCount, setUnseenCount] = useState(0);
+
+  useFocusEffect(
+    useCallback(() => {
+      let cancelled = false;
+      authenticatedGet<{ count: number }>("/api/saved-search-matches/unseen-count")
+        .then((data) => {
+          if (!cancelled) {
+            setUnseenCount(data.count);
+          }
+        })
+        .catch((error) => {
+          console.error("Error loading saved search match count:", error);
+        });
+      return () => {
+        cancelled = true;
+      };
+    }, [])
+  );
+
+  return unseenCount;
+};
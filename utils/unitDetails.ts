@@ -0,0 +1,138 @@
+/**
+ * Which third of the building the unit is in
+ */
+export type FloorLevel = "low" | "mid" | "high";
+
+export const FLOOR_LEVELS: FloorLevel[] = ["low", "mid", "high"];
+
+/**
+ * Direction the main windows face
+ */
+export type Facing = "north" | "northeast" | "east" | "southeast" | "south" | "southwest" | "west" | "northwest";
+
+export const FACINGS: Facing[] = ["north", "northeast", "east", "southeast", "south", "southwest", "west", "northwest"];
+
+/**
+ * Translation key for each floor level label
+ */
+export const FLOOR_LEVEL_LABEL_KEYS: Record<FloorLevel, string> = {
+  low: "floorLow",
+  mid: "floorMid",
+  high: "floorHigh",
+};
+
+/**
+ * Translation key for each facing label
+ */
+export const FACING_LABEL_KEYS: Record<Facing, string> = {
+  north: "facingNorth",
+  northeast: "facingNortheast",
+  east: "facingEast",
+  southeast: "facingSoutheast",
+  south: "facingSouth",
+  southwest: "facingSouthwest",
+  west: "facingWest",
+  northwest: "facingNorthwest",
+};
+
+/**
+ * Structured unit attributes on a listing (mirrors the properties table).
+ * Null means the owner has not said. The listing's `size` is the gross area.
+ */
+export interface UnitDetails {
+  saleableArea: number | null; // sq ft
+  bedrooms: number | null; // 0 for studios
+  bathrooms: number | null;
+  floorLevel: FloorLevel | null;
+  facing: Facing | null;
+  yearBuilt: number | null;
+}
+
+/**
+ * Unit details as edited in the listing forms, with numbers as typed
+ */
+export interface UnitDetailsForm {
+  saleableArea: string;
+  bedrooms: string;
+  bathrooms: string;
+  floorLevel: FloorLevel | null;
+  facing: Facing | null;
+  yearBuilt: string;
+}
+
+export const EMPTY_UNIT_DETAILS_FORM: UnitDetailsForm = {
+  saleableArea: "",
+  bedrooms: "",
+  bathrooms: "",
+  floorLevel: null,
+  facing: null,
+  yearBuilt: "",
+};
+
+const numberToForm = (value: number | null | undefined): string => (value != null ? String(value) : "");
+
+export const unitDetailsToForm = (details: Partial<UnitDetails>): UnitDetailsForm => ({
+  saleableArea: numberToForm(details.saleableArea),
+  bedrooms: numberToForm(details.bedrooms),
+  bathrooms: numberToForm(details.bathrooms),
+  floorLevel: details.floorLevel ?? null,
+  facing: details.facing ?? null,
+  yearBuilt: numberToForm(details.yearBuilt),
+});
+
+// Limits enforced by the backend
+const MAX_BEDROOMS = 20;
+const MAX_BATHROOMS = 20;
+const EARLIEST_YEAR_BUILT = 1800;
+
+const isWholeNumberInRange = (value: string, min: number, max: number): boolean =>
+  /^\d+$/.test(value) && Number(value) >= min && Number(value) <= max;
+
+/**
+ * Whole years since the building was completed
+ */
+export const getBuildingAge = (yearBuilt: number): number => Math.max(new Date().getFullYear() - yearBuilt, 0);
+
+/**
+ * Translation key of the first problem with the form, or null when it can be
+ * submitted. `grossSize` is the listing's size as typed in the same form.
+ */
+export const validateUnitDetailsForm = (form: UnitDetailsForm, grossSize: string): string | null => {
+  const saleableArea = form.saleableArea.trim();
+  const bedrooms = form.bedrooms.trim();
+  const bathrooms = form.bathrooms.trim();
+  const yearBuilt = form.yearBuilt.trim();
+  if (saleableArea) {
+    if (!/^\d+$/.test(saleableArea) || Number(saleableArea) < 1) {
+      return "invalidSaleableArea";
+    }
+    if (Number(saleableArea) > Number(grossSize.trim())) {
+      return "saleableAreaAboveGross";
+    }
+  }
+  if (bedrooms && !isWholeNumberInRange(bedrooms, 0, MAX_BEDROOMS)) {
+    return "invalidBedrooms";
+  }
+  if (bathrooms && !isWholeNumberInRange(bathrooms, 0, MAX_BATHROOMS)) {
+    return "invalidBathrooms";
+  }
+  if (yearBuilt && !isWholeNumberInRange(yearBuilt, EARLIEST_YEAR_BUILT, new Date().getFullYear())) {
+    return "invalidYearBuilt";
+  }
+  return null;
+};
+
+const numberFromForm = (value: string): number | null => (value.trim() ? parseInt(value.trim(), 10) : null);
+
+/**
+ * Request body fields for POST and PUT /api/properties. Blank fields are sent
+ * as null so clearing them in the edit form sticks.
+ */
+export const unitDetailsFromForm = (form: UnitDetailsForm): UnitDetails => ({
+  saleableArea: numberFromForm(form.saleableArea),
+  bedrooms: numberFromForm(form.bedrooms),
+  bathrooms: numberFromForm(form.bathrooms),
+  floorLevel: form.floorLevel,
+  facing: form.facing,
+  yearBuilt: numberFromForm(form.yearBuilt),
+});
@@ -0,0 +1,82 @@
+import { Platform } from "react-native";
+import * as ImagePicker from "expo-image-picker";
+import { BACKEND_URL, getBearerToken } from "@/utils/api";
+
+/**
+ * File uploaded to private storage. Only the uploader can attach the key to
+ * their own records; it is never a public URL.
+ */
+export interface UploadedFile {
+  key: string;
+  filename: string;
+}
+
+/**
+ * Lets the user pick a photo or scan and uploads it as multipart form data
+ * under `field` to one of the private upload endpoints (e.g.
+ * /api/upload/application-document). Returns null when the picker is cancelled.
+ */
+export const pickAndUploadPrivateFile = async (
+  endpoint: string,
+  field: string,
+  fallbackFilename: string
+): Promise<UploadedFile | null> => {
+  const permissionResult = await ImagePicker.requestMediaLibraryPermissionsAsync();
+  if (!permissionResult.granted) {
+    throw new Error("Please allow access to your photo library to upload documents");
+  }
+
+  const result = await ImagePicker.launchImageLibraryAsync({
+    mediaTypes: "images",
+    quality: 0.8,
+  });
+  if (result.canceled || result.assets.length === 0) {
+    return null;
+  }
+
+  const asset = result.assets[0];
+  const filename = asset.fileName || fallbackFilename;
+  const mimeType = asset.mimeType || "image/jpeg";
+
+  const token = await getBearerToken();
+  if (!token) {
+    throw new Error("Authentication token not found");
+  }
+
+  const formData = new FormData();
+  if (Platform.OS === "web") {
+    const response = await fetch(asset.uri);
+    const blob = await response.blob();
+    formData.append(field, blob, filename);
+  } else {
+    formData.append(field, {
+      uri: asset.uri,
+      name: filename,
+      type: mimeType,
+    } as any);
+  }
+
+  console.log("Uploading private file to:", `${BACKEND_URL}${endpoint}`);
+  const uploadResponse = await fetch(`${BACKEND_URL}${endpoint}`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+    body: formData,
+  });
+
+  if (!uploadResponse.ok) {
+    const errorText = await uploadResponse.text();
+    console.error("Private file upload error response:", errorText);
+    if (uploadResponse.status === 413) {
+      throw new Error("File is too large. Maximum size is 10MB.");
+    }
+    throw new Error(`Upload failed with status ${uploadResponse.status}: ${errorText}`);
+  }
+
+  const data = await uploadResponse.json();
+  if (!data.key) {
+    throw new Error("Invalid upload response - missing storage key");
+  }
+  return { key: data.key, filename: data.filename || filename };
+};